@@ -3,24 +3,35 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { QueryClientProvider, useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "./lib/queryClient";
 import * as XLSX from "xlsx";
+import { Loader2 } from "lucide-react";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { AppSidebar } from "@/components/AppSidebar";
 import { TopBar } from "@/components/TopBar";
 import { DocumentUploadZone, type UploadData } from "@/components/DocumentUploadZone";
-import { DocumentUploadChat } from "@/components/DocumentUploadChat";
+import { DocumentUploadChat, type ActiveUploadJob } from "@/components/DocumentUploadChat";
 import { DocumentLibrary } from "@/components/DocumentLibrary";
 import { ComparisonView } from "@/components/ComparisonView";
 import { ExportModal } from "@/components/ExportModal";
 import Analytics from "@/pages/Analytics";
 import ProductBrowser from "@/pages/ProductBrowser";
+import ReviewQueue from "@/pages/ReviewQueue";
+import Users from "@/pages/Users";
+import AuditLog from "@/pages/AuditLog";
+import Trash from "@/pages/Trash";
+import AuthPage from "@/pages/AuthPage";
 import { FolderDialog } from "@/components/FolderDialog";
 import { DeleteFolderDialog } from "@/components/DeleteFolderDialog";
 import { MoveToFolderDialog } from "@/components/MoveToFolderDialog";
 import { DeleteDocumentDialog } from "@/components/DeleteDocumentDialog";
+import { FolderConsistencyDialog } from "@/components/FolderConsistencyDialog";
+import { DuplicateUploadDialog, DuplicateUploadError } from "@/components/DuplicateUploadDialog";
 import { useToast } from "@/hooks/use-toast";
-import type { Document as DocumentType, Folder as FolderType } from "@shared/schema";
+import { useExtractionSchemas } from "@/hooks/use-extraction-schemas";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import type { Document as DocumentType, DuplicateAction, DuplicateMatch, Folder as FolderType, FolderConsistencyReport, ProcessingJobProgress, ProductVariant } from "@shared/schema";
+import { nameField, sectionEntries, type ExtractionSchemaDefinition } from "@shared/extractionSchema";
 
 function formatDate(dateString: string): string {
   const date = new Date(dateString);
@@ -33,9 +44,10 @@ function formatDate(dateString: string): string {
 
 function AppContent() {
   const { toast } = useToast();
+  const { definitionFor } = useExtractionSchemas();
   
   // View states - no modals
-  const [currentView, setCurrentView] = useState<"products" | "upload" | "comparison" | "documents" | "analytics">("products");
+  const [currentView, setCurrentView] = useState<"products" | "upload" | "comparison" | "documents" | "analytics" | "review" | "users" | "audit" | "trash">("products");
   const [selectedDocumentId, setSelectedDocumentId] = useState<string | null>(null);
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
   
@@ -51,6 +63,7 @@ function AppContent() {
   const [editingFolder, setEditingFolder] = useState<FolderType | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [deletingFolder, setDeletingFolder] = useState<FolderType | null>(null);
+  const [consistencyFolder, setConsistencyFolder] = useState<FolderType | null>(null);
   
   // Document management states
   const [showMoveDialog, setShowMoveDialog] = useState(false);
@@ -58,9 +71,20 @@ function AppContent() {
   const [showDeleteDocDialog, setShowDeleteDocDialog] = useState(false);
   const [deletingDocument, setDeletingDocument] = useState<DocumentType | null>(null);
 
+  // Uploads processing in the background
+  const [activeJobs, setActiveJobs] = useState<ActiveUploadJob[]>([]);
+  const hasRunningJobs = activeJobs.some((job) => !job.finished);
+
+  // Uploads refused as duplicates, waiting for the user to pick what to do with each
+  const [duplicatePrompts, setDuplicatePrompts] = useState<
+    { duplicates: DuplicateMatch[]; retry: (action: DuplicateAction) => Promise<unknown> }[]
+  >([]);
+
   // Fetch documents
   const { data: documents = [], isLoading: isLoadingDocuments } = useQuery<DocumentType[]>({
     queryKey: ["/api/documents"],
+    // Keep the library current while uploads finish off-screen
+    refetchInterval: hasRunningJobs ? 5000 : false,
   });
 
   // Fetch folders
@@ -70,7 +94,7 @@ function AppContent() {
 
   // Upload mutation for single documents
   const uploadMutation = useMutation({
-    mutationFn: async ({ file, folderId, addToAVA }: { file: File; folderId?: string | null; addToAVA?: boolean }) => {
+    mutationFn: async ({ file, folderId, addToAVA, onDuplicate }: { file: File; folderId?: string | null; addToAVA?: boolean; onDuplicate?: DuplicateAction }) => {
       console.log("Starting upload for file:", file.name, "to folder:", folderId, "addToAVA:", addToAVA);
       const formData = new FormData();
       formData.append("file", file);
@@ -80,6 +104,9 @@ function AppContent() {
       if (addToAVA) {
         formData.append("addToAVA", "true");
       }
+      if (onDuplicate) {
+        formData.append("onDuplicate", onDuplicate);
+      }
       
       console.log("Sending POST to /api/documents/upload");
       const response = await fetch("/api/documents/upload", {
@@ -92,12 +119,17 @@ function AppContent() {
         const errorText = await response.text();
         console.error("Upload failed with error:", errorText);
         let errorMessage = "Upload failed";
+        let duplicates: DuplicateMatch[] | undefined;
         try {
           const error = JSON.parse(errorText);
           errorMessage = error.error || errorMessage;
+          duplicates = error.duplicates;
         } catch {
           errorMessage = errorText || errorMessage;
         }
+        if (response.status === 409 && duplicates) {
+          throw new DuplicateUploadError(errorMessage, duplicates);
+        }
         throw new Error(errorMessage);
       }
 
@@ -105,16 +137,17 @@ function AppContent() {
       console.log("Upload successful:", result);
       return result;
     },
-    onSuccess: () => {
+    onSuccess: (job: ProcessingJobProgress) => {
       console.log("Upload mutation onSuccess called");
-      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setActiveJobs((jobs) => [...jobs, { id: job.id, initialJob: job }]);
       toast({
-        title: "Success",
-        description: "Document processed and products extracted successfully",
+        title: "Upload received",
+        description: "Document queued for processing",
       });
     },
     onError: (error: Error) => {
+      // The duplicate dialog asks instead
+      if (error instanceof DuplicateUploadError) return;
       console.error("Upload mutation onError called:", error);
       toast({
         title: "Upload failed",
@@ -126,7 +159,7 @@ function AppContent() {
 
   // Upload mutation for document sets
   const uploadSetMutation = useMutation({
-    mutationFn: async (uploadData: UploadData) => {
+    mutationFn: async ({ onDuplicate, ...uploadData }: UploadData & { onDuplicate?: DuplicateAction }) => {
       if (uploadData.mode !== "set") {
         throw new Error("Invalid upload mode");
       }
@@ -151,6 +184,9 @@ function AppContent() {
       if (uploadData.addToAVA) {
         formData.append("addToAVA", "true");
       }
+      if (onDuplicate) {
+        formData.append("onDuplicate", onDuplicate);
+      }
 
       const response = await fetch("/api/documents/upload-set", {
         method: "POST",
@@ -161,12 +197,17 @@ function AppContent() {
         const errorText = await response.text();
         console.error("Document set upload failed:", errorText);
         let errorMessage = "Document set upload failed";
+        let duplicates: DuplicateMatch[] | undefined;
         try {
           const error = JSON.parse(errorText);
           errorMessage = error.error || errorMessage;
+          duplicates = error.duplicates;
         } catch {
           errorMessage = errorText || errorMessage;
         }
+        if (response.status === 409 && duplicates) {
+          throw new DuplicateUploadError(errorMessage, duplicates);
+        }
         throw new Error(errorMessage);
       }
 
@@ -174,18 +215,17 @@ function AppContent() {
       console.log("Document set upload successful:", result);
       return result;
     },
-    onSuccess: (data) => {
+    onSuccess: (data: { folder: FolderType; job: ProcessingJobProgress }) => {
       console.log("Document set upload mutation onSuccess called");
-      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setActiveJobs((jobs) => [...jobs, { id: data.job.id, initialJob: data.job }]);
       toast({
-        title: "Success",
-        description: `Folder "${data.folder?.name || 'documents'}" with ${data.documents.length} file(s) processed and products extracted successfully`,
+        title: "Upload received",
+        description: `Folder "${data.folder?.name || 'documents'}" with ${data.job.files.length} file(s) queued for processing`,
       });
-      setCurrentView("products");
     },
     onError: (error: Error) => {
+      if (error instanceof DuplicateUploadError) return;
       console.error("Document set upload mutation onError called:", error);
       toast({
         title: "Upload failed",
@@ -197,11 +237,12 @@ function AppContent() {
 
   // Update document mutation
   const updateDocumentMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: any }) => {
-      return await apiRequest("PATCH", `/api/documents/${id}`, { structuredData: data });
+    mutationFn: async ({ id, data, changeDescription }: { id: string; data: any; changeDescription?: string }) => {
+      return await apiRequest("PATCH", `/api/documents/${id}`, { structuredData: data, changeDescription });
     },
-    onSuccess: () => {
+    onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", id, "versions"] });
       toast({
         title: "Saved",
         description: "Changes saved successfully",
@@ -211,8 +252,8 @@ function AppContent() {
 
   // Folder mutations
   const createFolderMutation = useMutation({
-    mutationFn: async ({ name, description }: { name: string; description?: string }) => {
-      return await apiRequest("POST", "/api/folders", { name, description });
+    mutationFn: async ({ name, description, extractionSchemaKey }: { name: string; description?: string; extractionSchemaKey?: string | null }) => {
+      return await apiRequest("POST", "/api/folders", { name, description, extractionSchemaKey });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
@@ -224,8 +265,8 @@ function AppContent() {
   });
 
   const updateFolderMutation = useMutation({
-    mutationFn: async ({ id, name, description }: { id: string; name: string; description?: string }) => {
-      return await apiRequest("PATCH", `/api/folders/${id}`, { name, description });
+    mutationFn: async ({ id, name, description, extractionSchemaKey }: { id: string; name: string; description?: string; extractionSchemaKey?: string | null }) => {
+      return await apiRequest("PATCH", `/api/folders/${id}`, { name, description, extractionSchemaKey });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
@@ -243,9 +284,30 @@ function AppContent() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({
+        title: "Folder moved to trash",
+        description: "It can be restored from the Trash.",
+      });
+    },
+  });
+
+  const checkConsistencyMutation = useMutation({
+    mutationFn: async (id: string): Promise<FolderConsistencyReport> => {
+      const response = await apiRequest("POST", `/api/folders/${id}/consistency`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      // Variants with differences are now flagged for review
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+    },
+    onError: (error: Error) => {
+      setConsistencyFolder(null);
       toast({
-        title: "Folder deleted",
-        description: "The folder has been deleted.",
+        title: "Consistency check failed",
+        description: error.message,
+        variant: "destructive",
       });
     },
   });
@@ -272,26 +334,36 @@ function AppContent() {
       queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       setSelectedDocumentId(null);
       setCurrentView("products");
       toast({
-        title: "Document deleted",
-        description: "The document has been deleted successfully.",
+        title: "Document moved to trash",
+        description: "It can be restored from the Trash.",
       });
     },
   });
 
   const reprocessDocumentMutation = useMutation({
     mutationFn: async (id: string) => {
-      return await apiRequest("POST", `/api/documents/${id}/reprocess`);
+      const response = await apiRequest("POST", `/api/documents/${id}/reprocess`);
+      return (await response.json()) as DocumentType;
     },
-    onSuccess: () => {
+    onSuccess: (document) => {
       queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
-      toast({
-        title: "Reprocessing complete",
-        description: "Document has been reprocessed and products updated.",
-      });
+      const conflictCount = document.pendingReprocess?.conflicts.length ?? 0;
+      toast(
+        conflictCount > 0
+          ? {
+              title: "Reprocessing needs your input",
+              description: `${conflictCount} field${conflictCount !== 1 ? "s were" : " was"} also edited by hand. Resolve the conflicts to apply the new extraction.`,
+            }
+          : {
+              title: "Reprocessing complete",
+              description: "Document has been reprocessed and products updated. Manual edits were kept.",
+            }
+      );
     },
     onError: (error: Error) => {
       toast({
@@ -369,9 +441,10 @@ function AppContent() {
     onSuccess: (_, ids) => {
       queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
-        title: "Documents deleted",
-        description: `${ids.length} document(s) deleted successfully.`,
+        title: "Documents moved to trash",
+        description: `${ids.length} document(s) can be restored from the Trash.`,
       });
     },
   });
@@ -419,12 +492,28 @@ function AppContent() {
           folderId: selectedFolderId
         });
       } catch (error) {
+        const folderId = selectedFolderId;
+        if (askAboutDuplicates(error, (onDuplicate) => uploadMutation.mutateAsync({ file, folderId, onDuplicate }))) continue;
         console.error("Error in handleUpload:", error);
         // Error toast is already shown by onError callback
       }
     }
   };
 
+  // Queue a duplicate prompt for a refused upload; false if the error was something else
+  const askAboutDuplicates = (error: unknown, retry: (action: DuplicateAction) => Promise<unknown>) => {
+    if (!(error instanceof DuplicateUploadError)) return false;
+    setDuplicatePrompts((prompts) => [...prompts, { duplicates: error.duplicates, retry }]);
+    return true;
+  };
+
+  const handleDuplicateChoice = (action: DuplicateAction) => {
+    const [prompt] = duplicatePrompts;
+    setDuplicatePrompts((prompts) => prompts.slice(1));
+    // Failures are toasted by the mutation's onError
+    prompt?.retry(action).catch((error) => console.error("Error retrying duplicate upload:", error));
+  };
+
   const handleUploadReady = async (uploadData: UploadData) => {
     if (uploadData.mode === "set") {
       const avaNote = uploadData.addToAVA ? " (will be added to AVA knowledge base)" : "";
@@ -441,6 +530,7 @@ function AppContent() {
       try {
         await uploadSetMutation.mutateAsync(uploadData);
       } catch (error) {
+        if (askAboutDuplicates(error, (onDuplicate) => uploadSetMutation.mutateAsync({ ...uploadData, onDuplicate }))) return;
         console.error("Error in handleUploadReady:", error);
         // Error toast is already shown by onError callback
       }
@@ -465,6 +555,9 @@ function AppContent() {
             addToAVA: uploadData.addToAVA
           });
         } catch (error) {
+          const retry = (onDuplicate: DuplicateAction) =>
+            uploadMutation.mutateAsync({ file, folderId: uploadData.folderId, addToAVA: uploadData.addToAVA, onDuplicate });
+          if (askAboutDuplicates(error, retry)) continue;
           console.error("Error in handleUploadReady:", error);
           // Error toast is already shown by onError callback
         }
@@ -472,6 +565,48 @@ function AppContent() {
     }
   };
 
+  const handleJobFinished = (job: ProcessingJobProgress) => {
+    // Progress cards re-report finished jobs when the upload view remounts
+    if (activeJobs.find((j) => j.id === job.id)?.finished) return;
+    setActiveJobs((jobs) => jobs.map((j) => (j.id === job.id ? { ...j, finished: true } : j)));
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+
+    const failed = job.files.filter((f) => f.status === "failed").length;
+    const held = job.files.filter((f) => f.status === "duplicate").length;
+    if (held > 0) {
+      toast({
+        title: "Possible duplicates",
+        description: `${held} file(s) match documents already uploaded; choose what to do with them under Processing`,
+      });
+    } else if (job.status === "failed") {
+      toast({
+        title: "Processing failed",
+        description: `None of the ${job.files.length} file(s) could be processed`,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Success",
+        description: failed > 0
+          ? `${job.files.length - failed} of ${job.files.length} file(s) processed; ${failed} failed`
+          : "Document processed and products extracted successfully",
+      });
+    }
+  };
+
+  // A held duplicate was resolved: the job runs again, so follow it anew
+  const handleJobResumed = (job: ProcessingJobProgress) => {
+    setActiveJobs((jobs) =>
+      jobs.map((j) => (j.id === job.id ? { ...j, initialJob: job, finished: false, run: (j.run ?? 0) + 1 } : j))
+    );
+  };
+
+  const handleDismissJob = (jobId: string) => {
+    setActiveJobs((jobs) => jobs.filter((j) => j.id !== jobId));
+  };
+
   const handleDocumentClick = (id: string) => {
     const doc = documents.find((d) => d.id === id);
     if (doc && doc.isProcessed) {
@@ -496,10 +631,24 @@ function AppContent() {
       
       const folderDocuments: DocumentType[] = await response.json();
       
-      // Extract the product from each document using ProductName matching within the specific section
+      // The product entry's variants in every document, when it has been linked across locales
+      const entryIndex = parseInt(productId.split("-").pop() || "", 10);
+      const documentVariants: ProductVariant[] = await fetch(`/api/documents/${documentId}/product-variants`)
+        .then((res) => (res.ok ? res.json() : []));
+      const entryVariant = documentVariants.find((v) => v.copyType === section && v.position === entryIndex);
+      const linkedVariants: ProductVariant[] = entryVariant
+        ? await fetch(`/api/products/${entryVariant.productId}`)
+            .then((res) => (res.ok ? res.json() : { variants: [] }))
+            .then((product) => product.variants)
+        : [];
+      
+      // Extract the product from each document within the specific section
       // Use the explicit section parameter to prevent cross-section collisions
       const productsByLocale: Record<string, any> = {};
       const missingLocales: string[] = [];
+      const sourceDocument = folderDocuments.find((doc) => doc.id === documentId);
+      const definition = definitionFor(sourceDocument?.extractionSchemaId);
+      const productNameField = nameField(definition)?.name;
       
       folderDocuments.forEach((doc) => {
         if (!doc.structuredData || !doc.language) return;
@@ -508,10 +657,13 @@ function AppContent() {
         const sectionData = data[section];
         
         if (Array.isArray(sectionData)) {
-          // Match by ProductName (case-insensitive, trimmed) instead of index
-          const matchingProduct = sectionData.find(
-            (p: any) => p.ProductName?.trim().toLowerCase() === productName.trim().toLowerCase()
-          );
+          // Localized names differ, so prefer the linked variant; fall back to matching by name
+          const linked = linkedVariants.find((v) => v.documentId === doc.id && v.copyType === section);
+          const matchingProduct = linked && linked.position !== null
+            ? sectionEntries(data, section)[linked.position]
+            : productNameField && sectionData.find(
+                (p: any) => p[productNameField]?.trim().toLowerCase() === productName.trim().toLowerCase()
+              );
           
           if (matchingProduct) {
             productsByLocale[doc.language] = {
@@ -540,6 +692,7 @@ function AppContent() {
       setExportProductData({
         productName,
         section, // Explicit section parameter prevents cross-section collisions
+        definition,
         locales: productsByLocale,
       });
       setExportMode("product");
@@ -577,20 +730,8 @@ function AppContent() {
         rows.push(["Export Date", new Date().toLocaleDateString()]);
         rows.push([]); // Spacing
         
-        // Determine max array lengths across all locales for proper expansion
-        let maxHeadlines = 0;
-        let maxFeatureBullets = 0;
-        let maxLegalReferences = 0;
-        
-        locales.forEach((locale) => {
-          const localeData = exportProductData.locales[locale];
-          if (localeData?.product) {
-            const p = localeData.product;
-            maxHeadlines = Math.max(maxHeadlines, Array.isArray(p.Headlines) ? p.Headlines.length : 0);
-            maxFeatureBullets = Math.max(maxFeatureBullets, Array.isArray(p.KeyFeatureBullets) ? p.KeyFeatureBullets.length : 0);
-            maxLegalReferences = Math.max(maxLegalReferences, Array.isArray(p.LegalReferences) ? p.LegalReferences.length : 0);
-          }
-        });
+        const definition: ExtractionSchemaDefinition = exportProductData.definition;
+        const localeProducts = locales.map((locale) => exportProductData.locales[locale]?.product).filter(Boolean);
         
         // Header row: Field | Locale1 ★ | Locale2 | ...
         const headerRow = ["Field"];
@@ -617,41 +758,24 @@ function AppContent() {
           rows.push(row);
         };
         
-        // ProductName row
-        buildRow("ProductName", (locale) => {
-          const localeData = exportProductData.locales[locale];
-          return localeData?.product?.ProductName || "";
-        });
-        
-        // Headlines (expanded rows)
-        for (let i = 0; i < maxHeadlines; i++) {
-          buildRow(`Headline ${i + 1}`, (locale) => {
-            const headlines = exportProductData.locales[locale]?.product?.Headlines;
-            return Array.isArray(headlines) && headlines[i] ? headlines[i] : "";
-          });
-        }
-        
-        // AdvertisingCopy row
-        buildRow("AdvertisingCopy", (locale) => {
-          return exportProductData.locales[locale]?.product?.AdvertisingCopy || "";
+        definition.fields.forEach((field) => {
+          if (field.type === "string") {
+            buildRow(field.name, (locale) => exportProductData.locales[locale]?.product?.[field.name] || "");
+            return;
+          }
+          // List fields are expanded to one row per item, as many as the longest locale has
+          const maxItems = Math.max(
+            0,
+            ...localeProducts.map((p: any) => (Array.isArray(p[field.name]) ? p[field.name].length : 0))
+          );
+          for (let i = 0; i < maxItems; i++) {
+            buildRow(`${field.label} ${i + 1}`, (locale) => {
+              const items = exportProductData.locales[locale]?.product?.[field.name];
+              return Array.isArray(items) && items[i] ? items[i] : "";
+            });
+          }
         });
         
-        // KeyFeatureBullets (expanded rows)
-        for (let i = 0; i < maxFeatureBullets; i++) {
-          buildRow(`Feature Bullet ${i + 1}`, (locale) => {
-            const bullets = exportProductData.locales[locale]?.product?.KeyFeatureBullets;
-            return Array.isArray(bullets) && bullets[i] ? bullets[i] : "";
-          });
-        }
-        
-        // LegalReferences (expanded rows)
-        for (let i = 0; i < maxLegalReferences; i++) {
-          buildRow(`Legal Reference ${i + 1}`, (locale) => {
-            const legal = exportProductData.locales[locale]?.product?.LegalReferences;
-            return Array.isArray(legal) && legal[i] ? legal[i] : "";
-          });
-        }
-        
         const sheet = XLSX.utils.aoa_to_sheet(rows);
         
         // Set column widths: narrow Field column, wide locale columns
@@ -703,23 +827,14 @@ function AppContent() {
       // Export to Excel with template
       const wb = XLSX.utils.book_new();
       const data = exportingDocument.structuredData as any || {};
+      const definition = definitionFor(exportingDocument.extractionSchemaId);
       
       // Use default config if not provided
       const config = {
         includeSummary: templateConfig.includeSummary !== false,
         includeRawJSON: templateConfig.includeRawJSON !== false,
-        copyTypes: templateConfig.copyTypes || {
-          ProductCopy: true,
-          BusinessCopy: true,
-          UpgraderCopy: true,
-        },
-        fields: templateConfig.fields || {
-          ProductName: true,
-          Headlines: true,
-          AdvertisingCopy: true,
-          KeyFeatureBullets: true,
-          LegalReferences: true,
-        },
+        copyTypes: templateConfig.copyTypes || Object.fromEntries(definition.sections.map((section) => [section.name, true])),
+        fields: templateConfig.fields || Object.fromEntries(definition.fields.map((field) => [field.name, true])),
       };
 
       // Create a summary sheet if enabled
@@ -731,9 +846,10 @@ function AppContent() {
           ["Extracted Date", new Date().toLocaleDateString()],
           [],
           ["Data Overview"],
-          ["ProductCopy Count", Array.isArray(data.ProductCopy) ? data.ProductCopy.length : 0],
-          ["BusinessCopy Count", Array.isArray(data.BusinessCopy) ? data.BusinessCopy.length : 0],
-          ["UpgraderCopy Count", Array.isArray(data.UpgraderCopy) ? data.UpgraderCopy.length : 0],
+          ...definition.sections.map((section) => [
+            `${section.name} Count`,
+            Array.isArray(data[section.name]) ? data[section.name].length : 0,
+          ]),
         ];
         const summarySheet = XLSX.utils.aoa_to_sheet(summary);
         summarySheet["!cols"] = [{ wch: 20 }, { wch: 40 }];
@@ -747,22 +863,19 @@ function AppContent() {
         const headers: string[] = [];
         const widths: Array<{ wch: number }> = [];
         
-        if (config.fields.ProductName) { headers.push("ProductName"); widths.push({ wch: 20 }); }
-        if (config.fields.Headlines) { headers.push("Headlines"); widths.push({ wch: 30 }); }
-        if (config.fields.AdvertisingCopy) { headers.push("AdvertisingCopy"); widths.push({ wch: 40 }); }
-        if (config.fields.KeyFeatureBullets) { headers.push("KeyFeatureBullets"); widths.push({ wch: 40 }); }
-        if (config.fields.LegalReferences) { headers.push("LegalReferences"); widths.push({ wch: 40 }); }
+        const columns = definition.fields.filter((field) => config.fields[field.name]);
+        columns.forEach((field) => {
+          headers.push(field.name);
+          widths.push({ wch: field.role === "name" ? 20 : 40 });
+        });
         
         const rows: any[] = [headers];
         
         items.forEach((item) => {
-          const row: any[] = [];
-          if (config.fields.ProductName) row.push(item.ProductName || "");
-          if (config.fields.Headlines) row.push(Array.isArray(item.Headlines) ? item.Headlines.join("; ") : "");
-          if (config.fields.AdvertisingCopy) row.push(item.AdvertisingCopy || "");
-          if (config.fields.KeyFeatureBullets) row.push(Array.isArray(item.KeyFeatureBullets) ? item.KeyFeatureBullets.join("; ") : "");
-          if (config.fields.LegalReferences) row.push(Array.isArray(item.LegalReferences) ? item.LegalReferences.join("; ") : "");
-          rows.push(row);
+          rows.push(columns.map((field) => {
+            const value = item[field.name];
+            return Array.isArray(value) ? value.join("; ") : value || "";
+          }));
         });
         
         const sheet = XLSX.utils.aoa_to_sheet(rows);
@@ -770,9 +883,9 @@ function AppContent() {
         XLSX.utils.book_append_sheet(wb, sheet, copyType);
       };
 
-      if (config.copyTypes.ProductCopy && data.ProductCopy) createCopySheet("ProductCopy", data.ProductCopy);
-      if (config.copyTypes.BusinessCopy && data.BusinessCopy) createCopySheet("BusinessCopy", data.BusinessCopy);
-      if (config.copyTypes.UpgraderCopy && data.UpgraderCopy) createCopySheet("UpgraderCopy", data.UpgraderCopy);
+      definition.sections.forEach((section) => {
+        if (config.copyTypes[section.name] && data[section.name]) createCopySheet(section.name, data[section.name]);
+      });
 
       // Create raw JSON sheet if enabled
       if (config.includeRawJSON) {
@@ -815,11 +928,16 @@ function AppContent() {
     setShowDeleteDialog(true);
   };
 
-  const handleFolderSubmit = (name: string, description?: string, parentFolderId?: string | null) => {
+  const handleCheckFolderConsistency = (folder: FolderType) => {
+    setConsistencyFolder(folder);
+    checkConsistencyMutation.mutate(folder.id);
+  };
+
+  const handleFolderSubmit = (name: string, description?: string, parentFolderId?: string | null, extractionSchemaKey?: string | null) => {
     if (folderDialogMode === "create") {
-      createFolderMutation.mutate({ name, description });
+      createFolderMutation.mutate({ name, description, extractionSchemaKey });
     } else if (editingFolder) {
-      updateFolderMutation.mutate({ id: editingFolder.id, name, description });
+      updateFolderMutation.mutate({ id: editingFolder.id, name, description, extractionSchemaKey });
     }
   };
 
@@ -842,6 +960,10 @@ function AppContent() {
       setCurrentView("upload");
     } else if (view === "analytics") {
       setCurrentView("analytics");
+    } else if (view === "review") {
+      setCurrentView("review");
+    } else if (view === "trash") {
+      setCurrentView("trash");
     } else if (view === "all-documents") {
       setSelectedFolderId(null);
       setCurrentView("documents");
@@ -997,6 +1119,7 @@ function AppContent() {
             onDocumentClick={handleDocumentClick}
             onEditFolder={handleEditFolder}
             onDeleteFolder={handleDeleteFolder}
+            onCheckFolderConsistency={handleCheckFolderConsistency}
             onMoveDocument={handleMoveDocument}
             onDeleteDocument={handleDeleteDocument}
           />
@@ -1011,6 +1134,8 @@ function AppContent() {
                   description: "OpenAI API key is configured via environment variables",
                 });
               }}
+              onManageUsers={() => setCurrentView("users")}
+              onShowAuditLog={() => setCurrentView("audit")}
               hasApiKey={true}
             />
             <main className="flex-1 relative overflow-hidden">
@@ -1031,6 +1156,10 @@ function AppContent() {
                     selectedFolderId={selectedFolderId}
                     onFolderChange={setSelectedFolderId}
                     onCreateFolder={handleCreateFolderFromUpload}
+                    jobs={activeJobs}
+                    onJobFinished={handleJobFinished}
+                    onJobResumed={handleJobResumed}
+                    onJobDismiss={handleDismissJob}
                   />
                 </div>
               )}
@@ -1049,9 +1178,20 @@ function AppContent() {
                     }
                     language={selectedDocument.language}
                     fileType={selectedDocument.fileType}
+                    ocrPages={selectedDocument.ocrPages}
+                    sourceSpans={selectedDocument.sourceSpans}
+                    extractionSchema={definitionFor(selectedDocument.extractionSchemaId)}
                     validationConfidence={selectedDocument.validationConfidence}
                     validationIssues={selectedDocument.validationIssues}
+                    consistencyIssues={selectedDocument.consistencyIssues}
                     needsReview={selectedDocument.needsReview}
+                    review={{
+                      reviewStatus: selectedDocument.reviewStatus,
+                      assignee: selectedDocument.assignee,
+                      dueDate: selectedDocument.dueDate,
+                      reviewNotes: selectedDocument.reviewNotes,
+                    }}
+                    pendingReprocess={selectedDocument.pendingReprocess}
                     isProcessing={reprocessDocumentMutation.isPending}
                     isTranslating={translateDocumentMutation.isPending}
                     isValidating={validateDocumentMutation.isPending}
@@ -1061,20 +1201,24 @@ function AppContent() {
                     onExportProduct={(productId, productName, section) => {
                       handleExportProduct(selectedDocument.id, productId, productName, section);
                     }}
-                    onSave={(newData) => {
+                    onSave={async (newData, changeDescription) => {
+                      // Schema errors are shown in the editor; JSON syntax errors never reach the server
+                      let parsedData: unknown;
                       try {
-                        const parsedData = JSON.parse(newData);
-                        updateDocumentMutation.mutate({
-                          id: selectedDocument.id,
-                          data: parsedData,
-                        });
+                        parsedData = JSON.parse(newData);
                       } catch (error) {
                         toast({
                           title: "Invalid JSON",
                           description: "Please check your JSON syntax and try again.",
                           variant: "destructive",
                         });
+                        throw error;
                       }
+                      await updateDocumentMutation.mutateAsync({
+                        id: selectedDocument.id,
+                        data: parsedData,
+                        changeDescription,
+                      });
                     }}
                     onReprocess={() => {
                       if (selectedDocument.id) {
@@ -1115,6 +1259,30 @@ function AppContent() {
                 </div>
               )}
               
+              {currentView === "review" && (
+                <div className="h-full overflow-auto">
+                  <ReviewQueue onDocumentClick={handleDocumentClick} />
+                </div>
+              )}
+
+              {currentView === "users" && (
+                <div className="h-full overflow-auto">
+                  <Users />
+                </div>
+              )}
+
+              {currentView === "audit" && (
+                <div className="h-full overflow-auto">
+                  <AuditLog />
+                </div>
+              )}
+
+              {currentView === "trash" && (
+                <div className="h-full overflow-auto">
+                  <Trash />
+                </div>
+              )}
+
               {currentView === "analytics" && (
                 <div className="h-full overflow-auto">
                   <Analytics />
@@ -1142,6 +1310,11 @@ function AppContent() {
             }
             exportMode={exportMode}
             productData={exportMode === "product" ? exportProductData : undefined}
+            extractionSchema={
+              exportMode === "document"
+                ? definitionFor(exportingDocument?.extractionSchemaId)
+                : exportProductData?.definition
+            }
           />
         )}
 
@@ -1152,6 +1325,7 @@ function AppContent() {
           initialName={editingFolder?.name || ""}
           initialDescription={editingFolder?.description || ""}
           initialParentFolderId={editingFolder?.parentFolderId || null}
+          initialExtractionSchemaKey={editingFolder?.extractionSchemaKey || null}
           mode={folderDialogMode}
           folders={folders}
         />
@@ -1171,6 +1345,17 @@ function AppContent() {
           }
         />
 
+        <FolderConsistencyDialog
+          open={consistencyFolder !== null}
+          onClose={() => {
+            setConsistencyFolder(null);
+            checkConsistencyMutation.reset();
+          }}
+          folderName={consistencyFolder?.name || ""}
+          report={checkConsistencyMutation.data ?? null}
+          isChecking={checkConsistencyMutation.isPending}
+        />
+
         <MoveToFolderDialog
           open={showMoveDialog}
           onClose={() => {
@@ -1193,16 +1378,45 @@ function AppContent() {
           documentName={deletingDocument?.name || ""}
         />
 
+        <DuplicateUploadDialog
+          duplicates={duplicatePrompts[0]?.duplicates ?? null}
+          onClose={() => setDuplicatePrompts((prompts) => prompts.slice(1))}
+          onChoose={handleDuplicateChoice}
+        />
+
         <Toaster />
       </SidebarProvider>
     </TooltipProvider>
   );
 }
 
+// Everything but the login page needs a signed-in user
+function AuthGate() {
+  const { user, isLoading } = useAuth();
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (!user) {
+    return (
+      <>
+        <AuthPage />
+        <Toaster />
+      </>
+    );
+  }
+  return <AppContent />;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <AppContent />
+      <AuthProvider>
+        <AuthGate />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
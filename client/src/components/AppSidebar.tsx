@@ -18,7 +18,7 @@ import {
   ContextMenuTrigger,
 } from "@/components/ui/context-menu";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { FileText, FolderOpen, Plus, CheckCircle2, Pencil, Trash2, Library, BarChart3, ChevronRight, Languages, Star, Package, ArrowUpDown, Folder } from "lucide-react";
+import { FileText, FolderOpen, Plus, CheckCircle2, Pencil, Trash2, Library, BarChart3, ChevronRight, Languages, Star, Package, ArrowUpDown, Folder, ListChecks, ClipboardCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
@@ -54,6 +54,7 @@ interface AppSidebarProps {
   onDocumentClick: (documentId: string) => void;
   onEditFolder: (folder: Folder) => void;
   onDeleteFolder: (folder: Folder) => void;
+  onCheckFolderConsistency: (folder: Folder) => void;
   onMoveDocument: (document: DocumentType) => void;
   onDeleteDocument: (document: DocumentType) => void;
 }
@@ -69,6 +70,7 @@ export function AppSidebar({
   onDocumentClick,
   onEditFolder,
   onDeleteFolder,
+  onCheckFolderConsistency,
   onMoveDocument,
   onDeleteDocument,
 }: AppSidebarProps) {
@@ -81,7 +83,9 @@ export function AppSidebar({
   const mainItems = [
     { id: "products", title: "Products", icon: Package },
     { id: "upload", title: "Structured Output", icon: FileText },
+    { id: "review", title: "Review Queue", icon: ClipboardCheck },
     { id: "analytics", title: "Analytics", icon: BarChart3 },
+    { id: "trash", title: "Trash", icon: Trash2 },
   ];
 
   // Move folder mutation
@@ -259,6 +263,13 @@ export function AppSidebar({
                     <Pencil className="mr-2 h-4 w-4" />
                     Rename
                   </ContextMenuItem>
+                  <ContextMenuItem
+                    onClick={() => onCheckFolderConsistency(folder)}
+                    data-testid={`button-check-consistency-${folder.id}`}
+                  >
+                    <ListChecks className="mr-2 h-4 w-4" />
+                    Check consistency
+                  </ContextMenuItem>
                   <ContextMenuItem
                     onClick={() => onDeleteFolder(folder)}
                     data-testid={`button-delete-folder-${folder.id}`}
@@ -360,6 +371,13 @@ export function AppSidebar({
                   <Pencil className="mr-2 h-4 w-4" />
                   Rename
                 </ContextMenuItem>
+                <ContextMenuItem
+                  onClick={() => onCheckFolderConsistency(folder)}
+                  data-testid={`button-check-consistency-${folder.id}`}
+                >
+                  <ListChecks className="mr-2 h-4 w-4" />
+                  Check consistency
+                </ContextMenuItem>
                 <ContextMenuItem
                   onClick={() => onDeleteFolder(folder)}
                   data-testid={`button-delete-folder-${folder.id}`}
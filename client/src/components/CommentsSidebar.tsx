@@ -0,0 +1,249 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CheckCircle2, MessageSquare, RotateCcw, Unlink, X } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, useUserNames } from "@/hooks/use-auth";
+import type { CommentThreadWithComments } from "@shared/schema";
+
+// Where a new thread will be attached
+export interface CommentDraft {
+  path: string;
+  spanStart?: number;
+  spanEnd?: number;
+  quotedText?: string;
+}
+
+interface CommentsSidebarProps {
+  documentId: string;
+  threads: CommentThreadWithComments[];
+  draft: CommentDraft | null;
+  onDraftDone: () => void;
+  focusedThreadId: string | null;
+  onSelectThread: (thread: CommentThreadWithComments) => void;
+  onClose: () => void;
+}
+
+function formatTime(value: string | Date): string {
+  return new Date(value).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+export function CommentsSidebar({
+  documentId,
+  threads,
+  draft,
+  onDraftDone,
+  focusedThreadId,
+  onSelectThread,
+  onClose,
+}: CommentsSidebarProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canComment = can("editor");
+  const userName = useUserNames();
+  const [filter, setFilter] = useState<"open" | "resolved">("open");
+  const [draftBody, setDraftBody] = useState("");
+  const [replies, setReplies] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setDraftBody("");
+  }, [draft]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/documents", documentId, "comments"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Comment failed", description: error.message, variant: "destructive" });
+  };
+
+  const createThreadMutation = useMutation({
+    mutationFn: async ({ draft, body }: { draft: CommentDraft; body: string }) => {
+      return await apiRequest("POST", `/api/documents/${documentId}/comments`, {
+        path: draft.path,
+        body,
+        spanStart: draft.spanStart,
+        spanEnd: draft.spanEnd,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setFilter("open");
+      onDraftDone();
+    },
+    onError,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ threadId, body }: { threadId: string; body: string }) => {
+      return await apiRequest("POST", `/api/comment-threads/${threadId}/comments`, { body });
+    },
+    onSuccess: (_, { threadId }) => {
+      invalidate();
+      setReplies((prev) => ({ ...prev, [threadId]: "" }));
+    },
+    onError,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ threadId, resolved }: { threadId: string; resolved: boolean }) => {
+      return await apiRequest("PATCH", `/api/comment-threads/${threadId}`, { resolved });
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const openCount = threads.filter((thread) => !thread.resolved).length;
+  const visible = threads.filter((thread) => thread.resolved === (filter === "resolved"));
+
+  return (
+    <div className="flex flex-col border-l min-h-0 bg-muted/10" data-testid="panel-comments">
+      <div className="border-b bg-muted/30 px-4 py-3 flex-shrink-0">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <MessageSquare className="h-4 w-4 text-muted-foreground" />
+            <h3 className="font-medium text-sm">Comments</h3>
+          </div>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} data-testid="button-close-comments">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as "open" | "resolved")} className="mt-2">
+          <TabsList className="h-8">
+            <TabsTrigger value="open" className="text-xs" data-testid="tab-comments-open">
+              Open ({openCount})
+            </TabsTrigger>
+            <TabsTrigger value="resolved" className="text-xs" data-testid="tab-comments-resolved">
+              Resolved ({threads.length - openCount})
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto p-4 space-y-3">
+        {draft && canComment && (
+          <div className="rounded-lg border border-primary/40 bg-background p-3 space-y-2" data-testid="form-new-thread">
+            <p className="font-mono text-xs text-muted-foreground">{draft.path}</p>
+            {draft.quotedText && (
+              <blockquote className="border-l-2 pl-2 text-xs italic text-muted-foreground line-clamp-3">
+                {draft.quotedText}
+              </blockquote>
+            )}
+            <Textarea
+              value={draftBody}
+              onChange={(e) => setDraftBody(e.target.value)}
+              placeholder="Start a discussion..."
+              className="text-sm"
+              autoFocus
+              data-testid="input-new-thread"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={onDraftDone} data-testid="button-cancel-thread">
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                disabled={!draftBody.trim() || createThreadMutation.isPending}
+                onClick={() => createThreadMutation.mutate({ draft, body: draftBody.trim() })}
+                data-testid="button-create-thread"
+              >
+                Comment
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {visible.length === 0 && !draft && (
+          <p className="text-xs text-muted-foreground text-center py-8">
+            {filter === "open"
+              ? canComment
+                ? "No open threads. Hover a field in the JSON panel to start one."
+                : "No open threads."
+              : "No resolved threads."}
+          </p>
+        )}
+
+        {visible.map((thread) => (
+          <div
+            key={thread.id}
+            className={`rounded-lg border bg-background p-3 space-y-2 ${
+              focusedThreadId === thread.id ? "ring-2 ring-primary/40" : ""
+            }`}
+            data-testid={`thread-${thread.id}`}
+          >
+            <div className="flex items-center gap-2">
+              <button
+                className="font-mono text-xs text-primary hover:underline truncate text-left flex-1"
+                onClick={() => onSelectThread(thread)}
+                data-testid={`button-thread-path-${thread.id}`}
+              >
+                {thread.path}
+              </button>
+              {thread.orphaned && (
+                <Badge
+                  variant="outline"
+                  className="gap-1 text-[10px] border-amber-300 text-amber-600"
+                  title="The field this thread was on no longer exists after reprocessing"
+                >
+                  <Unlink className="h-3 w-3" />
+                  Detached
+                </Badge>
+              )}
+              {canComment && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title={thread.resolved ? "Reopen" : "Resolve"}
+                  onClick={() => resolveMutation.mutate({ threadId: thread.id, resolved: !thread.resolved })}
+                  data-testid={`button-resolve-thread-${thread.id}`}
+                >
+                  {thread.resolved ? <RotateCcw className="h-3.5 w-3.5" /> : <CheckCircle2 className="h-3.5 w-3.5" />}
+                </Button>
+              )}
+            </div>
+            {thread.quotedText && (
+              <blockquote className="border-l-2 pl-2 text-xs italic text-muted-foreground line-clamp-3">
+                {thread.quotedText}
+              </blockquote>
+            )}
+            <ul className="space-y-2">
+              {thread.comments.map((comment) => (
+                <li key={comment.id} className="text-sm">
+                  <p className="whitespace-pre-wrap">{comment.body}</p>
+                  <p className="text-[10px] text-muted-foreground mt-0.5">
+                    {userName(comment.createdBy) ?? "Unknown"} · {formatTime(comment.createdAt)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+            {!thread.resolved && canComment && (
+              <div className="flex gap-2">
+                <Textarea
+                  value={replies[thread.id] || ""}
+                  onChange={(e) => setReplies((prev) => ({ ...prev, [thread.id]: e.target.value }))}
+                  placeholder="Reply..."
+                  className="min-h-[36px] text-xs"
+                  data-testid={`input-reply-${thread.id}`}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!replies[thread.id]?.trim() || replyMutation.isPending}
+                  onClick={() => replyMutation.mutate({ threadId: thread.id, body: replies[thread.id].trim() })}
+                  data-testid={`button-reply-${thread.id}`}
+                >
+                  Reply
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
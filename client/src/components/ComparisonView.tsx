@@ -6,10 +6,16 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft, Copy, Download, Edit, Loader2, RefreshCw, Languages, Search, ChevronUp, ChevronDown, X, AlertTriangle, CheckCircle, Shield, Clock, FileText, Eye } from "lucide-react";
+import { ArrowLeft, Copy, Download, Edit, Loader2, RefreshCw, Languages, Search, ChevronUp, ChevronDown, X, AlertTriangle, CheckCircle, Shield, Clock, FileText, Eye, ScanText, Lock, MessageSquare, MessageSquarePlus, GitMerge } from "lucide-react";
 import Editor from "@monaco-editor/react";
 import { useToast } from "@/hooks/use-toast";
 import { VersionHistory } from "@/components/VersionHistory";
+import { ReviewControls } from "@/components/ReviewControls";
+import { CommentsSidebar, type CommentDraft } from "@/components/CommentsSidebar";
+import { ReprocessConflictsDialog } from "@/components/ReprocessConflictsDialog";
+import { useAuth } from "@/hooks/use-auth";
+import type { CommentThreadWithComments, PendingReprocess, SourceSpans } from "@shared/schema";
+import { DEFAULT_EXTRACTION_SCHEMA_DEFINITION, entryName, type ExtractionSchemaDefinition, type StructuredDataIssue } from "@shared/extractionSchema";
 
 interface ComparisonViewProps {
   documentId: string;
@@ -17,11 +23,23 @@ interface ComparisonViewProps {
   extractedText: string;
   translatedText?: string | null;
   structuredData: string;
+  sourceSpans?: SourceSpans | null;
+  extractionSchema?: ExtractionSchemaDefinition;
   language?: string | null;
   fileType?: string | null;
+  ocrPages?: number[] | null;
   validationConfidence?: number | null;
   validationIssues?: string[] | null;
+  consistencyIssues?: string[] | null;
   needsReview?: boolean;
+  review?: {
+    reviewStatus: string;
+    assignee?: string | null;
+    dueDate?: string | Date | null;
+    reviewNotes?: string | null;
+  };
+  // A reprocess waiting for its conflicts with manual edits to be resolved
+  pendingReprocess?: PendingReprocess | null;
   isProcessing?: boolean;
   isTranslating?: boolean;
   isValidating?: boolean;
@@ -29,12 +47,25 @@ interface ComparisonViewProps {
   onBack: () => void;
   onExport: () => void;
   onExportProduct?: (productId: string, productName: string, section: string) => void;
-  onSave?: (newData: string) => void;
+  // Rejects when the edit is not saved; schema problems come back as field-level issues
+  onSave?: (newData: string, changeDescription?: string) => Promise<void>;
   onReprocess?: () => void;
   onTranslate?: () => void;
   onValidate?: () => void;
 }
 
+// apiRequest errors read "400: {"error":"...","issues":[...]}"
+function saveErrorIssues(error: unknown): StructuredDataIssue[] {
+  const text = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(text.replace(/^\d+:\s*/, ""));
+    if (Array.isArray(body.issues)) return body.issues;
+    return body.error ? [{ path: "", message: body.error }] : [];
+  } catch {
+    return [{ path: "", message: text }];
+  }
+}
+
 interface DocumentPreview {
   type: "html" | "pdf";
   content?: string;
@@ -43,10 +74,10 @@ interface DocumentPreview {
 }
 
 interface TextSegment {
-  text: string;
   start: number;
   end: number;
-  field?: string;
+  field: string;
+  page: number | null;
 }
 
 // Helper: Find all match positions in a string
@@ -63,18 +94,57 @@ function findMatches(text: string, query: string): number[] {
   return matches;
 }
 
+// Helper: JSON path (as used by sourceSpans) of the field on each line of
+// JSON.stringify(data, null, 2); productIndex maps a displayed product to its real index
+function jsonLineFields(lines: string[], productIndex: (section: string, index: number) => number): (string | null)[] {
+  let section: string | null = null;
+  let product = -1;
+  let arrayField: string | null = null;
+  let item = -1;
+
+  return lines.map((line) => {
+    const indent = line.length - line.trimStart().length;
+    const key = /^\s*"([^"]+)":/.exec(line)?.[1];
+
+    if (indent === 2 && key) {
+      section = key;
+      product = -1;
+      return null;
+    }
+    if (indent === 4 && line.trim().startsWith("{")) {
+      product++;
+      return null;
+    }
+    if (!section || product < 0) return null;
+
+    const base = `${section}[${productIndex(section, product)}]`;
+    if (indent === 6 && key) {
+      arrayField = line.trimEnd().endsWith("[") ? key : null;
+      item = -1;
+      return arrayField ? null : `${base}.${key}`;
+    }
+    if (indent === 8 && arrayField) {
+      item++;
+      return `${base}.${arrayField}[${item}]`;
+    }
+    return null;
+  });
+}
+
 // Helper: Extract products from a section array
 function extractProductsFromSection(
   section: any[] | undefined,
   sectionName: string,
-  defaultPrefix: string
-): Array<{ id: string; name: string; section: string }> {
+  sectionLabel: string,
+  definition: ExtractionSchemaDefinition
+): Array<{ id: string; name: string; section: string; sectionLabel: string }> {
   if (!Array.isArray(section)) return [];
   
   return section.map((product: any, index: number) => ({
     id: `${sectionName}-${index}`,
-    name: product.ProductName || `${defaultPrefix} ${index + 1}`,
-    section: sectionName
+    name: entryName(definition, product, index),
+    section: sectionName,
+    sectionLabel
   }));
 }
 
@@ -84,11 +154,17 @@ export function ComparisonView({
   extractedText,
   translatedText,
   structuredData,
+  sourceSpans,
+  extractionSchema = DEFAULT_EXTRACTION_SCHEMA_DEFINITION,
   language,
   fileType,
+  ocrPages,
   validationConfidence,
   validationIssues,
+  consistencyIssues,
   needsReview,
+  review,
+  pendingReprocess,
   isProcessing = false,
   isTranslating = false,
   isValidating = false,
@@ -102,13 +178,27 @@ export function ComparisonView({
   onValidate,
 }: ComparisonViewProps) {
   const [isEditing, setIsEditing] = useState(false);
+  // Published documents stay read-only until reopened for review
+  const { can } = useAuth();
+  const canEdit = can("editor");
+  const published = review?.reviewStatus === "published";
+  const readOnly = published || !canEdit;
   const [editedData, setEditedData] = useState(structuredData);
+  const [changeDescription, setChangeDescription] = useState("");
+  const [saveIssues, setSaveIssues] = useState<StructuredDataIssue[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
   const [hoveredField, setHoveredField] = useState<string | null>(null);
   const [showTranslation, setShowTranslation] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<string>("all");
   const [showValidationDetails, setShowValidationDetails] = useState(false);
   const [showVersionHistory, setShowVersionHistory] = useState(false);
   const [showOriginalDocument, setShowOriginalDocument] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [commentDraft, setCommentDraft] = useState<CommentDraft | null>(null);
+  const [focusedThreadId, setFocusedThreadId] = useState<string | null>(null);
+  // Selected extracted text inside a field, offered as the anchor of a new thread
+  const [textSelection, setTextSelection] = useState<CommentDraft | null>(null);
   const { toast } = useToast();
   
   // Search state
@@ -123,6 +213,21 @@ export function ComparisonView({
     enabled: showOriginalDocument,
   });
 
+  const { data: commentThreads = [] } = useQuery<CommentThreadWithComments[]>({
+    queryKey: ["/api/documents", documentId, "comments"],
+  });
+
+  // Open threads by the path they are anchored to, for the markers in the JSON panel
+  const threadsByPath = useMemo(() => {
+    const byPath = new Map<string, CommentThreadWithComments[]>();
+    for (const thread of commentThreads) {
+      if (thread.resolved || thread.orphaned) continue;
+      byPath.set(thread.path, [...(byPath.get(thread.path) || []), thread]);
+    }
+    return byPath;
+  }, [commentThreads]);
+  const openThreadCount = commentThreads.filter((thread) => !thread.resolved).length;
+
   // Auto-enable translation toggle when translation becomes available
   useEffect(() => {
     if (translatedText && !isTranslating) {
@@ -137,15 +242,13 @@ export function ComparisonView({
   const allProducts = useMemo(() => {
     try {
       const parsed = JSON.parse(editedData);
-      return [
-        ...extractProductsFromSection(parsed.ProductCopy, "ProductCopy", "Product"),
-        ...extractProductsFromSection(parsed.BusinessCopy, "BusinessCopy", "Business Product"),
-        ...extractProductsFromSection(parsed.UpgraderCopy, "UpgraderCopy", "Upgrader Product")
-      ];
+      return extractionSchema.sections.flatMap((section) =>
+        extractProductsFromSection(parsed[section.name], section.name, section.label, extractionSchema)
+      );
     } catch (e) {
       return [];
     }
-  }, [editedData]);
+  }, [editedData, extractionSchema]);
 
   // Get filtered JSON based on selected product
   const displayedJson = useMemo(() => {
@@ -158,12 +261,8 @@ export function ComparisonView({
       const [section, indexStr] = selectedProduct.split("-");
       const index = parseInt(indexStr, 10);
       
-      if (section === "ProductCopy" && Array.isArray(parsed.ProductCopy) && parsed.ProductCopy[index]) {
-        return JSON.stringify({ ProductCopy: [parsed.ProductCopy[index]] }, null, 2);
-      } else if (section === "BusinessCopy" && Array.isArray(parsed.BusinessCopy) && parsed.BusinessCopy[index]) {
-        return JSON.stringify({ BusinessCopy: [parsed.BusinessCopy[index]] }, null, 2);
-      } else if (section === "UpgraderCopy" && Array.isArray(parsed.UpgraderCopy) && parsed.UpgraderCopy[index]) {
-        return JSON.stringify({ UpgraderCopy: [parsed.UpgraderCopy[index]] }, null, 2);
+      if (Array.isArray(parsed[section]) && parsed[section][index]) {
+        return JSON.stringify({ [section]: [parsed[section][index]] }, null, 2);
       }
       
       return editedData;
@@ -242,85 +341,78 @@ export function ComparisonView({
     }
   };
 
-  // Parse JSON and create text segments with field mappings
-  const { jsonSegments, textSegments } = useMemo(() => {
-    try {
-      const parsed = JSON.parse(displayedJson);
-      const jsonSegs: TextSegment[] = [];
-      const textSegs: TextSegment[] = [];
+  // Selected product as [section, index], or null when all products are shown
+  const selectedProductRef = useMemo((): [string, number] | null => {
+    if (selectedProduct === "all" || isEditing) return null;
+    const [section, indexStr] = selectedProduct.split("-");
+    return [section, parseInt(indexStr, 10)];
+  }, [selectedProduct, isEditing]);
+
+  // Text regions of the extracted fields, from the source spans recorded at extraction
+  const textSegments = useMemo((): TextSegment[] => {
+    // Offsets point into the extracted text, not the translation
+    if (!sourceSpans || displayText !== extractedText) return [];
+    const prefix = selectedProductRef ? `${selectedProductRef[0]}[${selectedProductRef[1]}].` : null;
+
+    return Object.entries(sourceSpans)
+      .filter(([field, span]) => (!prefix || field.startsWith(prefix)) && span.end <= extractedText.length)
+      .map(([field, span]) => ({ start: span.start, end: span.end, page: span.page, field }));
+  }, [sourceSpans, displayText, extractedText, selectedProductRef]);
+
+  const segmentsByField = useMemo(
+    () => new Map(textSegments.map((segment) => [segment.field, segment])),
+    [textSegments]
+  );
 
-      // Helper to find text in extracted content
-      const findInText = (value: string, fieldName: string) => {
-        if (!value || typeof value !== 'string' || value.length < 10) return;
-        
-        // Clean the value for searching (remove extra whitespace)
-        const cleanValue = value.trim().slice(0, 100); // First 100 chars for matching
-        const index = displayText.indexOf(cleanValue);
-        
-        if (index !== -1) {
-          textSegs.push({
-            text: value,
-            start: index,
-            end: index + value.length,
-            field: fieldName,
-          });
-        }
-      };
-
-      // Helper to extract segments from a single product
-      const extractProductSegments = (product: any, sectionName: string, productIndex: number) => {
-        const prefix = `${sectionName}-${productIndex}`;
-        
-        if (product.ProductName) {
-          findInText(product.ProductName, `${prefix}-ProductName`);
-        }
-
-        if (Array.isArray(product.Headlines)) {
-          product.Headlines.forEach((headline: string, idx: number) => {
-            findInText(headline, `${prefix}-Headline-${idx}`);
-          });
-        }
-
-        if (product.AdvertisingCopy) {
-          findInText(product.AdvertisingCopy, `${prefix}-AdvertisingCopy`);
-        }
-
-        if (Array.isArray(product.KeyFeatureBullets)) {
-          product.KeyFeatureBullets.forEach((bullet: string, idx: number) => {
-            findInText(bullet, `${prefix}-KeyFeatureBullet-${idx}`);
-          });
-        }
-
-        if (Array.isArray(product.LegalReferences)) {
-          product.LegalReferences.forEach((legal: string, idx: number) => {
-            findInText(legal, `${prefix}-LegalReference-${idx}`);
-          });
-        }
-      };
-
-      // Extract segments from all sections
-      const sections = ['ProductCopy', 'BusinessCopy', 'UpgraderCopy'] as const;
-      sections.forEach(sectionName => {
-        const section = parsed[sectionName];
-        if (!section) return;
-
-        // Handle array of products (new format)
-        if (Array.isArray(section)) {
-          section.forEach((product, productIdx) => {
-            extractProductSegments(product, sectionName, productIdx);
-          });
-        } 
-        // Handle legacy single product format
-        else {
-          extractProductSegments(section, sectionName, 0);
-        }
-      });
+  // Reviewer jump-to-source: scroll the text pane to a field's span
+  const jumpToSource = (field: string) => {
+    const element = document.querySelector(`[data-field="${field}"]`);
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+    setHoveredField(field);
+  };
 
-      return { jsonSegments: jsonSegs, textSegments: textSegs };
-    } catch (e) {
-      return { jsonSegments: [], textSegments: [] };
+  const startThread = (draft: CommentDraft) => {
+    setCommentDraft(draft);
+    setFocusedThreadId(null);
+    setShowComments(true);
+  };
+
+  const openThread = (thread: CommentThreadWithComments) => {
+    setFocusedThreadId(thread.id);
+    setShowComments(true);
+    const line = document.querySelector(`[data-json-path="${thread.path}"]`);
+    line?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    if (segmentsByField.has(thread.path)) jumpToSource(thread.path);
+  };
+
+  // Offsets of a selection inside a field's highlighted span in the extracted text
+  const handleTextSelection = () => {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0 || displayText !== extractedText) {
+      setTextSelection(null);
+      return;
+    }
+    const range = selection.getRangeAt(0);
+    const mark = range.startContainer.parentElement?.closest<HTMLElement>("[data-field]");
+    const segment = mark?.dataset.field ? segmentsByField.get(mark.dataset.field) : undefined;
+    if (!mark || !segment) {
+      setTextSelection(null);
+      return;
     }
-  }, [displayedJson, displayText]);
+    const before = document.createRange();
+    before.setStart(mark, 0);
+    before.setEnd(range.startContainer, range.startOffset);
+    const spanStart = segment.start + before.toString().length;
+    const spanEnd = Math.min(spanStart + selection.toString().length, extractedText.length);
+    setTextSelection({
+      path: segment.field,
+      spanStart,
+      spanEnd,
+      quotedText: extractedText.slice(spanStart, spanEnd),
+    });
+  };
 
   // Helper to render text with search highlights
   const renderTextWithSearch = (text: string, startOffset: number = 0) => {
@@ -382,12 +474,15 @@ export function ComparisonView({
       );
     }
 
-    // Sort segments by start position
-    const sorted = [...textSegments].sort((a, b) => a.start - b.start);
+    // Sort segments by start position, longest first where they start together
+    const sorted = [...textSegments].sort((a, b) => a.start - b.start || b.end - a.end);
     const elements: JSX.Element[] = [];
     let lastIndex = 0;
 
     sorted.forEach((segment, idx) => {
+      // Nested spans (a product name inside its headline) are covered by the outer one
+      if (segment.start < lastIndex) return;
+
       // Add text before this segment with search highlighting
       if (segment.start > lastIndex) {
         elements.push(
@@ -403,7 +498,8 @@ export function ComparisonView({
         <mark
           key={`mark-${idx}`}
           data-field={segment.field}
-          onMouseEnter={() => setHoveredField(segment.field || null)}
+          title={segment.page ? `Page ${segment.page}` : undefined}
+          onMouseEnter={() => setHoveredField(segment.field)}
           onMouseLeave={() => setHoveredField(null)}
           className={`cursor-pointer transition-all ${
             isHovered
@@ -486,52 +582,70 @@ export function ComparisonView({
       const parsed = JSON.parse(displayedJson);
       const formattedJson = JSON.stringify(parsed, null, 2);
       const lines = formattedJson.split('\n');
+      const lineFields = jsonLineFields(lines, (section, index) =>
+        selectedProductRef && selectedProductRef[0] === section ? selectedProductRef[1] : index
+      );
       let charIndex = 0;
       
       return lines.map((line, idx) => {
         const lineStartIndex = charIndex;
         charIndex += line.length + 1; // +1 for newline
         
-        let field: string | null = null;
-        
-        // Detect which field this line belongs to
-        if (line.includes('"Headlines"')) field = 'Headlines-header';
-        else if (line.includes('"AdvertisingCopy"')) field = 'AdvertisingCopy';
-        else if (line.includes('"KeyFeatureBullets"')) field = 'KeyFeatureBullets-header';
-        else if (line.includes('"LegalReferences"')) field = 'LegalReferences-header';
-
-        // Check if line is inside a bullets/headlines array
-        const headlineMatch = textSegments.find(s => 
-          s.field?.startsWith('Headline-') && line.includes(s.text.slice(0, 30))
-        );
-        const featureBulletMatch = textSegments.find(s => 
-          s.field?.startsWith('KeyFeatureBullet-') && line.includes(s.text.slice(0, 30))
-        );
-        const legalRefMatch = textSegments.find(s => 
-          s.field?.startsWith('LegalReference-') && line.includes(s.text.slice(0, 30))
-        );
-        
-        if (headlineMatch) field = headlineMatch.field || null;
-        if (featureBulletMatch) field = featureBulletMatch.field || null;
-        if (legalRefMatch) field = legalRefMatch.field || null;
+        const field = lineFields[idx];
+        const segment = field ? segmentsByField.get(field) : undefined;
+
+        const isHovered = segment && hoveredField === segment.field;
+        const lineThreads = field ? threadsByPath.get(field) : undefined;
 
-        const isHovered = field && hoveredField === field;
-        
         return (
           <div
             key={idx}
-            data-field={field}
-            onMouseEnter={() => field && setHoveredField(field)}
+            data-json-field={segment?.field}
+            data-json-path={field ?? undefined}
+            title={segment?.page ? `Page ${segment.page} - click to show in source` : segment ? "Click to show in source" : undefined}
+            onMouseEnter={() => segment && setHoveredField(segment.field)}
             onMouseLeave={() => setHoveredField(null)}
-            className={`transition-all ${
+            onClick={() => segment && jumpToSource(segment.field)}
+            className={`group relative transition-all ${
               isHovered
                 ? 'bg-primary/30 font-medium'
-                : field
+                : segment
                 ? 'hover:bg-primary/20 cursor-pointer'
                 : ''
             }`}
           >
             {renderJsonLineWithSearch(line, lineStartIndex)}
+            {field && (
+              <span className="absolute right-0 top-0 flex items-center gap-1 font-sans">
+                {lineThreads ? (
+                  <button
+                    className="flex items-center gap-0.5 rounded bg-amber-100 px-1 text-[10px] text-amber-700 dark:bg-amber-900/40 dark:text-amber-300"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      openThread(lineThreads[0]);
+                    }}
+                    title={lineThreads[0].comments[0]?.body}
+                    data-testid={`button-json-comments-${field}`}
+                  >
+                    <MessageSquare className="h-3 w-3" />
+                    {lineThreads.length}
+                  </button>
+                ) : null}
+                {canEdit && (
+                  <button
+                    className="hidden rounded px-1 text-muted-foreground hover:text-foreground group-hover:inline-flex"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      startThread({ path: field });
+                    }}
+                    title="Comment on this field"
+                    data-testid={`button-json-add-comment-${field}`}
+                  >
+                    <MessageSquarePlus className="h-3 w-3" />
+                  </button>
+                )}
+              </span>
+            )}
           </div>
         );
       });
@@ -548,17 +662,29 @@ export function ComparisonView({
     });
   };
 
-  const handleSave = () => {
-    if (onSave) {
-      onSave(editedData);
+  const handleSave = async () => {
+    if (!onSave) return;
+    setIsSaving(true);
+    try {
+      await onSave(editedData, changeDescription.trim() || undefined);
       setIsEditing(false);
-      toast({
-        title: "Changes saved",
-        description: "Your modifications have been saved successfully.",
-      });
+      setSaveIssues([]);
+      setChangeDescription("");
+    } catch (error) {
+      // Invalid JSON is reported by the caller; anything else is listed above the editor
+      if (!(error instanceof SyntaxError)) setSaveIssues(saveErrorIssues(error));
+    } finally {
+      setIsSaving(false);
     }
   };
 
+  const handleCancelEdit = () => {
+    setIsEditing(false);
+    setEditedData(structuredData);
+    setSaveIssues([]);
+    setChangeDescription("");
+  };
+
   return (
     <div className="absolute inset-0 flex flex-col">
       <div className="border-b bg-background px-4 py-2 flex-shrink-0">
@@ -575,6 +701,7 @@ export function ComparisonView({
             <h2 className="text-sm font-semibold truncate" data-testid="text-document-title">
               {documentName}
             </h2>
+            {review && <ReviewControls documentId={documentId} {...review} />}
             {allProducts.length > 1 && !isEditing && (
               <Select value={selectedProduct} onValueChange={setSelectedProduct}>
                 <SelectTrigger className="w-[200px] h-8 text-xs" data-testid="select-product-filter">
@@ -584,7 +711,7 @@ export function ComparisonView({
                   <SelectItem value="all">All Products ({allProducts.length})</SelectItem>
                   {allProducts.map((product) => (
                     <SelectItem key={product.id} value={product.id}>
-                      {product.name} ({product.section})
+                      {product.name} ({product.sectionLabel})
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -636,23 +763,36 @@ export function ComparisonView({
               </Badge>
             ) : isEditing ? (
               <>
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    setIsEditing(false);
-                    setEditedData(structuredData);
-                  }}
-                  data-testid="button-cancel-edit"
-                >
+                <Input
+                  value={changeDescription}
+                  onChange={(e) => setChangeDescription(e.target.value)}
+                  placeholder="Describe the change (optional)"
+                  className="h-9 w-64"
+                  maxLength={500}
+                  data-testid="input-change-description"
+                />
+                <Button variant="outline" onClick={handleCancelEdit} data-testid="button-cancel-edit">
                   Cancel
                 </Button>
-                <Button onClick={handleSave} data-testid="button-save">
+                <Button onClick={handleSave} disabled={isSaving} data-testid="button-save">
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                   Save Changes
                 </Button>
               </>
             ) : (
               <>
-                {onReprocess && (
+                {pendingReprocess && !readOnly && (
+                  <Button
+                    variant="outline"
+                    className="border-amber-300 text-amber-700 dark:text-amber-400"
+                    onClick={() => setShowConflicts(true)}
+                    data-testid="button-resolve-conflicts"
+                  >
+                    <GitMerge className="mr-2 h-4 w-4" />
+                    Resolve {pendingReprocess.conflicts.length} conflict{pendingReprocess.conflicts.length !== 1 ? "s" : ""}
+                  </Button>
+                )}
+                {onReprocess && !readOnly && (
                   <Button
                     variant="outline"
                     size="icon"
@@ -665,20 +805,45 @@ export function ComparisonView({
                 <Button
                   variant="outline"
                   size="icon"
-                  onClick={() => setShowVersionHistory(!showVersionHistory)}
-                  data-testid="button-version-history"
-                  className={showVersionHistory ? "bg-accent" : ""}
+                  onClick={() => setShowComments(!showComments)}
+                  data-testid="button-comments"
+                  className={`relative ${showComments ? "bg-accent" : ""}`}
                 >
-                  <Clock className="h-4 w-4" />
+                  <MessageSquare className="h-4 w-4" />
+                  {openThreadCount > 0 && (
+                    <span className="absolute -right-1 -top-1 rounded-full bg-amber-500 px-1 text-[10px] leading-4 text-white">
+                      {openThreadCount}
+                    </span>
+                  )}
                 </Button>
                 <Button
                   variant="outline"
                   size="icon"
-                  onClick={() => setIsEditing(true)}
-                  data-testid="button-edit"
+                  onClick={() => setShowVersionHistory(!showVersionHistory)}
+                  data-testid="button-version-history"
+                  className={showVersionHistory ? "bg-accent" : ""}
                 >
-                  <Edit className="h-4 w-4" />
+                  <Clock className="h-4 w-4" />
                 </Button>
+                {readOnly ? (
+                  <Badge
+                    variant="outline"
+                    className="gap-1"
+                    title={published ? "Reopen the document for review to edit it" : "Your role can view but not edit documents"}
+                  >
+                    <Lock className="h-3 w-3" />
+                    Read-only
+                  </Badge>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setIsEditing(true)}
+                    data-testid="button-edit"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   size="icon"
@@ -713,11 +878,13 @@ export function ComparisonView({
       </div>
 
       <div className={`grid flex-1 min-h-0 grid-cols-1 overflow-hidden ${
-        showVersionHistory && showValidationDetails && validationConfidence !== null && validationConfidence !== undefined
-          ? 'lg:grid-cols-4' 
-          : (showVersionHistory || (showValidationDetails && validationConfidence !== null && validationConfidence !== undefined))
-            ? 'lg:grid-cols-3' 
-            : 'lg:grid-cols-2'
+        ['lg:grid-cols-2', 'lg:grid-cols-3', 'lg:grid-cols-4', 'lg:grid-cols-5'][
+          [
+            showVersionHistory,
+            showValidationDetails && validationConfidence !== null && validationConfidence !== undefined,
+            showComments,
+          ].filter(Boolean).length
+        ]
       }`}>
         <div className="flex flex-col border-r min-h-0">
           <div className="border-b bg-muted/30 px-6 py-3 flex-shrink-0">
@@ -729,6 +896,17 @@ export function ComparisonView({
                     {language}
                   </Badge>
                 )}
+                {ocrPages && ocrPages.length > 0 && (
+                  <Badge
+                    variant="outline"
+                    className="text-xs gap-1 border-amber-300 text-amber-600"
+                    title="Text on these pages was recognized from scanned images. Check it against the original."
+                    data-testid="badge-ocr-pages"
+                  >
+                    <ScanText className="h-3 w-3" />
+                    OCR: {ocrPages.length === 1 ? "page" : "pages"} {ocrPages.join(", ")}
+                  </Badge>
+                )}
               </div>
               <div className="flex items-center gap-3">
                 {/* View toggle: Extracted Text vs Original Document */}
@@ -764,6 +942,21 @@ export function ComparisonView({
                     </Label>
                   </div>
                 )}
+                {textSelection && !showOriginalDocument && canEdit && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => {
+                      startThread(textSelection);
+                      setTextSelection(null);
+                    }}
+                    data-testid="button-comment-selection"
+                  >
+                    <MessageSquarePlus className="mr-1 h-3 w-3" />
+                    Comment
+                  </Button>
+                )}
                 <Badge variant="secondary">
                   {showOriginalDocument ? (fileType === 'pdf' ? 'PDF' : 'DOCX') : (showTranslation && translatedText ? 'Translated' : 'Extracted Text')}
                 </Badge>
@@ -850,7 +1043,7 @@ export function ComparisonView({
                 )}
               </div>
             ) : (
-              <div className="p-6">
+              <div className="p-6" onMouseUp={handleTextSelection}>
                 {renderHighlightedText()}
               </div>
             )}
@@ -914,6 +1107,19 @@ export function ComparisonView({
               </div>
             )}
           </div>
+          {isEditing && saveIssues.length > 0 && (
+            <div className="border-b bg-destructive/5 px-4 py-2 flex-shrink-0 max-h-40 overflow-auto" data-testid="list-save-issues">
+              <p className="text-xs font-medium text-destructive mb-1">Not saved: fix these and save again</p>
+              <ul className="space-y-0.5 text-xs">
+                {saveIssues.map((issue, index) => (
+                  <li key={index}>
+                    {issue.path && <span className="font-mono text-muted-foreground">{issue.path}: </span>}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="flex-1 min-h-0 overflow-hidden">
             {isEditing ? (
               <Editor
@@ -1101,6 +1307,26 @@ export function ComparisonView({
                   </ul>
                 </div>
               )}
+
+              {/* Differences from the folder original */}
+              {consistencyIssues && consistencyIssues.length > 0 && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 dark:bg-amber-950/20 dark:border-amber-900 p-4" data-testid="panel-consistency-issues">
+                  <div className="flex items-center gap-2 mb-3">
+                    <Languages className="h-4 w-4 text-amber-600" />
+                    <p className="text-xs font-medium text-amber-700 dark:text-amber-500 uppercase tracking-wide">
+                      Differences from Original ({consistencyIssues.length})
+                    </p>
+                  </div>
+                  <ul className="space-y-2">
+                    {consistencyIssues.map((issue, index) => (
+                      <li key={index} className="text-xs text-amber-800 dark:text-amber-200 flex items-start gap-2">
+                        <span className="text-amber-500 mt-0.5 flex-shrink-0">•</span>
+                        <span>{issue}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -1121,7 +1347,30 @@ export function ComparisonView({
             />
           </div>
         )}
+
+        {/* Comments Panel */}
+        {showComments && (
+          <CommentsSidebar
+            documentId={documentId}
+            threads={commentThreads}
+            draft={commentDraft}
+            onDraftDone={() => setCommentDraft(null)}
+            focusedThreadId={focusedThreadId}
+            onSelectThread={openThread}
+            onClose={() => setShowComments(false)}
+          />
+        )}
       </div>
+
+      {pendingReprocess && (
+        <ReprocessConflictsDialog
+          documentId={documentId}
+          pendingReprocess={pendingReprocess}
+          extractionSchema={extractionSchema}
+          open={showConflicts}
+          onOpenChange={setShowConflicts}
+        />
+      )}
     </div>
   );
 }
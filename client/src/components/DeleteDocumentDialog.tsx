@@ -28,7 +28,7 @@ export function DeleteDocumentDialog({
         <AlertDialogHeader>
           <AlertDialogTitle>Delete Document</AlertDialogTitle>
           <AlertDialogDescription>
-            Are you sure you want to delete "{documentName}"? This action cannot be undone.
+            "{documentName}" will be moved to the trash. You can restore it from there until it is removed for good.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
@@ -30,13 +30,13 @@ export function DeleteFolderDialog({
         <AlertDialogHeader>
           <AlertDialogTitle>Delete Folder</AlertDialogTitle>
           <AlertDialogDescription>
-            Are you sure you want to delete "{folderName}"?
+            "{folderName}" and its subfolders will be moved to the trash.
             {documentCount > 0 && (
               <>
                 {" "}
-                This folder contains {documentCount} document
-                {documentCount !== 1 ? "s" : ""}. The documents will be moved
-                to the root level and will not be deleted.
+                The {documentCount} document
+                {documentCount !== 1 ? "s" : ""} in it go to the trash too and
+                come back if you restore the folder.
               </>
             )}
           </AlertDialogDescription>
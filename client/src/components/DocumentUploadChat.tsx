@@ -17,6 +17,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import type { UploadMode, UploadData, DocumentSetUpload } from "./DocumentUploadZone";
+import { UploadJobProgress } from "./UploadJobProgress";
+import type { ProcessingJobProgress } from "@shared/schema";
 
 interface Folder {
   id: string;
@@ -24,6 +26,14 @@ interface Folder {
   parentFolderId?: string | null;
 }
 
+export interface ActiveUploadJob {
+  id: string;
+  initialJob?: ProcessingJobProgress | null;
+  finished?: boolean;
+  // Bumped when a finished job runs again, so its progress stream restarts
+  run?: number;
+}
+
 interface DocumentUploadChatProps {
   onFilesSelected: (files: File[]) => void;
   onUploadReady?: (data: UploadData) => void;
@@ -32,6 +42,10 @@ interface DocumentUploadChatProps {
   selectedFolderId?: string | null;
   onFolderChange?: (folderId: string | null) => void;
   onCreateFolder?: (folderName: string) => Promise<string | null>;
+  jobs?: ActiveUploadJob[];
+  onJobFinished?: (job: ProcessingJobProgress) => void;
+  onJobResumed?: (job: ProcessingJobProgress) => void;
+  onJobDismiss?: (jobId: string) => void;
 }
 
 export function DocumentUploadChat({
@@ -42,6 +56,10 @@ export function DocumentUploadChat({
   selectedFolderId = null,
   onFolderChange,
   onCreateFolder,
+  jobs = [],
+  onJobFinished,
+  onJobResumed,
+  onJobDismiss,
 }: DocumentUploadChatProps) {
   const [uploadMode, setUploadMode] = useState<UploadMode>("single");
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
@@ -433,6 +451,23 @@ export function DocumentUploadChat({
         </div>
       )}
 
+      {/* Background processing progress */}
+      {jobs.length > 0 && (
+        <div className="w-full max-w-3xl mt-6 space-y-2">
+          <Label className="text-sm text-muted-foreground">Processing</Label>
+          {jobs.map((job) => (
+            <UploadJobProgress
+              key={`${job.id}-${job.run ?? 0}`}
+              jobId={job.id}
+              initialJob={job.initialJob}
+              onFinished={onJobFinished}
+              onResumed={onJobResumed}
+              onDismiss={onJobDismiss}
+            />
+          ))}
+        </div>
+      )}
+
       {/* File Format Hint and Submission Info */}
       <div className="text-center mt-6 space-y-2">
         <p className="text-sm text-muted-foreground">
@@ -0,0 +1,69 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import type { DuplicateAction, DuplicateMatch } from "@shared/schema";
+
+// Thrown by the upload mutations when the server answers 409 with the matching documents
+export class DuplicateUploadError extends Error {
+  constructor(message: string, public duplicates: DuplicateMatch[]) {
+    super(message);
+    this.name = "DuplicateUploadError";
+    Object.setPrototypeOf(this, DuplicateUploadError.prototype);
+  }
+}
+
+interface DuplicateUploadDialogProps {
+  duplicates: DuplicateMatch[] | null;
+  onClose: () => void;
+  onChoose: (action: Exclude<DuplicateAction, "ask">) => void;
+}
+
+function formatDate(value: string | Date) {
+  return new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+export function DuplicateUploadDialog({ duplicates, onClose, onChoose }: DuplicateUploadDialogProps) {
+  return (
+    <AlertDialog open={!!duplicates} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent data-testid="dialog-duplicate-upload">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Already Uploaded</AlertDialogTitle>
+          <AlertDialogDescription>
+            {duplicates?.length === 1 ? "This file matches a document" : "These files match documents"} already in the
+            library.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="space-y-1 text-sm">
+          {duplicates?.map((duplicate) => (
+            <li key={`${duplicate.fileName}-${duplicate.document.id}`} data-testid={`duplicate-${duplicate.document.id}`}>
+              <span className="font-medium">{duplicate.fileName}</span>
+              <span className="text-muted-foreground">
+                {" "}
+                is "{duplicate.document.name}", uploaded {formatDate(duplicate.document.createdAt)}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel data-testid="button-cancel-duplicate-upload">Cancel</AlertDialogCancel>
+          <Button variant="outline" onClick={() => onChoose("proceed")} data-testid="button-duplicate-proceed">
+            Upload Anyway
+          </Button>
+          <Button variant="outline" onClick={() => onChoose("version")} data-testid="button-duplicate-version">
+            Add as New Version
+          </Button>
+          <Button onClick={() => onChoose("link")} data-testid="button-duplicate-link">
+            Use Existing
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -13,21 +13,22 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { DEFAULT_EXTRACTION_SCHEMA_DEFINITION, type ExtractionSchemaDefinition } from "@shared/extractionSchema";
 
 export interface ExcelTemplateConfig {
   includeSummary: boolean;
   includeRawJSON: boolean;
-  copyTypes: {
-    ProductCopy: boolean;
-    BusinessCopy: boolean;
-    UpgraderCopy: boolean;
-  };
-  fields: {
-    ProductName: boolean;
-    Headlines: boolean;
-    AdvertisingCopy: boolean;
-    KeyFeatureBullets: boolean;
-    LegalReferences: boolean;
+  // Keyed by the extraction schema's section and field names
+  copyTypes: Record<string, boolean>;
+  fields: Record<string, boolean>;
+}
+
+function defaultTemplateConfig(definition: ExtractionSchemaDefinition): ExcelTemplateConfig {
+  return {
+    includeSummary: true,
+    includeRawJSON: true,
+    copyTypes: Object.fromEntries(definition.sections.map((section) => [section.name, true])),
+    fields: Object.fromEntries(definition.fields.map((field) => [field.name, true])),
   };
 }
 
@@ -39,6 +40,7 @@ interface ExportModalProps {
   jsonData: string;
   exportMode?: "document" | "product";
   productData?: any;
+  extractionSchema?: ExtractionSchemaDefinition;
 }
 
 export function ExportModal({
@@ -49,26 +51,19 @@ export function ExportModal({
   jsonData,
   exportMode = "document",
   productData,
+  extractionSchema = DEFAULT_EXTRACTION_SCHEMA_DEFINITION,
 }: ExportModalProps) {
   const [format, setFormat] = useState("json");
   const [filename, setFilename] = useState(documentName.replace(/\.[^/.]+$/, ""));
   const [selectedLocales, setSelectedLocales] = useState<string[]>([]);
-  const [templateConfig, setTemplateConfig] = useState<ExcelTemplateConfig>({
-    includeSummary: true,
-    includeRawJSON: true,
-    copyTypes: {
-      ProductCopy: true,
-      BusinessCopy: true,
-      UpgraderCopy: true,
-    },
-    fields: {
-      ProductName: true,
-      Headlines: true,
-      AdvertisingCopy: true,
-      KeyFeatureBullets: true,
-      LegalReferences: true,
-    },
-  });
+  const [templateConfig, setTemplateConfig] = useState<ExcelTemplateConfig>(() =>
+    defaultTemplateConfig(extractionSchema)
+  );
+
+  // Sheets and columns follow the schema of the document being exported
+  useEffect(() => {
+    setTemplateConfig(defaultTemplateConfig(extractionSchema));
+  }, [extractionSchema]);
 
   const handleExport = () => {
     // Validate that at least one locale is selected for product export
@@ -220,63 +215,30 @@ export function ExportModal({
                         Summary sheet
                       </Label>
                     </div>
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="productcopy"
-                        checked={templateConfig.copyTypes.ProductCopy}
-                        onCheckedChange={(checked) =>
-                          setTemplateConfig({
-                            ...templateConfig,
-                            copyTypes: {
-                              ...templateConfig.copyTypes,
-                              ProductCopy: checked as boolean,
-                            },
-                          })
-                        }
-                        data-testid="checkbox-productcopy"
-                      />
-                      <Label htmlFor="productcopy" className="font-normal cursor-pointer">
-                        ProductCopy sheet
-                      </Label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="businesscopy"
-                        checked={templateConfig.copyTypes.BusinessCopy}
-                        onCheckedChange={(checked) =>
-                          setTemplateConfig({
-                            ...templateConfig,
-                            copyTypes: {
-                              ...templateConfig.copyTypes,
-                              BusinessCopy: checked as boolean,
-                            },
-                          })
-                        }
-                        data-testid="checkbox-businesscopy"
-                      />
-                      <Label htmlFor="businesscopy" className="font-normal cursor-pointer">
-                        BusinessCopy sheet
-                      </Label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="upgradercopy"
-                        checked={templateConfig.copyTypes.UpgraderCopy}
-                        onCheckedChange={(checked) =>
-                          setTemplateConfig({
-                            ...templateConfig,
-                            copyTypes: {
-                              ...templateConfig.copyTypes,
-                              UpgraderCopy: checked as boolean,
-                            },
-                          })
-                        }
-                        data-testid="checkbox-upgradercopy"
-                      />
-                      <Label htmlFor="upgradercopy" className="font-normal cursor-pointer">
-                        UpgraderCopy sheet
-                      </Label>
-                    </div>
+                    {extractionSchema.sections.map((section) => {
+                      const id = section.name.toLowerCase();
+                      return (
+                        <div key={section.name} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={id}
+                            checked={templateConfig.copyTypes[section.name] ?? false}
+                            onCheckedChange={(checked) =>
+                              setTemplateConfig({
+                                ...templateConfig,
+                                copyTypes: {
+                                  ...templateConfig.copyTypes,
+                                  [section.name]: checked as boolean,
+                                },
+                              })
+                            }
+                            data-testid={`checkbox-${id}`}
+                          />
+                          <Label htmlFor={id} className="font-normal cursor-pointer">
+                            {section.label} sheet
+                          </Label>
+                        </div>
+                      );
+                    })}
                     <div className="flex items-center space-x-2">
                       <Checkbox
                         id="include-rawjson"
@@ -298,101 +260,30 @@ export function ExportModal({
                 <div className="space-y-2">
                   <Label className="text-sm font-medium">Columns to Include</Label>
                   <div className="space-y-2">
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="field-productname"
-                        checked={templateConfig.fields.ProductName}
-                        onCheckedChange={(checked) =>
-                          setTemplateConfig({
-                            ...templateConfig,
-                            fields: {
-                              ...templateConfig.fields,
-                              ProductName: checked as boolean,
-                            },
-                          })
-                        }
-                        data-testid="checkbox-field-productname"
-                      />
-                      <Label htmlFor="field-productname" className="font-normal cursor-pointer">
-                        Product Name
-                      </Label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="field-headlines"
-                        checked={templateConfig.fields.Headlines}
-                        onCheckedChange={(checked) =>
-                          setTemplateConfig({
-                            ...templateConfig,
-                            fields: {
-                              ...templateConfig.fields,
-                              Headlines: checked as boolean,
-                            },
-                          })
-                        }
-                        data-testid="checkbox-field-headlines"
-                      />
-                      <Label htmlFor="field-headlines" className="font-normal cursor-pointer">
-                        Headlines
-                      </Label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="field-advertisingcopy"
-                        checked={templateConfig.fields.AdvertisingCopy}
-                        onCheckedChange={(checked) =>
-                          setTemplateConfig({
-                            ...templateConfig,
-                            fields: {
-                              ...templateConfig.fields,
-                              AdvertisingCopy: checked as boolean,
-                            },
-                          })
-                        }
-                        data-testid="checkbox-field-advertisingcopy"
-                      />
-                      <Label htmlFor="field-advertisingcopy" className="font-normal cursor-pointer">
-                        Advertising Copy
-                      </Label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="field-keyfeatures"
-                        checked={templateConfig.fields.KeyFeatureBullets}
-                        onCheckedChange={(checked) =>
-                          setTemplateConfig({
-                            ...templateConfig,
-                            fields: {
-                              ...templateConfig.fields,
-                              KeyFeatureBullets: checked as boolean,
-                            },
-                          })
-                        }
-                        data-testid="checkbox-field-keyfeatures"
-                      />
-                      <Label htmlFor="field-keyfeatures" className="font-normal cursor-pointer">
-                        Key Feature Bullets
-                      </Label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="field-legalreferences"
-                        checked={templateConfig.fields.LegalReferences}
-                        onCheckedChange={(checked) =>
-                          setTemplateConfig({
-                            ...templateConfig,
-                            fields: {
-                              ...templateConfig.fields,
-                              LegalReferences: checked as boolean,
-                            },
-                          })
-                        }
-                        data-testid="checkbox-field-legalreferences"
-                      />
-                      <Label htmlFor="field-legalreferences" className="font-normal cursor-pointer">
-                        Legal References
-                      </Label>
-                    </div>
+                    {extractionSchema.fields.map((field) => {
+                      const id = `field-${field.name.toLowerCase()}`;
+                      return (
+                        <div key={field.name} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={id}
+                            checked={templateConfig.fields[field.name] ?? false}
+                            onCheckedChange={(checked) =>
+                              setTemplateConfig({
+                                ...templateConfig,
+                                fields: {
+                                  ...templateConfig.fields,
+                                  [field.name]: checked as boolean,
+                                },
+                              })
+                            }
+                            data-testid={`checkbox-${id}`}
+                          />
+                          <Label htmlFor={id} className="font-normal cursor-pointer">
+                            {field.label}
+                          </Label>
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,102 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertTriangle, CheckCircle2, Loader2 } from "lucide-react";
+import type { FolderConsistencyReport } from "@shared/schema";
+
+interface FolderConsistencyDialogProps {
+  open: boolean;
+  onClose: () => void;
+  folderName: string;
+  report: FolderConsistencyReport | null;
+  isChecking: boolean;
+}
+
+export function FolderConsistencyDialog({
+  open,
+  onClose,
+  folderName,
+  report,
+  isChecking,
+}: FolderConsistencyDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl" data-testid="dialog-folder-consistency">
+        <DialogHeader>
+          <DialogTitle>Consistency Check</DialogTitle>
+          <DialogDescription>
+            Language variants in "{folderName}" compared to the original: product and item counts,
+            footnotes, legal references and numbers.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isChecking || !report ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Checking variants...
+          </div>
+        ) : report.variants.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">
+            This folder has no processed variants besides the original.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="space-y-3">
+              {report.variants.map((variant) => (
+                <div
+                  key={variant.documentId}
+                  className="rounded-lg border p-3"
+                  data-testid={`consistency-variant-${variant.documentId}`}
+                >
+                  <div className="flex items-center gap-2">
+                    {variant.issues.length === 0 ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />
+                    ) : (
+                      <AlertTriangle className="h-4 w-4 text-amber-600 flex-shrink-0" />
+                    )}
+                    <span className="flex-1 truncate text-sm font-medium">{variant.documentName}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {variant.language || "Unknown"}
+                    </Badge>
+                    <Badge variant={variant.issues.length === 0 ? "secondary" : "destructive"} className="text-xs">
+                      {variant.issues.length === 0 ? "Consistent" : `${variant.issues.length} differences`}
+                    </Badge>
+                  </div>
+                  {variant.issues.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {variant.issues.map((issue, index) => (
+                        <li key={index} className="text-xs flex items-start gap-2">
+                          <span className="font-mono text-muted-foreground flex-shrink-0">{issue.path}</span>
+                          <span>{issue.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          {report && (
+            <span className="mr-auto self-center text-xs text-muted-foreground">
+              Checked {new Date(report.checkedAt).toLocaleString()}
+            </span>
+          )}
+          <Button variant="outline" onClick={onClose} data-testid="button-close-consistency">
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,6 +18,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { useExtractionSchemas } from "@/hooks/use-extraction-schemas";
 
 interface Folder {
   id: string;
@@ -28,10 +29,11 @@ interface Folder {
 interface FolderDialogProps {
   open: boolean;
   onClose: () => void;
-  onSubmit: (name: string, description?: string, parentFolderId?: string | null) => void;
+  onSubmit: (name: string, description?: string, parentFolderId?: string | null, extractionSchemaKey?: string | null) => void;
   initialName?: string;
   initialDescription?: string;
   initialParentFolderId?: string | null;
+  initialExtractionSchemaKey?: string | null;
   mode: "create" | "edit";
   folders?: Folder[];
 }
@@ -43,26 +45,31 @@ export function FolderDialog({
   initialName = "",
   initialDescription = "",
   initialParentFolderId = null,
+  initialExtractionSchemaKey = null,
   mode,
   folders = [],
 }: FolderDialogProps) {
   const [name, setName] = useState(initialName);
   const [description, setDescription] = useState(initialDescription);
   const [parentFolderId, setParentFolderId] = useState<string | null>(initialParentFolderId);
+  const [extractionSchemaKey, setExtractionSchemaKey] = useState<string | null>(initialExtractionSchemaKey);
+  const { latestSchemas } = useExtractionSchemas();
 
   useEffect(() => {
     setName(initialName);
     setDescription(initialDescription);
     setParentFolderId(initialParentFolderId);
-  }, [initialName, initialDescription, initialParentFolderId, open]);
+    setExtractionSchemaKey(initialExtractionSchemaKey);
+  }, [initialName, initialDescription, initialParentFolderId, initialExtractionSchemaKey, open]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (name.trim()) {
-      onSubmit(name.trim(), description.trim() || undefined, parentFolderId);
+      onSubmit(name.trim(), description.trim() || undefined, parentFolderId, extractionSchemaKey);
       setName("");
       setDescription("");
       setParentFolderId(null);
+      setExtractionSchemaKey(null);
       onClose();
     }
   };
@@ -104,6 +111,25 @@ export function FolderDialog({
                 rows={2}
               />
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="extraction-schema">Extraction Schema</Label>
+              <Select
+                value={extractionSchemaKey || "__inherit__"}
+                onValueChange={(value) => setExtractionSchemaKey(value === "__inherit__" ? null : value)}
+              >
+                <SelectTrigger id="extraction-schema" data-testid="select-extraction-schema">
+                  <SelectValue placeholder="Inherit from parent folder" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__inherit__">Inherit from parent folder</SelectItem>
+                  {latestSchemas.map((schema) => (
+                    <SelectItem key={schema.key} value={schema.key}>
+                      {schema.name} (v{schema.version})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             {mode === "create" && folders.length > 0 && (
               <div className="grid gap-2">
                 <Label htmlFor="parent-folder">Parent Folder (Optional)</Label>
@@ -0,0 +1,114 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+interface MergeCandidate {
+  id: string;
+  name: string;
+  locales: string[];
+  variantCount: number;
+}
+
+interface MergeProductsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (productIds: string[]) => void;
+  productName: string;
+  candidates: MergeCandidate[];
+}
+
+export function MergeProductsDialog({
+  open,
+  onClose,
+  onSubmit,
+  productName,
+  candidates,
+}: MergeProductsDialogProps) {
+  const [search, setSearch] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setSearch("");
+    setSelectedIds([]);
+  }, [open]);
+
+  const filtered = candidates.filter((candidate) =>
+    candidate.name.toLowerCase().includes(search.toLowerCase())
+  );
+
+  const toggle = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedIds.length > 0) {
+      onSubmit(selectedIds);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent data-testid="dialog-merge-products">
+        <DialogHeader>
+          <DialogTitle>Merge Products</DialogTitle>
+          <DialogDescription>
+            Select products that are the same as "{productName}". Their variants and localized names
+            move into "{productName}" and the selected products are removed.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-3 py-4">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search products..."
+              data-testid="input-merge-search"
+            />
+            <ScrollArea className="h-64 rounded-md border p-2">
+              {filtered.map((candidate) => (
+                <div key={candidate.id} className="flex items-center space-x-2 py-1">
+                  <Checkbox
+                    id={`merge-${candidate.id}`}
+                    checked={selectedIds.includes(candidate.id)}
+                    onCheckedChange={() => toggle(candidate.id)}
+                    data-testid={`checkbox-merge-${candidate.id}`}
+                  />
+                  <Label htmlFor={`merge-${candidate.id}`} className="font-normal cursor-pointer flex-1">
+                    {candidate.name}
+                  </Label>
+                  <span className="text-xs text-muted-foreground">
+                    {candidate.locales.join(", ")} • {candidate.variantCount} variants
+                  </span>
+                </div>
+              ))}
+              {filtered.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">No products found</p>
+              )}
+            </ScrollArea>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel-merge">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={selectedIds.length === 0} data-testid="button-submit-merge">
+              Merge {selectedIds.length > 0 ? selectedIds.length : ""} into this product
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_EXTRACTION_SCHEMA_DEFINITION, type ExtractionSchemaDefinition } from "@shared/extractionSchema";
+import type { MergeConflict, PendingReprocess } from "@shared/schema";
+
+type Resolution = "current" | "incoming";
+
+interface ReprocessConflictsDialogProps {
+  documentId: string;
+  pendingReprocess: PendingReprocess;
+  extractionSchema?: ExtractionSchemaDefinition;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ConflictValue({ value, definition }: { value: unknown; definition: ExtractionSchemaDefinition }) {
+  if (value === null || value === undefined || value === "") {
+    return <p className="text-sm italic text-muted-foreground">Removed</p>;
+  }
+  if (Array.isArray(value)) {
+    return (
+      <ul className="text-sm space-y-0.5 list-disc pl-4">
+        {value.map((item, index) => (
+          <li key={index}>{String(item)}</li>
+        ))}
+      </ul>
+    );
+  }
+  // A whole entry: each of its fields
+  if (typeof value === "object") {
+    const entry = value as Record<string, unknown>;
+    return (
+      <dl className="text-sm space-y-1">
+        {definition.fields
+          .filter((field) => entry[field.name] !== undefined && entry[field.name] !== null)
+          .map((field) => (
+            <div key={field.name}>
+              <dt className="text-xs text-muted-foreground">{field.label}</dt>
+              <dd className="line-clamp-3">
+                {Array.isArray(entry[field.name]) ? (entry[field.name] as unknown[]).join(" · ") : String(entry[field.name])}
+              </dd>
+            </div>
+          ))}
+      </dl>
+    );
+  }
+  return <p className="text-sm whitespace-pre-wrap">{String(value)}</p>;
+}
+
+export function ReprocessConflictsDialog({
+  documentId,
+  pendingReprocess,
+  extractionSchema = DEFAULT_EXTRACTION_SCHEMA_DEFINITION,
+  open,
+  onOpenChange,
+}: ReprocessConflictsDialogProps) {
+  const { toast } = useToast();
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>({});
+  const { conflicts } = pendingReprocess;
+
+  // Manual edits are kept unless the new extraction is picked
+  useEffect(() => {
+    if (open) setResolutions({});
+  }, [open, pendingReprocess.createdAt]);
+
+  const onSuccess = (title: string, description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/documents", documentId, "versions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    toast({ title, description });
+    onOpenChange(false);
+  };
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const resolveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/documents/${documentId}/reprocess/resolve`, { resolutions });
+    },
+    onSuccess: () => onSuccess("Reprocessing complete", "The new extraction was merged with your edits."),
+    onError: onError("Could not apply the reprocess"),
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/documents/${documentId}/reprocess`);
+    },
+    onSuccess: () => onSuccess("Reprocess discarded", "The document was left as it was."),
+    onError: onError("Could not discard the reprocess"),
+  });
+
+  const chooseAll = (resolution: Resolution) =>
+    setResolutions(Object.fromEntries(conflicts.map((conflict) => [conflict.id, resolution])));
+
+  const sectionLabel = (name: string) => extractionSchema.sections.find((section) => section.name === name)?.label ?? name;
+  const fieldLabel = (conflict: MergeConflict) =>
+    conflict.field === null
+      ? "Whole entry"
+      : extractionSchema.fields.find((field) => field.name === conflict.field)?.label ?? conflict.field;
+  const isPending = resolveMutation.isPending || discardMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col" data-testid="dialog-reprocess-conflicts">
+        <DialogHeader>
+          <DialogTitle>Resolve reprocessing conflicts</DialogTitle>
+          <DialogDescription>
+            The new extraction changed {conflicts.length} field{conflicts.length !== 1 ? "s" : ""} that were also edited by hand.
+            Everything else was merged. Your edits are kept unless you pick the new value.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => chooseAll("current")} data-testid="button-keep-all-edits">
+            Keep all my edits
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => chooseAll("incoming")} data-testid="button-take-all-new">
+            Take all new values
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 min-h-0 -mx-6 px-6">
+          <div className="space-y-4 py-2">
+            {conflicts.map((conflict) => {
+              const choice = resolutions[conflict.id] ?? "current";
+              return (
+                <div key={conflict.id} className="rounded-md border p-3" data-testid={`conflict-${conflict.id}`}>
+                  <p className="text-sm font-medium mb-2">
+                    <span className="text-muted-foreground">{sectionLabel(conflict.section)} › </span>
+                    {conflict.entryName}
+                    <span className="text-muted-foreground"> › {fieldLabel(conflict)}</span>
+                  </p>
+                  <div className="grid grid-cols-2 gap-3">
+                    {(["current", "incoming"] as const).map((side) => (
+                      <button
+                        key={side}
+                        type="button"
+                        onClick={() => setResolutions({ ...resolutions, [conflict.id]: side })}
+                        className={`rounded-md border p-3 text-left transition-colors ${
+                          choice === side ? "border-primary bg-primary/5 ring-1 ring-primary" : "hover-elevate"
+                        }`}
+                        data-testid={`button-resolve-${side}-${conflict.id}`}
+                      >
+                        <p className="text-xs font-medium text-muted-foreground mb-1">
+                          {side === "current" ? "Your edit" : "New extraction"}
+                        </p>
+                        <ConflictValue value={conflict[side]} definition={extractionSchema} />
+                      </button>
+                    ))}
+                  </div>
+                  <details className="mt-2 text-xs text-muted-foreground">
+                    <summary className="cursor-pointer">Previous extraction</summary>
+                    <div className="mt-1">
+                      <ConflictValue value={conflict.base} definition={extractionSchema} />
+                    </div>
+                  </details>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => discardMutation.mutate()}
+            disabled={isPending}
+            data-testid="button-discard-reprocess"
+          >
+            Discard reprocess
+          </Button>
+          <Button onClick={() => resolveMutation.mutate()} disabled={isPending} data-testid="button-apply-reprocess">
+            {resolveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
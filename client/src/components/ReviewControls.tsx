@@ -0,0 +1,299 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChevronDown, ClipboardCheck, UserRound } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, useUserNames } from "@/hooks/use-auth";
+import {
+  REVIEW_STATUS_LABELS,
+  REVIEW_TRANSITIONS,
+  type ReviewStatus,
+  type ReviewTransition,
+} from "@shared/schema";
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  draft: "border-muted-foreground/30 text-muted-foreground",
+  in_review: "border-blue-300 text-blue-600",
+  changes_requested: "border-amber-300 text-amber-600",
+  approved: "border-emerald-300 text-emerald-600",
+  published: "border-violet-300 text-violet-600",
+};
+
+// What the menu calls each move, by target status
+const ACTION_LABELS: Record<ReviewStatus, string> = {
+  draft: "Back to draft",
+  in_review: "Submit for review",
+  changes_requested: "Request changes",
+  approved: "Approve",
+  published: "Publish",
+};
+
+export function ReviewStatusBadge({ status, plain = false }: { status: string; plain?: boolean }) {
+  const label = REVIEW_STATUS_LABELS[status as ReviewStatus] ?? status;
+  if (plain) return <span>{label}</span>;
+  return (
+    <Badge variant="outline" className={`text-xs ${STATUS_STYLES[status as ReviewStatus] ?? ""}`}>
+      {label}
+    </Badge>
+  );
+}
+
+interface ReviewControlsProps {
+  documentId: string;
+  reviewStatus: string;
+  assignee?: string | null;
+  dueDate?: string | Date | null;
+  reviewNotes?: string | null;
+}
+
+function toDateInput(value: string | Date | null | undefined): string {
+  return value ? new Date(value).toISOString().slice(0, 10) : "";
+}
+
+export function ReviewControls({ documentId, reviewStatus, assignee, dueDate, reviewNotes }: ReviewControlsProps) {
+  const { toast } = useToast();
+  const [pendingStatus, setPendingStatus] = useState<ReviewStatus | null>(null);
+  const [note, setNote] = useState("");
+  const [showDetails, setShowDetails] = useState(false);
+  const [assigneeInput, setAssigneeInput] = useState("");
+  const [dueDateInput, setDueDateInput] = useState("");
+  const [notesInput, setNotesInput] = useState("");
+
+  const { can } = useAuth();
+  const userName = useUserNames();
+  const canReview = can("reviewer");
+
+  const status = reviewStatus as ReviewStatus;
+  // Editors can only submit for review, not reopen a published document; the server enforces the same rule
+  const nextStatuses = (REVIEW_TRANSITIONS[status] ?? []).filter(
+    (next) => canReview || (next === "in_review" && status !== "published" && can("editor"))
+  );
+
+  useEffect(() => {
+    setNote("");
+  }, [pendingStatus]);
+
+  useEffect(() => {
+    if (showDetails) {
+      setAssigneeInput(assignee || "");
+      setDueDateInput(toDateInput(dueDate));
+      setNotesInput(reviewNotes || "");
+    }
+  }, [showDetails, assignee, dueDate, reviewNotes]);
+
+  const { data: history = [] } = useQuery<ReviewTransition[]>({
+    queryKey: ["/api/documents", documentId, "review", "transitions"],
+    enabled: showDetails,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/review-queue"] });
+  };
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ to, note }: { to: ReviewStatus; note: string }) => {
+      return await apiRequest("POST", `/api/documents/${documentId}/review/transitions`, {
+        status: to,
+        note: note.trim() || undefined,
+      });
+    },
+    onSuccess: (_, { to }) => {
+      invalidate();
+      toast({ title: REVIEW_STATUS_LABELS[to], description: "Review status updated." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not change review status", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const assignmentMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PATCH", `/api/documents/${documentId}/review`, {
+        assignee: assigneeInput.trim() || null,
+        dueDate: dueDateInput || null,
+        reviewNotes: notesInput.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setShowDetails(false);
+      toast({ title: "Review details saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save review details", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleConfirmTransition = () => {
+    if (pendingStatus) {
+      transitionMutation.mutate({ to: pendingStatus, note });
+      setPendingStatus(null);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 gap-1 px-2" data-testid="button-review-menu">
+            <ReviewStatusBadge status={status} />
+            {assignee && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <UserRound className="h-3 w-3" />
+                {assignee}
+              </span>
+            )}
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {nextStatuses.map((next) => (
+            <DropdownMenuItem
+              key={next}
+              onClick={() => setPendingStatus(next)}
+              data-testid={`menu-review-${next}`}
+            >
+              {status === "published" && next === "in_review" ? "Reopen for editing" : ACTION_LABELS[next]}
+            </DropdownMenuItem>
+          ))}
+          {nextStatuses.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onClick={() => setShowDetails(true)} data-testid="menu-review-details">
+            <ClipboardCheck className="mr-2 h-4 w-4" />
+            Assignment & history
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={pendingStatus !== null} onOpenChange={() => setPendingStatus(null)}>
+        <DialogContent data-testid="dialog-review-transition">
+          <DialogHeader>
+            <DialogTitle>{pendingStatus ? ACTION_LABELS[pendingStatus] : ""}</DialogTitle>
+            <DialogDescription>
+              {REVIEW_STATUS_LABELS[status]} → {pendingStatus ? REVIEW_STATUS_LABELS[pendingStatus] : ""}
+              {pendingStatus === "published" && ". Published documents are read-only until reopened."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-2">
+            <Label htmlFor="review-transition-note">Note (optional)</Label>
+            <Textarea
+              id="review-transition-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={pendingStatus === "changes_requested" ? "What needs to change?" : "Add a note..."}
+              data-testid="input-review-note"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingStatus(null)} data-testid="button-cancel-review-transition">
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmTransition} data-testid="button-confirm-review-transition">
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showDetails} onOpenChange={setShowDetails}>
+        <DialogContent data-testid="dialog-review-details">
+          <DialogHeader>
+            <DialogTitle>Review</DialogTitle>
+            <DialogDescription>Assignee, due date and reviewer notes for this document.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="review-assignee">Assignee</Label>
+                <Input
+                  id="review-assignee"
+                  value={assigneeInput}
+                  onChange={(e) => setAssigneeInput(e.target.value)}
+                  placeholder="Unassigned"
+                  data-testid="input-review-assignee"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="review-due-date">Due date</Label>
+                <Input
+                  id="review-due-date"
+                  type="date"
+                  value={dueDateInput}
+                  onChange={(e) => setDueDateInput(e.target.value)}
+                  data-testid="input-review-due-date"
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="review-notes">Reviewer notes</Label>
+              <Textarea
+                id="review-notes"
+                value={notesInput}
+                onChange={(e) => setNotesInput(e.target.value)}
+                data-testid="input-review-notes"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>History</Label>
+              <ScrollArea className="h-40 rounded-md border p-2">
+                {history.length === 0 ? (
+                  <p className="text-xs text-muted-foreground text-center py-4">No status changes yet</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {history.map((transition) => (
+                      <li key={transition.id} className="text-xs" data-testid={`review-transition-${transition.id}`}>
+                        <div className="flex items-center gap-1">
+                          <ReviewStatusBadge status={transition.fromStatus} />
+                          <span>→</span>
+                          <ReviewStatusBadge status={transition.toStatus} />
+                          <span className="ml-auto text-muted-foreground">
+                            {userName(transition.createdBy) && `${userName(transition.createdBy)}, `}
+                            {new Date(transition.createdAt).toLocaleString()}
+                          </span>
+                        </div>
+                        {transition.note && <p className="mt-1 text-muted-foreground">{transition.note}</p>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </ScrollArea>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDetails(false)} data-testid="button-cancel-review-details">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => assignmentMutation.mutate()}
+              disabled={!canReview || assignmentMutation.isPending}
+              data-testid="button-save-review-details"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { ProductVariant } from "@shared/schema";
+
+interface SplitProductDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (variantIds: string[], name: string) => void;
+  productName: string;
+  variants: ProductVariant[];
+  documentNames: Record<string, string>;
+  copyTypeLabels: Record<string, string>;
+}
+
+export function SplitProductDialog({
+  open,
+  onClose,
+  onSubmit,
+  productName,
+  variants,
+  documentNames,
+  copyTypeLabels,
+}: SplitProductDialogProps) {
+  const [name, setName] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setName("");
+    setSelectedIds([]);
+  }, [open]);
+
+  const toggle = (variant: ProductVariant) => {
+    setSelectedIds((prev) =>
+      prev.includes(variant.id) ? prev.filter((id) => id !== variant.id) : [...prev, variant.id]
+    );
+    // Suggest the localized name of the first selected variant
+    if (!name && variant.name) setName(variant.name);
+  };
+
+  // At least one variant has to stay with the current product
+  const canSubmit = name.trim() && selectedIds.length > 0 && selectedIds.length < variants.length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) {
+      onSubmit(selectedIds, name.trim());
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent data-testid="dialog-split-product">
+        <DialogHeader>
+          <DialogTitle>Split Product</DialogTitle>
+          <DialogDescription>
+            Select the variants that do not belong to "{productName}". They move into a new product.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-3 py-4">
+            <ScrollArea className="h-64 rounded-md border p-2">
+              {variants.map((variant) => (
+                <div key={variant.id} className="flex items-center space-x-2 py-1">
+                  <Checkbox
+                    id={`split-${variant.id}`}
+                    checked={selectedIds.includes(variant.id)}
+                    onCheckedChange={() => toggle(variant)}
+                    data-testid={`checkbox-split-${variant.id}`}
+                  />
+                  <Label htmlFor={`split-${variant.id}`} className="font-normal cursor-pointer flex-1">
+                    {variant.name || productName}
+                  </Label>
+                  <span className="text-xs text-muted-foreground">
+                    {variant.locale || "Unknown"} • {copyTypeLabels[variant.copyType] || variant.copyType} •{" "}
+                    {documentNames[variant.documentId] || "Document"}
+                  </span>
+                </div>
+              ))}
+            </ScrollArea>
+            <div className="grid gap-2">
+              <Label htmlFor="split-product-name">New Product Name</Label>
+              <Input
+                id="split-product-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Enter product name..."
+                data-testid="input-split-product-name"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel-split">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit} data-testid="button-submit-split">
+              Split
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,28 @@
-import { Settings } from "lucide-react";
+import { LogOut, ScrollText, Settings, UserRound, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "./ThemeToggle";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { USER_ROLE_LABELS, type UserRole } from "@shared/schema";
 
 interface TopBarProps {
   onSettingsClick: () => void;
+  onManageUsers: () => void;
+  onShowAuditLog: () => void;
   hasApiKey: boolean;
 }
 
-export function TopBar({ onSettingsClick, hasApiKey }: TopBarProps) {
+export function TopBar({ onSettingsClick, onManageUsers, onShowAuditLog, hasApiKey }: TopBarProps) {
+  const { user, can, logout } = useAuth();
+
   return (
     <header className="sticky top-0 z-50 flex h-16 items-center justify-between border-b bg-background/95 px-6 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="flex items-center gap-3">
@@ -37,6 +51,38 @@ export function TopBar({ onSettingsClick, hasApiKey }: TopBarProps) {
           <Settings className="h-5 w-5" />
         </Button>
         <ThemeToggle />
+        {user && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="gap-2" data-testid="button-user-menu">
+                <UserRound className="h-4 w-4" />
+                {user.username}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                Signed in as {USER_ROLE_LABELS[user.role as UserRole] ?? user.role}
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {can("admin") && (
+                <>
+                  <DropdownMenuItem onClick={onManageUsers} data-testid="menu-manage-users">
+                    <Users className="mr-2 h-4 w-4" />
+                    Users
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={onShowAuditLog} data-testid="menu-audit-log">
+                    <ScrollText className="mr-2 h-4 w-4" />
+                    Audit log
+                  </DropdownMenuItem>
+                </>
+              )}
+              <DropdownMenuItem onClick={() => logout()} data-testid="menu-sign-out">
+                <LogOut className="mr-2 h-4 w-4" />
+                Sign out
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
     </header>
   );
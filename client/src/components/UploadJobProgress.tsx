@@ -0,0 +1,179 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FileText, Loader2, CheckCircle, AlertTriangle, Clock, Copy, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useJobProgress } from "@/hooks/use-job-progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Document, DuplicateAction, ProcessingJobProgress, ProcessingJobFileProgress } from "@shared/schema";
+
+interface UploadJobProgressProps {
+  jobId: string;
+  initialJob?: ProcessingJobProgress | null;
+  onFinished?: (job: ProcessingJobProgress) => void;
+  // Called when resolving a held duplicate sets the job running again
+  onResumed?: (job: ProcessingJobProgress) => void;
+  onDismiss?: (jobId: string) => void;
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  extracting: "Extracting text",
+  structuring: "Structuring with AI",
+  validating: "Validating",
+  projecting: "Indexing products",
+  done: "Done",
+};
+
+const STAGE_ORDER = ["extracting", "structuring", "validating", "projecting", "done"];
+
+function fileProgressValue(file: ProcessingJobFileProgress) {
+  if (file.status === "completed") return 100;
+  const index = Math.max(STAGE_ORDER.indexOf(file.stage), 0);
+  return Math.round((index / (STAGE_ORDER.length - 1)) * 100);
+}
+
+function FileStatus({ file }: { file: ProcessingJobFileProgress }) {
+  if (file.status === "completed") {
+    return <CheckCircle className="h-4 w-4 text-emerald-500 flex-shrink-0" />;
+  }
+  if (file.status === "failed") {
+    return <AlertTriangle className="h-4 w-4 text-destructive flex-shrink-0" />;
+  }
+  if (file.status === "duplicate") {
+    return <Copy className="h-4 w-4 text-amber-500 flex-shrink-0" />;
+  }
+  if (file.status === "running") {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary flex-shrink-0" />;
+  }
+  return <Clock className="h-4 w-4 text-muted-foreground flex-shrink-0" />;
+}
+
+function fileStatusLabel(file: ProcessingJobFileProgress) {
+  if (file.status === "completed" && file.duplicateOfDocumentId && file.documentId === file.duplicateOfDocumentId) {
+    return file.duplicateAction === "version" ? "Added as new version" : "Linked to existing";
+  }
+  if (file.status === "completed") return "Processed";
+  if (file.status === "duplicate") return "Possible duplicate";
+  if (file.status === "failed") return "Failed";
+  if (file.status === "queued") return "Queued";
+  if (file.status === "retrying") return `${STAGE_LABELS[file.stage] || file.stage} - retrying (attempt ${file.attempts + 1})`;
+  return STAGE_LABELS[file.stage] || file.stage;
+}
+
+// What to do with a file whose text matches an existing document
+function DuplicateChoices({
+  jobId,
+  file,
+  onResumed,
+}: {
+  jobId: string;
+  file: ProcessingJobFileProgress;
+  onResumed?: (job: ProcessingJobProgress) => void;
+}) {
+  const { toast } = useToast();
+  const { data: documents = [] } = useQuery<Document[]>({ queryKey: ["/api/documents"] });
+  const existing = documents.find((document) => document.id === file.duplicateOfDocumentId);
+
+  const resolveMutation = useMutation({
+    mutationFn: async (action: Exclude<DuplicateAction, "ask">) => {
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/files/${file.id}/duplicate`, { action });
+      return (await response.json()) as ProcessingJobProgress;
+    },
+    onSuccess: (job) => onResumed?.(job),
+    onError: (error: Error) => {
+      toast({ title: "Could not resolve duplicate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Same text as {existing ? `"${existing.name}"` : "an existing document"}.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {(
+          [
+            ["link", "Use existing"],
+            ["version", "Add as new version"],
+            ["proceed", "Process anyway"],
+          ] as const
+        ).map(([action, label]) => (
+          <Button
+            key={action}
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            disabled={resolveMutation.isPending}
+            onClick={() => resolveMutation.mutate(action)}
+            data-testid={`button-duplicate-${action}-${file.id}`}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function UploadJobProgress({ jobId, initialJob, onFinished, onResumed, onDismiss }: UploadJobProgressProps) {
+  const job = useJobProgress(jobId, initialJob, onFinished);
+  const finished = job?.status === "completed" || job?.status === "failed";
+  const completedCount = job?.files.filter((f) => f.status === "completed").length ?? 0;
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-3" data-testid={`job-progress-${jobId}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          {finished ? (
+            job?.status === "completed" ? (
+              <CheckCircle className="h-4 w-4 text-emerald-500" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+            )
+          ) : (
+            <Loader2 className="h-4 w-4 animate-spin text-primary" />
+          )}
+          <span>
+            {job ? `${completedCount} of ${job.files.length} file${job.files.length > 1 ? "s" : ""} processed` : "Connecting..."}
+          </span>
+        </div>
+        {finished && onDismiss && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            onClick={() => onDismiss(jobId)}
+            data-testid={`button-dismiss-job-${jobId}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {job?.files.map((file) => (
+          <div key={file.id} className="space-y-1" data-testid={`job-file-${file.id}`}>
+            <div className="flex items-center gap-2 min-w-0">
+              <FileStatus file={file} />
+              <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              <span className="text-sm truncate flex-1">{file.name}</span>
+              <Badge variant={file.status === "failed" ? "destructive" : "outline"} className="text-xs flex-shrink-0">
+                {fileStatusLabel(file)}
+              </Badge>
+            </div>
+            {file.status !== "completed" && file.status !== "failed" && file.status !== "duplicate" && (
+              <Progress value={fileProgressValue(file)} className="h-1.5" />
+            )}
+            {file.status === "duplicate" && <DuplicateChoices jobId={jobId} file={file} onResumed={onResumed} />}
+            {file.error && (
+              <p className={`text-xs ${file.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}>
+                {file.error}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, Loader2 } from "lucide-react";
+import type { FieldDiff, ProductDiff, VersionDiff } from "@shared/schema";
+
+const CURRENT = "current";
+
+interface VersionOption {
+  id: string;
+  versionNumber: number;
+}
+
+interface VersionDiffDialogProps {
+  documentId: string;
+  versions: VersionOption[];
+  // Version to compare from when the dialog opens; null keeps it closed
+  fromVersionId: string | null;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ProductDiff["status"], { label: string; className: string }> = {
+  added: { label: "Added", className: "bg-green-600 hover:bg-green-600 text-white" },
+  removed: { label: "Removed", className: "bg-red-600 hover:bg-red-600 text-white" },
+  changed: { label: "Changed", className: "" },
+};
+
+function formatDelta(delta: number): string {
+  const points = Math.round(delta * 100);
+  return `${points > 0 ? "+" : ""}${points}%`;
+}
+
+function FieldChange({ field }: { field: FieldDiff }) {
+  if (field.type === "list") {
+    return (
+      <ul className="space-y-0.5 text-sm">
+        {field.removed.map((item, index) => (
+          <li key={`removed-${index}`} className="text-red-700 dark:text-red-400">
+            <span className="font-mono mr-2">−</span>
+            <span className="line-through">{item}</span>
+          </li>
+        ))}
+        {field.added.map((item, index) => (
+          <li key={`added-${index}`} className="text-green-700 dark:text-green-400">
+            <span className="font-mono mr-2">+</span>
+            {item}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  return (
+    <p className="text-sm leading-relaxed whitespace-pre-wrap">
+      {field.words.map((change, index) =>
+        change.op === "equal" ? (
+          <span key={index}>{change.text}</span>
+        ) : change.op === "insert" ? (
+          <ins key={index} className="no-underline bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200 rounded-sm">
+            {change.text}
+          </ins>
+        ) : (
+          <del key={index} className="bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-200 rounded-sm">
+            {change.text}
+          </del>
+        )
+      )}
+    </p>
+  );
+}
+
+export function VersionDiffDialog({ documentId, versions, fromVersionId, onClose }: VersionDiffDialogProps) {
+  const [from, setFrom] = useState(fromVersionId ?? CURRENT);
+  const [to, setTo] = useState(CURRENT);
+
+  useEffect(() => {
+    if (fromVersionId) {
+      setFrom(fromVersionId);
+      setTo(CURRENT);
+    }
+  }, [fromVersionId]);
+
+  const { data: diff, isLoading, error } = useQuery<VersionDiff>({
+    queryKey: ["/api/documents", documentId, `versions/diff?from=${from}&to=${to}`],
+    enabled: fromVersionId !== null && from !== to,
+  });
+
+  const sideLabel = (versionNumber: number | null) => (versionNumber === null ? "Current" : `Version ${versionNumber}`);
+  const options = [{ value: CURRENT, label: "Current" }].concat(
+    versions.map((version) => ({ value: version.id, label: `Version ${version.versionNumber}` }))
+  );
+  const changedProducts = diff?.sections.reduce((total, section) => total + section.products.length, 0) ?? 0;
+
+  return (
+    <Dialog open={fromVersionId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col" data-testid="dialog-version-diff">
+        <DialogHeader>
+          <DialogTitle>Compare versions</DialogTitle>
+          <DialogDescription>Changes by product and field between two states of this document.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3 flex-wrap">
+          <Select value={from} onValueChange={setFrom}>
+            <SelectTrigger className="w-[160px]" data-testid="select-diff-from">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          <Select value={to} onValueChange={setTo}>
+            <SelectTrigger className="w-[160px]" data-testid="select-diff-to">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {diff && diff.confidenceDelta !== null && (
+            <Badge
+              variant={diff.confidenceDelta < 0 ? "destructive" : "secondary"}
+              data-testid="badge-confidence-delta"
+            >
+              Confidence {formatDelta(diff.confidenceDelta)}
+            </Badge>
+          )}
+        </div>
+
+        <ScrollArea className="flex-1 min-h-0 -mx-6 px-6">
+          {from === to ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">Pick two different versions to compare.</p>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="py-8 text-center text-sm text-destructive">{(error as Error).message}</p>
+          ) : diff && changedProducts === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {sideLabel(diff.from.versionNumber)} and {sideLabel(diff.to.versionNumber)} have the same structured data.
+            </p>
+          ) : (
+            <div className="space-y-6 py-2">
+              {diff?.sections.map((section) => (
+                <section key={section.name} data-testid={`diff-section-${section.name}`}>
+                  <h4 className="text-sm font-semibold mb-2">{section.label}</h4>
+                  <div className="space-y-3">
+                    {section.products.map((product, index) => (
+                      <div key={`${product.name}-${index}`} className="rounded-md border p-3">
+                        <div className="flex items-center gap-2 mb-2">
+                          <span className="font-medium text-sm">{product.name}</span>
+                          <Badge variant={product.status === "changed" ? "outline" : "default"} className={STATUS_STYLES[product.status].className}>
+                            {STATUS_STYLES[product.status].label}
+                          </Badge>
+                        </div>
+                        {/* Whole added or removed products only need their name */}
+                        {product.status === "changed" && (
+                          <div className="space-y-2">
+                            {product.fields.map((field) => (
+                              <div key={field.name}>
+                                <p className="text-xs font-medium text-muted-foreground mb-0.5">{field.label}</p>
+                                <FieldChange field={field} />
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
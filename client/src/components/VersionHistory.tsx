@@ -4,10 +4,12 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card } from "@/components/ui/card";
-import { Clock, RotateCcw, CheckCircle } from "lucide-react";
+import { Clock, RotateCcw, CheckCircle, GitCompare } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth, useUserNames } from "@/hooks/use-auth";
 import { formatDistance } from "date-fns";
+import { VersionDiffDialog } from "./VersionDiffDialog";
 
 interface DocumentVersion {
   id: string;
@@ -18,6 +20,7 @@ interface DocumentVersion {
   validationConfidence: number | null;
   validationIssues: string[] | null;
   changeDescription: string | null;
+  createdBy: string | null;
   createdAt: string;
 }
 
@@ -34,6 +37,9 @@ interface VersionHistoryProps {
 export function VersionHistory({ documentId, currentVersion, onVersionRestored }: VersionHistoryProps) {
   const { toast } = useToast();
   const [expandedVersion, setExpandedVersion] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState<string | null>(null);
+  const { can } = useAuth();
+  const userName = useUserNames();
 
   const { data: versions = [], isLoading } = useQuery<DocumentVersion[]>({
     queryKey: ["/api/documents", documentId, "versions"],
@@ -42,10 +48,7 @@ export function VersionHistory({ documentId, currentVersion, onVersionRestored }
 
   const restoreMutation = useMutation({
     mutationFn: async (versionId: string) => {
-      return await apiRequest(`/api/documents/${documentId}/restore-version`, {
-        method: "POST",
-        body: JSON.stringify({ versionId }),
-      });
+      return await apiRequest("POST", `/api/documents/${documentId}/restore-version`, { versionId });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/documents", documentId] });
@@ -149,6 +152,7 @@ export function VersionHistory({ documentId, currentVersion, onVersionRestored }
                   )}
                   <p className="text-xs text-muted-foreground mt-1">
                     {formatDistance(new Date(version.createdAt), new Date(), { addSuffix: true })}
+                    {userName(version.createdBy) && ` by ${userName(version.createdBy)}`}
                   </p>
                   
                   {expandedVersion === version.id && version.validationIssues && version.validationIssues.length > 0 && (
@@ -165,19 +169,35 @@ export function VersionHistory({ documentId, currentVersion, onVersionRestored }
                     </div>
                   )}
                 </div>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    restoreMutation.mutate(version.id);
-                  }}
-                  disabled={restoreMutation.isPending}
-                  data-testid={`button-restore-version-${version.id}`}
-                >
-                  <RotateCcw className="h-3 w-3 mr-1" />
-                  Restore
-                </Button>
+                <div className="flex flex-col gap-1 shrink-0">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setCompareFrom(version.id);
+                    }}
+                    data-testid={`button-compare-version-${version.id}`}
+                  >
+                    <GitCompare className="h-3 w-3 mr-1" />
+                    Compare
+                  </Button>
+                  {can("editor") && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        restoreMutation.mutate(version.id);
+                      }}
+                      disabled={restoreMutation.isPending}
+                      data-testid={`button-restore-version-${version.id}`}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
               </div>
             </Card>
           ))}
@@ -187,12 +207,19 @@ export function VersionHistory({ documentId, currentVersion, onVersionRestored }
               <Clock className="h-8 w-8 mx-auto mb-2 opacity-50" />
               <p className="text-sm">No version history yet</p>
               <p className="text-xs mt-1">
-                Versions are created when you reprocess this document
+                Versions are created when you edit or reprocess this document
               </p>
             </div>
           )}
         </div>
       </ScrollArea>
+
+      <VersionDiffDialog
+        documentId={documentId}
+        versions={versions}
+        fromVersionId={compareFrom}
+        onClose={() => setCompareFrom(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,83 @@
+import { createContext, useContext, type ReactNode } from "react"
+import { useMutation, useQuery } from "@tanstack/react-query"
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient"
+import { hasRole, type SafeUser, type UserRole } from "@shared/schema"
+
+interface Credentials {
+  username: string
+  password: string
+}
+
+interface AuthContextValue {
+  user: SafeUser | null
+  isLoading: boolean
+  needsSetup: boolean
+  can: (minimum: UserRole) => boolean
+  login: (credentials: Credentials) => Promise<void>
+  setup: (credentials: Credentials) => Promise<void>
+  logout: () => Promise<void>
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null)
+
+// Everything else cached belongs to the previous session
+function switchUser(user: SafeUser | null) {
+  queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== "/api/auth/user" })
+  queryClient.setQueryData(["/api/auth/user"], user)
+}
+
+/**
+ * The signed-in user and the login / logout / first-run setup actions. The
+ * user query answers null instead of throwing while nobody is signed in.
+ */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data: user = null, isLoading } = useQuery<SafeUser | null>({
+    queryKey: ["/api/auth/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  })
+
+  const { data: setupStatus } = useQuery<{ needsSetup: boolean }>({
+    queryKey: ["/api/auth/setup"],
+    enabled: !isLoading && !user,
+  })
+
+  const signIn = (url: string) => async (credentials: Credentials) => {
+    const res = await apiRequest("POST", url, credentials)
+    switchUser(await res.json())
+  }
+
+  const loginMutation = useMutation({ mutationFn: signIn("/api/auth/login") })
+  const setupMutation = useMutation({ mutationFn: signIn("/api/auth/setup") })
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout")
+      switchUser(null)
+    },
+  })
+
+  const value: AuthContextValue = {
+    user,
+    isLoading,
+    needsSetup: setupStatus?.needsSetup ?? false,
+    can: (minimum) => (user ? hasRole(user.role, minimum) : false),
+    login: loginMutation.mutateAsync,
+    setup: setupMutation.mutateAsync,
+    logout: logoutMutation.mutateAsync,
+  }
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext)
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider")
+  }
+  return context
+}
+
+// Username for a createdBy / updatedBy id; null for system changes and deleted accounts
+export function useUserNames() {
+  const { data: users = [] } = useQuery<SafeUser[]>({ queryKey: ["/api/users"] })
+  return (id: string | null | undefined) => users.find((user) => user.id === id)?.username ?? null
+}
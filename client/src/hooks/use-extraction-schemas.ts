@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query"
+import type { ExtractionSchema } from "@shared/schema"
+import {
+  DEFAULT_EXTRACTION_SCHEMA_DEFINITION,
+  type ExtractionSchemaDefinition,
+} from "@shared/extractionSchema"
+
+/**
+ * All stored extraction schema versions, plus helpers to look up the
+ * definition a document was extracted with. Documents without a schema
+ * version predate configurable schemas and use the built-in definition.
+ */
+export function useExtractionSchemas() {
+  const { data: schemas = [], isLoading } = useQuery<ExtractionSchema[]>({
+    queryKey: ["/api/extraction-schemas"],
+  })
+
+  // Newest version of each key (the list is ordered by key, then version descending)
+  const latestSchemas = schemas.filter(
+    (schema, i) => i === 0 || schemas[i - 1].key !== schema.key
+  )
+
+  const definitionFor = (
+    extractionSchemaId: string | null | undefined
+  ): ExtractionSchemaDefinition =>
+    schemas.find((schema) => schema.id === extractionSchemaId)?.definition ??
+    DEFAULT_EXTRACTION_SCHEMA_DEFINITION
+
+  return { schemas, latestSchemas, definitionFor, isLoading }
+}
@@ -0,0 +1,40 @@
+import { useEffect, useRef, useState } from "react"
+import type { ProcessingJobProgress } from "@shared/schema"
+
+function isFinished(job: ProcessingJobProgress) {
+  return job.status === "completed" || job.status === "failed"
+}
+
+/**
+ * Follow a background processing job over server-sent events. The stream is
+ * closed once the job finishes; onFinished is called exactly once.
+ */
+export function useJobProgress(
+  jobId: string,
+  initial?: ProcessingJobProgress | null,
+  onFinished?: (job: ProcessingJobProgress) => void
+) {
+  const [job, setJob] = useState<ProcessingJobProgress | null>(initial ?? null)
+  const onFinishedRef = useRef(onFinished)
+  onFinishedRef.current = onFinished
+
+  useEffect(() => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`)
+    let finished = false
+
+    source.onmessage = (event) => {
+      const next: ProcessingJobProgress = JSON.parse(event.data)
+      setJob(next)
+      if (isFinished(next) && !finished) {
+        finished = true
+        // Stop EventSource from reconnecting after the server closes the stream
+        source.close()
+        onFinishedRef.current?.(next)
+      }
+    }
+
+    return () => source.close()
+  }, [jobId])
+
+  return job
+}
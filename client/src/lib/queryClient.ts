@@ -1,6 +1,10 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
+  // The session expired or was signed out elsewhere: show the login page
+  if (res.status === 401) {
+    queryClient.setQueryData(["/api/auth/user"], null);
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
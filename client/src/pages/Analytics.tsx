@@ -1,35 +1,40 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { BarChart3, FileText, AlertCircle, CheckCircle, XCircle } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { LlmCacheSummary } from "@shared/schema";
 
-interface CopySectionCompleteness {
+interface FieldCompleteness {
+  name: string;
+  label: string;
+  type: "string" | "string[]";
+  role: "name" | "legal" | null;
+  present: boolean;
+  count: number;
+}
+
+interface ProductCompleteness {
   productName: string;
-  hasProductName: boolean;
-  hasHeadlines: boolean;
-  hasAdvertisingCopy: boolean;
-  hasKeyFeatureBullets: boolean;
-  hasLegalReferences: boolean;
-  headlinesCount: number;
-  keyFeatureBulletsCount: number;
-  legalReferencesCount: number;
+  fields: FieldCompleteness[];
+}
+
+interface SectionAnalysis {
+  name: string;
+  label: string;
+  present: boolean;
+  products: ProductCompleteness[];
 }
 
 interface DocumentAnalysis {
   id: string;
   name: string;
-  hasProductCopy: boolean;
-  hasBusinessCopy: boolean;
-  hasUpgraderCopy: boolean;
-  productCopyCompleteness: CopySectionCompleteness[] | null;
-  businessCopyCompleteness: CopySectionCompleteness[] | null;
-  upgraderCopyCompleteness: CopySectionCompleteness[] | null;
-  productNames: {
-    ProductCopy: string[];
-    BusinessCopy: string[];
-    UpgraderCopy: string[];
-  };
+  extractionSchema: { key: string; version: number; name: string };
+  sections: SectionAnalysis[];
 }
 
 interface Analytics {
@@ -37,16 +42,95 @@ interface Analytics {
   processedDocuments: number;
   unprocessedDocuments: number;
   totalProductsExtracted: number;
-  sectionCoverage: {
-    productCopy: number;
-    businessCopy: number;
-    upgraderCopy: number;
-  };
+  sectionCoverage: Array<{ name: string; label: string; count: number }>;
   qualityMetrics: {
-    documentsWithEmptyKeyFeatureBullets: number;
+    documentsWithEmptyListFields: number;
     documentsWithMissingFields: number;
   };
   documentAnalysis: DocumentAnalysis[];
+  llmCache: LlmCacheSummary;
+}
+
+const TASK_LABELS: Record<string, string> = {
+  extraction: "Extraction",
+  languageDetection: "Language detection",
+  translation: "Translation",
+  judgePrimary: "Primary judge",
+  judgeSecondary: "Secondary judge",
+};
+
+function formatHitRate(rate: number | null) {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+function LlmCacheCard({ cache }: { cache: LlmCacheSummary }) {
+  const { can } = useAuth();
+  const { toast } = useToast();
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/llm-cache");
+      return (await response.json()) as { deleted: number };
+    },
+    onSuccess: ({ deleted }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      toast({ title: "AI cache cleared", description: `${deleted} cached response(s) removed` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not clear AI cache", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>AI Response Cache</CardTitle>
+          <CardDescription>
+            {cache.enabled
+              ? `Unchanged requests reuse earlier responses for ${cache.ttlHours} hours. Overall hit rate ${formatHitRate(cache.hitRate)}.`
+              : "Disabled (LLM_CACHE=off); every request goes to the provider."}
+          </CardDescription>
+        </div>
+        {can("admin") && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => clearMutation.mutate()}
+            disabled={clearMutation.isPending}
+            data-testid="button-clear-llm-cache"
+          >
+            Clear Cache
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {cache.tasks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No AI calls yet</p>
+        ) : (
+          <div className="space-y-1">
+            <div className="grid grid-cols-5 text-xs text-muted-foreground">
+              <span className="col-span-2">Task</span>
+              <span className="text-right">Hits</span>
+              <span className="text-right">Misses</span>
+              <span className="text-right">Hit rate</span>
+            </div>
+            {cache.tasks.map((stats) => (
+              <div key={stats.task} className="grid grid-cols-5 text-sm" data-testid={`row-llm-cache-${stats.task}`}>
+                <span className="col-span-2">
+                  {TASK_LABELS[stats.task] || stats.task}
+                  <span className="text-xs text-muted-foreground"> ({stats.entries} cached)</span>
+                </span>
+                <span className="text-right">{stats.hits}</span>
+                <span className="text-right">{stats.misses}</span>
+                <span className="text-right font-medium">{formatHitRate(stats.hitRate)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
 }
 
 function ValidationBadge({ 
@@ -69,17 +153,11 @@ function ValidationBadge({
   );
 }
 
-function SectionValidation({ 
-  section, 
-  sectionName 
-}: { 
-  section: CopySectionCompleteness[] | null; 
-  sectionName: string;
-}) {
-  if (!section || section.length === 0) {
+function SectionValidation({ section }: { section: SectionAnalysis }) {
+  if (section.products.length === 0) {
     return (
       <div className="space-y-2">
-        <h4 className="font-medium text-sm">{sectionName}</h4>
+        <h4 className="font-medium text-sm">{section.label}</h4>
         <Badge variant="outline">Not present</Badge>
       </div>
     );
@@ -87,15 +165,20 @@ function SectionValidation({
 
   return (
     <div className="space-y-3">
-      <h4 className="font-medium text-sm">{sectionName}</h4>
-      {section.map((product, idx) => (
+      <h4 className="font-medium text-sm">{section.label}</h4>
+      {section.products.map((product, idx) => (
         <div key={idx} className="space-y-2 border-l-2 border-primary/20 pl-3">
           <p className="text-xs font-medium text-muted-foreground">{product.productName}</p>
           <div className="flex flex-wrap gap-1">
-            <ValidationBadge isComplete={product.hasHeadlines} label={`Headlines (${product.headlinesCount})`} />
-            <ValidationBadge isComplete={product.hasAdvertisingCopy} label="Copy" />
-            <ValidationBadge isComplete={product.hasKeyFeatureBullets} label={`Bullets (${product.keyFeatureBulletsCount})`} />
-            <ValidationBadge isComplete={product.hasLegalReferences} label={`Legal (${product.legalReferencesCount})`} />
+            {product.fields
+              .filter((field) => field.role !== "name")
+              .map((field) => (
+                <ValidationBadge
+                  key={field.name}
+                  isComplete={field.present}
+                  label={field.type === "string[]" ? `${field.label} (${field.count})` : field.label}
+                />
+              ))}
           </div>
         </div>
       ))}
@@ -178,18 +261,12 @@ export default function Analytics() {
             </CardHeader>
             <CardContent>
               <div className="space-y-1">
-                <div className="flex justify-between text-sm">
-                  <span>ProductCopy:</span>
-                  <span className="font-medium" data-testid="text-productcopy-count">{analytics.sectionCoverage.productCopy}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>BusinessCopy:</span>
-                  <span className="font-medium" data-testid="text-businesscopy-count">{analytics.sectionCoverage.businessCopy}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>UpgraderCopy:</span>
-                  <span className="font-medium" data-testid="text-upgradercopy-count">{analytics.sectionCoverage.upgraderCopy}</span>
-                </div>
+                {analytics.sectionCoverage.map((section) => (
+                  <div key={section.name} className="flex justify-between text-sm">
+                    <span>{section.label}:</span>
+                    <span className="font-medium" data-testid={`text-${section.name.toLowerCase()}-count`}>{section.count}</span>
+                  </div>
+                ))}
               </div>
             </CardContent>
           </Card>
@@ -202,8 +279,8 @@ export default function Analytics() {
             <CardContent>
               <div className="space-y-1">
                 <div className="flex justify-between text-sm">
-                  <span>Empty Bullets:</span>
-                  <span className="font-medium" data-testid="text-empty-bullets">{analytics.qualityMetrics.documentsWithEmptyKeyFeatureBullets}</span>
+                  <span>Empty Lists:</span>
+                  <span className="font-medium" data-testid="text-empty-lists">{analytics.qualityMetrics.documentsWithEmptyListFields}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span>Missing Fields:</span>
@@ -214,6 +291,8 @@ export default function Analytics() {
           </Card>
         </div>
 
+        <LlmCacheCard cache={analytics.llmCache} />
+
         <Card>
           <CardHeader>
             <CardTitle>Document Validation Report</CardTitle>
@@ -228,31 +307,21 @@ export default function Analytics() {
                   <div className="flex items-center justify-between">
                     <h3 className="font-semibold" data-testid={`text-document-name-${doc.id}`}>{doc.name}</h3>
                     <div className="flex gap-2">
-                      {doc.hasProductCopy && (
-                        <Badge variant="default" data-testid={`badge-productcopy-${doc.id}`}>ProductCopy</Badge>
-                      )}
-                      {doc.hasBusinessCopy && (
-                        <Badge variant="default" data-testid={`badge-businesscopy-${doc.id}`}>BusinessCopy</Badge>
-                      )}
-                      {doc.hasUpgraderCopy && (
-                        <Badge variant="default" data-testid={`badge-upgradercopy-${doc.id}`}>UpgraderCopy</Badge>
-                      )}
+                      <Badge variant="outline" data-testid={`badge-schema-${doc.id}`}>
+                        {doc.extractionSchema.name} v{doc.extractionSchema.version}
+                      </Badge>
+                      {doc.sections.filter((section) => section.present).map((section) => (
+                        <Badge key={section.name} variant="default" data-testid={`badge-${section.name.toLowerCase()}-${doc.id}`}>
+                          {section.label}
+                        </Badge>
+                      ))}
                     </div>
                   </div>
 
                   <div className="grid gap-4 md:grid-cols-3">
-                    <SectionValidation 
-                      section={doc.productCopyCompleteness} 
-                      sectionName="ProductCopy" 
-                    />
-                    <SectionValidation 
-                      section={doc.businessCopyCompleteness} 
-                      sectionName="BusinessCopy" 
-                    />
-                    <SectionValidation 
-                      section={doc.upgraderCopyCompleteness} 
-                      sectionName="UpgraderCopy" 
-                    />
+                    {doc.sections.map((section) => (
+                      <SectionValidation key={section.name} section={section} />
+                    ))}
                   </div>
                 </div>
               ))}
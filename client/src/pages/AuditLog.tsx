@@ -0,0 +1,195 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollText } from "lucide-react";
+import { AUDIT_ENTITY_TYPES, type AuditEntry, type SafeUser } from "@shared/schema";
+
+const ALL = "all";
+
+const ENTITY_LABELS: Record<string, string> = {
+  document: "Document",
+  folder: "Folder",
+  product: "Product",
+  extraction_schema: "Extraction schema",
+  user: "User",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+}
+
+export default function AuditLog() {
+  const [entityType, setEntityType] = useState(ALL);
+  const [entityId, setEntityId] = useState("");
+  const [actorId, setActorId] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: users = [] } = useQuery<SafeUser[]>({ queryKey: ["/api/users"] });
+
+  const params = new URLSearchParams();
+  if (entityType !== ALL) params.set("entityType", entityType);
+  if (entityId.trim()) params.set("entityId", entityId.trim());
+  if (actorId !== ALL) params.set("actorId", actorId);
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  // The whole "to" day is included
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  params.set("limit", "200");
+
+  const { data: entries = [], isLoading } = useQuery<AuditEntry[]>({
+    queryKey: [`/api/audit-log?${params.toString()}`],
+    refetchOnMount: "always",
+  });
+
+  const userName = (id: string | null) =>
+    id ? users.find((user) => user.id === id)?.username ?? "Deleted user" : "System";
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-6 space-y-6 max-w-7xl">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="heading-audit-log">Audit Log</h1>
+          <p className="text-sm text-muted-foreground mt-1">Every change, who made it and what it changed</p>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="grid gap-2">
+            <Label>Entity</Label>
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger className="w-[170px]" data-testid="select-audit-entity-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All entities</SelectItem>
+                {AUDIT_ENTITY_TYPES.map((value) => (
+                  <SelectItem key={value} value={value}>{ENTITY_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2 flex-1 min-w-[200px]">
+            <Label htmlFor="audit-entity-id">Entity ID</Label>
+            <Input
+              id="audit-entity-id"
+              value={entityId}
+              onChange={(e) => setEntityId(e.target.value)}
+              placeholder="Any"
+              data-testid="input-audit-entity-id"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>User</Label>
+            <Select value={actorId} onValueChange={setActorId}>
+              <SelectTrigger className="w-[170px]" data-testid="select-audit-user">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All users</SelectItem>
+                {users.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>{user.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="audit-from">From</Label>
+            <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-audit-from" />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-audit-to" />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10" />
+            <Skeleton className="h-10" />
+            <Skeleton className="h-10" />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+            <ScrollText className="h-10 w-10 mb-3 opacity-50" />
+            <p className="text-sm">No changes match these filters</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[180px]">When</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead className="text-right">Fields</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const fields = Object.entries(entry.changes);
+                const isExpanded = expanded === entry.id;
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                      data-testid={`row-audit-${entry.id}`}
+                    >
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-sm">{userName(entry.actorId)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="font-mono text-xs">{entry.action}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <button
+                          className="hover:underline text-left"
+                          title="Show only this entity"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEntityType(entry.entityType);
+                            setEntityId(entry.entityId);
+                          }}
+                        >
+                          <span className="text-muted-foreground">{ENTITY_LABELS[entry.entityType] ?? entry.entityType}: </span>
+                          {entry.entityName || entry.entityId}
+                        </button>
+                      </TableCell>
+                      <TableCell className="text-right text-sm text-muted-foreground">{fields.length}</TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow className="bg-muted/30 hover:bg-muted/30">
+                        <TableCell colSpan={5}>
+                          <ul className="space-y-1 font-mono text-xs" data-testid={`audit-changes-${entry.id}`}>
+                            {fields.map(([field, change]) => (
+                              <li key={field} className="grid grid-cols-[160px_1fr] gap-2">
+                                <span className="text-muted-foreground">{field}</span>
+                                <span className="break-all">
+                                  <span className="text-red-600 dark:text-red-400">{formatValue(change.before)}</span>
+                                  {" → "}
+                                  <span className="text-green-600 dark:text-green-400">{formatValue(change.after)}</span>
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+// apiRequest errors read "401: {"error":"..."}"; show just the message
+function errorMessage(error: unknown): string {
+  const text = error instanceof Error ? error.message : String(error);
+  const body = text.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+}
+
+export default function AuthPage() {
+  const { login, setup, needsSetup } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await (needsSetup ? setup : login)({ username: username.trim(), password });
+    } catch (submitError) {
+      setError(errorMessage(submitError));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted/30 p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle data-testid="heading-auth">{needsSetup ? "Create the admin account" : "Sign in"}</CardTitle>
+          <CardDescription>
+            {needsSetup
+              ? "No accounts exist yet. The first account can manage everyone else's."
+              : "Objects, powered by knowledge kit"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="auth-username">Username</Label>
+              <Input
+                id="auth-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                autoFocus
+                data-testid="input-username"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="auth-password">Password</Label>
+              <Input
+                id="auth-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={needsSetup ? "new-password" : "current-password"}
+                data-testid="input-password"
+              />
+              {needsSetup && <p className="text-xs text-muted-foreground">At least 8 characters.</p>}
+            </div>
+            {error && (
+              <p className="text-sm text-destructive" data-testid="text-auth-error">
+                {error}
+              </p>
+            )}
+            <Button type="submit" disabled={!username.trim() || !password || isSubmitting} data-testid="button-auth-submit">
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {needsSetup ? "Create account" : "Sign in"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
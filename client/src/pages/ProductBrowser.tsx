@@ -6,16 +6,22 @@ import { Input } from "@/components/ui/input";
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { PanelGroup, Panel, PanelResizeHandle } from "react-resizable-panels";
-import { Search, FileText, Globe, X, ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Download, FolderOpen, File } from "lucide-react";
+import { Search, FileText, Globe, X, ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Download, FolderOpen, File, Merge, Split } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Product, ProductVariant, Document as DocumentType } from "@shared/schema";
+import { useExtractionSchemas } from "@/hooks/use-extraction-schemas";
+import { MergeProductsDialog } from "@/components/MergeProductsDialog";
+import { SplitProductDialog } from "@/components/SplitProductDialog";
+import type { Product, ProductVariant, ProductAlias, Document as DocumentType } from "@shared/schema";
 import * as XLSX from "xlsx";
 
+// Fields with their own columns on product variants; other schema fields are shown from `fields`
+const DEDICATED_FIELDS = ["ProductName", "Headlines", "AdvertisingCopy", "KeyFeatureBullets", "LegalReferences"];
+
 interface EnrichedProduct extends Product {
   variantCount: number;
   locales: string[];
@@ -24,6 +30,7 @@ interface EnrichedProduct extends Product {
 
 interface ProductWithVariants extends Product {
   variants: ProductVariant[];
+  aliases: ProductAlias[];
 }
 
 interface ProductBrowserProps {
@@ -32,12 +39,15 @@ interface ProductBrowserProps {
 
 export default function ProductBrowser({ onDocumentClick }: ProductBrowserProps) {
   const { toast } = useToast();
+  const { schemas } = useExtractionSchemas();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedProductId, setSelectedProductId] = useState<string | null>(null);
   const [selectedLanguageIndex, setSelectedLanguageIndex] = useState(0);
   const [selectedCopyTypeIndex, setSelectedCopyTypeIndex] = useState(0);
   const [copyTypeFilter, setCopyTypeFilter] = useState<string>("all");
   const [localeFilter, setLocaleFilter] = useState<string>("all");
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [showSplitDialog, setShowSplitDialog] = useState(false);
 
   const { data: products = [], isLoading } = useQuery<EnrichedProduct[]>({
     queryKey: ["/api/products"],
@@ -52,6 +62,42 @@ export default function ProductBrowser({ onDocumentClick }: ProductBrowserProps)
     queryKey: ["/api/documents"],
   });
 
+  const mergeProductsMutation = useMutation({
+    mutationFn: async ({ id, productIds }: { id: string; productIds: string[] }) => {
+      const res = await apiRequest("POST", `/api/products/${id}/merge`, { productIds });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Products merged",
+        description: "Variants from the selected products were moved into this product.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Merge failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const splitProductMutation = useMutation({
+    mutationFn: async ({ id, variantIds, name }: { id: string; variantIds: string[]; name: string }) => {
+      const res = await apiRequest("POST", `/api/products/${id}/split`, { variantIds, name });
+      return (await res.json()) as Product;
+    },
+    onSuccess: (product) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setSelectedLanguageIndex(0);
+      setSelectedCopyTypeIndex(0);
+      toast({
+        title: "Product split",
+        description: `The selected variants now belong to "${product.name}".`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Split failed", description: error.message, variant: "destructive" });
+    },
+  });
+
   // Get source documents for selected product
   const sourceDocuments = selectedProduct
     ? documents.filter((doc) =>
@@ -93,11 +139,24 @@ export default function ProductBrowser({ onDocumentClick }: ProductBrowserProps)
   };
 
   const copyTypeLabels: Record<string, string> = {
+    ...Object.fromEntries(
+      schemas.flatMap((schema) => schema.definition.sections.map((section) => [section.name, section.label]))
+    ),
     ProductCopy: "Product Copy",
     BusinessCopy: "Business Copy",
     UpgraderCopy: "Upgrader Copy",
   };
 
+  // Schema fields without a dedicated column, as [label, value] pairs
+  const getExtraFields = (variant: ProductVariant): Array<[string, string | string[]]> => {
+    const labels = Object.fromEntries(
+      schemas.flatMap((schema) => schema.definition.fields.map((field) => [field.name, field.label]))
+    );
+    return Object.entries(variant.fields || {})
+      .filter(([name, value]) => !DEDICATED_FIELDS.includes(name) && value && value.length > 0)
+      .map(([name, value]) => [labels[name] || name, value]);
+  };
+
   const groupVariantsByLanguage = (variants: ProductVariant[]): Record<string, ProductVariant[]> => {
     return variants.reduce((acc, variant) => {
       const lang = variant.locale || "English";
@@ -236,306 +295,379 @@ export default function ProductBrowser({ onDocumentClick }: ProductBrowserProps)
   }
 
   return (
-    <PanelGroup direction="horizontal" className="h-full">
-      <Panel defaultSize={selectedProductId ? 60 : 100} minSize={30} className="flex flex-col">
-        {/* Header with search and filters */}
-        <div className="border-b px-4 py-3 space-y-3">
-          <div className="flex items-center gap-2">
-            <div className="relative flex-1">
-              <Search className="absolute left-0 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground pointer-events-none" />
-              <Input
-                placeholder="Search products..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-6 border-0 bg-transparent focus-visible:ring-0"
-                data-testid="input-search-products"
-              />
-            </div>
-          </div>
-
-          <div className="flex items-center gap-2">
-            <Select value={copyTypeFilter} onValueChange={setCopyTypeFilter}>
-              <SelectTrigger className="w-40" data-testid="select-copy-type-filter">
-                <SelectValue placeholder="Copy Type" />
-              </SelectTrigger>
-              <SelectContent>
-                {uniqueCopyTypes.map((type) => (
-                  <SelectItem key={type} value={type}>
-                    {type === "all" ? "All Copy Types" : copyTypeLabels[type] || type}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-
-            <Select value={localeFilter} onValueChange={setLocaleFilter}>
-              <SelectTrigger className="w-40" data-testid="select-locale-filter">
-                <SelectValue placeholder="Locale" />
-              </SelectTrigger>
-              <SelectContent>
-                {uniqueLocales.map((locale) => (
-                  <SelectItem key={locale} value={locale}>
-                    {locale === "all" ? "All Locales" : locale}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-
-            {(copyTypeFilter !== "all" || localeFilter !== "all") && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => {
-                  setCopyTypeFilter("all");
-                  setLocaleFilter("all");
-                }}
-                data-testid="button-clear-filters"
-              >
-                Clear
-              </Button>
-            )}
-          </div>
-        </div>
-
-        {filteredProducts.length === 0 ? (
-          <Card className="m-6">
-            <CardContent className="flex flex-col items-center justify-center py-12">
-              <FileText className="mb-4 h-12 w-12 text-muted-foreground" />
-              <p className="text-sm text-muted-foreground">
-                {products.length === 0 ? "No products yet" : "No products match your filters"}
-              </p>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="flex-1 overflow-hidden">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Product Name</TableHead>
-                  <TableHead className="w-24">Languages</TableHead>
-                  <TableHead className="w-24">Variants</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {filteredProducts.map((product) => {
-                  const isSelected = selectedProductId === product.id;
-
-                  return (
-                    <TableRow
-                      key={product.id}
-                      data-testid={`row-product-${product.name}`}
-                      className={`cursor-pointer ${isSelected ? "bg-muted/50" : ""}`}
-                      onClick={() => {
-                        setSelectedProductId(product.id);
-                        setSelectedLanguageIndex(0);
-                      }}
-                    >
-                      <TableCell className="font-medium">{product.name}</TableCell>
-                      <TableCell>
-                        <Badge variant="secondary">{product.locales.length}</Badge>
-                      </TableCell>
-                      <TableCell className="text-muted-foreground">
-                        {product.variantCount}
-                      </TableCell>
-                    </TableRow>
-                  );
-                })}
-              </TableBody>
-            </Table>
-          </div>
-        )}
-      </Panel>
-
-      {selectedProductId && <PanelResizeHandle className="w-1 bg-border hover:bg-primary/20 transition-colors" />}
-
-      {selectedProductId && selectedProduct && (
-        <Panel defaultSize={70} minSize={30} className="flex flex-col bg-muted/30">
-          {/* Product header */}
-          <div className="flex items-center justify-between border-b px-6 py-4">
-            <h2 className="font-semibold" data-testid="text-selected-product-name">
-              {selectedProduct.name}
-            </h2>
+    <>
+      <PanelGroup direction="horizontal" className="h-full">
+        <Panel defaultSize={selectedProductId ? 60 : 100} minSize={30} className="flex flex-col">
+          {/* Header with search and filters */}
+          <div className="border-b px-4 py-3 space-y-3">
             <div className="flex items-center gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleExportProduct}
-                data-testid="button-export-product"
-              >
-                <Download className="h-4 w-4 mr-2" />
-                Export
-              </Button>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => setSelectedProductId(null)}
-                data-testid="button-close-panel"
-              >
-                <X className="h-4 w-4" />
-              </Button>
+              <div className="relative flex-1">
+                <Search className="absolute left-0 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground pointer-events-none" />
+                <Input
+                  placeholder="Search products..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-6 border-0 bg-transparent focus-visible:ring-0"
+                  data-testid="input-search-products"
+                />
+              </div>
             </div>
-          </div>
 
-          {/* Language and Copy Type selector */}
-          <div className="flex items-center gap-4 border-b px-6 py-2">
-            {/* Language navigation */}
-            {availableLanguages.length > 1 && (
-              <div className="flex items-center gap-1">
+            <div className="flex items-center gap-2">
+              <Select value={copyTypeFilter} onValueChange={setCopyTypeFilter}>
+                <SelectTrigger className="w-40" data-testid="select-copy-type-filter">
+                  <SelectValue placeholder="Copy Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {uniqueCopyTypes.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type === "all" ? "All Copy Types" : copyTypeLabels[type] || type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={localeFilter} onValueChange={setLocaleFilter}>
+                <SelectTrigger className="w-40" data-testid="select-locale-filter">
+                  <SelectValue placeholder="Locale" />
+                </SelectTrigger>
+                <SelectContent>
+                  {uniqueLocales.map((locale) => (
+                    <SelectItem key={locale} value={locale}>
+                      {locale === "all" ? "All Locales" : locale}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {(copyTypeFilter !== "all" || localeFilter !== "all") && (
                 <Button
                   variant="ghost"
-                  size="icon"
-                  className="h-7 w-7"
+                  size="sm"
                   onClick={() => {
-                    setSelectedLanguageIndex((prev) => (prev > 0 ? prev - 1 : availableLanguages.length - 1));
-                    setSelectedCopyTypeIndex(0);
+                    setCopyTypeFilter("all");
+                    setLocaleFilter("all");
                   }}
-                  data-testid="button-prev-language"
+                  data-testid="button-clear-filters"
                 >
-                  <ChevronLeft className="h-4 w-4" />
+                  Clear
                 </Button>
+              )}
+            </div>
+          </div>
+
+          {filteredProducts.length === 0 ? (
+            <Card className="m-6">
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <FileText className="mb-4 h-12 w-12 text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">
+                  {products.length === 0 ? "No products yet" : "No products match your filters"}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="flex-1 overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product Name</TableHead>
+                    <TableHead className="w-24">Languages</TableHead>
+                    <TableHead className="w-24">Variants</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredProducts.map((product) => {
+                    const isSelected = selectedProductId === product.id;
+
+                    return (
+                      <TableRow
+                        key={product.id}
+                        data-testid={`row-product-${product.name}`}
+                        className={`cursor-pointer ${isSelected ? "bg-muted/50" : ""}`}
+                        onClick={() => {
+                          setSelectedProductId(product.id);
+                          setSelectedLanguageIndex(0);
+                        }}
+                      >
+                        <TableCell className="font-medium">{product.name}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{product.locales.length}</Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {product.variantCount}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </Panel>
+
+        {selectedProductId && <PanelResizeHandle className="w-1 bg-border hover:bg-primary/20 transition-colors" />}
+
+        {selectedProductId && selectedProduct && (
+          <Panel defaultSize={70} minSize={30} className="flex flex-col bg-muted/30">
+            {/* Product header */}
+            <div className="flex items-center justify-between border-b px-6 py-4">
+              <div>
+                <h2 className="font-semibold" data-testid="text-selected-product-name">
+                  {selectedProduct.name}
+                </h2>
+                {selectedProduct.aliases.some((alias) => alias.name !== selectedProduct.name) && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-product-aliases">
+                    Also known as{" "}
+                    {selectedProduct.aliases
+                      .filter((alias) => alias.name !== selectedProduct.name)
+                      .map((alias) => (alias.locale ? `${alias.name} (${alias.locale})` : alias.name))
+                      .join(", ")}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
                 <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-7 w-7"
-                  onClick={() => {
-                    setSelectedLanguageIndex((prev) => (prev < availableLanguages.length - 1 ? prev + 1 : 0));
-                    setSelectedCopyTypeIndex(0);
-                  }}
-                  data-testid="button-next-language"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowMergeDialog(true)}
+                  data-testid="button-merge-product"
                 >
-                  <ChevronRight className="h-4 w-4" />
+                  <Merge className="h-4 w-4 mr-2" />
+                  Merge
                 </Button>
-                <Globe className="h-4 w-4 text-muted-foreground ml-1" />
-                <span className="text-sm">{currentLanguage}</span>
-              </div>
-            )}
-
-            {/* Copy Type navigation */}
-            {availableCopyTypes.length > 1 && (
-              <div className="flex items-center gap-1">
                 <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-7 w-7"
-                  onClick={() => setSelectedCopyTypeIndex((prev) => (prev > 0 ? prev - 1 : availableCopyTypes.length - 1))}
-                  data-testid="button-prev-copy-type"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowSplitDialog(true)}
+                  disabled={selectedProduct.variants.length < 2}
+                  data-testid="button-split-product"
                 >
-                  <ChevronUp className="h-4 w-4" />
+                  <Split className="h-4 w-4 mr-2" />
+                  Split
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleExportProduct}
+                  data-testid="button-export-product"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
                 </Button>
                 <Button
                   variant="ghost"
                   size="icon"
-                  className="h-7 w-7"
-                  onClick={() => setSelectedCopyTypeIndex((prev) => (prev < availableCopyTypes.length - 1 ? prev + 1 : 0))}
-                  data-testid="button-next-copy-type"
+                  onClick={() => setSelectedProductId(null)}
+                  data-testid="button-close-panel"
                 >
-                  <ChevronDown className="h-4 w-4" />
+                  <X className="h-4 w-4" />
                 </Button>
-                <FileText className="h-4 w-4 text-muted-foreground ml-1" />
-                <span className="text-sm">{copyTypeLabels[currentCopyType] || currentCopyType}</span>
               </div>
-            )}
-          </div>
+            </div>
 
-          <ScrollArea className="flex-1">
-            <div className="p-6 space-y-6">
-              {/* Product variants - filtered by current copy type */}
-              {groupVariantsByLanguage(selectedProduct.variants)[currentLanguage]
-                ?.filter((variant) => variant.copyType === currentCopyType)
-                .map((variant, idx) => (
-                <Card
-                  key={`${variant.id}-${idx}`}
-                  className="bg-background"
-                  data-testid={`card-variant-${variant.id}-${idx}`}
-                >
-                  <CardHeader className="pb-3">
-                    <div className="flex-1">
-                      <p className="text-xs text-muted-foreground mt-1">
-                        {copyTypeLabels[variant.copyType] || variant.copyType}
-                      </p>
-                      {variant.versionNumber !== null && (
-                        <p className="text-xs text-muted-foreground">
-                          Version {variant.versionNumber}
+            {/* Language and Copy Type selector */}
+            <div className="flex items-center gap-4 border-b px-6 py-2">
+              {/* Language navigation */}
+              {availableLanguages.length > 1 && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => {
+                      setSelectedLanguageIndex((prev) => (prev > 0 ? prev - 1 : availableLanguages.length - 1));
+                      setSelectedCopyTypeIndex(0);
+                    }}
+                    data-testid="button-prev-language"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => {
+                      setSelectedLanguageIndex((prev) => (prev < availableLanguages.length - 1 ? prev + 1 : 0));
+                      setSelectedCopyTypeIndex(0);
+                    }}
+                    data-testid="button-next-language"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  <Globe className="h-4 w-4 text-muted-foreground ml-1" />
+                  <span className="text-sm">{currentLanguage}</span>
+                </div>
+              )}
+
+              {/* Copy Type navigation */}
+              {availableCopyTypes.length > 1 && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setSelectedCopyTypeIndex((prev) => (prev > 0 ? prev - 1 : availableCopyTypes.length - 1))}
+                    data-testid="button-prev-copy-type"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setSelectedCopyTypeIndex((prev) => (prev < availableCopyTypes.length - 1 ? prev + 1 : 0))}
+                    data-testid="button-next-copy-type"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                  <FileText className="h-4 w-4 text-muted-foreground ml-1" />
+                  <span className="text-sm">{copyTypeLabels[currentCopyType] || currentCopyType}</span>
+                </div>
+              )}
+            </div>
+
+            <ScrollArea className="flex-1">
+              <div className="p-6 space-y-6">
+                {/* Product variants - filtered by current copy type */}
+                {groupVariantsByLanguage(selectedProduct.variants)[currentLanguage]
+                  ?.filter((variant) => variant.copyType === currentCopyType)
+                  .map((variant, idx) => (
+                  <Card
+                    key={`${variant.id}-${idx}`}
+                    className="bg-background"
+                    data-testid={`card-variant-${variant.id}-${idx}`}
+                  >
+                    <CardHeader className="pb-3">
+                      <div className="flex-1">
+                        {variant.name && variant.name !== selectedProduct.name && (
+                          <p className="text-sm font-medium" data-testid={`text-variant-name-${variant.id}`}>
+                            {variant.name}
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {copyTypeLabels[variant.copyType] || variant.copyType}
                         </p>
-                      )}
-                    </div>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    {variant.headlines && variant.headlines.length > 0 && (
-                      <div>
-                        <p className="text-xs font-semibold text-muted-foreground mb-2">Headlines</p>
-                        <ul className="list-disc list-inside space-y-1">
-                          {variant.headlines.map((headline, i) => (
-                            <li key={i} className="text-sm">{headline}</li>
-                          ))}
-                        </ul>
+                        {variant.versionNumber !== null && (
+                          <p className="text-xs text-muted-foreground">
+                            Version {variant.versionNumber}
+                          </p>
+                        )}
                       </div>
-                    )}
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {variant.headlines && variant.headlines.length > 0 && (
+                        <div>
+                          <p className="text-xs font-semibold text-muted-foreground mb-2">Headlines</p>
+                          <ul className="list-disc list-inside space-y-1">
+                            {variant.headlines.map((headline, i) => (
+                              <li key={i} className="text-sm">{headline}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
 
-                    {variant.advertisingCopy && (
-                      <div>
-                        <p className="text-xs font-semibold text-muted-foreground mb-2">Advertising Copy</p>
-                        <p className="text-sm whitespace-pre-wrap">{variant.advertisingCopy}</p>
-                      </div>
-                    )}
-
-                    {variant.keyFeatureBullets && variant.keyFeatureBullets.length > 0 && (
-                      <div>
-                        <p className="text-xs font-semibold text-muted-foreground mb-2">Key Features</p>
-                        <ul className="list-disc list-inside space-y-1">
-                          {variant.keyFeatureBullets.map((bullet, i) => (
-                            <li key={i} className="text-sm">{bullet}</li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-
-                    {variant.legalReferences && variant.legalReferences.length > 0 && (
-                      <div>
-                        <p className="text-xs font-semibold text-muted-foreground mb-2">Legal References</p>
-                        <div className="text-xs text-muted-foreground space-y-1">
-                          {variant.legalReferences.map((ref, i) => (
-                            <p key={i}>{ref}</p>
-                          ))}
+                      {variant.advertisingCopy && (
+                        <div>
+                          <p className="text-xs font-semibold text-muted-foreground mb-2">Advertising Copy</p>
+                          <p className="text-sm whitespace-pre-wrap">{variant.advertisingCopy}</p>
+                        </div>
+                      )}
+
+                      {variant.keyFeatureBullets && variant.keyFeatureBullets.length > 0 && (
+                        <div>
+                          <p className="text-xs font-semibold text-muted-foreground mb-2">Key Features</p>
+                          <ul className="list-disc list-inside space-y-1">
+                            {variant.keyFeatureBullets.map((bullet, i) => (
+                              <li key={i} className="text-sm">{bullet}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {variant.legalReferences && variant.legalReferences.length > 0 && (
+                        <div>
+                          <p className="text-xs font-semibold text-muted-foreground mb-2">Legal References</p>
+                          <div className="text-xs text-muted-foreground space-y-1">
+                            {variant.legalReferences.map((ref, i) => (
+                              <p key={i}>{ref}</p>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {getExtraFields(variant).map(([label, value]) => (
+                        <div key={label}>
+                          <p className="text-xs font-semibold text-muted-foreground mb-2">{label}</p>
+                          {Array.isArray(value) ? (
+                            <ul className="list-disc list-inside space-y-1">
+                              {value.map((item, i) => (
+                                <li key={i} className="text-sm">{item}</li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-sm whitespace-pre-wrap">{value}</p>
+                          )}
                         </div>
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
-              ))}
-
-              {/* Source documents section */}
-              {sourceDocuments.length > 0 && (
-                <>
-                  <Separator />
-                  <div>
-                    <div className="flex items-center gap-2 mb-3">
-                      <FolderOpen className="h-4 w-4 text-muted-foreground" />
-                      <h3 className="text-sm font-semibold">Source Documents</h3>
-                      <Badge variant="outline">{sourceDocuments.length}</Badge>
-                    </div>
-                    <div className="space-y-2">
-                      {sourceDocuments.map((doc) => (
-                        <button
-                          key={doc.id}
-                          onClick={() => onDocumentClick?.(doc.id)}
-                          className="flex items-center gap-2 text-sm text-muted-foreground p-2 rounded hover-elevate w-full text-left cursor-pointer"
-                          data-testid={`source-doc-${doc.id}`}
-                        >
-                          <File className="h-3 w-3" />
-                          <span className="flex-1">{doc.name}</span>
-                          <Badge variant="secondary" className="text-xs">
-                            {getLanguageBadge(doc.language)}
-                          </Badge>
-                        </button>
                       ))}
+                    </CardContent>
+                  </Card>
+                ))}
+
+                {/* Source documents section */}
+                {sourceDocuments.length > 0 && (
+                  <>
+                    <Separator />
+                    <div>
+                      <div className="flex items-center gap-2 mb-3">
+                        <FolderOpen className="h-4 w-4 text-muted-foreground" />
+                        <h3 className="text-sm font-semibold">Source Documents</h3>
+                        <Badge variant="outline">{sourceDocuments.length}</Badge>
+                      </div>
+                      <div className="space-y-2">
+                        {sourceDocuments.map((doc) => (
+                          <button
+                            key={doc.id}
+                            onClick={() => onDocumentClick?.(doc.id)}
+                            className="flex items-center gap-2 text-sm text-muted-foreground p-2 rounded hover-elevate w-full text-left cursor-pointer"
+                            data-testid={`source-doc-${doc.id}`}
+                          >
+                            <File className="h-3 w-3" />
+                            <span className="flex-1">{doc.name}</span>
+                            <Badge variant="secondary" className="text-xs">
+                              {getLanguageBadge(doc.language)}
+                            </Badge>
+                          </button>
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                </>
-              )}
-            </div>
-          </ScrollArea>
-        </Panel>
+                  </>
+                )}
+              </div>
+            </ScrollArea>
+          </Panel>
+        )}
+      </PanelGroup>
+
+      {selectedProduct && (
+        <>
+          <MergeProductsDialog
+            open={showMergeDialog}
+            onClose={() => setShowMergeDialog(false)}
+            onSubmit={(productIds) => mergeProductsMutation.mutate({ id: selectedProduct.id, productIds })}
+            productName={selectedProduct.name}
+            candidates={products.filter((product) => product.id !== selectedProduct.id)}
+          />
+          <SplitProductDialog
+            open={showSplitDialog}
+            onClose={() => setShowSplitDialog(false)}
+            onSubmit={(variantIds, name) => splitProductMutation.mutate({ id: selectedProduct.id, variantIds, name })}
+            productName={selectedProduct.name}
+            variants={selectedProduct.variants}
+            documentNames={Object.fromEntries(documents.map((doc) => [doc.id, doc.name]))}
+            copyTypeLabels={copyTypeLabels}
+          />
+        </>
       )}
-    </PanelGroup>
+    </>
   );
 }
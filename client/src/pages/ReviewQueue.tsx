@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, ClipboardCheck, Search, Star } from "lucide-react";
+import { ReviewStatusBadge } from "@/components/ReviewControls";
+import { REVIEW_STATUSES, type ReviewQueueItem, type ReviewStatus } from "@shared/schema";
+
+type SortKey = "age" | "confidence" | "due";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function ageInDays(item: ReviewQueueItem): number {
+  return Math.floor((Date.now() - new Date(item.reviewStatusChangedAt).getTime()) / DAY_MS);
+}
+
+function formatDay(value: string | Date): string {
+  return new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+interface ReviewQueueProps {
+  onDocumentClick?: (documentId: string) => void;
+}
+
+export default function ReviewQueue({ onDocumentClick }: ReviewQueueProps) {
+  const [status, setStatus] = useState<ReviewStatus>("in_review");
+  const [sortBy, setSortBy] = useState<SortKey>("age");
+  const [search, setSearch] = useState("");
+
+  const { data: queue = [], isLoading } = useQuery<ReviewQueueItem[]>({
+    queryKey: ["/api/review-queue"],
+    // Uploads and edits elsewhere change the queue
+    refetchOnMount: "always",
+  });
+
+  const countFor = (value: ReviewStatus) => queue.filter((item) => item.reviewStatus === value).length;
+
+  const query = search.toLowerCase();
+  const rows = queue
+    .filter((item) => item.reviewStatus === status)
+    .filter(
+      (item) =>
+        !query ||
+        item.name.toLowerCase().includes(query) ||
+        (item.assignee || "").toLowerCase().includes(query)
+    )
+    .sort((a, b) => {
+      if (sortBy === "confidence") {
+        // Unvalidated documents first, then the least confident
+        return (a.validationConfidence ?? -1) - (b.validationConfidence ?? -1);
+      }
+      if (sortBy === "due") {
+        const aDue = a.dueDate ? new Date(a.dueDate).getTime() : Infinity;
+        const bDue = b.dueDate ? new Date(b.dueDate).getTime() : Infinity;
+        return aDue - bDue;
+      }
+      return new Date(a.reviewStatusChangedAt).getTime() - new Date(b.reviewStatusChangedAt).getTime();
+    });
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-6 space-y-6 max-w-7xl">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="heading-review-queue">Review Queue</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Documents by review status, assignee, confidence and age
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Tabs value={status} onValueChange={(value) => setStatus(value as ReviewStatus)}>
+            <TabsList>
+              {REVIEW_STATUSES.map((value) => (
+                <TabsTrigger key={value} value={value} className="gap-2" data-testid={`tab-review-${value}`}>
+                  <ReviewStatusBadge status={value} plain />
+                  <Badge variant="secondary" className="text-[10px] px-1.5">
+                    {countFor(value)}
+                  </Badge>
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by document or assignee..."
+              className="pl-8"
+              data-testid="input-review-search"
+            />
+          </div>
+          <Select value={sortBy} onValueChange={(value) => setSortBy(value as SortKey)}>
+            <SelectTrigger className="w-[180px]" data-testid="select-review-sort">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="age">Oldest in status</SelectItem>
+              <SelectItem value="confidence">Lowest confidence</SelectItem>
+              <SelectItem value="due">Due soonest</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10" />
+            <Skeleton className="h-10" />
+            <Skeleton className="h-10" />
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+            <ClipboardCheck className="h-10 w-10 mb-3 opacity-50" />
+            <p className="text-sm">No documents in this status</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Document</TableHead>
+                <TableHead>Language</TableHead>
+                <TableHead>Assignee</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead className="text-right">Confidence</TableHead>
+                <TableHead className="text-right">Age</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((item) => {
+                const overdue = item.dueDate && new Date(item.dueDate).getTime() < Date.now() && status !== "published";
+                const age = ageInDays(item);
+                return (
+                  <TableRow
+                    key={item.id}
+                    className="cursor-pointer"
+                    onClick={() => onDocumentClick?.(item.id)}
+                    data-testid={`row-review-${item.id}`}
+                  >
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {item.isOriginal && <Star className="h-3.5 w-3.5 text-amber-500 flex-shrink-0" />}
+                        <span className="truncate">{item.name}</span>
+                        {item.needsReview && <AlertTriangle className="h-3.5 w-3.5 text-amber-500 flex-shrink-0" />}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {item.language ? <Badge variant="outline" className="text-xs">{item.language}</Badge> : "—"}
+                    </TableCell>
+                    <TableCell className="text-sm">{item.assignee || <span className="text-muted-foreground">Unassigned</span>}</TableCell>
+                    <TableCell className={`text-sm ${overdue ? "text-destructive font-medium" : ""}`}>
+                      {item.dueDate ? formatDay(item.dueDate) : "—"}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {item.validationConfidence !== null ? `${Math.round(item.validationConfidence * 100)}%` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right text-sm text-muted-foreground">
+                      {age === 0 ? "Today" : `${age}d`}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { FileText, Folder, RotateCcw, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { TrashContents } from "@shared/schema";
+
+type TrashItem = { kind: "folders" | "documents"; id: string; name: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDay(value: string | Date): string {
+  return new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+export default function Trash() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [purging, setPurging] = useState<TrashItem | null>(null);
+
+  const { data: trash, isLoading } = useQuery<TrashContents>({
+    queryKey: ["/api/trash"],
+    refetchOnMount: "always",
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      return await apiRequest("POST", `/api/trash/${item.kind}/${item.id}/restore`);
+    },
+    onSuccess: (_, item) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/review-queue"] });
+      toast({ title: "Restored", description: item.name });
+    },
+    onError: onError("Could not restore"),
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      return await apiRequest("DELETE", `/api/trash/${item.kind}/${item.id}`);
+    },
+    onSuccess: (_, item) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({ title: "Deleted permanently", description: item.name });
+    },
+    onError: onError("Could not delete permanently"),
+  });
+
+  const purgeDate = (deletedAt: string | Date | null) =>
+    deletedAt ? formatDay(new Date(new Date(deletedAt).getTime() + (trash?.retentionDays ?? 0) * DAY_MS)) : "—";
+
+  const rows = [
+    ...(trash?.folders ?? []).map((folder) => ({
+      item: { kind: "folders" as const, id: folder.id, name: folder.name },
+      icon: Folder,
+      detail: folder.documentCount > 0 ? `${folder.documentCount} document${folder.documentCount !== 1 ? "s" : ""}` : null,
+      deletedAt: folder.deletedAt,
+    })),
+    ...(trash?.documents ?? []).map((document) => ({
+      item: { kind: "documents" as const, id: document.id, name: document.name },
+      icon: FileText,
+      detail: document.language,
+      deletedAt: document.deletedAt,
+    })),
+  ].sort((a, b) => new Date(b.deletedAt ?? 0).getTime() - new Date(a.deletedAt ?? 0).getTime());
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-6 space-y-6 max-w-5xl">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="heading-trash">Trash</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Deleted folders and documents can be restored for {trash?.retentionDays ?? "—"} days, then they are removed for good
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10" />
+            <Skeleton className="h-10" />
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+            <Trash2 className="h-10 w-10 mb-3 opacity-50" />
+            <p className="text-sm">The trash is empty</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead>Removed on</TableHead>
+                <TableHead className="w-[220px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ item, icon: Icon, detail, deletedAt }) => (
+                <TableRow key={`${item.kind}-${item.id}`} data-testid={`row-trash-${item.id}`}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      <Icon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      <span className="truncate">{item.name}</span>
+                      {detail && <Badge variant="secondary" className="text-[10px]">{detail}</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{deletedAt ? formatDay(deletedAt) : "—"}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{purgeDate(deletedAt)}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    {can("editor") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(item)}
+                        disabled={restoreMutation.isPending}
+                        data-testid={`button-restore-${item.id}`}
+                      >
+                        <RotateCcw className="mr-2 h-3 w-3" />
+                        Restore
+                      </Button>
+                    )}
+                    {can("admin") && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setPurging(item)}
+                        data-testid={`button-purge-${item.id}`}
+                      >
+                        Delete forever
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <AlertDialog open={purging !== null} onOpenChange={() => setPurging(null)}>
+        <AlertDialogContent data-testid="dialog-purge">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{purging?.name}"
+              {purging?.kind === "folders" ? ", its subfolders and their documents" : ""} will be removed along with
+              the uploaded files, versions and comments. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purging && purgeMutation.mutate(purging)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-purge"
+            >
+              Delete permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { KeyRound, UserPlus } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { USER_ROLES, USER_ROLE_LABELS, type SafeUser, type UserRole } from "@shared/schema";
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: "Read only",
+  editor: "Upload, edit, reprocess and comment",
+  reviewer: "Editor, plus approve and publish",
+  admin: "Reviewer, plus users and extraction schemas",
+};
+
+export default function Users() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("editor");
+  const [passwordUser, setPasswordUser] = useState<SafeUser | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+
+  const { data: users = [], isLoading } = useQuery<SafeUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/users", { username: username.trim(), password, role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "User added", description: username.trim() });
+      setUsername("");
+      setPassword("");
+    },
+    onError: onError("Could not add user"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: { role?: UserRole; password?: string } }) => {
+      return await apiRequest("PATCH", `/api/users/${id}`, updates);
+    },
+    onSuccess: (_, { updates }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: updates.password ? "Password changed" : "Role updated" });
+    },
+    onError: onError("Could not update user"),
+  });
+
+  const handleSetPassword = () => {
+    if (passwordUser) {
+      updateMutation.mutate({ id: passwordUser.id, updates: { password: newPassword } });
+      setPasswordUser(null);
+      setNewPassword("");
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-6 space-y-6 max-w-4xl">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="heading-users">Users</h1>
+          <p className="text-sm text-muted-foreground mt-1">Accounts and what each of them may change</p>
+        </div>
+
+        <form
+          className="flex flex-wrap items-end gap-3 rounded-lg border p-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="grid gap-2 flex-1 min-w-[160px]">
+            <Label htmlFor="new-user-name">Username</Label>
+            <Input id="new-user-name" value={username} onChange={(e) => setUsername(e.target.value)} data-testid="input-new-username" />
+          </div>
+          <div className="grid gap-2 flex-1 min-w-[160px]">
+            <Label htmlFor="new-user-password">Password</Label>
+            <Input
+              id="new-user-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              placeholder="At least 8 characters"
+              data-testid="input-new-password"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+              <SelectTrigger className="w-[140px]" data-testid="select-new-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {USER_ROLES.map((value) => (
+                  <SelectItem key={value} value={value}>{USER_ROLE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={!username.trim() || password.length < 8 || createMutation.isPending} data-testid="button-add-user">
+            <UserPlus className="mr-2 h-4 w-4" />
+            Add user
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10" />
+            <Skeleton className="h-10" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Username</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="w-[60px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => (
+                <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                  <TableCell className="font-medium">
+                    {user.username}
+                    {user.id === currentUser?.id && <Badge variant="secondary" className="ml-2 text-[10px]">You</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={user.role}
+                      onValueChange={(value) => updateMutation.mutate({ id: user.id, updates: { role: value as UserRole } })}
+                      disabled={user.id === currentUser?.id}
+                    >
+                      <SelectTrigger className="w-[240px]" data-testid={`select-role-${user.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {USER_ROLES.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {USER_ROLE_LABELS[value]}
+                            <span className="ml-2 text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[value]}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(user.createdAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Set password"
+                      onClick={() => setPasswordUser(user)}
+                      data-testid={`button-set-password-${user.id}`}
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <Dialog open={passwordUser !== null} onOpenChange={() => setPasswordUser(null)}>
+        <DialogContent data-testid="dialog-set-password">
+          <DialogHeader>
+            <DialogTitle>Set password</DialogTitle>
+            <DialogDescription>New password for {passwordUser?.username}.</DialogDescription>
+          </DialogHeader>
+          <Input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            autoComplete="new-password"
+            placeholder="At least 8 characters"
+            data-testid="input-set-password"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPasswordUser(null)}>Cancel</Button>
+            <Button onClick={handleSetPassword} disabled={newPassword.length < 8} data-testid="button-confirm-set-password">
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
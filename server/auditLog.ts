@@ -0,0 +1,57 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { RequestHandler } from "express";
+import type { AuditChanges } from "@shared/schema";
+
+/**
+ * Who is acting, and what changed. AuditedStorage (server/storage.ts) wraps
+ * every IStorage mutation and appends an audit entry for the user in the
+ * current context. Requests run as their signed-in user; the job worker runs
+ * each file as the user who queued it; anything else is logged as system.
+ */
+
+const actorContext = new AsyncLocalStorage<{ actorId: string | null }>();
+
+// Also placed after multer: its stream callbacks lose the context set earlier in the chain
+export const recordAuditActor: RequestHandler = (req, _res, next) => {
+  actorContext.run({ actorId: req.user?.id ?? null }, next);
+};
+
+export function runAsActor<T>(actorId: string | null, fn: () => Promise<T>): Promise<T> {
+  return actorContext.run({ actorId }, fn);
+}
+
+export function currentActorId(): string | null {
+  return actorContext.getStore()?.actorId ?? null;
+}
+
+// Too large to keep before and after on every change; logged as their size
+const SUMMARIZED_FIELDS = ["extractedText", "translatedText", "ocrPages", "pageRanges", "sourceSpans", "consistencyReport", "jsonSchema"];
+const REDACTED_FIELDS = ["passwordHash"];
+// Bookkeeping that changes on every write
+const IGNORED_FIELDS = ["updatedAt"];
+
+function loggedValue(field: string, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (REDACTED_FIELDS.includes(field)) return "[redacted]";
+  if (!SUMMARIZED_FIELDS.includes(field)) return value;
+  if (typeof value === "string") return `[${value.length} characters]`;
+  if (Array.isArray(value)) return `[${value.length} items]`;
+  return `[${JSON.stringify(value).length} bytes]`;
+}
+
+// Fields that differ between two snapshots; pass null for a create or delete
+export function auditChanges(before: object | null | undefined, after: object | null | undefined): AuditChanges {
+  const previous: Record<string, unknown> = { ...before };
+  const next: Record<string, unknown> = { ...after };
+  const fields = Array.from(new Set(Object.keys(previous).concat(Object.keys(next))));
+
+  const changes: AuditChanges = {};
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+    const oldValue = previous[field] ?? null;
+    const newValue = next[field] ?? null;
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+    changes[field] = { before: loggedValue(field, oldValue), after: loggedValue(field, newValue) };
+  }
+  return changes;
+}
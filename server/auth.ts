@@ -0,0 +1,268 @@
+import type { Express, Request, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import { storage, storageBackend } from "./storage";
+import { recordAuditActor } from "./auditLog";
+import {
+  createUserRequest,
+  hasRole,
+  loginRequest,
+  updateUserRequest,
+  USER_ROLE_LABELS,
+  type SafeUser,
+  type User as UserRecord,
+  type UserRole,
+} from "@shared/schema";
+
+/**
+ * Local accounts with session login. Sessions live in the "sessions" table,
+ * or in process memory with STORAGE_BACKEND=memory.
+ * The first account is created through /api/auth/setup and becomes admin;
+ * admins create everyone else. registerRoutes puts every other /api route
+ * behind requireAuth and the mutating ones behind requireRole.
+ */
+
+declare global {
+  namespace Express {
+    interface User extends SafeUser {}
+  }
+}
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function toSafeUser({ passwordHash: _, ...user }: UserRecord): SafeUser {
+  return user;
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Sign in required" });
+  }
+  next();
+};
+
+export function requireRole(minimum: UserRole): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Sign in required" });
+    }
+    if (!hasRole(req.user.role, minimum)) {
+      return res.status(403).json({ error: `Requires the ${USER_ROLE_LABELS[minimum]} role` });
+    }
+    next();
+  };
+}
+
+// The signed-in user, recorded as createdBy / updatedBy
+export function actorId(req: Request): string | null {
+  return req.user?.id ?? null;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: string }).code === "23505";
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign login sessions.");
+  }
+
+  const PostgresSessionStore = connectPg(session);
+  const MemoryStore = createMemoryStore(session);
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      store:
+        storageBackend === "memory"
+          ? new MemoryStore({ checkPeriod: SESSION_MAX_AGE_MS })
+          : new PostgresSessionStore({ conString: process.env.DATABASE_URL, tableName: "sessions" }),
+      secret: process.env.SESSION_SECRET,
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: app.get("env") === "production",
+        maxAge: SESSION_MAX_AGE_MS,
+      },
+    })
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+  // Storage writes from here on are audited as the signed-in user
+  app.use("/api", recordAuditActor);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        done(null, toSafeUser(user));
+      } catch (error) {
+        done(error);
+      }
+    })
+  );
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toSafeUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // First run: no accounts yet, so the login page offers to create the admin
+  app.get("/api/auth/setup", async (req, res) => {
+    try {
+      res.json({ needsSetup: (await storage.countUsers()) === 0 });
+    } catch (error) {
+      console.error("Error checking account setup:", error);
+      res.status(500).json({ error: "Failed to check account setup" });
+    }
+  });
+
+  app.post("/api/auth/setup", async (req, res) => {
+    try {
+      const parsed = createUserRequest.omit({ role: true }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      if ((await storage.countUsers()) > 0) {
+        return res.status(403).json({ error: "Setup is already complete; sign in instead" });
+      }
+      const user = await storage.createFirstUser({
+        username: parsed.data.username,
+        passwordHash: await hashPassword(parsed.data.password),
+        role: "admin",
+      });
+      // Another setup request created the first account while this one was hashing
+      if (!user) {
+        return res.status(409).json({ error: "Setup is already complete; sign in instead" });
+      }
+      req.login(toSafeUser(user), (error) => {
+        if (error) {
+          console.error("Error signing in after setup:", error);
+          return res.status(500).json({ error: "Account created but sign-in failed" });
+        }
+        res.status(201).json(toSafeUser(user));
+      });
+    } catch (error) {
+      console.error("Error creating the first account:", error);
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginRequest.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.json({ success: true });
+    });
+  });
+
+  app.get("/api/auth/user", requireAuth, (req, res) => {
+    res.json(req.user);
+  });
+
+  // Everyone signed in can list users, to show who changed what
+  app.get("/api/users", requireAuth, async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toSafeUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = createUserRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        passwordHash: await hashPassword(parsed.data.password),
+        role: parsed.data.role,
+      });
+      res.status(201).json(toSafeUser(user));
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "That username is taken" });
+      }
+      console.error("Error creating user:", error);
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  app.patch("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = updateUserRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const { role, password } = parsed.data;
+      if (!role && !password) {
+        return res.status(400).json({ error: "Nothing to update" });
+      }
+      // Keeps at least one admin: admins cannot demote themselves
+      if (role && role !== "admin" && req.params.id === actorId(req)) {
+        return res.status(400).json({ error: "You cannot remove your own admin role" });
+      }
+      const user = await storage.updateUser(req.params.id, {
+        ...(role ? { role } : {}),
+        ...(password ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toSafeUser(user));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+}
@@ -0,0 +1,380 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { Storage } from "@google-cloud/storage";
+
+/**
+ * Storage backends for uploaded files.
+ *
+ * STORAGE_DRIVER picks where new uploads go; it defaults to "replit" when
+ * PRIVATE_OBJECT_DIR is set and "local" otherwise. Stored paths carry the
+ * driver as a scheme, so files stay readable after the driver changes as
+ * long as the old driver is still configured. Paths without a scheme were
+ * written before drivers existed and belong to the Replit driver.
+ *
+ * Drivers:
+ * - local:  files under LOCAL_STORAGE_DIR (default ./uploads), local://documents/<id>.pdf
+ * - s3:     any S3-compatible service such as MinIO, s3://<bucket>/documents/<id>.pdf
+ *           (S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)
+ * - replit: Replit Object Storage through the sidecar, replit:///<bucket>/documents/<id>.pdf
+ * - memory: process memory, lost on restart; for tests, memory://documents/<id>.pdf
+ */
+
+export type BlobStoreDriver = "local" | "s3" | "replit" | "memory";
+
+export interface BlobObject {
+  body: Readable;
+  size?: number;
+  contentType?: string;
+}
+
+export interface BlobStore {
+  readonly driver: BlobStoreDriver;
+  // Stores the file under key and returns its path with the driver's scheme
+  put(key: string, buffer: Buffer, contentType: string, metadata: Record<string, string>): Promise<string>;
+  get(blobPath: string): Promise<Buffer>;
+  stream(blobPath: string): Promise<BlobObject>;
+  // Deleting a missing file is not an error
+  delete(blobPath: string): Promise<void>;
+}
+
+export class BlobNotFoundError extends Error {
+  constructor(blobPath: string) {
+    super(`No stored file at ${blobPath}`);
+    this.name = "BlobNotFoundError";
+    Object.setPrototypeOf(this, BlobNotFoundError.prototype);
+  }
+}
+
+export class BlobStoreConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlobStoreConfigurationError";
+    Object.setPrototypeOf(this, BlobStoreConfigurationError.prototype);
+  }
+}
+
+const DRIVERS: BlobStoreDriver[] = ["local", "s3", "replit", "memory"];
+
+// "s3://bucket/key" → { driver: "s3", location: "bucket/key" }; scheme-less paths are Replit's
+export function parseBlobPath(blobPath: string): { driver: BlobStoreDriver; location: string } {
+  const match = /^([a-z0-9]+):\/\/(.*)$/.exec(blobPath);
+  if (!match) return { driver: "replit", location: blobPath };
+  if (!DRIVERS.includes(match[1] as BlobStoreDriver)) {
+    throw new BlobStoreConfigurationError(`Unknown storage scheme "${match[1]}://"`);
+  }
+  return { driver: match[1] as BlobStoreDriver, location: match[2] };
+}
+
+class LocalBlobStore implements BlobStore {
+  readonly driver = "local";
+  private root = path.resolve(process.env.LOCAL_STORAGE_DIR || "uploads");
+
+  // Keys never leave the storage directory
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new BlobStoreConfigurationError(`Invalid storage key "${key}"`);
+    }
+    return file;
+  }
+
+  private fileFor(blobPath: string): string {
+    return this.resolve(parseBlobPath(blobPath).location);
+  }
+
+  async put(key: string, buffer: Buffer): Promise<string> {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, buffer);
+    return `local://${key}`;
+  }
+
+  async get(blobPath: string): Promise<Buffer> {
+    try {
+      return await fs.promises.readFile(this.fileFor(blobPath));
+    } catch (error) {
+      throw isMissingFile(error) ? new BlobNotFoundError(blobPath) : error;
+    }
+  }
+
+  async stream(blobPath: string): Promise<BlobObject> {
+    const file = this.fileFor(blobPath);
+    try {
+      const stat = await fs.promises.stat(file);
+      return { body: fs.createReadStream(file), size: stat.size };
+    } catch (error) {
+      throw isMissingFile(error) ? new BlobNotFoundError(blobPath) : error;
+    }
+  }
+
+  async delete(blobPath: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.fileFor(blobPath));
+    } catch (error) {
+      if (!isMissingFile(error)) throw error;
+    }
+  }
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+const sha256 = (data: string | Buffer) => crypto.createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac("sha256", key).update(data).digest();
+
+/**
+ * S3 REST API with Signature Version 4 signing, using path-style URLs
+ * (<endpoint>/<bucket>/<key>) so MinIO works without DNS setup.
+ */
+class S3BlobStore implements BlobStore {
+  readonly driver = "s3";
+  private bucket = process.env.S3_BUCKET || "";
+  private region = process.env.S3_REGION || "us-east-1";
+  private endpoint: string;
+  private accessKeyId = process.env.S3_ACCESS_KEY_ID || "";
+  private secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || "";
+
+  constructor() {
+    if (!this.accessKeyId || !this.secretAccessKey) {
+      throw new BlobStoreConfigurationError("S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set for the s3 storage driver");
+    }
+    this.endpoint = (process.env.S3_ENDPOINT || `https://s3.${this.region}.amazonaws.com`).replace(/\/+$/, "");
+  }
+
+  private async request(
+    method: "GET" | "PUT" | "DELETE",
+    bucket: string,
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const url = new URL(`${this.endpoint}/${bucket}/${key.split("/").map(encodeURIComponent).join("/")}`);
+    const now = new Date().toISOString().replace(/[-:]|\.\d{3}/g, "");
+    const date = now.slice(0, 8);
+    const payloadHash = sha256(body ?? "");
+
+    const headers: Record<string, string> = {
+      ...Object.fromEntries(Object.entries(extraHeaders).map(([name, value]) => [name.toLowerCase(), value])),
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": now,
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      signedHeaders.map((name) => `${name}:${headers[name].trim()}\n`).join(""),
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n");
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", now, scope, sha256(canonicalRequest)].join("\n");
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.secretAccessKey}`, date), this.region), "s3"), "aws4_request");
+    const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+    headers.authorization =
+      `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`;
+    // fetch sets Host itself
+    delete headers.host;
+
+    return fetch(url, { method, headers, body });
+  }
+
+  private locate(blobPath: string): { bucket: string; key: string } {
+    const { location } = parseBlobPath(blobPath);
+    const slash = location.indexOf("/");
+    if (slash <= 0) throw new BlobStoreConfigurationError(`Invalid S3 path "${blobPath}"`);
+    return { bucket: location.slice(0, slash), key: location.slice(slash + 1) };
+  }
+
+  private async fail(response: Response, blobPath: string): Promise<never> {
+    if (response.status === 404) throw new BlobNotFoundError(blobPath);
+    throw new Error(`S3 request for ${blobPath} failed with ${response.status}: ${await response.text()}`);
+  }
+
+  async put(key: string, buffer: Buffer, contentType: string, metadata: Record<string, string>): Promise<string> {
+    if (!this.bucket) {
+      throw new BlobStoreConfigurationError("S3_BUCKET must be set for the s3 storage driver");
+    }
+    const blobPath = `s3://${this.bucket}/${key}`;
+    // Metadata headers must be ASCII
+    const metadataHeaders = Object.fromEntries(
+      Object.entries(metadata).map(([name, value]) => [`x-amz-meta-${name.toLowerCase()}`, encodeURIComponent(value)])
+    );
+    const response = await this.request("PUT", this.bucket, key, buffer, { "content-type": contentType, ...metadataHeaders });
+    if (!response.ok) await this.fail(response, blobPath);
+    return blobPath;
+  }
+
+  async get(blobPath: string): Promise<Buffer> {
+    const { bucket, key } = this.locate(blobPath);
+    const response = await this.request("GET", bucket, key);
+    if (!response.ok) await this.fail(response, blobPath);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async stream(blobPath: string): Promise<BlobObject> {
+    const { bucket, key } = this.locate(blobPath);
+    const response = await this.request("GET", bucket, key);
+    if (!response.ok || !response.body) await this.fail(response, blobPath);
+    const length = response.headers.get("content-length");
+    return {
+      body: Readable.fromWeb(response.body as import("stream/web").ReadableStream),
+      size: length ? Number(length) : undefined,
+      contentType: response.headers.get("content-type") || undefined,
+    };
+  }
+
+  async delete(blobPath: string): Promise<void> {
+    const { bucket, key } = this.locate(blobPath);
+    const response = await this.request("DELETE", bucket, key);
+    // S3 answers 204 for missing keys too; MinIO may answer 404
+    if (!response.ok && response.status !== 404) await this.fail(response, blobPath);
+  }
+}
+
+const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
+
+class ReplitBlobStore implements BlobStore {
+  readonly driver = "replit";
+  private client = new Storage({
+    credentials: {
+      audience: "replit",
+      subject_token_type: "access_token",
+      token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
+      type: "external_account",
+      credential_source: {
+        url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
+        format: {
+          type: "json",
+          subject_token_field_name: "access_token",
+        },
+      },
+      universe_domain: "googleapis.com",
+    },
+    projectId: "",
+  });
+
+  // "/<bucket>/<object>", with or without the replit:// scheme
+  private file(blobPath: string) {
+    let location = parseBlobPath(blobPath).location;
+    if (!location.startsWith("/")) {
+      location = `/${location}`;
+    }
+    const parts = location.split("/");
+    if (parts.length < 3) {
+      throw new BlobStoreConfigurationError("Invalid path: must contain at least a bucket name");
+    }
+    return this.client.bucket(parts[1]).file(parts.slice(2).join("/"));
+  }
+
+  private async existingFile(blobPath: string) {
+    const file = this.file(blobPath);
+    const [exists] = await file.exists();
+    if (!exists) throw new BlobNotFoundError(blobPath);
+    return file;
+  }
+
+  async put(key: string, buffer: Buffer, contentType: string, metadata: Record<string, string>): Promise<string> {
+    const dir = process.env.PRIVATE_OBJECT_DIR || "";
+    if (!dir) {
+      throw new BlobStoreConfigurationError("PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' tool.");
+    }
+    const blobPath = `replit://${dir.startsWith("/") ? dir : `/${dir}`}/${key}`;
+    await this.file(blobPath).save(buffer, { contentType, metadata });
+    return blobPath;
+  }
+
+  async get(blobPath: string): Promise<Buffer> {
+    const [buffer] = await (await this.existingFile(blobPath)).download();
+    return buffer;
+  }
+
+  async stream(blobPath: string): Promise<BlobObject> {
+    const file = await this.existingFile(blobPath);
+    const [metadata] = await file.getMetadata();
+    return {
+      body: file.createReadStream(),
+      size: metadata.size !== undefined ? Number(metadata.size) : undefined,
+      contentType: metadata.contentType,
+    };
+  }
+
+  async delete(blobPath: string): Promise<void> {
+    try {
+      await (await this.existingFile(blobPath)).delete();
+    } catch (error) {
+      if (!(error instanceof BlobNotFoundError)) throw error;
+    }
+  }
+}
+
+class MemoryBlobStore implements BlobStore {
+  readonly driver = "memory";
+  private blobs = new Map<string, { buffer: Buffer; contentType: string }>();
+
+  async put(key: string, buffer: Buffer, contentType: string): Promise<string> {
+    this.blobs.set(key, { buffer: Buffer.from(buffer), contentType });
+    return `memory://${key}`;
+  }
+
+  private blob(blobPath: string) {
+    const blob = this.blobs.get(parseBlobPath(blobPath).location);
+    if (!blob) throw new BlobNotFoundError(blobPath);
+    return blob;
+  }
+
+  async get(blobPath: string): Promise<Buffer> {
+    return Buffer.from(this.blob(blobPath).buffer);
+  }
+
+  async stream(blobPath: string): Promise<BlobObject> {
+    const { buffer, contentType } = this.blob(blobPath);
+    return { body: Readable.from([buffer]), size: buffer.length, contentType };
+  }
+
+  async delete(blobPath: string): Promise<void> {
+    this.blobs.delete(parseBlobPath(blobPath).location);
+  }
+}
+
+const stores = new Map<BlobStoreDriver, BlobStore>();
+
+function createBlobStore(driver: BlobStoreDriver): BlobStore {
+  switch (driver) {
+    case "local":
+      return new LocalBlobStore();
+    case "s3":
+      return new S3BlobStore();
+    case "replit":
+      return new ReplitBlobStore();
+    case "memory":
+      return new MemoryBlobStore();
+  }
+}
+
+function getBlobStore(driver: BlobStoreDriver): BlobStore {
+  let store = stores.get(driver);
+  if (!store) {
+    store = createBlobStore(driver);
+    stores.set(driver, store);
+  }
+  return store;
+}
+
+// Where new uploads go
+export function uploadBlobStore(): BlobStore {
+  const driver = process.env.STORAGE_DRIVER || (process.env.PRIVATE_OBJECT_DIR ? "replit" : "local");
+  if (!DRIVERS.includes(driver as BlobStoreDriver)) {
+    throw new BlobStoreConfigurationError(`Unknown storage driver "${driver}"`);
+  }
+  return getBlobStore(driver as BlobStoreDriver);
+}
+
+// The store a stored path was written to
+export function blobStoreFor(blobPath: string): BlobStore {
+  return getBlobStore(parseBlobPath(blobPath).driver);
+}
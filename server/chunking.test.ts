@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EXTRACTION_SCHEMA_DEFINITION as definition } from "@shared/extractionSchema";
+import { mergeChunkExtractions, splitIntoChunks } from "./chunking";
+
+const paragraph = (words: number, word = "copy") => Array(words).fill(word).join(" ");
+
+describe("splitIntoChunks", () => {
+  it("returns text within the budget as one unchanged chunk", () => {
+    const text = "# Lumen Phone\n\nThe Lumen Phone{{sup:1}} lasts all day.";
+    expect(splitIntoChunks(text, definition, 1000)).toEqual([{ index: 0, total: 1, text }]);
+  });
+
+  it("breaks at headings and names the headings in effect", () => {
+    const text = [
+      "Product copy",
+      "## Lumen Phone",
+      paragraph(20, "phone"),
+      "## Lumen Watch",
+      paragraph(20, "watch"),
+    ].join("\n\n");
+    const chunks = splitIntoChunks(text, definition, 160);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].text).toBe(["Product copy", "## Lumen Phone", paragraph(20, "phone")].join("\n\n"));
+    expect(chunks[1].text).toBe(["[Context: Product copy]", "## Lumen Watch", paragraph(20, "watch")].join("\n\n"));
+    expect(chunks.map(({ index, total }) => [index, total])).toEqual([[0, 2], [1, 2]]);
+  });
+
+  it("copies footnotes defined in another chunk into the chunk that references them", () => {
+    const text = [
+      "## Lumen Phone",
+      `Battery for days{{sup:1}} ${paragraph(20)}`,
+      "## Legal",
+      "{{sup:1}} Battery life varies by use.",
+    ].join("\n\n");
+    const chunks = splitIntoChunks(text, definition, 150);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].text).toContain("[Footnotes referenced above]\n\n{{sup:1}} Battery life varies by use.");
+    expect(chunks[1].text).not.toContain("[Footnotes referenced above]");
+  });
+
+  it("falls back to word boundaries for a paragraph longer than the budget", () => {
+    const chunks = splitIntoChunks(paragraph(60), definition, 100);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(100);
+      expect(chunk.text).toMatch(/^copy( copy)*$/);
+    }
+    expect(chunks.map((chunk) => chunk.text).join(" ")).toBe(paragraph(60));
+  });
+});
+
+describe("mergeChunkExtractions", () => {
+  it("merges a product that spans a chunk boundary into its first occurrence", () => {
+    const merged = mergeChunkExtractions(
+      [
+        {
+          ProductCopy: [
+            {
+              ProductName: "Lumen Phone{{sup:1}}",
+              Headlines: ["Meet Lumen"],
+              AdvertisingCopy: "Battery for days.",
+              KeyFeatureBullets: ["Fast charging"],
+              LegalReferences: [],
+            },
+          ],
+          BusinessCopy: null,
+        },
+        {
+          ProductCopy: [
+            {
+              ProductName: "LUMEN  phone™",
+              Headlines: ["Meet Lumen", "Brighter than ever"],
+              AdvertisingCopy: "A display you can read in the sun.",
+              KeyFeatureBullets: ["Fast charging", "All-day battery"],
+              LegalReferences: ["{{sup:1}} Battery life varies by use."],
+            },
+            { ProductName: "Lumen Watch", Headlines: [], AdvertisingCopy: "", KeyFeatureBullets: [], LegalReferences: [] },
+          ],
+        },
+      ],
+      definition
+    );
+
+    expect(merged.ProductCopy).toEqual([
+      {
+        ProductName: "Lumen Phone{{sup:1}}",
+        Headlines: ["Meet Lumen", "Brighter than ever"],
+        AdvertisingCopy: "Battery for days.\n\nA display you can read in the sun.",
+        KeyFeatureBullets: ["Fast charging", "All-day battery"],
+        LegalReferences: ["{{sup:1}} Battery life varies by use."],
+      },
+      { ProductName: "Lumen Watch", Headlines: [], AdvertisingCopy: "", KeyFeatureBullets: [], LegalReferences: [] },
+    ]);
+  });
+
+  it("does not repeat copy one chunk already contains", () => {
+    const merged = mergeChunkExtractions(
+      [
+        { ProductCopy: [{ ProductName: "Lumen Phone", AdvertisingCopy: "Battery for days. Brighter display." }] },
+        { ProductCopy: [{ ProductName: "Lumen Phone", AdvertisingCopy: "Brighter display." }] },
+      ],
+      definition
+    );
+    expect(merged.ProductCopy[0].AdvertisingCopy).toBe("Battery for days. Brighter display.");
+  });
+
+  it("never merges products without a name", () => {
+    const merged = mergeChunkExtractions(
+      [{ BusinessCopy: [{ AdvertisingCopy: "For teams." }] }, { BusinessCopy: { AdvertisingCopy: "For schools." } }],
+      definition
+    );
+    expect(merged.BusinessCopy).toEqual([{ AdvertisingCopy: "For teams." }, { AdvertisingCopy: "For schools." }]);
+  });
+
+  it("keeps a section no chunk returned as null", () => {
+    const merged = mergeChunkExtractions([{ ProductCopy: [] }, { ProductCopy: null }], definition);
+    expect(merged).toEqual({ ProductCopy: [], BusinessCopy: null, UpgraderCopy: null });
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  DEFAULT_EXTRACTION_SCHEMA_DEFINITION,
+  nameField,
+  type ExtractionSchemaDefinition,
+} from "@shared/extractionSchema";
+
+/**
+ * Splitting long extracted text into chunks for multi-pass extraction, and
+ * merging the per-chunk results back into one structured document.
+ *
+ * Chunks follow the markup emitted by the extractors (see textMarkup.ts):
+ * they break at "#" headings and the extraction schema's section labels
+ * ("Business copy") where possible and only fall back to paragraph or line
+ * boundaries for oversized sections. Every chunk after the first starts with a context line
+ * naming the headings in effect, and carries copies of the footnotes it
+ * references but does not contain, so products keep their section and their
+ * legal references.
+ */
+
+// ~15k tokens per chunk at ~4 characters per token
+export const EXTRACTION_CHUNK_CHARS = Number(process.env.EXTRACTION_CHUNK_CHARS || 60000);
+
+export interface TextChunk {
+  index: number;
+  total: number;
+  text: string;
+}
+
+interface Paragraph {
+  text: string;
+  headingLevel: number | null;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+)$/;
+const FOOTNOTE_DEFINITION_PATTERN = /^\{\{sup:(\d+)\}\}\s/;
+const SUP_TOKEN_PATTERN = /\{\{sup:(\d+)\}\}/g;
+
+// Plain-text paragraphs that consist of a section label, e.g. "Business copy:"
+function sectionMarkerPattern(definition: ExtractionSchemaDefinition): RegExp {
+  const labels = definition.sections.map((section) =>
+    section.label.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+")
+  );
+  return new RegExp(`^(${labels.join("|")})\\s*:?$`, "i");
+}
+
+function parseParagraphs(text: string, definition: ExtractionSchemaDefinition): Paragraph[] {
+  const sectionMarker = sectionMarkerPattern(definition);
+  return text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => {
+      const heading = p.match(HEADING_PATTERN);
+      if (heading && !p.includes("\n")) {
+        return { text: p, headingLevel: heading[1].length };
+      }
+      // Plain-text section labels act as top-level headings
+      if (sectionMarker.test(p)) {
+        return { text: p, headingLevel: 0 };
+      }
+      return { text: p, headingLevel: null };
+    });
+}
+
+// Break text that is longer than the budget on line, then word boundaries
+function splitOversized(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  for (const line of text.split("\n")) {
+    const candidate = current ? `${current}\n${line}` : line;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+    if (current) pieces.push(current);
+    current = line;
+    while (current.length > maxChars) {
+      const cut = current.lastIndexOf(" ", maxChars);
+      const at = cut > maxChars / 2 ? cut : maxChars;
+      pieces.push(current.slice(0, at));
+      current = current.slice(at).trimStart();
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Group paragraphs into sections that start at a heading or section marker,
+ * then pack whole sections into chunks of at most maxChars.
+ */
+function packParagraphs(paragraphs: Paragraph[], maxChars: number): number[][] {
+  const sections: number[][] = [];
+  const onlyHeadings = (section: number[]) =>
+    section.every((i) => paragraphs[i].headingLevel !== null);
+
+  paragraphs.forEach((paragraph, i) => {
+    // Consecutive headings ("Business copy", "## iPhone 16") open one section
+    const previous = sections[sections.length - 1];
+    if (!previous || (paragraph.headingLevel !== null && !onlyHeadings(previous))) {
+      sections.push([]);
+    }
+    sections[sections.length - 1].push(i);
+  });
+
+  const size = (indices: number[]) =>
+    indices.reduce((sum, i) => sum + paragraphs[i].text.length + 2, 0);
+
+  const chunks: number[][] = [];
+  let current: number[] = [];
+  const flush = () => {
+    if (current.length > 0) chunks.push(current);
+    current = [];
+  };
+
+  for (const section of sections) {
+    if (size(current) + size(section) <= maxChars) {
+      current.push(...section);
+      continue;
+    }
+    flush();
+    if (size(section) <= maxChars) {
+      current = [...section];
+      continue;
+    }
+    // Oversized section: fall back to paragraph boundaries
+    for (const i of section) {
+      if (current.length > 0 && size(current) + size([i]) > maxChars) flush();
+      current.push(i);
+    }
+  }
+  flush();
+  return chunks;
+}
+
+// Headings in effect at the start of a chunk, outermost first. A heading that
+// opens the chunk closes its siblings but is not repeated in the trail.
+function headingTrail(paragraphs: Paragraph[], start: number): string[] {
+  const trail: Paragraph[] = [];
+  for (let i = 0; i <= start; i++) {
+    const level = paragraphs[i].headingLevel;
+    if (level === null) continue;
+    while (trail.length > 0 && trail[trail.length - 1].headingLevel! >= level) {
+      trail.pop();
+    }
+    if (i < start) trail.push(paragraphs[i]);
+  }
+  return trail.map((p) => p.text.replace(/^#+\s*/, ""));
+}
+
+/**
+ * Footnote definitions referenced in a chunk but defined outside it. Marker
+ * numbers may restart between sections, so the nearest definition after the
+ * chunk wins, then the nearest one before it.
+ */
+function missingFootnotes(paragraphs: Paragraph[], indices: number[]): string[] {
+  const inChunk = new Set(indices);
+  const defined = new Set<string>();
+  const referenced = new Set<string>();
+
+  for (const i of indices) {
+    const definition = paragraphs[i].text.match(FOOTNOTE_DEFINITION_PATTERN);
+    if (definition) defined.add(definition[1]);
+    Array.from(paragraphs[i].text.matchAll(SUP_TOKEN_PATTERN)).forEach((m) => referenced.add(m[1]));
+  }
+
+  const first = indices[0];
+  const last = indices[indices.length - 1];
+  const found: string[] = [];
+  Array.from(referenced).forEach((marker) => {
+    if (defined.has(marker)) return;
+    const isDefinition = (i: number) =>
+      !inChunk.has(i) && paragraphs[i].text.match(FOOTNOTE_DEFINITION_PATTERN)?.[1] === marker;
+    let match = -1;
+    for (let i = last + 1; i < paragraphs.length && match < 0; i++) {
+      if (isDefinition(i)) match = i;
+    }
+    for (let i = first - 1; i >= 0 && match < 0; i--) {
+      if (isDefinition(i)) match = i;
+    }
+    if (match >= 0) found.push(paragraphs[match].text);
+  });
+  return found;
+}
+
+/**
+ * Split extracted text into extraction-sized chunks. Text that fits the
+ * budget is returned as a single chunk, unchanged.
+ */
+export function splitIntoChunks(
+  text: string,
+  definition: ExtractionSchemaDefinition = DEFAULT_EXTRACTION_SCHEMA_DEFINITION,
+  maxChars: number = EXTRACTION_CHUNK_CHARS
+): TextChunk[] {
+  if (text.length <= maxChars) {
+    return [{ index: 0, total: 1, text }];
+  }
+
+  // Oversized paragraphs are broken up first so packing can always make progress
+  const paragraphs = parseParagraphs(text, definition).flatMap((p) =>
+    p.text.length > maxChars
+      ? splitOversized(p.text, maxChars).map((piece) => ({ text: piece, headingLevel: null }))
+      : [p]
+  );
+
+  const groups = packParagraphs(paragraphs, maxChars);
+  return groups.map((indices, index) => {
+    const parts: string[] = [];
+    const trail = headingTrail(paragraphs, indices[0]);
+    if (index > 0 && trail.length > 0) {
+      parts.push(`[Context: ${trail.join(" > ")}]`);
+    }
+    parts.push(...indices.map((i) => paragraphs[i].text));
+    const footnotes = missingFootnotes(paragraphs, indices);
+    if (footnotes.length > 0) {
+      parts.push("[Footnotes referenced above]", ...footnotes);
+    }
+    return { index, total: groups.length, text: parts.join("\n\n") };
+  });
+}
+
+/**
+ * List every heading and section marker in the text, indented by level. Gives
+ * judges that only see part of a long document a view of all its products.
+ */
+export function documentOutline(
+  text: string,
+  definition: ExtractionSchemaDefinition = DEFAULT_EXTRACTION_SCHEMA_DEFINITION
+): string {
+  return parseParagraphs(text, definition)
+    .filter((p) => p.headingLevel !== null)
+    .map((p) => {
+      const depth = Math.max((p.headingLevel || 1) - 1, 0);
+      return `${"  ".repeat(depth)}- ${p.text.replace(/^#+\s*/, "")}`;
+    })
+    .join("\n");
+}
+
+// Product names are compared without footnote tokens, legal marks, case or spacing
+function productKey(name: unknown): string {
+  if (typeof name !== "string") return "";
+  // Marks go before NFKC, which would turn ™ and ℠ into letters
+  return name
+    .replace(/[™®℠]/g, "")
+    .normalize("NFKC")
+    .replace(SUP_TOKEN_PATTERN, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function unionStrings(a: unknown, b: unknown): string[] {
+  const result: string[] = [];
+  const seen = new Set<string>();
+  for (const value of [...(Array.isArray(a) ? a : []), ...(Array.isArray(b) ? b : [])]) {
+    if (typeof value !== "string") continue;
+    const key = value.trim();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    result.push(value);
+  }
+  return result;
+}
+
+function mergeCopy(a: unknown, b: unknown): string {
+  const first = typeof a === "string" ? a.trim() : "";
+  const second = typeof b === "string" ? b.trim() : "";
+  if (!first) return second;
+  if (!second || first.includes(second)) return first;
+  if (second.includes(first)) return second;
+  return `${first}\n\n${second}`;
+}
+
+function mergeProducts(existing: any, incoming: any, definition: ExtractionSchemaDefinition): any {
+  const merged = { ...existing };
+  for (const field of definition.fields) {
+    if (field.role === "name") continue;
+    merged[field.name] =
+      field.type === "string[]"
+        ? unionStrings(existing[field.name], incoming[field.name])
+        : mergeCopy(existing[field.name], incoming[field.name]);
+  }
+  return merged;
+}
+
+/**
+ * Merge per-chunk extraction results in chunk order. Products that appear in
+ * several chunks (because they span a chunk boundary) are merged into the
+ * first occurrence; products without a name are never merged.
+ */
+export function mergeChunkExtractions(parts: any[], definition: ExtractionSchemaDefinition): any {
+  const merged: Record<string, any[] | null> = {};
+  const productNameField = nameField(definition);
+
+  for (const { name: section } of definition.sections) {
+    const products: any[] = [];
+    const byKey = new Map<string, number>();
+    let present = false;
+
+    for (const part of parts) {
+      const value = part?.[section];
+      if (value === null || value === undefined) continue;
+      present = true;
+
+      for (const product of Array.isArray(value) ? value : [value]) {
+        if (!product || typeof product !== "object") continue;
+        const key = productNameField ? productKey(product[productNameField.name]) : "";
+        const existing = key ? byKey.get(key) : undefined;
+        if (existing !== undefined) {
+          products[existing] = mergeProducts(products[existing], product, definition);
+        } else {
+          if (key) byKey.set(key, products.length);
+          products.push(product);
+        }
+      }
+    }
+
+    merged[section] = present ? products : null;
+  }
+
+  return merged;
+}
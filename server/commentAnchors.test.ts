@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EXTRACTION_SCHEMA_DEFINITION as definition } from "@shared/extractionSchema";
+import type { CommentThread } from "@shared/schema";
+import { anchorForPath, parseCommentPath, reanchorThread } from "./commentAnchors";
+
+const phone = { ProductName: "Lumen Phone", AdvertisingCopy: "Battery for days.", KeyFeatureBullets: ["Fast charging", "All-day battery"] };
+const watch = { ProductName: "Lumen Watch", AdvertisingCopy: "On your wrist.", KeyFeatureBullets: ["Heart rate"] };
+
+// A thread anchored to path in data, as POST /comments would create it
+function threadAt(data: unknown, path: string, span: Partial<CommentThread> = {}): CommentThread {
+  return {
+    id: "thread",
+    documentId: "document",
+    path,
+    ...anchorForPath(data, path, definition)!,
+    spanStart: null,
+    spanEnd: null,
+    quotedText: null,
+    orphaned: false,
+    resolved: false,
+    resolvedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...span,
+  };
+}
+
+describe("parseCommentPath", () => {
+  it("reads entry, field and item paths", () => {
+    expect(parseCommentPath("ProductCopy[2]")).toEqual({ section: "ProductCopy", index: 2, field: undefined, item: undefined });
+    expect(parseCommentPath("ProductCopy[2].KeyFeatureBullets[1]")).toEqual({
+      section: "ProductCopy",
+      index: 2,
+      field: "KeyFeatureBullets",
+      item: 1,
+    });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseCommentPath("ProductCopy")).toBeUndefined();
+    expect(parseCommentPath("ProductCopy[0].Headlines[x]")).toBeUndefined();
+    expect(parseCommentPath("ProductCopy[0].__proto__.polluted")).toBeUndefined();
+  });
+});
+
+describe("anchorForPath", () => {
+  it("remembers the value and entry name at the path", () => {
+    const data = { ProductCopy: [phone] };
+    expect(anchorForPath(data, "ProductCopy[0].KeyFeatureBullets", definition)).toEqual({
+      anchorValue: "Fast charging\nAll-day battery",
+      entryName: "Lumen Phone",
+    });
+    expect(anchorForPath(data, "ProductCopy[0]", definition)).toEqual({ anchorValue: null, entryName: "Lumen Phone" });
+  });
+
+  it("returns undefined for a path that does not exist", () => {
+    expect(anchorForPath({ ProductCopy: [phone] }, "ProductCopy[1].AdvertisingCopy", definition)).toBeUndefined();
+    expect(anchorForPath({ ProductCopy: [phone] }, "ProductCopy[0].KeyFeatureBullets[5]", definition)).toBeUndefined();
+  });
+});
+
+describe("reanchorThread", () => {
+  it("follows a value that moved to another entry or item", () => {
+    const thread = threadAt({ ProductCopy: [phone, watch] }, "ProductCopy[0].KeyFeatureBullets[1]");
+    const reordered = { ProductCopy: [watch, { ...phone, KeyFeatureBullets: ["All-day battery", "Fast charging"] }] };
+
+    expect(reanchorThread(thread, reordered, "", definition)).toMatchObject({
+      path: "ProductCopy[1].KeyFeatureBullets[0]",
+      anchorValue: "All-day battery",
+      orphaned: false,
+    });
+  });
+
+  it("follows the entry by name when the value itself changed", () => {
+    const thread = threadAt({ ProductCopy: [phone, watch] }, "ProductCopy[1].AdvertisingCopy");
+    const changed = { ProductCopy: [{ ...watch, AdvertisingCopy: "Always on your wrist." }, phone] };
+
+    expect(reanchorThread(thread, changed, "", definition)).toMatchObject({
+      path: "ProductCopy[0].AdvertisingCopy",
+      anchorValue: "Always on your wrist.",
+      entryName: "Lumen Watch",
+      orphaned: false,
+    });
+  });
+
+  it("marks the thread orphaned when the field is gone", () => {
+    const thread = threadAt({ ProductCopy: [phone, watch] }, "ProductCopy[1].KeyFeatureBullets[0]");
+    expect(reanchorThread(thread, { ProductCopy: [phone] }, "", definition)).toMatchObject({ orphaned: true });
+  });
+
+  it("moves a quoted span to the nearest occurrence of its text", () => {
+    const text = "Battery for days. Fast charging. More copy. Fast charging again.";
+    const thread = threadAt({ ProductCopy: [phone] }, "ProductCopy[0]", { quotedText: "Fast charging", spanStart: 40, spanEnd: 53 });
+
+    expect(reanchorThread(thread, { ProductCopy: [phone] }, text, definition)).toMatchObject({ spanStart: 44, spanEnd: 57 });
+    expect(reanchorThread(thread, { ProductCopy: [phone] }, "No quote here.", definition)).toMatchObject({
+      spanStart: null,
+      spanEnd: null,
+    });
+  });
+});
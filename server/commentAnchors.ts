@@ -0,0 +1,150 @@
+import { storage } from "./storage";
+import { entryName, sectionEntries, type ExtractionSchemaDefinition } from "@shared/extractionSchema";
+import type { CommentThread, Document, InsertCommentThread } from "@shared/schema";
+
+/**
+ * Anchoring of comment threads to structured data.
+ *
+ * A thread points at a JSON path like "ProductCopy[2].KeyFeatureBullets[1]"
+ * and remembers the value and entry name it pointed at. Reprocessing can
+ * reorder entries or items, so afterwards each thread is moved to the path
+ * that now holds the same value, or to the same field of the entry with the
+ * same name. Threads whose field no longer exists are kept but marked
+ * orphaned. Quoted text spans are re-located in the new extractedText.
+ */
+
+interface CommentPath {
+  section: string;
+  index: number;
+  field?: string;
+  item?: number;
+}
+
+const PATH_PARTS = /^([A-Za-z][A-Za-z0-9_]*)\[(\d+)\](?:\.([A-Za-z][A-Za-z0-9_]*)(?:\[(\d+)\])?)?$/;
+
+export function parseCommentPath(path: string): CommentPath | undefined {
+  const match = PATH_PARTS.exec(path);
+  if (!match) return undefined;
+  return {
+    section: match[1],
+    index: Number(match[2]),
+    field: match[3],
+    item: match[4] !== undefined ? Number(match[4]) : undefined,
+  };
+}
+
+function formatCommentPath({ section, index, field, item }: CommentPath): string {
+  return `${section}[${index}]` + (field ? `.${field}` : "") + (item !== undefined ? `[${item}]` : "");
+}
+
+function valueAt(structuredData: any, path: CommentPath): unknown {
+  const entry = sectionEntries(structuredData, path.section)[path.index];
+  if (!entry || !path.field) return entry;
+  const value = entry[path.field];
+  if (path.item === undefined) return value;
+  return Array.isArray(value) ? value[path.item] : undefined;
+}
+
+// Comparable text of a field value; list fields compare as their joined items
+function anchorText(value: unknown): string | null {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.filter((item) => typeof item === "string").join("\n");
+  return null;
+}
+
+// Anchor for a new thread, or undefined if the path does not exist in the data
+export function anchorForPath(
+  structuredData: any,
+  path: string,
+  definition: ExtractionSchemaDefinition
+): Pick<InsertCommentThread, "anchorValue" | "entryName"> | undefined {
+  const parsed = parseCommentPath(path);
+  if (!parsed) return undefined;
+  const entries = sectionEntries(structuredData, parsed.section);
+  const value = valueAt(structuredData, parsed);
+  if (value === undefined) return undefined;
+  return {
+    anchorValue: parsed.field ? anchorText(value) : null,
+    entryName: entryName(definition, entries[parsed.index], parsed.index),
+  };
+}
+
+// Same field (and item) in each entry of the section, nearest to the original position first
+function candidatePaths(structuredData: any, path: CommentPath): CommentPath[] {
+  const candidates: Array<{ path: CommentPath; distance: number }> = [];
+  sectionEntries(structuredData, path.section).forEach((entry, index) => {
+    const value = path.field ? entry[path.field] : undefined;
+    if (path.item === undefined) {
+      candidates.push({ path: { ...path, index }, distance: Math.abs(index - path.index) * 1000 });
+    } else if (Array.isArray(value)) {
+      value.forEach((_, item) => {
+        candidates.push({
+          path: { ...path, index, item },
+          distance: Math.abs(index - path.index) * 1000 + Math.abs(item - path.item!),
+        });
+      });
+    }
+  });
+  return candidates.sort((a, b) => a.distance - b.distance).map((candidate) => candidate.path);
+}
+
+function relocatePath(thread: CommentThread, structuredData: any, definition: ExtractionSchemaDefinition): CommentPath | undefined {
+  const path = parseCommentPath(thread.path);
+  if (!path) return undefined;
+  const entries = sectionEntries(structuredData, path.section);
+
+  if (path.field && thread.anchorValue !== null) {
+    if (anchorText(valueAt(structuredData, path)) === thread.anchorValue) return path;
+    const moved = candidatePaths(structuredData, path).find(
+      (candidate) => anchorText(valueAt(structuredData, candidate)) === thread.anchorValue
+    );
+    if (moved) return moved;
+  }
+
+  // The value changed: follow the entry by name, keeping the field and item
+  const sameEntry = entries.findIndex((entry, index) => entryName(definition, entry, index) === thread.entryName);
+  if (sameEntry !== -1) {
+    const candidate = { ...path, index: sameEntry };
+    if (valueAt(structuredData, candidate) !== undefined) return candidate;
+  }
+
+  return valueAt(structuredData, path) !== undefined ? path : undefined;
+}
+
+// Nearest occurrence of the quoted text to where it used to be
+function relocateSpan(thread: CommentThread, extractedText: string): Pick<InsertCommentThread, "spanStart" | "spanEnd"> {
+  const { quotedText, spanStart } = thread;
+  if (!quotedText || spanStart === null) return { spanStart: null, spanEnd: null };
+  if (extractedText.slice(spanStart, spanStart + quotedText.length) === quotedText) {
+    return { spanStart, spanEnd: spanStart + quotedText.length };
+  }
+
+  let best = -1;
+  for (let at = extractedText.indexOf(quotedText); at !== -1; at = extractedText.indexOf(quotedText, at + 1)) {
+    if (best === -1 || Math.abs(at - spanStart) < Math.abs(best - spanStart)) best = at;
+  }
+  return best === -1 ? { spanStart: null, spanEnd: null } : { spanStart: best, spanEnd: best + quotedText.length };
+}
+
+export function reanchorThread(
+  thread: CommentThread,
+  structuredData: any,
+  extractedText: string,
+  definition: ExtractionSchemaDefinition
+): Partial<InsertCommentThread> {
+  const span = relocateSpan(thread, extractedText);
+  const path = relocatePath(thread, structuredData, definition);
+  if (!path) return { ...span, orphaned: true };
+
+  const formatted = formatCommentPath(path);
+  return { ...span, path: formatted, orphaned: false, ...anchorForPath(structuredData, formatted, definition) };
+}
+
+// Run after structuredData is replaced wholesale (reprocessing, restoring a version)
+export async function reanchorCommentThreads(document: Document, definition: ExtractionSchemaDefinition) {
+  const threads = await storage.getCommentThreads(document.id);
+  for (const thread of threads) {
+    const updates = reanchorThread(thread, document.structuredData, document.extractedText || "", definition);
+    await storage.updateCommentThread(thread.id, updates);
+  }
+}
@@ -0,0 +1,34 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { Document, DuplicateMatch } from "@shared/schema";
+
+/**
+ * Content hashes for spotting uploads that already exist. The file hash
+ * catches the same file uploaded twice; the text hash is taken over the
+ * extracted text with case, whitespace and Unicode forms normalized, so the
+ * same copy exported again (or saved as PDF instead of DOCX) matches too.
+ */
+
+export function hashFile(buffer: Buffer): string {
+  return crypto.createHash("sha256").update(buffer).digest("hex");
+}
+
+export function normalizeText(text: string): string {
+  return text.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+export function hashText(text: string): string {
+  return crypto.createHash("sha256").update(normalizeText(text)).digest("hex");
+}
+
+// The oldest live document with the same file, or failing that the same text
+export async function findDuplicateDocument(
+  fileHash: string | null,
+  textHash: string | null = null
+): Promise<{ document: Document; match: DuplicateMatch["match"] } | undefined> {
+  const candidates = await storage.findDocumentsByHash(fileHash, textHash);
+  const sameFile = fileHash ? candidates.find((document) => document.fileHash === fileHash) : undefined;
+  if (sameFile) return { document: sameFile, match: "file" };
+  const sameText = textHash ? candidates.find((document) => document.textHash === textHash) : undefined;
+  return sameText ? { document: sameText, match: "text" } : undefined;
+}
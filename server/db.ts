@@ -2,11 +2,14 @@ import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
 import * as schema from "@shared/schema";
 
-if (!process.env.DATABASE_URL) {
+// The in-memory storage backend never queries the database
+const inMemory = process.env.STORAGE_BACKEND === "memory";
+
+if (!process.env.DATABASE_URL && !inMemory) {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
 }
 
-const sql = neon(process.env.DATABASE_URL);
+const sql = neon(process.env.DATABASE_URL || "postgres://unused@localhost/unused");
 export const db = drizzle(sql, { schema });
@@ -0,0 +1,189 @@
+import mammoth from "mammoth";
+import { formatSuperscriptRun, headingLevelForStyle, headingLine, listItemLine, joinParagraphs, supToken } from "./textMarkup";
+
+/**
+ * Structure-aware DOCX extraction built on mammoth's document model.
+ *
+ * Unlike mammoth.extractRawText, this keeps the formatting the extraction
+ * prompt depends on: superscript runs become {{sup:N}} tokens, heading styles
+ * become "#" lines, list paragraphs become "-"/"1." items, and Word footnotes
+ * and endnotes are appended as "{{sup:N}} note text" paragraphs.
+ */
+
+type DocxInput = Parameters<typeof mammoth.convertToHtml>[0];
+
+// Shapes of the mammoth document model elements we read (see mammoth/lib/documents.js)
+interface DocxElement {
+  type: string;
+  children?: DocxElement[];
+  value?: string;
+  styleName?: string | null;
+  numbering?: { level: string | number; isOrdered: boolean } | null;
+  verticalAlignment?: "baseline" | "superscript" | "subscript";
+  breakType?: "line" | "page" | "column";
+  noteType?: string;
+  noteId?: string;
+  body?: DocxElement[];
+}
+
+interface DocxDocument extends DocxElement {
+  notes?: { resolve(reference: DocxElement): DocxElement | null };
+}
+
+export async function extractTextFromDocx(input: DocxInput): Promise<string> {
+  let documentTree: DocxDocument | null = null;
+
+  // convertToHtml is the only public entry point that exposes the document model
+  await mammoth.convertToHtml(input, {
+    transformDocument: (document: DocxDocument) => {
+      documentTree = document;
+      return document;
+    },
+  });
+
+  if (!documentTree) {
+    throw new Error("DOCX document model could not be read");
+  }
+  return new DocxTextRenderer(documentTree).render();
+}
+
+class DocxTextRenderer {
+  private paragraphs: string[] = [];
+  private notes: Array<{ marker: number; note: DocxElement }> = [];
+  private listCounters: number[] = [];
+
+  constructor(private document: DocxDocument) {}
+
+  render(): string {
+    this.renderBlocks(this.document.children || []);
+
+    // Word footnotes/endnotes carry the legal copy; keep them linked to their markers
+    for (const { marker, note } of this.notes) {
+      const noteText = (note.body || [])
+        .map((block) => this.renderInline(block.children || []))
+        .join(" ")
+        .trim();
+      if (noteText) {
+        this.paragraphs.push(`${supToken(marker)} ${noteText}`);
+      }
+    }
+
+    return joinParagraphs(this.paragraphs);
+  }
+
+  private renderBlocks(blocks: DocxElement[]) {
+    for (const block of blocks) {
+      if (block.type === "paragraph") {
+        this.renderParagraph(block);
+      } else if (block.type === "table") {
+        this.listCounters = [];
+        this.renderTable(block);
+      } else if (block.children) {
+        this.renderBlocks(block.children);
+      }
+    }
+  }
+
+  private renderParagraph(paragraph: DocxElement) {
+    const text = this.renderInline(paragraph.children || []).trim();
+    if (!text) return;
+
+    const level = headingLevelForStyle(paragraph.styleName);
+    if (level) {
+      this.listCounters = [];
+      this.paragraphs.push(headingLine(level, text));
+      return;
+    }
+
+    if (paragraph.numbering) {
+      const depth = Number(paragraph.numbering.level) || 0;
+      this.listCounters = this.listCounters.slice(0, depth + 1);
+      this.listCounters[depth] = (this.listCounters[depth] || 0) + 1;
+      const ordinal = paragraph.numbering.isOrdered ? this.listCounters[depth] : undefined;
+      this.paragraphs.push(listItemLine(depth, text, ordinal));
+      return;
+    }
+
+    this.listCounters = [];
+    this.paragraphs.push(text);
+  }
+
+  private renderTable(table: DocxElement) {
+    for (const row of table.children || []) {
+      const cells = (row.children || []).map((cell) =>
+        (cell.children || [])
+          .map((block) => this.renderInline(block.children || []))
+          .join(" ")
+          .trim()
+      );
+      if (cells.some(Boolean)) {
+        this.paragraphs.push(cells.join(" | "));
+      }
+    }
+  }
+
+  private renderInline(elements: DocxElement[]): string {
+    let text = "";
+    let pendingSuperscript = "";
+
+    // Adjacent superscript runs ("1", ",", "2") are formatted as one marker group
+    const flushSuperscript = () => {
+      if (pendingSuperscript) {
+        text += formatSuperscriptRun(pendingSuperscript, text.slice(-4));
+        pendingSuperscript = "";
+      }
+    };
+
+    const visit = (element: DocxElement, superscript: boolean) => {
+      switch (element.type) {
+        case "text":
+          if (superscript) {
+            pendingSuperscript += element.value || "";
+          } else {
+            flushSuperscript();
+            text += element.value || "";
+          }
+          break;
+        case "tab":
+          flushSuperscript();
+          text += "\t";
+          break;
+        case "break":
+          flushSuperscript();
+          text += element.breakType === "line" || !element.breakType ? "\n" : " ";
+          break;
+        case "noteReference":
+          flushSuperscript();
+          text += supToken(this.noteMarker(element));
+          break;
+        case "run":
+          for (const child of element.children || []) {
+            visit(child, element.verticalAlignment === "superscript");
+          }
+          break;
+        default:
+          for (const child of element.children || []) {
+            visit(child, superscript);
+          }
+      }
+    };
+
+    for (const element of elements) {
+      visit(element, false);
+    }
+    flushSuperscript();
+    return text;
+  }
+
+  private noteMarker(reference: DocxElement): number {
+    const note = this.document.notes?.resolve(reference);
+    if (!note) return this.notes.length + 1;
+
+    const existing = this.notes.find((entry) => entry.note === note);
+    if (existing) return existing.marker;
+
+    const marker = this.notes.length + 1;
+    this.notes.push({ marker, note });
+    return marker;
+  }
+}
@@ -0,0 +1,162 @@
+import { storage } from "./storage";
+import {
+  DEFAULT_EXTRACTION_SCHEMA_DEFINITION,
+  DEFAULT_EXTRACTION_SCHEMA_KEY,
+  type CreateExtractionSchemaRequest,
+  type ExtractionSchemaDefinition,
+} from "@shared/extractionSchema";
+import type { Document, ExtractionSchema } from "@shared/schema";
+
+/**
+ * Versioned extraction schemas stored in the database.
+ *
+ * Each version keeps its field definition, the JSON Schema sent to the
+ * extraction model and schema-specific prompt guidance. Creating a schema
+ * with an existing key adds a new version; older versions stay readable so
+ * documents can still be interpreted with the version they were extracted
+ * with. A document uses its own schema key, else the nearest folder's, else
+ * the built-in product copy schema.
+ */
+
+export class ExtractionSchemaNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Extraction schema "${key}" not found`);
+    this.name = "ExtractionSchemaNotFoundError";
+    Object.setPrototypeOf(this, ExtractionSchemaNotFoundError.prototype);
+  }
+}
+
+const DEFAULT_PROMPT_GUIDANCE = `CRITICAL MULTI-PRODUCT EXTRACTION RULES:
+1. **Scan the ENTIRE document** for every product mentioned in EACH section
+2. **Look for product headings** like "iPhone 16 Pro Max", "iPhone 16 Pro", "Apple Watch Ultra 2", etc.
+3. **Extract EVERY product separately** - do NOT stop after the first product
+4. **Each product gets its own entry** in the array for that section
+5. Documents often list multiple products in sequence - extract ALL of them
+6. If you see a table of contents listing multiple products (e.g., "iPhone 16 Pro Max...2, iPhone 16 Pro...3"), extract copy for EACH product listed
+
+EXAMPLE: If a document has:
+- "Product copy" section with iPhone 16 Pro Max, iPhone 16 Pro, iPhone 16 Plus, iPhone 16
+- Create FOUR separate entries in ProductCopy array, one for each iPhone model`;
+
+export function buildExtractionJsonSchema(definition: ExtractionSchemaDefinition): Record<string, unknown> {
+  const entrySchema = {
+    type: "object",
+    properties: Object.fromEntries(
+      definition.fields.map((field) => [
+        field.name,
+        field.type === "string[]"
+          ? { type: "array", description: field.description || field.label, items: { type: "string" } }
+          : { type: "string", description: field.description || field.label },
+      ])
+    ),
+    required: definition.fields.map((field) => field.name),
+    additionalProperties: false,
+  };
+
+  return {
+    name: "document_extraction",
+    schema: {
+      type: "object",
+      properties: Object.fromEntries(
+        definition.sections.map((section) => [
+          section.name,
+          {
+            anyOf: [
+              { type: "array", items: entrySchema, description: `Array of entries: ${section.description || section.label}` },
+              { type: "null" },
+            ],
+            description: `${section.description || section.label} (optional, can contain multiple entries)`,
+          },
+        ])
+      ),
+      required: definition.sections.map((section) => section.name),
+      additionalProperties: false,
+    },
+  };
+}
+
+let defaultSchema: Promise<ExtractionSchema> | null = null;
+
+// Seed version 1 of the built-in schema the first time it is needed
+export function ensureDefaultExtractionSchema(): Promise<ExtractionSchema> {
+  if (!defaultSchema) {
+    defaultSchema = (async () => {
+      const existing = await storage.getLatestExtractionSchema(DEFAULT_EXTRACTION_SCHEMA_KEY);
+      if (existing) return existing;
+      return storage.createExtractionSchema({
+        key: DEFAULT_EXTRACTION_SCHEMA_KEY,
+        version: 1,
+        name: "Product copy",
+        description: "Product, business and upgrader marketing copy",
+        definition: DEFAULT_EXTRACTION_SCHEMA_DEFINITION,
+        jsonSchema: buildExtractionJsonSchema(DEFAULT_EXTRACTION_SCHEMA_DEFINITION),
+        promptGuidance: DEFAULT_PROMPT_GUIDANCE,
+      });
+    })();
+    // Let a later call retry if the database was unavailable
+    defaultSchema.catch(() => {
+      defaultSchema = null;
+    });
+  }
+  return defaultSchema;
+}
+
+export async function createExtractionSchemaVersion(request: CreateExtractionSchemaRequest): Promise<ExtractionSchema> {
+  const latest = await storage.getLatestExtractionSchema(request.key);
+  return storage.createExtractionSchema({
+    key: request.key,
+    version: (latest?.version ?? 0) + 1,
+    name: request.name,
+    description: request.description || null,
+    definition: request.definition,
+    jsonSchema: buildExtractionJsonSchema(request.definition),
+    promptGuidance: request.promptGuidance || null,
+  });
+}
+
+export async function getLatestExtractionSchemaOrThrow(key: string): Promise<ExtractionSchema> {
+  const schema =
+    key === DEFAULT_EXTRACTION_SCHEMA_KEY
+      ? await ensureDefaultExtractionSchema()
+      : await storage.getLatestExtractionSchema(key);
+  if (!schema) throw new ExtractionSchemaNotFoundError(key);
+  return schema;
+}
+
+/**
+ * Schema to extract with: the document's own key, else the nearest folder
+ * (walking up parent folders) that has one, else the default.
+ */
+export async function resolveExtractionSchema(target: {
+  extractionSchemaKey?: string | null;
+  folderId?: string | null;
+}): Promise<ExtractionSchema> {
+  if (target.extractionSchemaKey) {
+    return getLatestExtractionSchemaOrThrow(target.extractionSchemaKey);
+  }
+
+  let folderId = target.folderId || null;
+  const visited = new Set<string>();
+  while (folderId && !visited.has(folderId)) {
+    visited.add(folderId);
+    const folder = await storage.getFolder(folderId);
+    if (folder?.extractionSchemaKey) {
+      return getLatestExtractionSchemaOrThrow(folder.extractionSchemaKey);
+    }
+    folderId = folder?.parentFolderId || null;
+  }
+
+  return ensureDefaultExtractionSchema();
+}
+
+// Schema a document's current structuredData follows: the version it was extracted with
+export async function extractionSchemaForDocument(
+  document: Pick<Document, "extractionSchemaId">
+): Promise<ExtractionSchema> {
+  if (document.extractionSchemaId) {
+    const schema = await storage.getExtractionSchema(document.extractionSchemaId);
+    if (schema) return schema;
+  }
+  // Documents extracted before schemas existed use the built-in layout
+  return ensureDefaultExtractionSchema();
+}
@@ -0,0 +1,33 @@
+import { DocumentStorageService } from "./documentStorage";
+
+/**
+ * Where the bytes of an original document come from. Extraction and preview
+ * take a FileSource instead of a local path, so uploads (read back from
+ * storage by the job worker), reprocessing and previews all read files the
+ * same way, whichever storage driver holds them.
+ */
+
+export type FileSource =
+  | { kind: "stored"; storagePath: string }
+  | { kind: "buffer"; buffer: Buffer };
+
+const documentStorage = new DocumentStorageService();
+
+// A document's file as stored by DocumentStorageService (its filePath)
+export function storedFile(storagePath: string): FileSource {
+  return { kind: "stored", storagePath };
+}
+
+export function bufferFile(buffer: Buffer): FileSource {
+  return { kind: "buffer", buffer };
+}
+
+// Extractors need random access (ZIP and PDF), so every source ends up as one buffer
+export async function readFileSource(source: FileSource): Promise<Buffer> {
+  switch (source.kind) {
+    case "buffer":
+      return source.buffer;
+    case "stored":
+      return documentStorage.downloadDocument(source.storagePath);
+  }
+}
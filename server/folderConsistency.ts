@@ -0,0 +1,206 @@
+import { storage } from "./storage";
+import { extractionSchemaForDocument } from "./extractionSchemas";
+import { legalField, sectionEntries, type ExtractionSchemaDefinition } from "@shared/extractionSchema";
+import type { ConsistencyIssue, Document, Folder, FolderConsistencyReport, VariantConsistency } from "@shared/schema";
+
+/**
+ * Folder-level consistency between an original document and its translations.
+ *
+ * Each language variant is compared to the folder's original, entry by entry
+ * in section order: the number of entries per section, the number of items in
+ * list fields, the {{sup:N}} footnotes used, the number of legal references,
+ * and the numbers (with percentages and units) in every field. Differences are
+ * stored on the variant as consistencyIssues and flag it for review; the
+ * folder keeps the full report.
+ */
+
+export class FolderHasNoOriginalError extends Error {
+  constructor(folderId: string) {
+    super(`Folder ${folderId} has no original document to compare against`);
+    this.name = "FolderHasNoOriginalError";
+    Object.setPrototypeOf(this, FolderHasNoOriginalError.prototype);
+  }
+}
+
+const SUP_TOKEN_PATTERN = /\{\{sup:([^}]*)\}\}/g;
+// Unit symbols are written the same way in every language; words like "hours" are translated
+const UNIT_SYMBOLS = ["%", "mm", "cm", "m", "km", "g", "kg", "mAh", "Wh", "W", "V", "Hz", "kHz", "MHz", "GHz", "KB", "MB", "GB", "TB", "MP", "fps", "nits", "x", "K"];
+const NUMBER_PATTERN = new RegExp(
+  `(\\d+(?:[.,\u00a0\u202f]\\d+| \\d{3}(?!\\d))*)\\s?(${[...UNIT_SYMBOLS].sort((a, b) => b.length - a.length).join("|")})?(?![A-Za-z])`,
+  "g"
+);
+
+/**
+ * Numbers in a value, normalized so "1,000", "1.000" and "1 000" or "1,5" and
+ * "1.5" compare equal: the last separator is the decimal point unless exactly
+ * three digits follow it, and every other separator groups thousands.
+ */
+export function numbersIn(value: string): string[] {
+  const text = value
+    .replace(SUP_TOKEN_PATTERN, " ")
+    .replace(/[０-９]/g, (digit) => String.fromCharCode(digit.charCodeAt(0) - 0xfee0));
+  const numbers: string[] = [];
+  for (const match of Array.from(text.matchAll(NUMBER_PATTERN))) {
+    const groups = match[1].split(/[., \u00a0\u202f]/);
+    const last = groups.length > 1 && groups[groups.length - 1].length !== 3 ? groups.pop() : undefined;
+    const number = Number(groups.join("") + (last !== undefined ? `.${last}` : ""));
+    numbers.push(`${number}${match[2] ?? ""}`);
+  }
+  return numbers;
+}
+
+function markersIn(value: string): string[] {
+  return Array.from(value.matchAll(SUP_TOKEN_PATTERN)).flatMap((match) => match[1].split(",").map((m) => m.trim()));
+}
+
+function textOf(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.filter((item) => typeof item === "string").join("\n");
+  return "";
+}
+
+// Items in `a` missing from `b`, counting duplicates
+function missingFrom(a: string[], b: string[]): string[] {
+  const remaining = [...b];
+  return a.filter((item) => {
+    const index = remaining.indexOf(item);
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+}
+
+function sortedMarkers(markers: string[]): string[] {
+  return Array.from(new Set(markers)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+function compareEntries(original: any, variant: any, prefix: string, definition: ExtractionSchemaDefinition): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const legal = legalField(definition);
+  const originalMarkers: string[] = [];
+  const variantMarkers: string[] = [];
+
+  for (const field of definition.fields) {
+    if (field.role === "name") continue;
+    const path = `${prefix}.${field.name}`;
+    const originalValue = original[field.name];
+    const variantValue = variant[field.name];
+
+    if (field === legal) {
+      const originalCount = Array.isArray(originalValue) ? originalValue.length : 0;
+      const variantCount = Array.isArray(variantValue) ? variantValue.length : 0;
+      if (originalCount !== variantCount) {
+        issues.push({ path, check: "legal-count", message: `${variantCount} legal references, original has ${originalCount}` });
+      }
+    } else {
+      originalMarkers.push(...markersIn(textOf(originalValue)));
+      variantMarkers.push(...markersIn(textOf(variantValue)));
+      if (field.type === "string[]") {
+        const originalCount = Array.isArray(originalValue) ? originalValue.length : 0;
+        const variantCount = Array.isArray(variantValue) ? variantValue.length : 0;
+        if (originalCount !== variantCount) {
+          issues.push({ path, check: "item-count", message: `${variantCount} ${field.label.toLowerCase()}, original has ${originalCount}` });
+        }
+      }
+    }
+
+    const originalNumbers = numbersIn(textOf(originalValue));
+    const variantNumbers = numbersIn(textOf(variantValue));
+    const missing = missingFrom(originalNumbers, variantNumbers);
+    const extra = missingFrom(variantNumbers, originalNumbers);
+    if (missing.length > 0 || extra.length > 0) {
+      const parts = [
+        missing.length > 0 ? `missing ${missing.join(", ")}` : "",
+        extra.length > 0 ? `not in original ${extra.join(", ")}` : "",
+      ].filter(Boolean);
+      issues.push({ path, check: "numbers", message: `Numbers differ from the original: ${parts.join("; ")}` });
+    }
+  }
+
+  const expected = sortedMarkers(originalMarkers);
+  const actual = sortedMarkers(variantMarkers);
+  if (expected.join(",") !== actual.join(",")) {
+    issues.push({
+      path: prefix,
+      check: "footnotes",
+      message: `Footnotes ${actual.join(", ") || "none"}, original uses ${expected.join(", ") || "none"}`,
+    });
+  }
+
+  return issues;
+}
+
+export function compareToOriginal(original: any, variant: any, definition: ExtractionSchemaDefinition): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  for (const section of definition.sections) {
+    const originalEntries = sectionEntries(original, section.name);
+    const variantEntries = sectionEntries(variant, section.name);
+    if (originalEntries.length !== variantEntries.length) {
+      issues.push({
+        path: section.name,
+        check: "product-count",
+        message: `${variantEntries.length} entries in ${section.label}, original has ${originalEntries.length}`,
+      });
+      // Entries are compared by position, which is meaningless once counts differ
+      continue;
+    }
+    originalEntries.forEach((entry, index) => {
+      issues.push(...compareEntries(entry, variantEntries[index], `${section.name}[${index}]`, definition));
+    });
+  }
+  return issues;
+}
+
+export function formatConsistencyIssue(issue: ConsistencyIssue): string {
+  return `${issue.path}: ${issue.message}`;
+}
+
+// Compare every processed variant in the folder to the original and store the results
+export async function checkFolderConsistency(folderId: string): Promise<FolderConsistencyReport> {
+  const documents = (await storage.getDocumentsByFolder(folderId)).filter((doc) => doc.isProcessed && doc.structuredData);
+  const original = documents.find((doc) => doc.isOriginal);
+  if (!original) throw new FolderHasNoOriginalError(folderId);
+
+  // Variants follow the original's layout; one extracted with another schema is compared on the original's
+  const { definition } = await extractionSchemaForDocument(original);
+
+  const variants: VariantConsistency[] = [];
+  for (const document of documents.filter((doc: Document) => doc.id !== original.id)) {
+    const issues = compareToOriginal(original.structuredData, document.structuredData, definition);
+    const consistencyIssues = issues.map(formatConsistencyIssue);
+    await storage.updateDocument(document.id, {
+      consistencyIssues,
+      ...(issues.length > 0 ? { needsReview: true } : {}),
+    });
+    variants.push({ documentId: document.id, documentName: document.name, language: document.language, issues });
+  }
+
+  const report: FolderConsistencyReport = {
+    folderId,
+    originalDocumentId: original.id,
+    checkedAt: new Date().toISOString(),
+    issueCount: variants.reduce((count, variant) => count + variant.issues.length, 0),
+    variants,
+  };
+  await storage.saveFolderConsistencyReport(folderId, report);
+  return report;
+}
+
+/**
+ * The folder's stored report without the variants that have since been trashed
+ * or moved out, or null when the original itself is gone and the folder needs
+ * a new check.
+ */
+export async function currentConsistencyReport(folder: Folder): Promise<FolderConsistencyReport | null> {
+  const report = folder.consistencyReport;
+  if (!report) return null;
+  const documentIds = new Set((await storage.getDocumentsByFolder(folder.id)).map((doc) => doc.id));
+  if (!documentIds.has(report.originalDocumentId)) return null;
+
+  const variants = report.variants.filter((variant) => documentIds.has(variant.documentId));
+  return {
+    ...report,
+    issueCount: variants.reduce((count, variant) => count + variant.issues.length, 0),
+    variants,
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EXTRACTION_SCHEMA_DEFINITION as definition, type ExtractionSchemaDefinition } from "@shared/extractionSchema";
+import { formatFootnoteIssue, lintFootnotes } from "./footnoteLinter";
+
+function lint(entry: Record<string, unknown>) {
+  return lintFootnotes({ ProductCopy: [{ ProductName: "Lumen Phone", ...entry }] }, definition);
+}
+
+describe("lintFootnotes", () => {
+  it("accepts markers that are defined in order and all referenced", () => {
+    expect(
+      lint({
+        AdvertisingCopy: "Battery for days{{sup:1}}.",
+        KeyFeatureBullets: ["Fast charging{{sup:2}}", "Water resistant{{sup:*}}"],
+        LegalReferences: ["{{sup:1}} Battery life varies.", "{{sup:2}} With a 30 W adapter.", "{{sup:*}} IP68.", "Standalone legal text."],
+      })
+    ).toEqual([]);
+  });
+
+  it("reports a marker without a definition at its first use", () => {
+    expect(
+      lint({ Headlines: ["Meet Lumen{{sup:3}}"], AdvertisingCopy: "Brighter{{sup:3}}.", LegalReferences: [] })
+    ).toEqual([
+      {
+        path: "ProductCopy[0].Headlines[0]",
+        rule: "undefined-marker",
+        message: "{{sup:3}} has no matching entry in LegalReferences",
+      },
+    ]);
+  });
+
+  it("reports unused, duplicate and out-of-order definitions", () => {
+    const issues = lint({
+      AdvertisingCopy: "Battery{{sup:1}} and display{{sup:2}}.",
+      LegalReferences: ["{{sup:2}} Display claim.", "{{sup:1}} Battery claim.", "{{sup:1}} Again.", "{{sup:4}} Unused."],
+    });
+    expect(issues.map(({ path, rule }) => [path, rule])).toEqual([
+      ["ProductCopy[0].LegalReferences[1]", "out-of-order-reference"],
+      ["ProductCopy[0].LegalReferences[2]", "duplicate-reference"],
+      ["ProductCopy[0].LegalReferences[3]", "unused-reference"],
+    ]);
+  });
+
+  it("splits combined tokens into their markers", () => {
+    expect(
+      lint({ AdvertisingCopy: "All day{{sup:1,2}}.", LegalReferences: ["{{sup:1}} One.", "{{sup:2}} Two."] })
+    ).toEqual([]);
+  });
+
+  it("flags raw footnote superscripts and legal marks but not unit exponents", () => {
+    const issues = lint({ AdvertisingCopy: "Lumen™ covers 20 cm² and lasts all day¹.", LegalReferences: [] });
+    expect(issues).toEqual([
+      {
+        path: "ProductCopy[0].AdvertisingCopy",
+        rule: "raw-superscript",
+        message: "Raw superscript ¹ should be a {{sup:N}} token",
+      },
+      { path: "ProductCopy[0].AdvertisingCopy", rule: "legal-mark", message: "Legal mark ™ should have been stripped" },
+    ]);
+  });
+
+  it("scopes footnotes to their entry", () => {
+    const issues = lintFootnotes(
+      {
+        ProductCopy: [
+          { ProductName: "Lumen Phone", AdvertisingCopy: "Battery{{sup:1}}.", LegalReferences: ["{{sup:1}} Battery claim."] },
+          { ProductName: "Lumen Watch", AdvertisingCopy: "Battery{{sup:1}}.", LegalReferences: [] },
+        ],
+      },
+      definition
+    );
+    expect(issues.map(formatFootnoteIssue)).toEqual([
+      "ProductCopy[1].AdvertisingCopy: {{sup:1}} has no matching entry in LegalReferences",
+    ]);
+  });
+
+  it("only checks markup when the schema has no legal field", () => {
+    const noLegal: ExtractionSchemaDefinition = {
+      ...definition,
+      fields: definition.fields.filter((field) => field.role !== "legal"),
+    };
+    expect(lintFootnotes({ ProductCopy: [{ AdvertisingCopy: "Battery{{sup:1}}®." }] }, noLegal)).toEqual([
+      { path: "ProductCopy[0].AdvertisingCopy", rule: "legal-mark", message: "Legal mark ® should have been stripped" },
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+import { legalField, type ExtractionSchemaDefinition } from "@shared/extractionSchema";
+import { tokenizeUnicodeSuperscripts } from "./textMarkup";
+
+/**
+ * Rule-based footnote checks on structured data, run without any LLM call.
+ *
+ * Footnotes are scoped to an entry: every {{sup:N}} token in an entry's copy
+ * must be defined by an entry in its legal field that starts with the same
+ * token, and every such definition must be referenced. Issues carry the JSON
+ * path of the offending value, e.g. "ProductCopy[0].LegalReferences[2]".
+ */
+
+export type FootnoteLintRule =
+  | "undefined-marker"
+  | "unused-reference"
+  | "duplicate-reference"
+  | "out-of-order-reference"
+  | "raw-superscript"
+  | "legal-mark";
+
+export interface FootnoteLintIssue {
+  path: string;
+  rule: FootnoteLintRule;
+  message: string;
+}
+
+const SUP_TOKEN_PATTERN = /\{\{sup:([^}]*)\}\}/g;
+const LEADING_SUP_TOKENS = /^\s*((?:\{\{sup:[^}]*\}\}\s*)+)/;
+const LEGAL_MARK_PATTERN = /[™®℠]/g;
+
+// Markers in a token; the model sometimes writes {{sup:1,2}} instead of two tokens
+function markersIn(text: string): string[] {
+  const markers: string[] = [];
+  for (const match of Array.from(text.matchAll(SUP_TOKEN_PATTERN))) {
+    markers.push(...match[1].split(",").map((marker) => marker.trim()).filter(Boolean));
+  }
+  return markers;
+}
+
+function stringValues(value: unknown, path: string): Array<[string, string]> {
+  if (typeof value === "string") return [[path, value]];
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => (typeof item === "string" ? [[`${path}[${i}]`, item] as [string, string]] : []));
+  }
+  return [];
+}
+
+function lintMarkup(path: string, value: string): FootnoteLintIssue[] {
+  const issues: FootnoteLintIssue[] = [];
+
+  // Unit exponents (cm², m³) are content; anything the tokenizer would convert is a missed footnote
+  const raw = Array.from(value.matchAll(/[⁰¹²³⁴⁵⁶⁷⁸⁹]+/g))
+    .filter((match) => {
+      const run = value.slice(Math.max(0, match.index! - 4), match.index! + match[0].length);
+      return tokenizeUnicodeSuperscripts(run) !== run;
+    })
+    .map((match) => match[0]);
+  if (raw.length > 0) {
+    issues.push({
+      path,
+      rule: "raw-superscript",
+      message: `Raw superscript ${Array.from(new Set(raw)).join(", ")} should be a {{sup:N}} token`,
+    });
+  }
+
+  const marks = Array.from(new Set(value.match(LEGAL_MARK_PATTERN) || []));
+  if (marks.length > 0) {
+    issues.push({ path, rule: "legal-mark", message: `Legal mark ${marks.join(", ")} should have been stripped` });
+  }
+
+  return issues;
+}
+
+function lintEntry(entry: any, prefix: string, definition: ExtractionSchemaDefinition): FootnoteLintIssue[] {
+  const issues: FootnoteLintIssue[] = [];
+  const legal = legalField(definition);
+
+  // Where each marker is used in the entry's copy, first use first
+  const usedAt = new Map<string, string>();
+  for (const field of definition.fields) {
+    for (const [path, value] of stringValues(entry[field.name], `${prefix}.${field.name}`)) {
+      issues.push(...lintMarkup(path, value));
+      if (field === legal) continue;
+      for (const marker of markersIn(value)) {
+        if (!usedAt.has(marker)) usedAt.set(marker, path);
+      }
+    }
+  }
+
+  if (!legal) return issues;
+
+  const definedAt = new Map<string, string>();
+  let previous: number | null = null;
+  for (const [path, value] of stringValues(entry[legal.name], `${prefix}.${legal.name}`)) {
+    const leading = LEADING_SUP_TOKENS.exec(value);
+    // Standalone legal text without a marker is allowed
+    if (!leading) continue;
+
+    for (const marker of markersIn(leading[1])) {
+      const firstPath = definedAt.get(marker);
+      if (firstPath) {
+        issues.push({
+          path,
+          rule: "duplicate-reference",
+          message: `Footnote ${marker} is already defined at ${firstPath}`,
+        });
+        continue;
+      }
+      definedAt.set(marker, path);
+
+      if (!usedAt.has(marker)) {
+        issues.push({ path, rule: "unused-reference", message: `Footnote ${marker} is never referenced in the copy` });
+      }
+
+      // Only numeric markers have an order; symbols like * or † are skipped
+      const number = /^\d+$/.test(marker) ? Number(marker) : null;
+      if (number === null) continue;
+      if (previous !== null && number < previous) {
+        issues.push({
+          path,
+          rule: "out-of-order-reference",
+          message: `Footnote ${marker} is listed after footnote ${previous}`,
+        });
+      }
+      previous = number;
+    }
+  }
+
+  usedAt.forEach((path, marker) => {
+    if (!definedAt.has(marker)) {
+      issues.push({
+        path,
+        rule: "undefined-marker",
+        message: `{{sup:${marker}}} has no matching entry in ${legal.name}`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+export function lintFootnotes(structuredData: any, definition: ExtractionSchemaDefinition): FootnoteLintIssue[] {
+  if (!structuredData || typeof structuredData !== "object") return [];
+
+  const issues: FootnoteLintIssue[] = [];
+  for (const { name: section } of definition.sections) {
+    const entries = structuredData[section];
+    if (!Array.isArray(entries)) continue;
+    entries.forEach((entry: any, index: number) => {
+      if (!entry || typeof entry !== "object") return;
+      issues.push(...lintEntry(entry, `${section}[${index}]`, definition));
+    });
+  }
+  return issues;
+}
+
+// validationIssues are plain strings shown next to the judges' findings
+export function formatFootnoteIssue(issue: FootnoteLintIssue): string {
+  return `${issue.path}: ${issue.message}`;
+}
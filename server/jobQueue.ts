@@ -0,0 +1,327 @@
+import { storage } from "./storage";
+import { runAsActor } from "./auditLog";
+import { storedFile } from "./fileSource";
+import { validateExtraction, quickValidationChecks } from "./validation";
+import { extractTextFromFile, detectLanguage, processWithGPT5, EmptyExtractionError } from "./processing";
+import { computeSourceSpans } from "./sourceSpans";
+import { resolveExtractionSchema, extractionSchemaForDocument } from "./extractionSchemas";
+import { checkFolderConsistency, FolderHasNoOriginalError } from "./folderConsistency";
+import { findDuplicateDocument, hashText } from "./contentHash";
+import { replaceDocumentFile } from "./reprocess";
+import { DocumentPublishedError } from "./reviewWorkflow";
+import { DocumentStorageService } from "./documentStorage";
+import type { Document, DuplicateAction, InsertProcessingJobFile, ProcessingJobFile, ProcessingJobProgress } from "@shared/schema";
+
+/**
+ * Postgres-backed queue for document processing.
+ *
+ * Upload routes store the files in object storage and enqueue a job with one
+ * row per file. Workers in this process claim file rows with SKIP LOCKED and
+ * run them through the stages below, saving each stage's output so a failed
+ * stage is retried on its own with backoff. Rows left "running" by a crashed
+ * process are picked up again once their lock times out.
+ *
+ * Once a file's text is extracted it is checked against existing documents
+ * (see server/contentHash.ts). A match is handled as the upload asked; with
+ * "ask" the file stops as "duplicate" until resolveDuplicateJobFile is called.
+ */
+
+export type JobStage = "extracting" | "structuring" | "validating" | "projecting" | "done";
+
+const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY || 2);
+const JOB_POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS || 2000);
+const JOB_MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS || 3);
+const JOB_RETRY_BASE_MS = 5000;
+// Longer than any single stage should take, including chunked extraction
+const JOB_LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Validation and projection failures never discard a processed document
+const OPTIONAL_STAGES: JobStage[] = ["validating", "projecting"];
+
+// "duplicate" files wait for a decision, which queues them again
+const TERMINAL_FILE_STATUSES = ["completed", "failed", "duplicate"];
+
+let workerStarted = false;
+let wakeWorkers: Array<() => void> = [];
+
+export async function enqueueProcessingJob(
+  kind: "single" | "set",
+  folderId: string | null,
+  files: InsertProcessingJobFile[],
+  createdBy: string | null
+) {
+  const job = await storage.createProcessingJob({ kind, folderId, createdBy }, files);
+  notifyJobQueued();
+  return job;
+}
+
+// Wake idle workers instead of waiting for the next poll
+export function notifyJobQueued() {
+  const waiting = wakeWorkers;
+  wakeWorkers = [];
+  waiting.forEach((wake) => wake());
+}
+
+export class JobFileNotDuplicateError extends Error {
+  constructor() {
+    super("This file is not waiting for a duplicate decision");
+    this.name = "JobFileNotDuplicateError";
+    Object.setPrototypeOf(this, JobFileNotDuplicateError.prototype);
+  }
+}
+
+// Queues a file that stopped as a duplicate again, handling the match with the chosen action
+export async function resolveDuplicateJobFile(file: ProcessingJobFile, action: Exclude<DuplicateAction, "ask">) {
+  if (file.status !== "duplicate") throw new JobFileNotDuplicateError();
+  await storage.updateProcessingJobFile(file.id, { status: "queued", duplicateAction: action, error: null, nextAttemptAt: null });
+  await storage.updateProcessingJob(file.jobId, { status: "running", completedAt: null });
+  notifyJobQueued();
+}
+
+export async function getJobProgress(jobId: string): Promise<ProcessingJobProgress | undefined> {
+  const job = await storage.getProcessingJob(jobId);
+  if (!job) return undefined;
+
+  const files = await storage.getProcessingJobFiles(jobId);
+  return {
+    ...job,
+    // Storage paths and intermediate text stay server-side
+    files: files.map(({ storagePath, extractedText, ocrPages, pageRanges, ...progress }) => progress),
+  };
+}
+
+export function isJobFinished(job: { status: string }): boolean {
+  return job.status === "completed" || job.status === "failed";
+}
+
+export function startJobWorker() {
+  if (workerStarted) return;
+  workerStarted = true;
+
+  const requeueStale = () =>
+    storage
+      .requeueStaleJobFiles(new Date(Date.now() - JOB_LOCK_TIMEOUT_MS))
+      .then((count) => count > 0 && notifyJobQueued())
+      .catch((error) => console.error("Failed to requeue stale jobs:", error));
+  void requeueStale();
+  setInterval(requeueStale, 60 * 1000).unref();
+
+  for (let i = 0; i < JOB_CONCURRENCY; i++) {
+    void workerLoop();
+  }
+}
+
+function idle(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    wakeWorkers.push(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+async function workerLoop() {
+  while (true) {
+    try {
+      const file = await storage.claimNextJobFile();
+      if (!file) {
+        await idle(JOB_POLL_INTERVAL_MS);
+        continue;
+      }
+      // Changes are audited as the user who queued the upload
+      const job = await storage.getProcessingJob(file.jobId);
+      await runAsActor(job?.createdBy ?? null, () => processJobFile(file));
+    } catch (error) {
+      console.error("Job worker error:", error);
+      await idle(JOB_POLL_INTERVAL_MS);
+    }
+  }
+}
+
+async function processJobFile(claimed: ProcessingJobFile) {
+  let file = claimed;
+  await storage.updateProcessingJob(file.jobId, { status: "running" });
+
+  while (file.stage !== "done") {
+    const stage = file.stage as JobStage;
+    try {
+      const updates = await runStage(file);
+      file = (await storage.updateProcessingJobFile(file.id, { ...updates, attempts: 0, error: null, lockedAt: new Date() })) || file;
+      if (file.status === "duplicate") {
+        await storage.updateProcessingJobFile(file.id, { lockedAt: null });
+        await refreshJobStatus(file.jobId);
+        return;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Processing failed";
+      const attempts = file.attempts + 1;
+      console.error(`Job file ${file.id} failed at ${stage} (attempt ${attempts}):`, error);
+
+      const retryable = !(error instanceof EmptyExtractionError || error instanceof DocumentPublishedError);
+      if (retryable && attempts < JOB_MAX_ATTEMPTS) {
+        await storage.updateProcessingJobFile(file.id, {
+          status: "retrying",
+          attempts,
+          error: message,
+          lockedAt: null,
+          nextAttemptAt: new Date(Date.now() + JOB_RETRY_BASE_MS * 2 ** (attempts - 1)),
+        });
+        return;
+      }
+
+      if (OPTIONAL_STAGES.includes(stage)) {
+        // Same as the old inline upload: keep the document and carry on
+        file = (await storage.updateProcessingJobFile(file.id, {
+          stage: nextStage(stage),
+          attempts: 0,
+          error: `${stage} skipped: ${message}`,
+        })) || file;
+        continue;
+      }
+
+      await storage.updateProcessingJobFile(file.id, { status: "failed", attempts, error: message, lockedAt: null });
+      await refreshJobStatus(file.jobId);
+      return;
+    }
+  }
+
+  // Extracted text now lives on the document
+  await storage.updateProcessingJobFile(file.id, { status: "completed", extractedText: null, lockedAt: null });
+  await refreshJobStatus(file.jobId);
+}
+
+function nextStage(stage: JobStage): JobStage {
+  const order: JobStage[] = ["extracting", "structuring", "validating", "projecting", "done"];
+  return order[order.indexOf(stage) + 1] || "done";
+}
+
+async function runStage(file: ProcessingJobFile): Promise<Partial<InsertProcessingJobFile>> {
+  const stage = file.stage as JobStage;
+
+  switch (stage) {
+    case "extracting": {
+      const { text, ocrPages, pageRanges } = await extractTextFromFile(storedFile(file.storagePath), file.fileType);
+      return { extractedText: text, ocrPages, pageRanges, stage: nextStage(stage) };
+    }
+
+    case "structuring": {
+      const extractedText = file.extractedText || "";
+      const job = await storage.getProcessingJob(file.jobId);
+      const textHash = hashText(extractedText);
+
+      if (file.duplicateAction !== "proceed") {
+        const duplicate = await findDuplicateDocument(file.fileHash, textHash);
+        if (duplicate) return handleDuplicate(file, duplicate.document, job?.createdBy ?? null);
+      }
+
+      const schema = await resolveExtractionSchema({ folderId: job?.folderId });
+
+      // Detect language and process with GPT-4o in parallel
+      const [language, structuredData] = await Promise.all([
+        detectLanguage(extractedText),
+        processWithGPT5(extractedText, schema)
+      ]);
+
+      // Automatically set month and year based on current date (auditing data)
+      const now = new Date();
+      const document = await storage.createDocument({
+        name: file.name,
+        fileType: file.fileType,
+        filePath: file.storagePath,
+        size: file.size,
+        fileHash: file.fileHash,
+        textHash,
+        folderId: job?.folderId || null,
+        isOriginal: file.isOriginal,
+        language,
+        month: now.toLocaleString("en-US", { month: "long" }),
+        year: now.getFullYear().toString(),
+        isProcessed: true,
+        extractedText,
+        ocrPages: file.ocrPages || [],
+        pageRanges: file.pageRanges || [],
+        structuredData,
+        aiStructuredData: structuredData,
+        extractionSchemaId: schema.id,
+        sourceSpans: computeSourceSpans(extractedText, structuredData, schema.definition, file.pageRanges),
+        createdBy: job?.createdBy ?? null,
+        updatedBy: job?.createdBy ?? null,
+      });
+      return { documentId: document.id, stage: nextStage(stage) };
+    }
+
+    case "validating": {
+      const document = file.documentId ? await storage.getDocument(file.documentId) : undefined;
+      if (!document) throw new Error("Processed document no longer exists");
+
+      const { definition } = await extractionSchemaForDocument(document);
+      const quickCheck = quickValidationChecks(document.structuredData, definition);
+      const validationResult = await validateExtraction(document.extractedText || "", document.structuredData, definition);
+      await storage.updateDocument(document.id, {
+        validationConfidence: validationResult.confidence,
+        validationIssues: [...quickCheck.issues, ...validationResult.issues],
+        needsReview: !validationResult.passedValidation || !quickCheck.passed,
+      });
+      return { stage: nextStage(stage) };
+    }
+
+    case "projecting": {
+      const document = file.documentId ? await storage.getDocument(file.documentId) : undefined;
+      if (!document) throw new Error("Processed document no longer exists");
+      const { definition } = await extractionSchemaForDocument(document);
+      // For initial upload, this is version 0 (no version history yet)
+      await storage.projectProductsFromDocument(document.id, 0, definition);
+      return { stage: nextStage(stage) };
+    }
+
+    default:
+      return { stage: "done" };
+  }
+}
+
+// Before any model call, so duplicates cost no extraction or judge runs
+async function handleDuplicate(
+  file: ProcessingJobFile,
+  existing: Document,
+  actorId: string | null
+): Promise<Partial<InsertProcessingJobFile>> {
+  switch (file.duplicateAction as DuplicateAction) {
+    case "link":
+      // The existing document stands in for the upload, so its copy of the file goes
+      await new DocumentStorageService().deleteDocument(file.storagePath);
+      return { documentId: existing.id, duplicateOfDocumentId: existing.id, stage: "done" };
+    case "version":
+      await replaceDocumentFile(
+        existing,
+        file,
+        { text: file.extractedText || "", ocrPages: file.ocrPages || [], pageRanges: file.pageRanges || [] },
+        actorId
+      );
+      return { documentId: existing.id, duplicateOfDocumentId: existing.id, stage: "done" };
+    default:
+      return { status: "duplicate", duplicateOfDocumentId: existing.id };
+  }
+}
+
+async function refreshJobStatus(jobId: string) {
+  const files = await storage.getProcessingJobFiles(jobId);
+  if (!files.every((f) => TERMINAL_FILE_STATUSES.includes(f.status))) return;
+
+  const anyCompleted = files.some((f) => f.status === "completed");
+  const job = await storage.updateProcessingJob(jobId, {
+    status: files.every((f) => f.status === "failed") ? "failed" : "completed",
+    completedAt: new Date(),
+  });
+
+  // New variants (or a new original) change the folder's consistency report
+  if (anyCompleted && job?.folderId) {
+    try {
+      await checkFolderConsistency(job.folderId);
+    } catch (error) {
+      if (!(error instanceof FolderHasNoOriginalError)) {
+        console.error(`Consistency check failed for folder ${job.folderId}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { completeTask, resolveTask, type LLMRequest, type LLMTask } from "./llmProvider";
+import type { LlmCacheSummary } from "@shared/schema";
+
+/**
+ * Persistent cache in front of completeTask, so re-validating or
+ * reprocessing an unchanged document does not pay for the same calls again.
+ *
+ * Entries are keyed by task, provider, model, the call site's prompt version
+ * and a hash of the full request (messages, output format and sampling
+ * options). A changed prompt or input therefore misses on its own; the
+ * prompt version is bumped when the way a response is used changes while
+ * the request stays the same. Entries live for LLM_CACHE_TTL_HOURS and can
+ * be dropped by task through DELETE /api/llm-cache. LLM_CACHE=off bypasses
+ * the cache entirely.
+ */
+
+const LLM_CACHE_TTL_HOURS = Number(process.env.LLM_CACHE_TTL_HOURS) || 24 * 30;
+
+function cacheEnabled(): boolean {
+  return process.env.LLM_CACHE !== "off";
+}
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+function hitRate(hits: number, misses: number): number | null {
+  return hits + misses > 0 ? hits / (hits + misses) : null;
+}
+
+/**
+ * Run a task through the cache. parse turns the raw response into what the
+ * caller needs; a response it rejects is never cached, so a malformed answer
+ * is retried rather than replayed. Cache errors are logged and the call goes
+ * to the provider as if the cache were off.
+ */
+export async function completeTaskCached<T>(
+  task: LLMTask,
+  promptVersion: string,
+  request: LLMRequest,
+  parse: (response: string) => T
+): Promise<T> {
+  if (!cacheEnabled()) return parse(await completeTask(task, request));
+
+  const { provider, model } = resolveTask(task);
+  const inputHash = sha256(JSON.stringify(request));
+  const key = sha256(JSON.stringify({ task, provider, model, promptVersion, inputHash }));
+
+  try {
+    const cached = await storage.getLlmCacheEntry(key);
+    if (cached && cached.expiresAt > new Date()) {
+      const value = parse(cached.response);
+      await storage.recordLlmCacheHit(key, task);
+      return value;
+    }
+  } catch (error) {
+    console.error(`LLM cache lookup failed for ${task}:`, error);
+  }
+
+  const response = await completeTask(task, request);
+  const value = parse(response);
+  try {
+    await storage.saveLlmCacheEntry({
+      key,
+      task,
+      provider,
+      model,
+      promptVersion,
+      inputHash,
+      response,
+      expiresAt: new Date(Date.now() + LLM_CACHE_TTL_HOURS * 60 * 60 * 1000),
+    });
+    await storage.recordLlmCacheMiss(task);
+  } catch (error) {
+    console.error(`Failed to cache ${task} response:`, error);
+  }
+  return value;
+}
+
+// Drops cached responses, for one task or all of them; returns how many went
+export function invalidateLlmCache(task?: LLMTask): Promise<number> {
+  return storage.deleteLlmCacheEntries(task);
+}
+
+export async function getLlmCacheSummary(): Promise<LlmCacheSummary> {
+  const tasks = await storage.getLlmCacheStats();
+  const hits = tasks.reduce((sum, stats) => sum + stats.hits, 0);
+  const misses = tasks.reduce((sum, stats) => sum + stats.misses, 0);
+  return {
+    enabled: cacheEnabled(),
+    ttlHours: LLM_CACHE_TTL_HOURS,
+    hits,
+    misses,
+    hitRate: hitRate(hits, misses),
+    tasks: tasks.map((stats) => ({ ...stats, hitRate: hitRate(stats.hits, stats.misses) })),
+  };
+}
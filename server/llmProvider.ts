@@ -0,0 +1,235 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import OpenAI from "openai";
+import { GoogleGenAI } from "@google/genai";
+
+/**
+ * Provider layer for every LLM call the server makes.
+ *
+ * Each task is routed to a provider and model by configuration, as
+ * "<provider>:<model>" in LLM_EXTRACTION, LLM_LANGUAGE_DETECTION,
+ * LLM_TRANSLATION, LLM_JUDGE_PRIMARY and LLM_JUDGE_SECONDARY. LLM_PROVIDER
+ * overrides the provider for all tasks (e.g. LLM_PROVIDER=stub to run
+ * without API keys). Clients are created on first use, so a provider that
+ * is never selected never needs its credentials.
+ *
+ * Providers:
+ * - openai: OpenAI API (OPENAI_API_KEY)
+ * - gemini: Google Gemini via Replit AI Integrations
+ * - local:  any OpenAI-compatible endpoint such as Ollama (LOCAL_LLM_BASE_URL)
+ * - stub:   replays recorded responses from LLM_FIXTURES_DIR
+ */
+
+export const LLM_TASKS = ["extraction", "languageDetection", "translation", "judgePrimary", "judgeSecondary"] as const;
+export type LLMTask = (typeof LLM_TASKS)[number];
+
+export interface ChatMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: ChatMessage[];
+  // Structured output: the response must be JSON matching this schema
+  jsonSchema?: { name: string; schema: Record<string, unknown> };
+  // Free-form JSON object output
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ProviderRequest extends LLMRequest {
+  task: LLMTask;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: ProviderRequest): Promise<string>;
+}
+
+export class LLMConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LLMConfigurationError";
+    Object.setPrototypeOf(this, LLMConfigurationError.prototype);
+  }
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(task: LLMTask, key: string) {
+    super(`No LLM fixture for ${task} request ${key} and no ${task}/default.json`);
+    this.name = "FixtureNotFoundError";
+    Object.setPrototypeOf(this, FixtureNotFoundError.prototype);
+  }
+}
+
+const TASK_CONFIG: Record<LLMTask, { env: string; fallback: string }> = {
+  extraction: { env: "LLM_EXTRACTION", fallback: "openai:gpt-4o-2024-08-06" },
+  languageDetection: { env: "LLM_LANGUAGE_DETECTION", fallback: "openai:gpt-4o-mini" },
+  translation: { env: "LLM_TRANSLATION", fallback: "openai:gpt-4o" },
+  judgePrimary: { env: "LLM_JUDGE_PRIMARY", fallback: "openai:gpt-4o" },
+  judgeSecondary: { env: "LLM_JUDGE_SECONDARY", fallback: "gemini:gemini-2.5-pro" },
+};
+
+const FIXTURES_DIR = path.resolve(process.env.LLM_FIXTURES_DIR || "fixtures/llm");
+
+class OpenAIChatProvider implements LLMProvider {
+  private client: OpenAI | null = null;
+
+  constructor(readonly name: string, private createClient: () => OpenAI) {}
+
+  async complete(request: ProviderRequest): Promise<string> {
+    this.client ??= this.createClient();
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: request.jsonSchema
+        ? { type: "json_schema", json_schema: request.jsonSchema }
+        : request.json
+          ? { type: "json_object" }
+          : undefined,
+    });
+    return response.choices[0].message.content || "";
+  }
+}
+
+class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private client: GoogleGenAI | null = null;
+
+  async complete(request: ProviderRequest): Promise<string> {
+    // Using Replit's AI Integrations service for Gemini access
+    this.client ??= new GoogleGenAI({
+      apiKey: process.env.AI_INTEGRATIONS_GEMINI_API_KEY || "",
+      httpOptions: {
+        apiVersion: "",
+        baseUrl: process.env.AI_INTEGRATIONS_GEMINI_BASE_URL,
+      },
+    });
+
+    const system = request.messages.filter((m) => m.role === "system").map((m) => m.content);
+    const user = request.messages.filter((m) => m.role === "user").map((m) => m.content);
+    const response = await this.client.models.generateContent({
+      model: request.model,
+      contents: user.join("\n\n"),
+      config: {
+        systemInstruction: system.length > 0 ? system.join("\n\n") : undefined,
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        responseMimeType: request.jsonSchema || request.json ? "application/json" : undefined,
+        responseJsonSchema: request.jsonSchema?.schema,
+      },
+    });
+    return response.text || "";
+  }
+}
+
+/**
+ * Replays recorded responses, keyed by task and request messages. Falls back
+ * to <task>/default.json so the app runs end to end without any keys.
+ */
+class FixtureReplayProvider implements LLMProvider {
+  readonly name = "stub";
+
+  async complete(request: ProviderRequest): Promise<string> {
+    const key = fixtureKey(request.task, request.messages);
+    for (const file of [fixturePath(request.task, key), fixturePath(request.task, "default")]) {
+      if (fs.existsSync(file)) {
+        const { response } = JSON.parse(fs.readFileSync(file, "utf-8"));
+        return typeof response === "string" ? response : JSON.stringify(response);
+      }
+    }
+    throw new FixtureNotFoundError(request.task, key);
+  }
+}
+
+export function fixtureKey(task: LLMTask, messages: ChatMessage[]): string {
+  return crypto.createHash("sha256").update(JSON.stringify({ task, messages })).digest("hex").slice(0, 16);
+}
+
+function fixturePath(task: LLMTask, key: string): string {
+  return path.join(FIXTURES_DIR, task, `${key}.json`);
+}
+
+// Save a live response so it can be replayed by the stub provider
+function recordFixture(request: ProviderRequest, response: string) {
+  const file = fixturePath(request.task, fixtureKey(request.task, request.messages));
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify({ model: request.model, response }, null, 2));
+}
+
+const providers = new Map<string, LLMProvider>();
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAIChatProvider("openai", () => new OpenAI({ apiKey: process.env.OPENAI_API_KEY }));
+    case "local":
+      return new OpenAIChatProvider(
+        "local",
+        () =>
+          new OpenAI({
+            baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+            // Local servers usually ignore the key, but the client requires one
+            apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+          })
+      );
+    case "gemini":
+      return new GeminiProvider();
+    case "stub":
+      return new FixtureReplayProvider();
+    default:
+      throw new LLMConfigurationError(`Unknown LLM provider "${name}"`);
+  }
+}
+
+function getProvider(name: string): LLMProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Resolve the provider and model configured for a task. Model names may
+ * contain colons (e.g. "llama3.1:8b"), so only the first one separates them.
+ */
+export function resolveTask(task: LLMTask): { provider: string; model: string } {
+  const { env, fallback } = TASK_CONFIG[task];
+  const setting = process.env[env] || fallback;
+  const separator = setting.indexOf(":");
+  if (separator <= 0 || separator === setting.length - 1) {
+    throw new LLMConfigurationError(`${env} must look like "<provider>:<model>", got "${setting}"`);
+  }
+  return {
+    provider: process.env.LLM_PROVIDER || setting.slice(0, separator),
+    model: setting.slice(separator + 1),
+  };
+}
+
+// Short label for logs and judge reasoning, e.g. "openai:gpt-4o"
+export function describeTask(task: LLMTask): string {
+  const { provider, model } = resolveTask(task);
+  return `${provider}:${model}`;
+}
+
+/**
+ * Run a request on the provider configured for the task and return the raw
+ * response text. Set LLM_RECORD_FIXTURES=1 to save live responses for replay.
+ */
+export async function completeTask(task: LLMTask, request: LLMRequest): Promise<string> {
+  const { provider, model } = resolveTask(task);
+  const providerRequest: ProviderRequest = { ...request, task, model };
+  const response = await getProvider(provider).complete(providerRequest);
+
+  if (process.env.LLM_RECORD_FIXTURES === "1" && provider !== "stub") {
+    recordFixture(providerRequest, response);
+  }
+  return response;
+}
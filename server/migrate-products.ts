@@ -1,4 +1,5 @@
 import { storage } from "./storage";
+import { extractionSchemaForDocument } from "./extractionSchemas";
 
 /**
  * Migration script to backfill products table from existing documents
@@ -26,7 +27,8 @@ async function migrateProducts() {
       try {
         // Get the latest version number for this document, or 0 if no versions exist
         const versionNumber = await storage.getLatestVersionNumber(document.id);
-        await storage.projectProductsFromDocument(document.id, versionNumber);
+        const { definition } = await extractionSchemaForDocument(document);
+        await storage.projectProductsFromDocument(document.id, versionNumber, definition);
         processedCount++;
         console.log(`✓ Processed document ${document.name} (${processedCount}/${documents.length})`);
       } catch (error) {
@@ -0,0 +1,49 @@
+import { storage } from "./storage";
+import { extractionSchemaForDocument } from "./extractionSchemas";
+import { computeSourceSpans } from "./sourceSpans";
+
+/**
+ * Migration script to store source spans for documents processed before they
+ * were recorded. Until it runs, the document routes compute missing spans for
+ * each response without saving them.
+ */
+async function migrateSourceSpans() {
+  console.log("Starting source span migration...");
+
+  try {
+    const documents = await storage.getAllDocuments();
+    let processedCount = 0;
+    let skippedCount = 0;
+    let errorCount = 0;
+
+    for (const document of documents) {
+      if (document.sourceSpans || !document.structuredData) {
+        skippedCount++;
+        continue;
+      }
+
+      try {
+        const { definition } = await extractionSchemaForDocument(document);
+        const sourceSpans = computeSourceSpans(document.extractedText, document.structuredData, definition, document.pageRanges);
+        await storage.updateDocument(document.id, { sourceSpans });
+        processedCount++;
+        console.log(`✓ Stored spans for ${document.name} (${Object.keys(sourceSpans).length} fields)`);
+      } catch (error) {
+        errorCount++;
+        console.error(`✗ Error processing document ${document.name}:`, error);
+      }
+    }
+
+    console.log("\nMigration complete!");
+    console.log(`Processed: ${processedCount}`);
+    console.log(`Skipped: ${skippedCount}`);
+    console.log(`Errors: ${errorCount}`);
+  } catch (error) {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+migrateSourceSpans();
@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+import { createWorker } from "tesseract.js";
+
+/**
+ * Offline OCR for scanned document pages using tesseract.js.
+ *
+ * Language data is read from OCR_LANG_PATH (default ./tessdata), which must
+ * contain <lang>.traineddata or <lang>.traineddata.gz for every language in
+ * OCR_LANGUAGES (default "eng", "+"-separated). Nothing is downloaded at
+ * runtime: when the data is missing, OCR is skipped and a warning is logged.
+ */
+
+const OCR_LANGUAGES = (process.env.OCR_LANGUAGES || "eng").split("+").filter(Boolean);
+const OCR_LANG_PATH = path.resolve(process.env.OCR_LANG_PATH || "tessdata");
+
+export interface OcrPage {
+  pageNumber: number;
+  // Rendered lazily so nothing is rasterized when OCR is unavailable
+  renderImage: () => Promise<Buffer>;
+}
+
+function findLanguageData(): { gzip: boolean } | null {
+  const hasAll = (suffix: string) =>
+    OCR_LANGUAGES.every((lang) => fs.existsSync(path.join(OCR_LANG_PATH, `${lang}${suffix}`)));
+
+  if (hasAll(".traineddata")) return { gzip: false };
+  if (hasAll(".traineddata.gz")) return { gzip: true };
+  return null;
+}
+
+/**
+ * Render and OCR the given pages. Returns recognized text per page number;
+ * pages that fail to render or recognize are left out.
+ */
+export async function recognizePages(pages: OcrPage[]): Promise<Map<number, string>> {
+  const results = new Map<number, string>();
+  if (pages.length === 0) return results;
+
+  const languageData = findLanguageData();
+  if (!languageData) {
+    console.warn(
+      `OCR skipped: no ${OCR_LANGUAGES.join("+")} language data in ${OCR_LANG_PATH}. Set OCR_LANG_PATH to a tessdata directory.`
+    );
+    return results;
+  }
+
+  const worker = await createWorker(OCR_LANGUAGES, undefined, {
+    langPath: OCR_LANG_PATH,
+    cachePath: OCR_LANG_PATH,
+    gzip: languageData.gzip,
+  });
+
+  try {
+    for (const page of pages) {
+      try {
+        const { data } = await worker.recognize(await page.renderImage());
+        results.set(page.pageNumber, data.text || "");
+      } catch (error) {
+        console.error(`OCR failed for page ${page.pageNumber}:`, error);
+      }
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  return results;
+}
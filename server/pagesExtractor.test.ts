@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { readPagesBundle } from "./pagesExtractor";
+import { extractTextFromFile } from "./processing";
+import { bufferFile } from "./fileSource";
+import { makePages, makePdf } from "./testFixtures";
+
+const STORAGE_KIND_BODY = 0;
+const STORAGE_KIND_FOOTNOTE = 2;
+
+describe("readPagesBundle", () => {
+  it("reads the body before text boxes and footnotes", async () => {
+    const bundle = await readPagesBundle(
+      await makePages({
+        storages: [
+          { text: "Pull quote in a text box" },
+          { kind: STORAGE_KIND_FOOTNOTE, text: "Battery life varies by use." },
+          { kind: STORAGE_KIND_BODY, text: "Lumen Phone\nBattery for days." },
+        ],
+      })
+    );
+    expect(bundle).toEqual({
+      text: "Lumen Phone\n\nBattery for days.\n\nPull quote in a text box\n\nBattery life varies by use.",
+      previewPdf: null,
+    });
+  });
+
+  it("turns footnote superscripts into tokens but keeps unit exponents", async () => {
+    const text = "Battery for days1\nA 15 cm2 display2,3";
+    const bundle = await readPagesBundle(
+      await makePages({
+        storages: [
+          {
+            kind: STORAGE_KIND_BODY,
+            text,
+            superscripts: [
+              { start: text.indexOf("1\n"), end: text.indexOf("\n") },
+              { start: text.indexOf("2 "), end: text.indexOf(" display") },
+              { start: text.indexOf("2,3"), end: text.length },
+            ],
+          },
+        ],
+      })
+    );
+    expect(bundle.text).toBe("Battery for days{{sup:1}}\n\nA 15 cm² display{{sup:2}}{{sup:3}}");
+  });
+
+  it("writes paragraphs in title and heading styles as headings", async () => {
+    const text = "Lumen Phone\nMeet Lumen\nDisplay\nThe brightest screen yet.";
+    const bundle = await readPagesBundle(
+      await makePages({
+        storages: [
+          {
+            kind: STORAGE_KIND_BODY,
+            text,
+            paragraphStyles: [
+              { start: 0, name: "Title" },
+              { start: text.indexOf("Meet"), name: "Heading" },
+              { start: text.indexOf("Display"), name: "Heading 2" },
+              { start: text.indexOf("The"), name: "Body" },
+            ],
+          },
+        ],
+      })
+    );
+    expect(bundle.text).toBe("# Lumen Phone\n\n# Meet Lumen\n\n## Display\n\nThe brightest screen yet.");
+  });
+
+  it("returns the QuickLook preview when the bundle has no readable text", async () => {
+    const previewPdf = makePdf("Lumen Phone preview");
+    const bundle = await readPagesBundle(await makePages({ previewPdf }));
+    expect(bundle.text).toBeNull();
+    expect(bundle.previewPdf?.equals(previewPdf)).toBe(true);
+  });
+});
+
+describe("extractTextFromFile for .pages", () => {
+  it("prefers the bundle's own text over the preview", async () => {
+    const file = await makePages({ storages: [{ kind: STORAGE_KIND_BODY, text: "Text from the document" }], previewPdf: makePdf("Text from the preview") });
+    const { text } = await extractTextFromFile(bufferFile(file), "pages");
+    expect(text).toBe("Text from the document");
+  });
+
+  it("falls back to the text of the QuickLook preview", async () => {
+    const file = await makePages({ previewPdf: makePdf("Lumen Phone preview copy") });
+    const { text } = await extractTextFromFile(bufferFile(file), "pages");
+    expect(text).toContain("Lumen Phone preview copy");
+  });
+});
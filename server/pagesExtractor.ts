@@ -0,0 +1,390 @@
+import JSZip from "jszip";
+import { formatSuperscriptRun, headingLevelForStyle, headingLine, joinParagraphs } from "./textMarkup";
+
+/**
+ * Native reader for Apple Pages (.pages) documents.
+ *
+ * A .pages file is a zip bundle. Since Pages 5 the document body lives in
+ * Index/*.iwa files: Snappy-compressed streams of protobuf "archives". We decode
+ * just enough of that format to pull out the text storages, the paragraph
+ * styles (for headings) and the character styles (for superscripts).
+ *
+ * Message type ids and field numbers follow the TSWP/TSS proto definitions.
+ */
+
+// TSWP.StorageArchive
+const STORAGE_ARCHIVE_TYPES = new Set([2001, 2005]);
+const STORAGE_FIELD_KIND = 1;
+const STORAGE_FIELD_TEXT = 3;
+const STORAGE_FIELD_PARA_STYLE_TABLE = 5;
+const STORAGE_FIELD_CHAR_STYLE_TABLE = 8;
+
+// TSWP.StorageArchive.KindType values worth extracting, in reading order
+const STORAGE_KIND_BODY = 0;
+const STORAGE_KIND_FOOTNOTE = 2;
+const STORAGE_KIND_TEXTBOX = 3;
+const STORAGE_KIND_CELL = 5;
+const EXTRACTED_KINDS = [STORAGE_KIND_BODY, STORAGE_KIND_TEXTBOX, STORAGE_KIND_CELL, STORAGE_KIND_FOOTNOTE];
+// The proto declares kind with [default = TEXTBOX], so a storage without it is a text box
+const STORAGE_KIND_DEFAULT = STORAGE_KIND_TEXTBOX;
+
+// TSWP.CharacterStyleArchive / ParagraphStyleArchive
+const CHARACTER_STYLE_TYPE = 2021;
+const PARAGRAPH_STYLE_TYPE = 2022;
+const STYLE_FIELD_SUPER = 1;
+const CHAR_STYLE_FIELD_PROPERTIES = 11;
+const CHAR_PROPERTY_SUPERSCRIPT = 11;
+const SUPERSCRIPT_VALUE = 1;
+
+// TSS.StyleArchive
+const STYLE_ARCHIVE_FIELD_NAME = 1;
+const STYLE_ARCHIVE_FIELD_PARENT = 3;
+
+// Pages separates paragraphs with newlines or U+2029; U+2028 is a soft line break
+const PARAGRAPH_SEPARATOR = /[\n\r\u2029]/;
+
+const PREVIEW_PDF_ENTRIES = ["QuickLook/Preview.pdf", "preview.pdf"];
+
+export interface PagesBundle {
+  text: string | null;
+  previewPdf: Buffer | null;
+}
+
+type ProtoValue = number | Uint8Array;
+type ProtoMessage = Map<number, ProtoValue[]>;
+
+interface IwaObject {
+  type: number;
+  payload: Uint8Array;
+}
+
+/**
+ * Open a .pages bundle and return its text, or the embedded preview PDF when the
+ * bundle has no readable IWA text (e.g. very old or locked documents).
+ */
+export async function readPagesBundle(buffer: Buffer): Promise<PagesBundle> {
+  let zip = await JSZip.loadAsync(buffer);
+
+  // Pages 2013 nested the IWA files inside an Index.zip member
+  const nestedIndex = zip.file("Index.zip");
+  if (nestedIndex) {
+    zip = await JSZip.loadAsync(await nestedIndex.async("uint8array"));
+  }
+
+  const iwaEntries = Object.keys(zip.files)
+    .filter((name) => name.startsWith("Index/") && name.endsWith(".iwa"))
+    .sort((a, b) => (a === "Index/Document.iwa" ? -1 : b === "Index/Document.iwa" ? 1 : a.localeCompare(b)));
+
+  const objects = new Map<number, IwaObject>();
+  for (const entry of iwaEntries) {
+    try {
+      const data = await zip.file(entry)!.async("uint8array");
+      readIwaObjects(decompressIwa(data), objects);
+    } catch (error) {
+      console.error(`Skipping unreadable Pages archive ${entry}:`, error);
+    }
+  }
+
+  const text = objects.size > 0 ? extractStorageText(objects) : "";
+
+  let previewPdf: Buffer | null = null;
+  for (const entry of PREVIEW_PDF_ENTRIES) {
+    const file = zip.file(entry);
+    if (file) {
+      previewPdf = Buffer.from(await file.async("uint8array"));
+      break;
+    }
+  }
+
+  return { text: text.trim() ? text : null, previewPdf };
+}
+
+function extractStorageText(objects: Map<number, IwaObject>): string {
+  const storagesByKind = new Map<number, ProtoMessage[]>();
+  for (const object of Array.from(objects.values())) {
+    if (!STORAGE_ARCHIVE_TYPES.has(object.type)) continue;
+    const storage = decodeMessage(object.payload);
+    const kind = firstNumber(storage, STORAGE_FIELD_KIND) ?? STORAGE_KIND_DEFAULT;
+    if (!storagesByKind.has(kind)) storagesByKind.set(kind, []);
+    storagesByKind.get(kind)!.push(storage);
+  }
+
+  const paragraphs: string[] = [];
+  for (const kind of EXTRACTED_KINDS) {
+    for (const storage of storagesByKind.get(kind) || []) {
+      paragraphs.push(...renderStorage(storage, objects));
+    }
+  }
+  return joinParagraphs(paragraphs);
+}
+
+function renderStorage(storage: ProtoMessage, objects: Map<number, IwaObject>): string[] {
+  const text = (storage.get(STORAGE_FIELD_TEXT) || [])
+    .map((value) => decodeString(value as Uint8Array))
+    .join("");
+  if (!text) return [];
+
+  const superscriptRanges = attributeRanges(storage, STORAGE_FIELD_CHAR_STYLE_TABLE, text.length)
+    .filter((range) => isSuperscriptStyle(range.objectId, objects));
+  const paragraphStyles = attributeRanges(storage, STORAGE_FIELD_PARA_STYLE_TABLE, text.length);
+
+  const paragraphs: string[] = [];
+  let start = 0;
+  for (const rawParagraph of text.split(PARAGRAPH_SEPARATOR)) {
+    const end = start + rawParagraph.length;
+
+    // Rebuild the paragraph, replacing superscript runs with markup
+    let marked = "";
+    let cursor = start;
+    for (const range of superscriptRanges) {
+      const runStart = Math.max(range.start, cursor);
+      const runEnd = Math.min(range.end, end);
+      if (runEnd <= runStart) continue;
+      marked += text.slice(cursor, runStart);
+      marked += formatSuperscriptRun(text.slice(runStart, runEnd), marked.slice(-4));
+      cursor = runEnd;
+    }
+    marked += text.slice(cursor, end);
+
+    const cleaned = cleanText(marked);
+    const style = paragraphStyles.find((range) => range.start <= start && start < range.end);
+    const level = style ? headingLevelForStyle(styleName(style.objectId, objects)) : null;
+    paragraphs.push(level && cleaned ? headingLine(level, cleaned) : cleaned);
+
+    start = end + 1;
+  }
+  return paragraphs;
+}
+
+interface AttributeRange {
+  start: number;
+  end: number;
+  objectId: number;
+}
+
+// TSWP.ObjectAttributeTable: entries of { character_index = 1, object = 2 (TSP.Reference) }
+function attributeRanges(storage: ProtoMessage, field: number, textLength: number): AttributeRange[] {
+  const table = storage.get(field)?.[0];
+  if (!(table instanceof Uint8Array)) return [];
+
+  const entries = (decodeMessage(table).get(1) || [])
+    .map((entry) => decodeMessage(entry as Uint8Array))
+    .map((entry) => ({
+      index: firstNumber(entry, 1) ?? 0,
+      objectId: referenceId(entry.get(2)?.[0]),
+    }))
+    .sort((a, b) => a.index - b.index);
+
+  return entries
+    .map((entry, i) => ({
+      start: entry.index,
+      end: i + 1 < entries.length ? entries[i + 1].index : textLength,
+      objectId: entry.objectId,
+    }))
+    .filter((range) => range.objectId > 0 && range.end > range.start);
+}
+
+function isSuperscriptStyle(objectId: number, objects: Map<number, IwaObject>, depth = 0): boolean {
+  const object = objects.get(objectId);
+  if (!object || object.type !== CHARACTER_STYLE_TYPE || depth > 5) return false;
+
+  const style = decodeMessage(object.payload);
+  const properties = style.get(CHAR_STYLE_FIELD_PROPERTIES)?.[0];
+  if (properties instanceof Uint8Array) {
+    const superscript = firstNumber(decodeMessage(properties), CHAR_PROPERTY_SUPERSCRIPT);
+    if (superscript !== undefined) return superscript === SUPERSCRIPT_VALUE;
+  }
+
+  // Fall back to the parent style when the property is inherited
+  const parentId = styleParentId(style);
+  return parentId ? isSuperscriptStyle(parentId, objects, depth + 1) : false;
+}
+
+function styleName(objectId: number, objects: Map<number, IwaObject>): string {
+  const object = objects.get(objectId);
+  if (!object || object.type !== PARAGRAPH_STYLE_TYPE) return "";
+
+  const base = decodeMessage(object.payload).get(STYLE_FIELD_SUPER)?.[0];
+  if (!(base instanceof Uint8Array)) return "";
+  const name = decodeMessage(base).get(STYLE_ARCHIVE_FIELD_NAME)?.[0];
+  return name instanceof Uint8Array ? decodeString(name) : "";
+}
+
+function styleParentId(style: ProtoMessage): number {
+  const base = style.get(STYLE_FIELD_SUPER)?.[0];
+  if (!(base instanceof Uint8Array)) return 0;
+  return referenceId(decodeMessage(base).get(STYLE_ARCHIVE_FIELD_PARENT)?.[0]);
+}
+
+function cleanText(paragraph: string): string {
+  return paragraph
+    // Object replacement characters mark inline attachments (images, shapes)
+    .replace(/\uFFFC/g, "")
+    .replace(/\u2028/g, "\n")
+    .replace(/[\u0000-\u0008\u000B-\u001F]/g, "")
+    .trim();
+}
+
+function referenceId(value: ProtoValue | undefined): number {
+  if (!(value instanceof Uint8Array)) return 0;
+  return firstNumber(decodeMessage(value), 1) ?? 0;
+}
+
+// ---------------------------------------------------------------------------
+// IWA container: 4-byte chunk headers around Snappy blocks (no framing CRCs)
+// ---------------------------------------------------------------------------
+
+function decompressIwa(data: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0) {
+      throw new Error(`Unexpected IWA chunk type ${data[offset]}`);
+    }
+    const length = data[offset + 1] | (data[offset + 2] << 8) | (data[offset + 3] << 16);
+    offset += 4;
+    chunks.push(snappyDecompress(data.subarray(offset, offset + length)));
+    offset += length;
+  }
+  return Buffer.concat(chunks);
+}
+
+function snappyDecompress(input: Uint8Array): Uint8Array {
+  let pos = 0;
+  let outputLength = 0;
+  let shift = 0;
+  while (true) {
+    const byte = input[pos++];
+    outputLength += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) break;
+    shift += 7;
+  }
+
+  const output = new Uint8Array(outputLength);
+  let outPos = 0;
+  while (pos < input.length) {
+    const tag = input[pos++];
+    const elementType = tag & 0x03;
+
+    if (elementType === 0) {
+      let length = tag >> 2;
+      if (length >= 60) {
+        const extraBytes = length - 59;
+        length = 0;
+        for (let i = 0; i < extraBytes; i++) length |= input[pos++] << (8 * i);
+      }
+      length += 1;
+      output.set(input.subarray(pos, pos + length), outPos);
+      pos += length;
+      outPos += length;
+      continue;
+    }
+
+    let length: number;
+    let copyOffset: number;
+    if (elementType === 1) {
+      length = ((tag >> 2) & 0x07) + 4;
+      copyOffset = ((tag >> 5) << 8) | input[pos++];
+    } else if (elementType === 2) {
+      length = (tag >> 2) + 1;
+      copyOffset = input[pos] | (input[pos + 1] << 8);
+      pos += 2;
+    } else {
+      length = (tag >> 2) + 1;
+      copyOffset = (input[pos] | (input[pos + 1] << 8) | (input[pos + 2] << 16) | (input[pos + 3] << 24)) >>> 0;
+      pos += 4;
+    }
+
+    if (copyOffset === 0 || copyOffset > outPos) {
+      throw new Error("Corrupt Snappy block in IWA archive");
+    }
+    // Copies may overlap their own output, so copy byte by byte
+    for (let i = 0; i < length; i++) {
+      output[outPos] = output[outPos - copyOffset];
+      outPos++;
+    }
+  }
+
+  return output.subarray(0, outPos);
+}
+
+// Each archive is a varint-prefixed TSP.ArchiveInfo followed by its message payloads
+function readIwaObjects(data: Uint8Array, objects: Map<number, IwaObject>): void {
+  let offset = 0;
+  while (offset < data.length) {
+    const [infoLength, infoStart] = readVarint(data, offset);
+    const info = decodeMessage(data.subarray(infoStart, infoStart + infoLength));
+    offset = infoStart + infoLength;
+
+    const identifier = firstNumber(info, 1) ?? 0;
+    const messageInfos = (info.get(2) || []).map((m) => decodeMessage(m as Uint8Array));
+
+    messageInfos.forEach((messageInfo, index) => {
+      const type = firstNumber(messageInfo, 1) ?? 0;
+      const length = firstNumber(messageInfo, 3) ?? 0;
+      const payload = data.subarray(offset, offset + length);
+      offset += length;
+      // The first message carries the object itself; later ones are extensions
+      if (index === 0 && identifier) {
+        objects.set(identifier, { type, payload });
+      }
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Minimal protobuf wire-format decoding
+// ---------------------------------------------------------------------------
+
+function readVarint(data: Uint8Array, offset: number): [number, number] {
+  let result = 0;
+  let multiplier = 1;
+  let pos = offset;
+  while (pos < data.length) {
+    const byte = data[pos++];
+    result += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) break;
+    multiplier *= 128;
+  }
+  return [result, pos];
+}
+
+function decodeMessage(data: Uint8Array): ProtoMessage {
+  const message: ProtoMessage = new Map();
+  let offset = 0;
+  while (offset < data.length) {
+    const [key, afterKey] = readVarint(data, offset);
+    const field = Math.floor(key / 8);
+    const wireType = key & 0x07;
+    let value: ProtoValue;
+
+    if (wireType === 0) {
+      [value, offset] = readVarint(data, afterKey);
+    } else if (wireType === 1) {
+      value = data.subarray(afterKey, afterKey + 8);
+      offset = afterKey + 8;
+    } else if (wireType === 2) {
+      const [length, start] = readVarint(data, afterKey);
+      value = data.subarray(start, start + length);
+      offset = start + length;
+    } else if (wireType === 5) {
+      value = data.subarray(afterKey, afterKey + 4);
+      offset = afterKey + 4;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+
+    if (!message.has(field)) message.set(field, []);
+    message.get(field)!.push(value);
+  }
+  return message;
+}
+
+function firstNumber(message: ProtoMessage, field: number): number | undefined {
+  const value = message.get(field)?.[0];
+  return typeof value === "number" ? value : undefined;
+}
+
+function decodeString(bytes: Uint8Array): string {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString("utf8");
+}
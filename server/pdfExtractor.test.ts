@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { extractTextFromPdf } from "./pdfExtractor";
+import { makePdf, type PdfTextLine } from "./testFixtures";
+
+// Body lines from top to bottom, 14pt apart
+const column = (x: number, top: number, texts: string[]): PdfTextLine[] =>
+  texts.map((text, i) => ({ text, x, y: top - i * 14 }));
+
+describe("extractTextFromPdf", () => {
+  it("reads a two-column page column by column, below a title that spans both", async () => {
+    const left = column(72, 640, ["The Lumen Phone has", "the brightest screen", "we have ever made,", "so you can read it", "on the sunniest day", "at the beach."]);
+    const right = column(340, 640, ["Its battery lasts", "for days on a single", "charge and tops up", "in half an hour with", "the fast charger in", "the box."]);
+    // Content-stream order runs across the columns, line by line
+    const lines = [{ text: "Introducing the new Lumen Phone", x: 72, y: 700, size: 22 }, ...left.flatMap((line, i) => [line, right[i]])];
+
+    const { text, pageRanges } = await extractTextFromPdf(makePdf(lines));
+    expect(text).toBe(
+      [
+        "# Introducing the new Lumen Phone",
+        "The Lumen Phone has the brightest screen we have ever made, so you can read it on the sunniest day at the beach.",
+        "Its battery lasts for days on a single charge and tops up in half an hour with the fast charger in the box.",
+      ].join("\n\n")
+    );
+    expect(pageRanges).toEqual([{ page: 1, start: 0, end: text.length }]);
+  });
+
+  it("turns raised footnote markers into tokens but keeps unit exponents", async () => {
+    const { text } = await extractTextFromPdf(
+      makePdf([
+        { text: "The Lumen Phone lasts for days", x: 72, y: 700, superscript: "1" },
+        { text: "on a charge and has a 15 cm", x: 72, y: 686, superscript: "2" },
+        { text: "display with a 2,3 ratio.", x: 72, y: 672, superscript: "2,3" },
+        { text: "1 Battery life varies by use.", x: 72, y: 630 },
+      ])
+    );
+    expect(text).toBe(
+      "The Lumen Phone lasts for days{{sup:1}} on a charge and has a 15 cm² display with a 2,3 ratio.{{sup:2}}{{sup:3}}\n\n1 Battery life varies by use."
+    );
+  });
+});
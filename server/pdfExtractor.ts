@@ -0,0 +1,393 @@
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { formatSuperscriptRun, headingLine, joinParagraphs, tokenizeUnicodeSuperscripts } from "./textMarkup";
+import { recognizePages, type OcrPage } from "./ocr";
+import type { PageRange } from "@shared/schema";
+
+/**
+ * Layout-aware PDF text extraction.
+ *
+ * pdfjs returns positioned text items in content-stream order. We rebuild the
+ * reading order from their transforms and font sizes:
+ * 1. detect column gutters from the horizontal coverage of body-size text
+ * 2. group items into lines by baseline, per column
+ * 3. attach small raised items (footnote markers) to the line they sit on
+ * 4. merge lines into paragraphs by vertical spacing and mark larger text as headings
+ *
+ * Pages with (almost) no text layer are rendered and run through OCR instead.
+ */
+
+export interface PdfExtraction {
+  text: string;
+  // 1-based numbers of pages whose text came from OCR
+  ocrPages: number[];
+  // Where each non-empty page's text sits in `text`
+  pageRanges: PageRange[];
+}
+
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+}
+
+interface TextLine {
+  runs: TextRun[];
+  superscripts: TextRun[];
+  y: number;
+  minX: number;
+  maxX: number;
+  size: number;
+}
+
+interface PageLayout {
+  width: number;
+  runs: TextRun[];
+  render: () => Promise<Buffer>;
+}
+
+// A raised item must be at most this fraction of the body size to count as a superscript
+const SUPERSCRIPT_SIZE_RATIO = 0.85;
+// ...and its baseline must sit this far (in host-line font sizes) above the host baseline
+const SUPERSCRIPT_MIN_RISE = 0.15;
+const SUPERSCRIPT_MAX_RISE = 0.75;
+const SUPERSCRIPT_TEXT_PATTERN = /^[\d,\s–*†‡§-]{1,8}$|^[™®℠]$/;
+
+const HEADING_SIZE_RATIO = 1.15;
+const HEADING_MAX_LENGTH = 120;
+
+// Pages with fewer text-layer characters than this are treated as scanned
+const OCR_MIN_PAGE_CHARS = Number(process.env.OCR_MIN_PAGE_CHARS || 20);
+// Render scale for OCR (1 = 72 dpi); 2.5 gives tesseract roughly 180 dpi
+const OCR_RENDER_SCALE = 2.5;
+
+export async function extractTextFromPdf(dataBuffer: Buffer): Promise<PdfExtraction> {
+  const pages = await readPageLayouts(dataBuffer);
+  const bodySize = dominantFontSize(pages.flatMap((page) => page.runs));
+  const headingSizes = distinctHeadingSizes(pages.flatMap((page) => page.runs), bodySize);
+
+  const pageTexts = pages.map((page) => renderPage(page, bodySize, headingSizes));
+
+  // Scanned or image-only pages: render them and merge in the OCR text
+  const lowTextPages: OcrPage[] = pages
+    .map((page, i) => ({ pageNumber: i + 1, renderImage: page.render }))
+    .filter((page) => pageTexts[page.pageNumber - 1].replace(/\s/g, "").length < OCR_MIN_PAGE_CHARS);
+
+  const ocrPages: number[] = [];
+  const recognized = await recognizePages(lowTextPages);
+  recognized.forEach((ocrText, pageNumber) => {
+    const formatted = formatOcrText(ocrText);
+    if (formatted.length > pageTexts[pageNumber - 1].length) {
+      pageTexts[pageNumber - 1] = formatted;
+      ocrPages.push(pageNumber);
+    }
+  });
+
+  let text = "";
+  const pageRanges: PageRange[] = [];
+  pageTexts.forEach((pageText, i) => {
+    const trimmed = pageText.trim();
+    if (!trimmed) return;
+    if (text) text += "\n\n";
+    pageRanges.push({ page: i + 1, start: text.length, end: text.length + trimmed.length });
+    text += trimmed;
+  });
+
+  return {
+    text,
+    ocrPages: ocrPages.sort((a, b) => a - b),
+    pageRanges,
+  };
+}
+
+async function readPageLayouts(dataBuffer: Buffer): Promise<PageLayout[]> {
+  const uint8Array = new Uint8Array(dataBuffer);
+  const pdf = await getDocument({ data: uint8Array, useSystemFonts: true }).promise;
+
+  const pages: PageLayout[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const viewport = page.getViewport({ scale: 1 });
+    const textContent = await page.getTextContent();
+
+    const runs: TextRun[] = [];
+    for (const item of textContent.items as any[]) {
+      if (typeof item.str !== "string" || !item.str.trim()) continue;
+      const [a, b, c, d, e, f] = item.transform as number[];
+      const size = Math.hypot(c, d) || Math.hypot(a, b) || item.height || 0;
+      if (!size) continue;
+      runs.push({ text: item.str, x: e, y: f, width: item.width || 0, size });
+    }
+
+    const render = async () => {
+      const renderViewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+      // pdfjs picks @napi-rs/canvas for its Node canvas factory
+      const { canvas, context } = (pdf as any).canvasFactory.create(
+        Math.ceil(renderViewport.width),
+        Math.ceil(renderViewport.height)
+      );
+      await page.render({ canvas, canvasContext: context, viewport: renderViewport }).promise;
+      return canvas.toBuffer("image/png") as Buffer;
+    };
+
+    pages.push({ width: viewport.width, runs, render });
+  }
+  return pages;
+}
+
+function formatOcrText(ocrText: string): string {
+  // Tesseract separates blocks with blank lines and wraps lines within a block
+  const paragraphs = ocrText
+    .split(/\n\s*\n/)
+    .map((block) => block.replace(/-\n(?=[a-z])/g, "").replace(/\s*\n\s*/g, " ").trim());
+  return tokenizeUnicodeSuperscripts(joinParagraphs(paragraphs));
+}
+
+function renderPage(page: PageLayout, bodySize: number, headingSizes: number[]): string {
+  if (page.runs.length === 0) return "";
+
+  const gutters = findColumnGutters(page, bodySize);
+  const columnCount = gutters.length + 1;
+
+  // Runs that cross a gutter (titles, full-width intros) span all columns
+  const columnOf = (run: TextRun) => {
+    const crosses = gutters.some((g) => run.x < g && run.x + run.width > g);
+    if (crosses) return -1;
+    return gutters.filter((g) => run.x >= g).length;
+  };
+
+  const lines: Array<TextLine & { column: number }> = [];
+  for (let column = -1; column < columnCount; column++) {
+    const columnRuns = page.runs.filter((run) => columnOf(run) === column);
+    for (const line of buildLines(columnRuns, bodySize)) {
+      lines.push({ ...line, column });
+    }
+  }
+
+  // Spanning lines split the page into horizontal bands; within a band the
+  // columns are read left to right, each top to bottom
+  lines.sort((a, b) => b.y - a.y);
+  const ordered: TextLine[] = [];
+  let band: Array<TextLine & { column: number }> = [];
+  const flushBand = () => {
+    band.sort((a, b) => a.column - b.column || b.y - a.y);
+    ordered.push(...band);
+    band = [];
+  };
+  for (const line of lines) {
+    if (line.column === -1) {
+      flushBand();
+      ordered.push(line);
+    } else {
+      band.push(line);
+    }
+  }
+  flushBand();
+
+  return joinParagraphs(buildParagraphs(ordered, bodySize, headingSizes));
+}
+
+/**
+ * Find x positions of vertical gutters: bands in the middle of the page that
+ * almost no body-size text crosses, with enough text on both sides.
+ */
+function findColumnGutters(page: PageLayout, bodySize: number): number[] {
+  const bodyRuns = page.runs.filter((run) => Math.abs(run.size - bodySize) <= bodySize * 0.15);
+  if (bodyRuns.length < 10 || page.width <= 0) return [];
+
+  const binWidth = 2;
+  const bins = new Array(Math.ceil(page.width / binWidth)).fill(0);
+  for (const run of bodyRuns) {
+    const start = Math.max(0, Math.floor(run.x / binWidth));
+    const end = Math.min(bins.length - 1, Math.floor((run.x + run.width) / binWidth));
+    for (let i = start; i <= end; i++) bins[i]++;
+  }
+
+  const tolerance = Math.max(1, Math.floor(bodyRuns.length * 0.03));
+  const minGutterBins = Math.ceil((bodySize * 1.5) / binWidth);
+  const minSideRuns = bodyRuns.length * 0.15;
+
+  const gutters: number[] = [];
+  let gapStart = -1;
+  for (let i = 0; i <= bins.length; i++) {
+    const open = i < bins.length && bins[i] <= tolerance;
+    if (open && gapStart === -1) {
+      gapStart = i;
+    } else if (!open && gapStart !== -1) {
+      const gutter = ((gapStart + i) / 2) * binWidth;
+      const inMiddle = gutter > page.width * 0.15 && gutter < page.width * 0.85;
+      if (inMiddle && i - gapStart >= minGutterBins) {
+        const left = bodyRuns.filter((run) => run.x + run.width <= gutter).length;
+        const right = bodyRuns.filter((run) => run.x >= gutter).length;
+        if (left >= minSideRuns && right >= minSideRuns) {
+          gutters.push(gutter);
+        }
+      }
+      gapStart = -1;
+    }
+  }
+  return gutters;
+}
+
+function buildLines(runs: TextRun[], bodySize: number): TextLine[] {
+  const isCandidate = (run: TextRun) =>
+    run.size <= bodySize * SUPERSCRIPT_SIZE_RATIO && SUPERSCRIPT_TEXT_PATTERN.test(run.text.trim());
+
+  const lines: TextLine[] = [];
+  const addToLines = (run: TextRun) => {
+    const line = lines.find((l) => Math.abs(l.y - run.y) <= Math.max(l.size, run.size) * 0.3);
+    if (line) {
+      line.runs.push(run);
+      line.minX = Math.min(line.minX, run.x);
+      line.maxX = Math.max(line.maxX, run.x + run.width);
+      line.size = Math.max(line.size, run.size);
+    } else {
+      lines.push({ runs: [run], superscripts: [], y: run.y, minX: run.x, maxX: run.x + run.width, size: run.size });
+    }
+  };
+
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const candidates: TextRun[] = [];
+  for (const run of sorted) {
+    if (isCandidate(run)) {
+      candidates.push(run);
+    } else {
+      addToLines(run);
+    }
+  }
+
+  // Raised small markers attach to the line whose baseline sits just below them
+  for (const candidate of candidates) {
+    const host = lines.find((line) => {
+      const rise = candidate.y - line.y;
+      return (
+        rise >= line.size * SUPERSCRIPT_MIN_RISE &&
+        rise <= line.size * SUPERSCRIPT_MAX_RISE &&
+        candidate.x >= line.minX - line.size &&
+        candidate.x <= line.maxX + line.size
+      );
+    });
+    if (host) {
+      host.superscripts.push(candidate);
+    } else {
+      addToLines(candidate);
+    }
+  }
+
+  return lines;
+}
+
+function renderLine(line: TextLine): string {
+  const pieces = [
+    ...line.runs.map((run) => ({ run, superscript: false })),
+    ...line.superscripts.map((run) => ({ run, superscript: true })),
+  ].sort((a, b) => a.run.x - b.run.x);
+
+  let text = "";
+  let previousEnd: number | null = null;
+  for (const { run, superscript } of pieces) {
+    if (superscript) {
+      text += formatSuperscriptRun(run.text, text.slice(-4));
+    } else {
+      const gap = previousEnd === null ? 0 : run.x - previousEnd;
+      const needsSpace = previousEnd !== null && gap > run.size * 0.15 && !/\s$/.test(text) && !/^\s/.test(run.text);
+      text += (needsSpace ? " " : "") + run.text;
+    }
+    previousEnd = run.x + run.width;
+  }
+  return tokenizeUnicodeSuperscripts(text.replace(/\s+/g, " ").trim());
+}
+
+function buildParagraphs(lines: TextLine[], bodySize: number, headingSizes: number[]): string[] {
+  const gaps: number[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const gap = lines[i - 1].y - lines[i].y;
+    if (gap > 0) gaps.push(gap);
+  }
+  const typicalGap = median(gaps) || bodySize * 1.2;
+
+  const paragraphs: string[] = [];
+  let current = "";
+  let previous: TextLine | null = null;
+
+  const flush = () => {
+    if (current.trim()) paragraphs.push(current.trim());
+    current = "";
+  };
+
+  for (const line of lines) {
+    const text = renderLine(line);
+    if (!text) continue;
+
+    const headingLevel = headingLevelForSize(line.size, headingSizes);
+    if (headingLevel && text.length <= HEADING_MAX_LENGTH) {
+      flush();
+      paragraphs.push(headingLine(headingLevel, text));
+      previous = null;
+      continue;
+    }
+
+    const gap = previous ? previous.y - line.y : 0;
+    const startsParagraph =
+      !previous ||
+      gap <= 0 ||
+      gap > typicalGap * 1.5 ||
+      Math.abs(line.size - previous.size) > bodySize * 0.2 ||
+      /^([-•●▪◦]|\d+[.)])\s/.test(text);
+
+    if (startsParagraph) {
+      flush();
+      current = text;
+    } else if (/[A-Za-z]-$/.test(current) && /^[a-z]/.test(text)) {
+      // Re-join words hyphenated across a line break
+      current = current.slice(0, -1) + text;
+    } else {
+      current += " " + text;
+    }
+    previous = line;
+  }
+  flush();
+
+  return paragraphs;
+}
+
+function headingLevelForSize(size: number, headingSizes: number[]): number | null {
+  const index = headingSizes.findIndex((headingSize) => Math.abs(headingSize - size) < 0.5);
+  return index === -1 ? null : Math.min(index + 1, 6);
+}
+
+/** Font size covering the most characters: the document's body text size. */
+function dominantFontSize(runs: TextRun[]): number {
+  const weights = new Map<number, number>();
+  for (const run of runs) {
+    const size = Math.round(run.size * 2) / 2;
+    weights.set(size, (weights.get(size) || 0) + run.text.length);
+  }
+  let best = 0;
+  let bestWeight = -1;
+  weights.forEach((weight, size) => {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  });
+  return best || 12;
+}
+
+/** Sizes noticeably larger than body text, largest first (heading level 1, 2, ...). */
+function distinctHeadingSizes(runs: TextRun[], bodySize: number): number[] {
+  const sizes = new Set<number>();
+  for (const run of runs) {
+    if (run.size >= bodySize * HEADING_SIZE_RATIO) {
+      sizes.add(Math.round(run.size * 2) / 2);
+    }
+  }
+  return Array.from(sizes).sort((a, b) => b - a);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
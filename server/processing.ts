@@ -0,0 +1,228 @@
+import { readPagesBundle } from "./pagesExtractor";
+import { extractTextFromDocx } from "./docxExtractor";
+import { extractTextFromPdf } from "./pdfExtractor";
+import { splitIntoChunks, mergeChunkExtractions } from "./chunking";
+import { completeTaskCached } from "./llmCache";
+import { readFileSource, type FileSource } from "./fileSource";
+import type { ExtractionSchema, PageRange } from "@shared/schema";
+import { legalField } from "@shared/extractionSchema";
+
+/**
+ * Document processing pipeline shared by the upload routes and the background
+ * job worker: text extraction, language detection and structured extraction.
+ */
+
+export const DOCUMENT_MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pages: "application/vnd.apple.pages",
+};
+
+export class EmptyExtractionError extends Error {
+  constructor(fileType: string) {
+    super(`No text could be extracted from this ${fileType} file, even with OCR`);
+    this.name = "EmptyExtractionError";
+    Object.setPrototypeOf(this, EmptyExtractionError.prototype);
+  }
+}
+
+export interface ExtractedText {
+  text: string;
+  // 1-based page numbers whose text came from OCR (PDF only)
+  ocrPages: number[];
+  // Character range of each page in text (PDF only)
+  pageRanges: PageRange[];
+}
+
+// A missing stored file is reported as such (DocumentNotFoundError), not as an extraction failure
+export async function extractTextFromFile(source: FileSource, fileType: string): Promise<ExtractedText> {
+  const buffer = await readFileSource(source);
+  let extracted: ExtractedText;
+  try {
+    if (fileType === "docx") {
+      extracted = { text: await extractTextFromDocx({ buffer }), ocrPages: [], pageRanges: [] };
+    } else if (fileType === "pdf") {
+      extracted = await extractTextFromPdf(buffer);
+    } else if (fileType === "pages") {
+      const bundle = await readPagesBundle(buffer);
+      if (bundle.text) {
+        extracted = { text: bundle.text, ocrPages: [], pageRanges: [] };
+      } else if (bundle.previewPdf) {
+        // Fall back to the QuickLook preview Pages embeds in most bundles
+        extracted = await extractTextFromPdf(bundle.previewPdf);
+      } else {
+        throw new Error("Pages bundle contains no readable text");
+      }
+    } else {
+      throw new Error(`Unsupported file type: ${fileType}`);
+    }
+  } catch (error) {
+    console.error("Text extraction error:", error);
+    throw new Error(`Failed to extract text from ${fileType} file`);
+  }
+
+  // Never send an empty document to the model: it would be saved as "processed" with no data
+  if (!extracted.text.trim()) {
+    throw new EmptyExtractionError(fileType);
+  }
+  return extracted;
+}
+
+// Prompt versions in the LLM cache key (server/llmCache.ts)
+const LANGUAGE_DETECTION_PROMPT_VERSION = "1";
+const EXTRACTION_PROMPT_VERSION = "1";
+
+export async function detectLanguage(text: string): Promise<string> {
+  try {
+    const content = await completeTaskCached("languageDetection", LANGUAGE_DETECTION_PROMPT_VERSION, {
+      messages: [
+        {
+          role: "system",
+          content: "You are a language detection specialist. Identify the primary language of the provided text. Respond with only the language name in English (e.g., 'English', 'Japanese', 'Spanish', 'French', 'German', 'Chinese', 'Korean', etc.)."
+        },
+        {
+          role: "user",
+          content: text.slice(0, 2000) // Use first 2000 chars for language detection
+        }
+      ],
+      maxTokens: 10,
+      temperature: 0
+    }, (response) => response.trim());
+
+    const language = content || "Unknown";
+    return language;
+  } catch (error) {
+    console.error("Language detection error:", error);
+    return "Unknown";
+  }
+}
+
+function buildExtractionPrompt(schema: ExtractionSchema): string {
+  const { definition } = schema;
+  const fieldNames = definition.fields.map((field) => field.name);
+  const legal = legalField(definition);
+
+  const footnoteRule = legal
+    ? ` - Add the SAME token at the START of the corresponding entry in ${legal.name}
+ - Example: 
+   * In content: "battery for several days{{sup:1}}"
+   * In ${legal.name}: "{{sup:1}} Battery life varies by use and configuration."`
+    : ` - Example: "battery for several days{{sup:1}}"`;
+
+  return `You are a product documentation extraction specialist. Extract structured product information from the provided text.
+
+LANGUAGE HANDLING:
+- **JSON field names** (${[...definition.sections.map((section) => section.name), ...fieldNames].join(", ")}) MUST ALWAYS be in English
+- **Content values** MUST remain in the source document's original language
+- Do NOT translate the content - preserve the exact language from the source document
+
+INPUT FORMAT:
+- Lines starting with "#", "##", ... are headings (the number of "#" is the heading level)
+- Lines starting with "-" or "1." are list items (usually headlines or feature bullets)
+- Paragraphs are separated by blank lines
+- {{sup:N}} tokens mark footnote superscripts from the original document
+- Do NOT copy the "#" or list markers into the extracted values
+- Long documents are sent in parts. A part may start with a "[Context: ...]" line naming the headings in effect where it begins, and end with "[Footnotes referenced above]" followed by footnotes defined elsewhere in the document. Use both to assign entries to the right section${legal ? ` and to fill ${legal.name}` : ""}, but never extract the context line itself as content
+
+Documents can contain different sections:
+${definition.sections.map((section) => `- ${section.name}: ${section.description || section.label} (labelled "${section.label}" in documents)`).join("\n")}
+${schema.promptGuidance ? `\n${schema.promptGuidance}\n` : ""}
+Each entry contains: ${fieldNames.join(", ")}.
+
+CRITICAL: Handle superscripts in THREE distinct ways:
+
+A. FOOTNOTES / CLAIM REFERENCES (¹, ², ³, etc.)
+ - Replace with tokens in text: {{sup:1}}, {{sup:2}}, {{sup:3}}
+${footnoteRule}
+
+ - Superscripts detected in the source formatting are ALREADY tokenized as {{sup:N}}
+   in the input text. Copy these tokens exactly; never renumber, drop or invent them
+
+B. LEGAL MARKS (™, ®, ℠)
+ - Do NOT include these marks in the text
+ - These are just visual indicators, not content
+
+C. UNITS AND SCIENTIFIC NOTATION (cm², H₂O, 10⁶, CO₂e, etc.)
+ - Keep as literal Unicode characters
+ - These are semantic content, not formatting
+
+Extract sections that exist in the document. If a section is not present, omit it entirely.`;
+}
+
+// Extract structured copy from one chunk of document text
+async function extractStructuredChunk(textToProcess: string, schema: ExtractionSchema): Promise<any> {
+  // The extraction model must support structured outputs (e.g. gpt-4o-2024-08-06 or later)
+  // The schema's JSON Schema is strict, with guaranteed field order
+  return completeTaskCached("extraction", EXTRACTION_PROMPT_VERSION, {
+    messages: [
+      {
+        role: "system",
+        content: buildExtractionPrompt(schema),
+      },
+      {
+        role: "user",
+        content: textToProcess,
+      },
+    ],
+    jsonSchema: schema.jsonSchema as { name: string; schema: Record<string, unknown> },
+  }, (content) => JSON.parse(content || "{}"));
+}
+
+export async function processWithGPT5(extractedText: string, schema: ExtractionSchema): Promise<any> {
+  const { definition } = schema;
+  try {
+    // Long documents are extracted chunk by chunk along section boundaries
+    const chunks = splitIntoChunks(extractedText, definition);
+
+    const chunkResults: any[] = [];
+    for (const chunk of chunks) {
+      chunkResults.push(await extractStructuredChunk(chunk.text, schema));
+    }
+    const parsedData = chunks.length > 1 ? mergeChunkExtractions(chunkResults, definition) : chunkResults[0];
+    
+    // Helper function to normalize a single product with the schema's field order
+    const normalizeProduct = (product: any) => {
+      return Object.fromEntries(
+        definition.fields.map((field) => [
+          field.name,
+          field.type === "string[]"
+            ? (Array.isArray(product[field.name]) ? product[field.name] : [])
+            : product[field.name] || "",
+        ])
+      );
+    };
+    
+    // Helper function to normalize a copy section (array of products) with correct field order
+    const normalizeCopySection = (section: any) => {
+      // Return null if section is null or undefined
+      if (!section || section === null) return null;
+      
+      // Handle array of products
+      if (Array.isArray(section)) {
+        return section.map(normalizeProduct);
+      }
+      
+      // Handle legacy single product format (for backward compatibility)
+      return [normalizeProduct(section)];
+    };
+    
+    // CRITICAL: Explicitly reconstruct the object in the correct order
+    // This ensures JSON.stringify outputs fields in this exact sequence
+    const normalized: any = {};
+    
+    // Add sections in order, only if they're not null
+    for (const section of definition.sections) {
+      const entries = normalizeCopySection(parsedData[section.name]);
+      if (entries !== null) {
+        normalized[section.name] = entries;
+      }
+    }
+    
+    // Verify the order is correct by stringifying and re-parsing
+    // This guarantees consistent field order in storage
+    return JSON.parse(JSON.stringify(normalized));
+  } catch (error) {
+    console.error("GPT processing error:", error);
+    throw new Error("Failed to process document with AI");
+  }
+}
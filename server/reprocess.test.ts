@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EXTRACTION_SCHEMA_DEFINITION as definition } from "@shared/extractionSchema";
+import { mergeStructuredData } from "./reprocess";
+
+const phone = (overrides: Record<string, unknown> = {}) => ({
+  ProductName: "Lumen Phone",
+  Headlines: ["Meet Lumen"],
+  AdvertisingCopy: "Battery for days.",
+  KeyFeatureBullets: ["Fast charging"],
+  LegalReferences: [],
+  ...overrides,
+});
+
+const data = (...entries: unknown[]) => ({ ProductCopy: entries });
+
+describe("mergeStructuredData", () => {
+  it("takes each field from whichever side changed it", () => {
+    const merge = mergeStructuredData(
+      definition,
+      data(phone()),
+      data(phone({ AdvertisingCopy: "Edited by hand." })),
+      data(phone({ Headlines: ["A new headline"] }))
+    );
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.keptEdits).toBe(1);
+    expect(merge.data.ProductCopy).toEqual([phone({ AdvertisingCopy: "Edited by hand.", Headlines: ["A new headline"] })]);
+  });
+
+  it("does not count a change both sides made the same way as a conflict or a kept edit", () => {
+    const same = phone({ AdvertisingCopy: "Battery for weeks." });
+    const merge = mergeStructuredData(definition, data(phone()), data(same), data(same));
+    expect(merge).toEqual({ data: { ProductCopy: [same], BusinessCopy: [], UpgraderCopy: [] }, conflicts: [], keptEdits: 0 });
+  });
+
+  it("reports a field both sides changed differently and keeps the manual edit", () => {
+    const merge = mergeStructuredData(
+      definition,
+      data(phone()),
+      data(phone({ AdvertisingCopy: "Edited by hand." })),
+      data(phone({ AdvertisingCopy: "New copy from the model." }))
+    );
+    expect(merge.conflicts).toEqual([
+      {
+        id: 'ProductCopy["Lumen Phone"].AdvertisingCopy',
+        section: "ProductCopy",
+        entryName: "Lumen Phone",
+        field: "AdvertisingCopy",
+        base: "Battery for days.",
+        current: "Edited by hand.",
+        incoming: "New copy from the model.",
+      },
+    ]);
+    expect(merge.data.ProductCopy).toEqual([phone({ AdvertisingCopy: "Edited by hand." })]);
+  });
+
+  it("applies the incoming side where a resolution chooses it", () => {
+    const merge = mergeStructuredData(
+      definition,
+      data(phone()),
+      data(phone({ AdvertisingCopy: "Edited by hand." })),
+      data(phone({ AdvertisingCopy: "New copy from the model." })),
+      { 'ProductCopy["Lumen Phone"].AdvertisingCopy': "incoming" }
+    );
+    expect(merge.data.ProductCopy).toEqual([phone({ AdvertisingCopy: "New copy from the model." })]);
+  });
+
+  it("keeps entries added by hand and appends entries only the new extraction has", () => {
+    const watch = { ProductName: "Lumen Watch", Headlines: ["On your wrist"] };
+    const tablet = { ProductName: "Lumen Tablet", Headlines: ["Bigger"] };
+    const merge = mergeStructuredData(definition, data(phone()), data(watch, phone()), data(phone(), tablet));
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.keptEdits).toBe(1);
+    expect(merge.data.ProductCopy).toEqual([watch, phone(), tablet]);
+  });
+
+  it("drops entries the new extraction dropped and keeps those deleted by hand deleted", () => {
+    const watch = { ProductName: "Lumen Watch", Headlines: ["On your wrist"] };
+    const tablet = { ProductName: "Lumen Tablet", Headlines: ["Bigger"] };
+    const merge = mergeStructuredData(definition, data(phone(), watch, tablet), data(phone(), watch), data(phone(), tablet));
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.keptEdits).toBe(1);
+    expect(merge.data.ProductCopy).toEqual([phone()]);
+  });
+
+  it("reports an entry edited on one side and removed on the other", () => {
+    const watch = { ProductName: "Lumen Watch", Headlines: ["On your wrist"] };
+    const editedWatch = { ...watch, Headlines: ["Edited by hand"] };
+    const merge = mergeStructuredData(definition, data(phone(), watch), data(phone(), editedWatch), data(phone()));
+    expect(merge.conflicts).toEqual([
+      expect.objectContaining({ id: 'ProductCopy["Lumen Watch"]', field: null, base: watch, current: editedWatch, incoming: null }),
+    ]);
+    expect(merge.data.ProductCopy).toEqual([phone(), editedWatch]);
+
+    const removed = mergeStructuredData(definition, data(phone(), watch), data(phone()), data(phone(), editedWatch), {
+      'ProductCopy["Lumen Watch"]': "incoming",
+    });
+    expect(removed.conflicts).toEqual([
+      expect.objectContaining({ id: 'ProductCopy["Lumen Watch"]', current: null, incoming: editedWatch }),
+    ]);
+    expect(removed.data.ProductCopy).toEqual([phone(), editedWatch]);
+  });
+
+  it("keys repeated product names by occurrence", () => {
+    const merge = mergeStructuredData(
+      definition,
+      data(phone(), phone()),
+      data(phone(), phone({ AdvertisingCopy: "Second, edited." })),
+      data(phone(), phone({ AdvertisingCopy: "Second, from the model." }))
+    );
+    expect(merge.conflicts.map((conflict) => conflict.id)).toEqual(['ProductCopy["Lumen Phone (2)"].AdvertisingCopy']);
+  });
+
+  it("treats every difference as a conflict when there is no base", () => {
+    const merge = mergeStructuredData(
+      definition,
+      null,
+      data(phone({ AdvertisingCopy: "Edited by hand." })),
+      data(phone({ Headlines: ["A new headline"] }))
+    );
+    expect(merge.conflicts.map((conflict) => conflict.field)).toEqual(["Headlines", "AdvertisingCopy"]);
+  });
+});
@@ -0,0 +1,335 @@
+import { storage } from "./storage";
+import { extractTextFromFile, detectLanguage, processWithGPT5, type ExtractedText } from "./processing";
+import { extractionSchemaForDocument, resolveExtractionSchema } from "./extractionSchemas";
+import { computeSourceSpans } from "./sourceSpans";
+import { storedFile } from "./fileSource";
+import { reanchorCommentThreads } from "./commentAnchors";
+import { hashText } from "./contentHash";
+import { assertEditable } from "./reviewWorkflow";
+import { DocumentStorageService } from "./documentStorage";
+import { entryName, sectionEntries, type ExtractionSchemaDefinition } from "@shared/extractionSchema";
+import type { Document, InsertDocument, MergeConflict, PendingReprocess, ReplacementFile } from "@shared/schema";
+
+/**
+ * Reprocessing merges instead of overwriting: the last model output (the
+ * document's aiStructuredData) is the base, the current structuredData holds
+ * the reviewer's edits and the new model output is merged in field by field.
+ * Whatever only one side changed is taken from that side. Fields both sides
+ * changed differently are conflicts; the reprocess is then parked on the
+ * document as pendingReprocess until each one is resolved, keeping the
+ * manual edit unless "incoming" is chosen.
+ */
+
+export type ConflictResolution = "current" | "incoming";
+
+export class ReprocessNotPendingError extends Error {
+  constructor() {
+    super("This document has no reprocess waiting for conflict resolution");
+    this.name = "ReprocessNotPendingError";
+    Object.setPrototypeOf(this, ReprocessNotPendingError.prototype);
+  }
+}
+
+export class StaleReprocessError extends Error {
+  constructor() {
+    super("The document was edited after it was reprocessed; reprocess it again");
+    this.name = "StaleReprocessError";
+    Object.setPrototypeOf(this, StaleReprocessError.prototype);
+  }
+}
+
+export class UnknownConflictError extends Error {
+  constructor(ids: string[]) {
+    super(`Unknown conflict${ids.length !== 1 ? "s" : ""}: ${ids.join(", ")}`);
+    this.name = "UnknownConflictError";
+    Object.setPrototypeOf(this, UnknownConflictError.prototype);
+  }
+}
+
+export interface MergeResult {
+  data: Record<string, unknown[]>;
+  conflicts: MergeConflict[];
+  // Manual changes that survived the merge, for the version description
+  keptEdits: number;
+}
+
+const documentStorage = new DocumentStorageService();
+
+// Starts the description of every version a reprocess creates
+const REPROCESS_CHANGE_DESCRIPTION = "Reprocessed with updated AI extraction";
+
+type ReprocessOutput = Omit<PendingReprocess, "base" | "current" | "conflicts" | "createdBy" | "createdAt">;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Entries keyed by name; a repeated name gets its occurrence number so each key is unique
+function keyedEntries(definition: ExtractionSchemaDefinition, data: unknown, section: string): Array<{ key: string; entry: any }> {
+  const seen = new Map<string, number>();
+  return sectionEntries(data, section).map((entry, index) => {
+    const name = entryName(definition, entry, index);
+    const occurrence = (seen.get(name) ?? 0) + 1;
+    seen.set(name, occurrence);
+    return { key: occurrence > 1 ? `${name} (${occurrence})` : name, entry };
+  });
+}
+
+export function mergeStructuredData(
+  definition: ExtractionSchemaDefinition,
+  base: unknown,
+  current: unknown,
+  incoming: unknown,
+  resolutions: Record<string, ConflictResolution> = {}
+): MergeResult {
+  const data: Record<string, unknown[]> = {};
+  const conflicts: MergeConflict[] = [];
+  let keptEdits = 0;
+
+  // Records the conflict and returns whether the incoming side was chosen
+  const conflict = (section: string, key: string, field: string | null, values: Omit<MergeConflict, "id" | "section" | "entryName" | "field">) => {
+    const id = `${section}[${JSON.stringify(key)}]${field ? `.${field}` : ""}`;
+    conflicts.push({ id, section, entryName: key, field, ...values });
+    return resolutions[id] === "incoming";
+  };
+
+  for (const section of definition.sections) {
+    const baseEntries = new Map(keyedEntries(definition, base, section.name).map(({ key, entry }) => [key, entry]));
+    const currentEntries = keyedEntries(definition, current, section.name);
+    const incomingEntries = new Map(keyedEntries(definition, incoming, section.name).map(({ key, entry }) => [key, entry]));
+    const merged: unknown[] = [];
+
+    // Current order is kept; entries only the new output has are appended
+    for (const { key, entry } of currentEntries) {
+      const baseEntry = baseEntries.get(key);
+      const incomingEntry = incomingEntries.get(key);
+
+      if (!incomingEntry) {
+        if (!baseEntry) {
+          keptEdits++; // added by hand
+          merged.push(entry);
+        } else if (!same(entry, baseEntry)) {
+          // Edited by hand, dropped by the new extraction
+          if (!conflict(section.name, key, null, { base: baseEntry, current: entry, incoming: null })) merged.push(entry);
+        }
+        continue;
+      }
+
+      const result: Record<string, unknown> = {};
+      for (const field of definition.fields) {
+        const baseValue = baseEntry?.[field.name] ?? null;
+        const currentValue = entry[field.name] ?? null;
+        const incomingValue = incomingEntry[field.name] ?? null;
+        let value = currentValue;
+        if (same(currentValue, incomingValue)) {
+          value = currentValue;
+        } else if (same(currentValue, baseValue)) {
+          value = incomingValue;
+        } else if (same(incomingValue, baseValue)) {
+          keptEdits++;
+        } else if (conflict(section.name, key, field.name, { base: baseValue, current: currentValue, incoming: incomingValue })) {
+          value = incomingValue;
+        }
+        if (value !== null) result[field.name] = value;
+      }
+      merged.push(result);
+    }
+
+    const currentKeys = new Set(currentEntries.map(({ key }) => key));
+    for (const [key, entry] of Array.from(incomingEntries)) {
+      if (currentKeys.has(key)) continue;
+      const baseEntry = baseEntries.get(key);
+      if (!baseEntry) {
+        merged.push(entry);
+      } else if (same(entry, baseEntry)) {
+        keptEdits++; // deleted by hand
+      } else if (conflict(section.name, key, null, { base: baseEntry, current: null, incoming: entry })) {
+        // Deleted by hand, changed by the new extraction
+        merged.push(entry);
+      }
+    }
+
+    data[section.name] = merged;
+  }
+
+  return { data, conflicts, keptEdits };
+}
+
+async function applyReprocess(
+  document: Document,
+  output: ReprocessOutput,
+  merge: MergeResult,
+  definition: ExtractionSchemaDefinition,
+  actorId: string | null
+): Promise<Document | undefined> {
+  const structuredData = merge.data as InsertDocument["structuredData"];
+  const updatedDocument = await storage.updateDocument(document.id, {
+    ...(output.file && {
+      filePath: output.file.storagePath,
+      fileType: output.file.fileType,
+      size: output.file.size,
+      fileHash: output.file.fileHash,
+    }),
+    extractedText: output.extractedText,
+    textHash: hashText(output.extractedText),
+    ocrPages: output.ocrPages,
+    pageRanges: output.pageRanges,
+    language: output.language,
+    structuredData,
+    aiStructuredData: output.incoming as InsertDocument["aiStructuredData"],
+    pendingReprocess: null,
+    extractionSchemaId: output.extractionSchemaId,
+    sourceSpans: computeSourceSpans(output.extractedText, merge.data, definition, output.pageRanges),
+    // The earlier score judged data that has now changed; POST /validate scores the new data
+    validationConfidence: null,
+    validationIssues: null,
+    isProcessed: true,
+    updatedBy: actorId,
+  });
+  if (!updatedDocument) return undefined;
+
+  // Save the NEW reprocessed state as a version
+  const versionNumber = (await storage.getLatestVersionNumber(document.id)) + 1;
+  await storage.createDocumentVersion({
+    documentId: document.id,
+    versionNumber,
+    extractedText: updatedDocument.extractedText,
+    structuredData,
+    extractionSchemaId: updatedDocument.extractionSchemaId,
+    validationConfidence: updatedDocument.validationConfidence,
+    validationIssues: updatedDocument.validationIssues,
+    changeDescription:
+      merge.keptEdits > 0
+        ? `${REPROCESS_CHANGE_DESCRIPTION}, keeping ${merge.keptEdits} manual edit${merge.keptEdits !== 1 ? "s" : ""}`
+        : REPROCESS_CHANGE_DESCRIPTION,
+    createdBy: actorId,
+  });
+
+  // Extract products from reprocessed document with the new version number
+  try {
+    await storage.projectProductsFromDocument(document.id, versionNumber, definition);
+  } catch (projectionError) {
+    console.error("Product projection error during reprocess:", projectionError);
+    // Continue with reprocess even if projection fails
+  }
+
+  try {
+    await reanchorCommentThreads(updatedDocument, definition);
+  } catch (anchorError) {
+    console.error("Comment re-anchoring error during reprocess:", anchorError);
+  }
+
+  // Versions keep the text and data, not files, so the replaced file is no longer needed
+  if (output.file && output.file.storagePath !== document.filePath) {
+    await deleteStoredFile(document.filePath);
+  }
+
+  return updatedDocument;
+}
+
+async function deleteStoredFile(storagePath: string) {
+  try {
+    await documentStorage.deleteDocument(storagePath);
+  } catch (error) {
+    console.error(`Failed to delete replaced file ${storagePath}:`, error);
+  }
+}
+
+// A replacement file parked with a reprocess that will now never be applied
+async function dropPendingFile(pending: PendingReprocess | null, keep?: ReplacementFile | null) {
+  const file = pending?.file;
+  if (file && file.storagePath !== keep?.storagePath) await deleteStoredFile(file.storagePath);
+}
+
+// Documents processed before aiStructuredData was kept have no model output to merge against. Back then a
+// reprocess overwrote the data, so the newest reprocess version holds the last model output; manual edit
+// and restore versions do not. Without one the base is empty and every difference is a conflict.
+async function fallbackBase(document: Document): Promise<unknown> {
+  const versions = await storage.getDocumentVersions(document.id);
+  const reprocessed = versions.find((version) => version.changeDescription?.startsWith(REPROCESS_CHANGE_DESCRIPTION));
+  return reprocessed?.structuredData ?? null;
+}
+
+// Extracts and structures the file again; applies the merge, or parks it when there are conflicts
+export async function reprocessDocument(
+  document: Document,
+  actorId: string | null,
+  extracted?: ExtractedText,
+  file?: ReplacementFile
+): Promise<Document | undefined> {
+  const { text: extractedText, ocrPages, pageRanges } =
+    extracted ?? (await extractTextFromFile(storedFile(document.filePath), document.fileType));
+
+  // Reprocessing picks up the latest version of the document's or folder's schema
+  const schema = await resolveExtractionSchema(document);
+
+  // Re-detect language and reprocess with GPT-4o in parallel
+  const [language, incoming] = await Promise.all([detectLanguage(extractedText), processWithGPT5(extractedText, schema)]);
+  const output: ReprocessOutput = {
+    file: file ?? null,
+    extractedText,
+    ocrPages,
+    pageRanges,
+    language,
+    extractionSchemaId: schema.id,
+    incoming,
+  };
+
+  const base = document.aiStructuredData ?? (await fallbackBase(document));
+  const merge = mergeStructuredData(schema.definition, base, document.structuredData, incoming);
+  const updated =
+    merge.conflicts.length === 0
+      ? await applyReprocess(document, output, merge, schema.definition, actorId)
+      : await storage.updateDocument(document.id, {
+          pendingReprocess: {
+            ...output,
+            base,
+            current: document.structuredData,
+            conflicts: merge.conflicts,
+            createdBy: actorId,
+            createdAt: new Date().toISOString(),
+          },
+        });
+  // Either way an earlier parked reprocess is replaced
+  if (updated) await dropPendingFile(document.pendingReprocess, file);
+  return updated;
+}
+
+export async function resolvePendingReprocess(
+  document: Document,
+  resolutions: Record<string, ConflictResolution>,
+  actorId: string | null
+): Promise<Document | undefined> {
+  const pending = document.pendingReprocess;
+  if (!pending) throw new ReprocessNotPendingError();
+  // The merge was computed against this exact state
+  if (!same(pending.current, document.structuredData)) throw new StaleReprocessError();
+
+  const unknown = Object.keys(resolutions).filter((id) => !pending.conflicts.some((conflict) => conflict.id === id));
+  if (unknown.length > 0) throw new UnknownConflictError(unknown);
+
+  const { definition } = await extractionSchemaForDocument({ extractionSchemaId: pending.extractionSchemaId });
+  const merge = mergeStructuredData(definition, pending.base, pending.current, pending.incoming, resolutions);
+  return applyReprocess(document, pending, merge, definition, actorId);
+}
+
+// Drops a parked reprocess, and the replacement file it would have swapped in; the document keeps its current data
+export async function discardPendingReprocess(document: Document): Promise<Document | undefined> {
+  const pending = document.pendingReprocess;
+  if (!pending) throw new ReprocessNotPendingError();
+  const updated = await storage.updateDocument(document.id, { pendingReprocess: null });
+  if (updated) await dropPendingFile(pending);
+  return updated;
+}
+
+// A newer upload of the document's file. The file is swapped in together with the reprocess result (when it
+// is applied, possibly after conflicts are resolved), so a failed or discarded reprocess leaves the document
+// on its old file.
+export async function replaceDocumentFile(
+  document: Document,
+  file: ReplacementFile,
+  extracted: ExtractedText,
+  actorId: string | null
+): Promise<Document | undefined> {
+  assertEditable(document);
+  const { storagePath, fileType, size, fileHash } = file;
+  return reprocessDocument(document, actorId, extracted, { storagePath, fileType, size, fileHash });
+}
@@ -0,0 +1,52 @@
+import { storage } from "./storage";
+import { REVIEW_STATUS_LABELS, REVIEW_TRANSITIONS, type Document, type ReviewStatus } from "@shared/schema";
+
+/**
+ * Review lifecycle: draft -> in review -> changes requested / approved ->
+ * published. Every transition is recorded in review_transitions. Published
+ * documents are read-only; moving them back to "in review" reopens them.
+ */
+
+export class InvalidReviewTransitionError extends Error {
+  constructor(from: string, to: string) {
+    super(`Cannot move a document from ${labelFor(from)} to ${labelFor(to)}`);
+    this.name = "InvalidReviewTransitionError";
+    Object.setPrototypeOf(this, InvalidReviewTransitionError.prototype);
+  }
+}
+
+export class DocumentPublishedError extends Error {
+  constructor(documentId: string) {
+    super(`Document ${documentId} is published; reopen it for review before changing its data`);
+    this.name = "DocumentPublishedError";
+    Object.setPrototypeOf(this, DocumentPublishedError.prototype);
+  }
+}
+
+function labelFor(status: string): string {
+  return REVIEW_STATUS_LABELS[status as ReviewStatus] ?? status;
+}
+
+// Guard for anything that rewrites structuredData (edits, reprocessing, restores)
+export function assertEditable(document: Document) {
+  if (document.reviewStatus === "published") {
+    throw new DocumentPublishedError(document.id);
+  }
+}
+
+// Returns undefined when the document changed status concurrently
+export async function transitionReview(
+  document: Document,
+  to: ReviewStatus,
+  note: string | undefined,
+  actorId: string | null
+): Promise<Document | undefined> {
+  const from = document.reviewStatus as ReviewStatus;
+  if (!REVIEW_TRANSITIONS[from]?.includes(to)) {
+    throw new InvalidReviewTransitionError(from, to);
+  }
+
+  // Approval is the reviewer's sign-off, so it clears the validation flag
+  const updates = to === "approved" ? { needsReview: false } : {};
+  return storage.transitionDocumentReview(document.id, from, to, note || null, actorId, updates);
+}
@@ -0,0 +1,635 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import request from "supertest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { makePdf } from "./testFixtures";
+
+/**
+ * End-to-end tests of the HTTP API. registerRoutes runs as in production, but
+ * with STORAGE_BACKEND=memory, the memory blob store and the stub LLM (see
+ * vitest.config.ts). Extraction output is controlled by rewriting the stub's
+ * extraction/default.json in a private copy of fixtures/llm.
+ */
+
+const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-fixtures-"));
+let agent: ReturnType<typeof request.agent>;
+
+function productCopy(name: string, overrides: Record<string, unknown> = {}) {
+  return {
+    ProductName: name,
+    Headlines: [`Meet the ${name}`],
+    AdvertisingCopy: `The ${name} does everything you need.`,
+    KeyFeatureBullets: ["All-day battery", "Fast charging"],
+    LegalReferences: [],
+    ...overrides,
+  };
+}
+
+// What the stub returns for every extraction from now on
+function setExtraction(productCopyEntries: unknown[]) {
+  fs.writeFileSync(
+    path.join(fixturesDir, "extraction", "default.json"),
+    JSON.stringify({ response: { ProductCopy: productCopyEntries, BusinessCopy: [], UpgraderCopy: [] } })
+  );
+}
+
+async function waitForJob(jobId: string) {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const res = await agent.get(`/api/jobs/${jobId}`).expect(200);
+    if (res.body.status === "completed" || res.body.status === "failed") return res.body;
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+  throw new Error(`Job ${jobId} did not finish`);
+}
+
+async function uploadDocument(name: string, text: string) {
+  const res = await agent.post("/api/documents/upload").attach("file", makePdf(text), name).expect(202);
+  const job = await waitForJob(res.body.id);
+  expect(job.status).toBe("completed");
+  return job.files[0].documentId as string;
+}
+
+async function createFolder(name: string, parentFolderId: string | null = null) {
+  const res = await agent.post("/api/folders").send({ name, parentFolderId }).expect(200);
+  return res.body.id as string;
+}
+
+beforeAll(async () => {
+  fs.cpSync(path.resolve("fixtures/llm"), fixturesDir, { recursive: true });
+  process.env.LLM_FIXTURES_DIR = fixturesDir;
+
+  // Imported after the environment is in place; storage and the LLM provider read it at load time
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+
+  agent = request.agent(app);
+  await agent.post("/api/auth/setup").send({ username: "admin", password: "correct horse battery" }).expect(201);
+});
+
+afterAll(() => {
+  fs.rmSync(fixturesDir, { recursive: true, force: true });
+});
+
+describe("authentication", () => {
+  it("rejects API requests without a session", async () => {
+    await request(agent.app).get("/api/documents").expect(401);
+  });
+
+  it("refuses setup once an account exists", async () => {
+    await request(agent.app).post("/api/auth/setup").send({ username: "intruder", password: "another long password" }).expect(403);
+  });
+
+  it("creates only one first account when setups race", async () => {
+    const { MemStorage } = await import("./storage");
+    const store = new MemStorage();
+    const results = await Promise.all(
+      ["first", "second"].map((username) => store.createFirstUser({ username, passwordHash: "hash", role: "admin" }))
+    );
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await store.countUsers()).toBe(1);
+  });
+});
+
+describe("upload", () => {
+  it("processes the file in the background and projects its products", async () => {
+    setExtraction([productCopy("Aurora Laptop")]);
+    const documentId = await uploadDocument("aurora.pdf", "Meet the Aurora Laptop, built for all-day work.");
+
+    const document = (await agent.get(`/api/documents/${documentId}`).expect(200)).body;
+    expect(document.isProcessed).toBe(true);
+    expect(document.language).toBe("English");
+    expect(document.extractedText).toContain("Aurora Laptop");
+    expect(document.structuredData.ProductCopy).toEqual([productCopy("Aurora Laptop")]);
+    expect(document.filePath).toBeUndefined();
+
+    const products = (await agent.get("/api/products").expect(200)).body;
+    const product = products.find((candidate: { name: string }) => candidate.name === "Aurora Laptop");
+    expect(product).toMatchObject({ variantCount: 1, locales: ["English"], copyTypes: ["ProductCopy"] });
+  });
+
+  it("computes missing source spans on read without storing them", async () => {
+    setExtraction([productCopy("Halo Earbuds")]);
+    const documentId = await uploadDocument("halo.pdf", "The Halo Earbuds. The Halo Earbuds does everything you need.");
+    const { storage } = await import("./storage");
+    await storage.updateDocument(documentId, { sourceSpans: null });
+    const before = await storage.getDocument(documentId);
+
+    const document = (await agent.get(`/api/documents/${documentId}`).expect(200)).body;
+    expect(document.sourceSpans["ProductCopy[0].ProductName"]).toMatchObject({ exact: true });
+    expect(await storage.getDocument(documentId)).toEqual(before);
+  });
+
+  it("rejects unsupported file types", async () => {
+    const res = await agent.post("/api/documents/upload").attach("file", Buffer.from("hello"), "notes.exe").expect(400);
+    expect(res.body.error).toContain("notes.exe");
+  });
+});
+
+describe("upload-set", () => {
+  it("creates the folder, marks the original and links both documents to one product", async () => {
+    setExtraction([productCopy("Nimbus Phone")]);
+    const res = await agent
+      .post("/api/documents/upload-set")
+      .field("folderName", "Nimbus launch")
+      .field("originalIndex", "1")
+      .attach("files", makePdf("Nimbus Phone launch copy, first draft of the text."), "nimbus-a.pdf")
+      .attach("files", makePdf("Nimbus Phone launch copy, the original master text."), "nimbus-b.pdf")
+      .expect(202);
+    expect(res.body.folder.name).toBe("Nimbus launch");
+
+    const job = await waitForJob(res.body.job.id);
+    expect(job.status).toBe("completed");
+    expect(job.files.map((file: { status: string }) => file.status)).toEqual(["completed", "completed"]);
+
+    const documents = (await agent.get("/api/documents").expect(200)).body.filter(
+      (document: { folderId: string | null }) => document.folderId === res.body.folder.id
+    );
+    expect(documents).toHaveLength(2);
+    expect(documents.filter((document: { isOriginal: boolean }) => document.isOriginal).map((document: { name: string }) => document.name)).toEqual([
+      "nimbus-b.pdf",
+    ]);
+
+    const products = (await agent.get("/api/products").expect(200)).body;
+    const product = products.find((candidate: { name: string }) => candidate.name === "Nimbus Phone");
+    expect(product.variantCount).toBe(2);
+    const variants = (await agent.get(`/api/products/${product.id}/variants`).expect(200)).body;
+    expect(variants.map((variant: { documentId: string }) => variant.documentId).sort()).toEqual(
+      documents.map((document: { id: string }) => document.id).sort()
+    );
+  });
+
+  it("rejects an original index outside the uploaded files", async () => {
+    await agent
+      .post("/api/documents/upload-set")
+      .field("originalIndex", "3")
+      .attach("files", makePdf("Only one file in this set of documents."), "only.pdf")
+      .expect(400);
+  });
+});
+
+describe("product audit", () => {
+  async function productAudit(name: string) {
+    const entries = (await agent.get("/api/audit-log").query({ entityType: "product" }).expect(200)).body;
+    return entries.filter((entry: { entityName: string }) => entry.entityName === name);
+  }
+
+  it("logs products created and renamed by projection", async () => {
+    setExtraction([productCopy("Lumen Camera")]);
+    const res = await agent
+      .post("/api/documents/upload-set")
+      .field("folderName", "Lumen launch")
+      .field("originalIndex", "0")
+      .attach("files", makePdf("Lumen Camera original launch copy."), "lumen-en.pdf")
+      .attach("files", makePdf("Lumen Camera translated launch copy."), "lumen-fr.pdf")
+      .expect(202);
+    const job = await waitForJob(res.body.job.id);
+    expect((await productAudit("Lumen Camera")).map((entry: { action: string }) => entry.action)).toEqual(["product.create"]);
+
+    // A new name in the original renames the product both variants share
+    setExtraction([productCopy("Lumen Camera II")]);
+    await agent.post(`/api/documents/${job.files[0].documentId}/reprocess`).expect(200);
+    const [renamed] = await productAudit("Lumen Camera II");
+    expect(renamed).toMatchObject({ action: "product.update" });
+    expect(renamed.changes).toEqual(expect.objectContaining({ name: { before: "Lumen Camera", after: "Lumen Camera II" } }));
+  });
+});
+
+describe("reprocess", () => {
+  let documentId: string;
+
+  beforeAll(async () => {
+    setExtraction([productCopy("Zephyr Tablet")]);
+    documentId = await uploadDocument("zephyr.pdf", "The Zephyr Tablet is light enough to take anywhere.");
+
+    // A manual edit to the advertising copy
+    await agent
+      .patch(`/api/documents/${documentId}`)
+      .send({
+        structuredData: {
+          ProductCopy: [productCopy("Zephyr Tablet", { AdvertisingCopy: "Edited by hand." })],
+          BusinessCopy: [],
+          UpgraderCopy: [],
+        },
+      })
+      .expect(200);
+  });
+
+  it("keeps manual edits and applies what only the new extraction changed", async () => {
+    setExtraction([productCopy("Zephyr Tablet", { Headlines: ["A brand new headline"] })]);
+    const document = (await agent.post(`/api/documents/${documentId}/reprocess`).expect(200)).body;
+
+    expect(document.pendingReprocess).toBeNull();
+    expect(document.structuredData.ProductCopy[0]).toMatchObject({
+      Headlines: ["A brand new headline"],
+      AdvertisingCopy: "Edited by hand.",
+    });
+    const [latest] = (await agent.get(`/api/documents/${documentId}/versions`).expect(200)).body;
+    expect(latest.changeDescription).toBe("Reprocessed with updated AI extraction, keeping 1 manual edit");
+  });
+
+  it("parks conflicting changes until they are resolved", async () => {
+    setExtraction([productCopy("Zephyr Tablet", { Headlines: ["A brand new headline"], AdvertisingCopy: "New copy from the model." })]);
+    const pending = (await agent.post(`/api/documents/${documentId}/reprocess`).expect(200)).body;
+
+    const conflictId = 'ProductCopy["Zephyr Tablet"].AdvertisingCopy';
+    expect(pending.pendingReprocess.conflicts).toEqual([
+      expect.objectContaining({ id: conflictId, current: "Edited by hand.", incoming: "New copy from the model." }),
+    ]);
+    expect(pending.structuredData.ProductCopy[0].AdvertisingCopy).toBe("Edited by hand.");
+
+    await agent
+      .post(`/api/documents/${documentId}/reprocess/resolve`)
+      .send({ resolutions: { "ProductCopy[\"Nope\"].Headlines": "incoming" } })
+      .expect(400);
+
+    const resolved = (
+      await agent.post(`/api/documents/${documentId}/reprocess/resolve`).send({ resolutions: { [conflictId]: "incoming" } }).expect(200)
+    ).body;
+    expect(resolved.pendingReprocess).toBeNull();
+    expect(resolved.structuredData.ProductCopy[0].AdvertisingCopy).toBe("New copy from the model.");
+
+    await agent.post(`/api/documents/${documentId}/reprocess/resolve`).send({ resolutions: {} }).expect(409);
+  });
+
+  it("re-projects the document's products", async () => {
+    setExtraction([productCopy("Zephyr Tablet"), productCopy("Zephyr Pen")]);
+    await agent.post(`/api/documents/${documentId}/reprocess`).expect(200);
+
+    const products = (await agent.get("/api/products").expect(200)).body;
+    const names = products.map((product: { name: string }) => product.name);
+    expect(names).toEqual(expect.arrayContaining(["Zephyr Tablet", "Zephyr Pen"]));
+    const tablet = products.find((product: { name: string }) => product.name === "Zephyr Tablet");
+    expect(tablet.variantCount).toBe(1);
+  });
+
+  describe("of a document processed before the model output was kept", () => {
+    const edited = { ProductCopy: [productCopy("Nimbus Speaker", { AdvertisingCopy: "Edited by hand." })], BusinessCopy: [], UpgraderCopy: [] };
+
+    async function legacyDocument(name: string, reprocessFirst: boolean) {
+      setExtraction([productCopy("Nimbus Speaker")]);
+      const id = await uploadDocument(name, `The Nimbus Speaker fills any room with sound (${name}).`);
+      if (reprocessFirst) await agent.post(`/api/documents/${id}/reprocess`).expect(200);
+      await agent.patch(`/api/documents/${id}`).send({ structuredData: edited }).expect(200);
+      const { storage } = await import("./storage");
+      await storage.updateDocument(id, { aiStructuredData: null });
+      return id;
+    }
+
+    it("merges against the newest reprocess version, keeping manual edits", async () => {
+      const legacyId = await legacyDocument("nimbus.pdf", true);
+
+      setExtraction([productCopy("Nimbus Speaker", { Headlines: ["Louder than ever"] })]);
+      const document = (await agent.post(`/api/documents/${legacyId}/reprocess`).expect(200)).body;
+      expect(document.pendingReprocess).toBeNull();
+      expect(document.structuredData.ProductCopy[0].Headlines).toEqual(["Louder than ever"]);
+      expect(document.structuredData.ProductCopy[0].AdvertisingCopy).toBe("Edited by hand.");
+    });
+
+    it("parks every difference as a conflict when no reprocess version exists", async () => {
+      const legacyId = await legacyDocument("nimbus-unversioned.pdf", false);
+
+      setExtraction([productCopy("Nimbus Speaker", { Headlines: ["Louder than ever"] })]);
+      const document = (await agent.post(`/api/documents/${legacyId}/reprocess`).expect(200)).body;
+      expect(document.pendingReprocess.conflicts.map((conflict: { field: string }) => conflict.field)).toEqual([
+        "Headlines",
+        "AdvertisingCopy",
+      ]);
+      expect(document.structuredData).toEqual(edited);
+    });
+  });
+
+  it("drops the validation score of the replaced data", async () => {
+    await agent.post(`/api/documents/${documentId}/validate`).expect(200);
+    const document = (await agent.post(`/api/documents/${documentId}/reprocess`).expect(200)).body;
+    expect(document.validationConfidence).toBeNull();
+    const [latest] = (await agent.get(`/api/documents/${documentId}/versions`).expect(200)).body;
+    expect(latest.validationConfidence).toBeNull();
+  });
+});
+
+describe("validate", () => {
+  it("stores the judges' confidence and issues on the document", async () => {
+    setExtraction([productCopy("Orbit Watch")]);
+    const documentId = await uploadDocument("orbit.pdf", "The Orbit Watch tracks every step you take.");
+
+    const { document, validation } = (await agent.post(`/api/documents/${documentId}/validate`).expect(200)).body;
+    expect(validation.confidence).toBe(0.5);
+    expect(validation.issues).toContain("No recorded judge fixture - review manually");
+    expect(document.validationConfidence).toBe(0.5);
+    expect(document.validationIssues).toEqual(validation.issues);
+    expect(document.needsReview).toBe(validation.needsReview);
+  });
+
+  it("returns 404 for an unknown document", async () => {
+    await agent.post("/api/documents/missing/validate").expect(404);
+  });
+});
+
+describe("manual edits", () => {
+  it("record a version only when the data changed", async () => {
+    setExtraction([productCopy("Vega Monitor")]);
+    const documentId = await uploadDocument("vega.pdf", "The Vega Monitor shows every color.");
+    const data = { ProductCopy: [productCopy("Vega Monitor")], BusinessCopy: [], UpgraderCopy: [] };
+
+    await agent.patch(`/api/documents/${documentId}`).send({ structuredData: data }).expect(200);
+    expect((await agent.get(`/api/documents/${documentId}/versions`).expect(200)).body).toEqual([]);
+
+    data.ProductCopy[0].Headlines = ["Every color, every pixel"];
+    await agent.patch(`/api/documents/${documentId}`).send({ structuredData: data }).expect(200);
+    const versions = (await agent.get(`/api/documents/${documentId}/versions`).expect(200)).body;
+    expect(versions.map((version: { changeDescription: string }) => version.changeDescription)).toEqual([
+      "Manual edit of ProductCopy[0].Headlines",
+    ]);
+  });
+});
+
+describe("review", () => {
+  it("lets only reviewers reopen a published document", async () => {
+    setExtraction([productCopy("Polaris Lamp")]);
+    const documentId = await uploadDocument("polaris.pdf", "The Polaris Lamp lights up the whole desk.");
+    for (const status of ["in_review", "approved", "published"]) {
+      await agent.post(`/api/documents/${documentId}/review/transitions`).send({ status }).expect(201);
+    }
+
+    await agent.post("/api/users").send({ username: "editor", password: "editor password", role: "editor" }).expect(201);
+    const editor = request.agent(agent.app);
+    await editor.post("/api/auth/login").send({ username: "editor", password: "editor password" }).expect(200);
+
+    await editor.post(`/api/documents/${documentId}/review/transitions`).send({ status: "in_review" }).expect(403);
+    await agent.post(`/api/documents/${documentId}/review/transitions`).send({ status: "in_review" }).expect(201);
+  });
+});
+
+describe("restore-version", () => {
+  it("restores an earlier version and keeps the current state as a new one", async () => {
+    setExtraction([productCopy("Comet Speaker")]);
+    const documentId = await uploadDocument("comet.pdf", "The Comet Speaker fills any room with sound.");
+    const edited = { ProductCopy: [productCopy("Comet Speaker", { Headlines: ["Louder than ever"] })], BusinessCopy: [], UpgraderCopy: [] };
+    await agent.patch(`/api/documents/${documentId}`).send({ structuredData: edited }).expect(200);
+
+    const versions = (await agent.get(`/api/documents/${documentId}/versions`).expect(200)).body;
+    const first = versions.find((version: { versionNumber: number }) => version.versionNumber === 1);
+
+    const restored = (await agent.post(`/api/documents/${documentId}/restore-version`).send({ versionId: first.id }).expect(200)).body;
+    expect(restored.structuredData).toEqual(first.structuredData);
+
+    const [latest] = (await agent.get(`/api/documents/${documentId}/versions`).expect(200)).body;
+    expect(latest.changeDescription).toBe("Before restoring to version 1");
+    expect(latest.structuredData).toEqual(edited);
+  });
+
+  it("requires a version that belongs to the document", async () => {
+    setExtraction([productCopy("Comet Mini")]);
+    const documentId = await uploadDocument("comet-mini.pdf", "The Comet Mini fits in any bag you carry.");
+    await agent.post(`/api/documents/${documentId}/restore-version`).send({}).expect(400);
+    await agent.post(`/api/documents/${documentId}/restore-version`).send({ versionId: "missing" }).expect(404);
+  });
+});
+
+describe("folder moves", () => {
+  it("refuses to move a folder into itself or a descendant", async () => {
+    const root = await createFolder("Campaigns");
+    const child = await createFolder("Spring", root);
+    const grandchild = await createFolder("Week 1", child);
+
+    await agent.post(`/api/folders/${root}/move`).send({ parentFolderId: root }).expect(400);
+    await agent.post(`/api/folders/${root}/move`).send({ parentFolderId: grandchild }).expect(400);
+    await agent.post(`/api/folders/${child}/move`).send({ parentFolderId: grandchild }).expect(400);
+
+    const folders = (await agent.get("/api/folders").expect(200)).body;
+    expect(folders.find((folder: { id: string }) => folder.id === root).parentFolderId).toBeNull();
+  });
+
+  it("allows the move once the target is no longer a descendant", async () => {
+    const root = await createFolder("Archive");
+    const child = await createFolder("2024", root);
+
+    await agent.post(`/api/folders/${child}/move`).send({ parentFolderId: null }).expect(200);
+    const moved = (await agent.post(`/api/folders/${root}/move`).send({ parentFolderId: child }).expect(200)).body;
+    expect(moved.parentFolderId).toBe(child);
+  });
+
+  it("applies the same checks to a parent change through PATCH and refuses server-owned fields", async () => {
+    const root = await createFolder("Launches");
+    const child = await createFolder("Autumn", root);
+
+    await agent.patch(`/api/folders/${root}`).send({ parentFolderId: child }).expect(400);
+    await agent.patch(`/api/folders/${root}`).send({ deletedAt: new Date().toISOString() }).expect(400);
+    await agent.patch(`/api/folders/${root}`).send({ consistencyReport: null }).expect(400);
+
+    const renamed = (await agent.patch(`/api/folders/${child}`).send({ name: "Fall", parentFolderId: null }).expect(200)).body;
+    expect(renamed).toMatchObject({ name: "Fall", parentFolderId: null, deletedAt: null });
+  });
+
+  it("refuses to move a folder into a trashed one", async () => {
+    const trashed = await createFolder("Old campaigns");
+    const folder = await createFolder("Holiday");
+    await agent.delete(`/api/folders/${trashed}`).expect(200);
+
+    await agent.post(`/api/folders/${folder}/move`).send({ parentFolderId: trashed }).expect(400);
+    await agent.post(`/api/folders/${folder}/move`).send({ parentFolderId: "missing" }).expect(400);
+    await agent.patch(`/api/folders/${trashed}`).send({ name: "Revived" }).expect(404);
+  });
+});
+
+describe("trashed documents", () => {
+  it("cannot be edited, reprocessed, reviewed, commented on or moved", async () => {
+    setExtraction([productCopy("Pulsar Earbuds")]);
+    const documentId = await uploadDocument("pulsar.pdf", "The Pulsar Earbuds cancel every sound but yours.");
+    const thread = (
+      await agent.post(`/api/documents/${documentId}/comments`).send({ path: "ProductCopy[0].Headlines[0]", body: "Too long?" }).expect(201)
+    ).body;
+    await agent.delete(`/api/documents/${documentId}`).expect(200);
+
+    await agent.patch(`/api/documents/${documentId}`).send({ name: "Renamed" }).expect(404);
+    await agent.post(`/api/documents/${documentId}/reprocess`).expect(404);
+    await agent.post(`/api/documents/${documentId}/validate`).expect(404);
+    await agent.patch(`/api/documents/${documentId}/review`).send({ assignee: "someone" }).expect(404);
+    await agent.post(`/api/documents/${documentId}/comments`).send({ path: "ProductCopy[0].Headlines[0]", body: "Hello" }).expect(404);
+    await agent.post(`/api/comment-threads/${thread.id}/comments`).send({ body: "Still there?" }).expect(404);
+    await agent.post(`/api/documents/${documentId}/move`).send({ folderId: null }).expect(404);
+  });
+
+  it("are no longer returned or counted", async () => {
+    setExtraction([productCopy("Cirrus Speaker")]);
+    const original = await uploadDocument("cirrus.pdf", "The Cirrus Speaker fills any room.");
+    const variant = await uploadDocument("cirrus-fr.pdf", "Le Cirrus Speaker remplit chaque pièce.");
+    const folder = await createFolder("Cirrus");
+    await agent.post(`/api/documents/${original}/move`).send({ folderId: folder }).expect(200);
+    await agent.post(`/api/documents/${variant}/move`).send({ folderId: folder }).expect(200);
+    await agent.patch(`/api/documents/${original}`).send({ isOriginal: true }).expect(200);
+    const report = (await agent.post(`/api/folders/${folder}/consistency`).expect(200)).body;
+    expect(report.variants.map((entry: { documentId: string }) => entry.documentId)).toEqual([variant]);
+
+    const variantCount = async () =>
+      (await agent.get("/api/products").expect(200)).body.find((product: { name: string }) => product.name === "Cirrus Speaker")
+        .variantCount;
+    expect(await variantCount()).toBe(2);
+
+    await agent.delete(`/api/documents/${variant}`).expect(200);
+    await agent.get(`/api/documents/${variant}`).expect(404);
+    expect(await variantCount()).toBe(1);
+    expect((await agent.get(`/api/folders/${folder}/consistency`).expect(200)).body).toMatchObject({ variants: [], issueCount: 0 });
+
+    await agent.delete(`/api/folders/${folder}`).expect(200);
+    await agent.get(`/api/folders/${folder}/consistency`).expect(404);
+    await agent.post(`/api/folders/${folder}/consistency`).expect(404);
+  });
+
+  it("cannot be moved into a folder that does not exist or is trashed", async () => {
+    setExtraction([productCopy("Vega Lamp")]);
+    const documentId = await uploadDocument("vega.pdf", "The Vega Lamp lights your desk just right.");
+    const trashed = await createFolder("Retired");
+    await agent.delete(`/api/folders/${trashed}`).expect(200);
+
+    await agent.post(`/api/documents/${documentId}/move`).send({ folderId: "missing" }).expect(400);
+    await agent.post(`/api/documents/${documentId}/move`).send({ folderId: trashed }).expect(400);
+    await agent.patch(`/api/documents/${documentId}`).send({ folderId: trashed }).expect(400);
+    const moved = (await agent.post(`/api/documents/${documentId}/move`).send({ folderId: null }).expect(200)).body;
+    expect(moved.folderId).toBeNull();
+  });
+});
+
+describe("duplicates", () => {
+  let documentId: string;
+  const text = "The Solstice Watch keeps perfect time.";
+
+  beforeAll(async () => {
+    setExtraction([productCopy("Solstice Watch")]);
+    documentId = await uploadDocument("solstice.pdf", text);
+  });
+
+  it("refuses an identical file and names the document it matches", async () => {
+    const res = await agent.post("/api/documents/upload").attach("file", makePdf(text), "solstice-copy.pdf").expect(409);
+    expect(res.body.duplicates).toEqual([
+      expect.objectContaining({ fileName: "solstice-copy.pdf", match: "file", document: expect.objectContaining({ id: documentId }) }),
+    ]);
+
+    await agent
+      .post("/api/documents/upload-set")
+      .attach("files", makePdf(text), "solstice.pdf")
+      .field("folderName", "Solstice set")
+      .expect(409);
+    const folders = (await agent.get("/api/folders").expect(200)).body;
+    expect(folders.map((folder: { name: string }) => folder.name)).not.toContain("Solstice set");
+  });
+
+  it("links an identical file to the existing document", async () => {
+    const before = (await agent.get("/api/documents").expect(200)).body.length;
+    const res = await agent
+      .post("/api/documents/upload")
+      .attach("file", makePdf(text), "solstice-copy.pdf")
+      .field("onDuplicate", "link")
+      .expect(202);
+    const job = await waitForJob(res.body.id);
+
+    expect(job.files[0]).toMatchObject({ status: "completed", documentId });
+    expect((await agent.get("/api/documents").expect(200)).body).toHaveLength(before);
+  });
+
+  it("holds a file with the same text until it is resolved", async () => {
+    const res = await agent
+      .post("/api/documents/upload")
+      .attach("file", makePdf("THE SOLSTICE   WATCH keeps perfect time."), "solstice-shouty.pdf")
+      .expect(202);
+    const held = await waitForJob(res.body.id);
+    expect(held.files[0]).toMatchObject({ status: "duplicate", duplicateOfDocumentId: documentId, documentId: null });
+
+    await agent.post(`/api/jobs/${held.id}/files/${held.files[0].id}/duplicate`).send({ action: "ask" }).expect(400);
+    await agent.post(`/api/jobs/${held.id}/files/${held.files[0].id}/duplicate`).send({ action: "proceed" }).expect(200);
+    const job = await waitForJob(held.id);
+    expect(job.files[0].status).toBe("completed");
+    expect(job.files[0].documentId).not.toBe(documentId);
+
+    await agent.post(`/api/jobs/${held.id}/files/${held.files[0].id}/duplicate`).send({ action: "link" }).expect(409);
+  });
+
+  it("adds an identical file as a new version of the existing document", async () => {
+    setExtraction([productCopy("Solstice Watch", { Headlines: ["Time, perfected"] })]);
+    const res = await agent
+      .post("/api/documents/upload")
+      .attach("file", makePdf(text), "solstice-v2.pdf")
+      .field("onDuplicate", "version")
+      .expect(202);
+    const job = await waitForJob(res.body.id);
+    expect(job.files[0]).toMatchObject({ status: "completed", documentId });
+
+    const document = (await agent.get(`/api/documents/${documentId}`).expect(200)).body;
+    expect(document.structuredData.ProductCopy[0].Headlines).toEqual(["Time, perfected"]);
+    expect((await agent.get(`/api/documents/${documentId}/versions`).expect(200)).body.length).toBeGreaterThan(0);
+  });
+
+  it("swaps in a new version's file only when its conflicting reprocess is applied", async () => {
+    const { storage } = await import("./storage");
+    const { DocumentStorageService } = await import("./documentStorage");
+    const files = new DocumentStorageService();
+    const exists = (storagePath: string) => files.downloadDocument(storagePath).then(() => true, () => false);
+
+    const current = (await agent.get(`/api/documents/${documentId}`).expect(200)).body;
+    await agent
+      .patch(`/api/documents/${documentId}`)
+      .send({ structuredData: { ...current.structuredData, ProductCopy: [{ ...current.structuredData.ProductCopy[0], AdvertisingCopy: "Edited by hand." }] } })
+      .expect(200);
+    const oldPath = (await storage.getDocument(documentId))!.filePath;
+
+    async function uploadConflictingVersion() {
+      setExtraction([productCopy("Solstice Watch", { AdvertisingCopy: "New copy from the model." })]);
+      const res = await agent.post("/api/documents/upload").attach("file", makePdf(text), "solstice-v3.pdf").field("onDuplicate", "version").expect(202);
+      expect((await waitForJob(res.body.id)).files[0].status).toBe("completed");
+      const parked = (await storage.getDocument(documentId))!;
+      expect(parked.filePath).toBe(oldPath);
+      expect(parked.pendingReprocess?.file).toBeTruthy();
+      return parked.pendingReprocess!.file!.storagePath;
+    }
+
+    const discardedPath = await uploadConflictingVersion();
+    await agent.delete(`/api/documents/${documentId}/reprocess`).expect(200);
+    expect((await storage.getDocument(documentId))!.filePath).toBe(oldPath);
+    expect(await exists(discardedPath)).toBe(false);
+    expect(await exists(oldPath)).toBe(true);
+
+    const newPath = await uploadConflictingVersion();
+    const conflictId = 'ProductCopy["Solstice Watch"].AdvertisingCopy';
+    await agent.post(`/api/documents/${documentId}/reprocess/resolve`).send({ resolutions: { [conflictId]: "current" } }).expect(200);
+    expect((await storage.getDocument(documentId))!.filePath).toBe(newPath);
+    expect(await exists(newPath)).toBe(true);
+    expect(await exists(oldPath)).toBe(false);
+  });
+});
+
+describe("llm cache", () => {
+  beforeAll(() => {
+    process.env.LLM_CACHE = "on";
+  });
+
+  afterAll(() => {
+    process.env.LLM_CACHE = "off";
+  });
+
+  it("replays responses for unchanged input until the task is invalidated", async () => {
+    setExtraction([productCopy("Quasar Drone")]);
+    const documentId = await uploadDocument("quasar.pdf", "The Quasar Drone films in 8K from the sky.");
+
+    // Same text, same prompt: the new fixture is not consulted
+    setExtraction([productCopy("Quasar Drone", { Headlines: ["Fly higher"] })]);
+    const replayed = (await agent.post(`/api/documents/${documentId}/reprocess`).expect(200)).body;
+    expect(replayed.structuredData.ProductCopy[0].Headlines).toEqual(["Meet the Quasar Drone"]);
+
+    const { llmCache } = (await agent.get("/api/analytics").expect(200)).body;
+    expect(llmCache.enabled).toBe(true);
+    expect(llmCache.tasks).toEqual(
+      expect.arrayContaining([expect.objectContaining({ task: "extraction", hits: 1, misses: 1, entries: 1, hitRate: 0.5 })])
+    );
+
+    await agent.delete("/api/llm-cache").query({ task: "nope" }).expect(400);
+    const { deleted } = (await agent.delete("/api/llm-cache").query({ task: "extraction" }).expect(200)).body;
+    expect(deleted).toBe(1);
+
+    const refreshed = (await agent.post(`/api/documents/${documentId}/reprocess`).expect(200)).body;
+    expect(refreshed.structuredData.ProductCopy[0].Headlines).toEqual(["Fly higher"]);
+  });
+});
@@ -3,20 +3,46 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import multer from "multer";
 import mammoth from "mammoth";
-import { insertDocumentSchema, insertFolderSchema } from "@shared/schema";
-import OpenAI from "openai";
+import { insertDocumentSchema, insertFolderSchema, mergeProductsRequest, splitProductRequest, reviewAssignmentRequest, reviewTransitionRequest, createCommentThreadRequest, createCommentRequest, updateDocumentRequest, updateFolderRequest, moveFolderRequest, moveDocumentRequest, versionDiffQuery, resolveReprocessRequest, uploadDuplicateAction, resolveDuplicateRequest, updateCommentThreadRequest, auditLogQuery, hasRole, REVIEW_STATUSES, type Document, type InsertDocument, type ReviewStatus, type ExtractionSchema, type InsertProcessingJobFile, type ProcessingJobProgress, type DuplicateAction, type DuplicateMatch } from "@shared/schema";
 import fs from "fs";
 import { validateExtraction, quickValidationChecks } from "./validation";
 import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
 import { DocumentStorageService, DocumentNotFoundError } from "./documentStorage";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { readFileSource, storedFile } from "./fileSource";
+import { LLM_TASKS, type LLMTask } from "./llmProvider";
+import { completeTaskCached, getLlmCacheSummary, invalidateLlmCache } from "./llmCache";
+import { EmptyExtractionError, DOCUMENT_MIME_TYPES } from "./processing";
+import { enqueueProcessingJob, getJobProgress, isJobFinished, startJobWorker, resolveDuplicateJobFile, JobFileNotDuplicateError } from "./jobQueue";
+import { findDuplicateDocument, hashFile } from "./contentHash";
+import { computeSourceSpans } from "./sourceSpans";
+import { checkFolderConsistency, currentConsistencyReport, FolderHasNoOriginalError } from "./folderConsistency";
+import { anchorForPath, reanchorCommentThreads } from "./commentAnchors";
+import { setupAuth, requireAuth, requireRole, actorId } from "./auth";
+import { recordAuditActor } from "./auditLog";
+import { getTrashContents, purgeDocument, purgeFolder, startTrashPurge } from "./trash";
+import { diffDocumentVersions, VersionNotFoundError } from "./versionDiff";
+import { discardPendingReprocess, reprocessDocument, resolvePendingReprocess, ReprocessNotPendingError, StaleReprocessError, UnknownConflictError } from "./reprocess";
+import { assertEditable, transitionReview, DocumentPublishedError, InvalidReviewTransitionError } from "./reviewWorkflow";
+import {
+  createExtractionSchemaVersion,
+  ensureDefaultExtractionSchema,
+  extractionSchemaForDocument,
+  getLatestExtractionSchemaOrThrow,
+  resolveExtractionSchema,
+  ExtractionSchemaNotFoundError,
+} from "./extractionSchemas";
+import { createExtractionSchemaRequest, entryName, sectionEntries, validateStructuredData, changedStructuredDataPaths, type ExtractionSchemaDefinition } from "@shared/extractionSchema";
+import { fromZodError } from "zod-validation-error";
 
 // Schema for structured product data
 const structuredDataSchema = insertDocumentSchema.pick({ structuredData: true }).shape.structuredData;
 
+// How often the job progress stream checks for changes
+const JOB_EVENTS_INTERVAL_MS = 1000;
+
+// LLM cache key version for translations
+const TRANSLATION_PROMPT_VERSION = "1";
+
 // Configure multer for file uploads
 const upload = multer({
   dest: "/tmp/uploads",
@@ -25,64 +51,6 @@ const upload = multer({
   },
 });
 
-async function extractTextFromFile(filePath: string, fileType: string): Promise<string> {
-  try {
-    if (fileType === "docx") {
-      const result = await mammoth.extractRawText({ path: filePath });
-      return result.value;
-    } else if (fileType === "pdf") {
-      const dataBuffer = fs.readFileSync(filePath);
-      const uint8Array = new Uint8Array(dataBuffer);
-      const pdf = await getDocument({ data: uint8Array, useSystemFonts: true }).promise;
-      
-      let fullText = "";
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        const pageText = textContent.items
-          .map((item: any) => item.str)
-          .join(" ");
-        fullText += pageText + "\n";
-      }
-      return fullText.trim();
-    } else if (fileType === "pages") {
-      // Pages files are proprietary zip archives that require specialized parsing
-      // For production use, recommend converting to PDF or DOCX first
-      throw new Error("Pages format not supported. Please convert to PDF or DOCX format.");
-    }
-    throw new Error(`Unsupported file type: ${fileType}`);
-  } catch (error) {
-    console.error("Text extraction error:", error);
-    throw new Error(`Failed to extract text from ${fileType} file`);
-  }
-}
-
-async function detectLanguage(text: string): Promise<string> {
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: "You are a language detection specialist. Identify the primary language of the provided text. Respond with only the language name in English (e.g., 'English', 'Japanese', 'Spanish', 'French', 'German', 'Chinese', 'Korean', etc.)."
-        },
-        {
-          role: "user",
-          content: text.slice(0, 2000) // Use first 2000 chars for language detection
-        }
-      ],
-      max_tokens: 10,
-      temperature: 0
-    });
-
-    const language = response.choices[0].message.content?.trim() || "Unknown";
-    return language;
-  } catch (error) {
-    console.error("Language detection error:", error);
-    return "Unknown";
-  }
-}
-
 async function checkCircularReference(folderId: string, targetParentId: string): Promise<boolean> {
   // Check if moving folderId into targetParentId would create a circular reference
   // This happens if targetParentId is folderId itself or any of its descendants
@@ -114,350 +82,133 @@ async function checkCircularReference(folderId: string, targetParentId: string):
   return false;
 }
 
-async function processWithGPT5(extractedText: string): Promise<any> {
-  try {
-    // Note: Using gpt-4o-2024-08-06 or later for structured outputs
-    // This enforces strict JSON schema with guaranteed field order
-    
-    // Truncate very large documents to stay within token limits
-    // Estimate ~4 characters per token, limit to ~20,000 tokens for safety
-    const maxChars = 80000;
-    let textToProcess = extractedText;
-    if (extractedText.length > maxChars) {
-      console.log(`Document too large (${extractedText.length} chars), truncating to ${maxChars} chars`);
-      textToProcess = extractedText.substring(0, maxChars) + "\n\n[Document truncated due to size limits]";
-    }
-    
-    // Define the copy section schema (reusable for ProductCopy, BusinessCopy, UpgraderCopy)
-    const copySectionSchema = {
-      type: "object",
-      properties: {
-        ProductName: {
-          type: "string",
-          description: "Name of the product this copy is for"
-        },
-        Headlines: {
-          type: "array",
-          description: "Array of headline strings",
-          items: { type: "string" }
-        },
-        AdvertisingCopy: {
-          type: "string",
-          description: "Main advertising copy/description with {{sup:N}} tokens for footnotes"
-        },
-        KeyFeatureBullets: {
-          type: "array",
-          description: "Array of feature bullets with {{sup:N}} tokens for footnotes",
-          items: { type: "string" }
-        },
-        LegalReferences: {
-          type: "array",
-          description: "Legal disclaimers/footnotes, each prefixed with {{sup:N}} token or standalone legal text",
-          items: { type: "string" }
-        }
-      },
-      required: ["ProductName", "Headlines", "AdvertisingCopy", "KeyFeatureBullets", "LegalReferences"],
-      additionalProperties: false
-    };
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-2024-08-06",
-      messages: [
-        {
-          role: "system",
-          content: `You are a product documentation extraction specialist. Extract structured product information from the provided text.
-
-LANGUAGE HANDLING:
-- **JSON field names** (ProductCopy, BusinessCopy, UpgraderCopy, ProductName, Headlines, AdvertisingCopy, KeyFeatureBullets, LegalReferences) MUST ALWAYS be in English
-- **Content values** (product names, headlines, advertising copy, feature bullets, legal references) MUST remain in the source document's original language
-- Do NOT translate the content - preserve the exact language from the source document
-
-Documents can contain different copy sections:
-- ProductCopy: General product marketing copy
-- BusinessCopy: Copy targeted at business customers
-- UpgraderCopy: Copy for customers upgrading from previous versions
-
-CRITICAL MULTI-PRODUCT EXTRACTION RULES:
-1. **Scan the ENTIRE document** for every product mentioned in EACH section
-2. **Look for product headings** like "iPhone 16 Pro Max", "iPhone 16 Pro", "Apple Watch Ultra 2", etc.
-3. **Extract EVERY product separately** - do NOT stop after the first product
-4. **Each product gets its own entry** in the array for that section
-5. Documents often list multiple products in sequence - extract ALL of them
-6. If you see a table of contents listing multiple products (e.g., "iPhone 16 Pro Max...2, iPhone 16 Pro...3"), extract copy for EACH product listed
-
-EXAMPLE: If a document has:
-- "Product copy" section with iPhone 16 Pro Max, iPhone 16 Pro, iPhone 16 Plus, iPhone 16
-- Create FOUR separate entries in ProductCopy array, one for each iPhone model
-
-Each product entry contains: ProductName, Headlines, AdvertisingCopy, KeyFeatureBullets, and LegalReferences (ALWAYS LAST).
-
-CRITICAL: Handle superscripts in THREE distinct ways:
-
-A. FOOTNOTES / CLAIM REFERENCES (¹, ², ³, etc.)
-   - Replace with tokens in text: {{sup:1}}, {{sup:2}}, {{sup:3}}
-   - Add the SAME token at the START of the corresponding legal reference
-   - Example: 
-     * In content: "battery for several days{{sup:1}}"
-     * In LegalReferences: "{{sup:1}} Battery life varies by use and configuration."
-
-B. LEGAL MARKS (™, ®, ℠)
-   - Do NOT include these marks in the text
-   - These are just visual indicators, not content
-
-C. UNITS AND SCIENTIFIC NOTATION (cm², H₂O, 10⁶, CO₂e, etc.)
-   - Keep as literal Unicode characters
-   - These are semantic content, not formatting
-
-Extract sections that exist in the document. If a section is not present, omit it entirely.`,
-        },
-        {
-          role: "user",
-          content: textToProcess,
-        },
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "product_extraction",
-          schema: {
-            type: "object",
-            properties: {
-              ProductCopy: {
-                anyOf: [
-                  {
-                    type: "array",
-                    items: copySectionSchema,
-                    description: "Array of products with general marketing copy"
-                  },
-                  { type: "null" }
-                ],
-                description: "General product marketing copy section (optional, can contain multiple products)"
-              },
-              BusinessCopy: {
-                anyOf: [
-                  {
-                    type: "array",
-                    items: copySectionSchema,
-                    description: "Array of products with business-focused copy"
-                  },
-                  { type: "null" }
-                ],
-                description: "Business-focused copy section (optional, can contain multiple products)"
-              },
-              UpgraderCopy: {
-                anyOf: [
-                  {
-                    type: "array",
-                    items: copySectionSchema,
-                    description: "Array of products with upgrade-focused copy"
-                  },
-                  { type: "null" }
-                ],
-                description: "Upgrade-focused copy section (optional, can contain multiple products)"
-              }
-            },
-            required: ["ProductCopy", "BusinessCopy", "UpgraderCopy"],
-            additionalProperties: false
-          }
-        }
-      }
-    });
+// Trashed rows are only reachable through the trash routes; everywhere else they are treated as gone
+async function getActiveDocument(id: string) {
+  const document = await storage.getDocument(id);
+  return document && !document.deletedAt ? document : undefined;
+}
 
-    const content = response.choices[0].message.content;
-    const parsedData = JSON.parse(content || "{}");
-    
-    // Helper function to normalize a single product with correct field order
-    const normalizeProduct = (product: any) => {
-      return {
-        ProductName: product.ProductName || "",
-        Headlines: Array.isArray(product.Headlines) ? product.Headlines : [],
-        AdvertisingCopy: product.AdvertisingCopy || "",
-        KeyFeatureBullets: Array.isArray(product.KeyFeatureBullets) ? product.KeyFeatureBullets : [],
-        LegalReferences: Array.isArray(product.LegalReferences) ? product.LegalReferences : [],
-      };
-    };
-    
-    // Helper function to normalize a copy section (array of products) with correct field order
-    const normalizeCopySection = (section: any) => {
-      // Return null if section is null or undefined
-      if (!section || section === null) return null;
-      
-      // Handle array of products
-      if (Array.isArray(section)) {
-        return section.map(normalizeProduct);
-      }
-      
-      // Handle legacy single product format (for backward compatibility)
-      return [normalizeProduct(section)];
-    };
-    
-    // CRITICAL: Explicitly reconstruct the object in the correct order
-    // This ensures JSON.stringify outputs fields in this exact sequence
-    const normalized: any = {};
-    
-    // Add sections in order, only if they're not null
-    const productCopy = normalizeCopySection(parsedData.ProductCopy);
-    if (productCopy !== null) {
-      normalized.ProductCopy = productCopy;
-    }
-    
-    const businessCopy = normalizeCopySection(parsedData.BusinessCopy);
-    if (businessCopy !== null) {
-      normalized.BusinessCopy = businessCopy;
-    }
-    
-    const upgraderCopy = normalizeCopySection(parsedData.UpgraderCopy);
-    if (upgraderCopy !== null) {
-      normalized.UpgraderCopy = upgraderCopy;
-    }
-    
-    // Verify the order is correct by stringifying and re-parsing
-    // This guarantees consistent field order in storage
-    return JSON.parse(JSON.stringify(normalized));
-  } catch (error) {
-    console.error("GPT processing error:", error);
-    throw new Error("Failed to process document with AI");
-  }
+async function getActiveFolder(id: string) {
+  const folder = await storage.getFolder(id);
+  return folder && !folder.deletedAt ? folder : undefined;
 }
 
-// Helper function to analyze document structure
-function analyzeDocumentStructure(structuredData: any) {
-  if (!structuredData) {
-    return {
-      hasProductCopy: false,
-      hasBusinessCopy: false,
-      hasUpgraderCopy: false,
-      productCopyCompleteness: null,
-      businessCopyCompleteness: null,
-      upgraderCopyCompleteness: null,
-      productNames: { ProductCopy: [], BusinessCopy: [], UpgraderCopy: [] },
-    };
-  }
+// Why the folder cannot be placed under parentFolderId, or null if it can (null parent is the top level)
+async function folderParentError(folderId: string, parentFolderId: string | null): Promise<string | null> {
+  if (!parentFolderId) return null;
+  if (!(await getActiveFolder(parentFolderId))) return "Target folder not found";
+  if (await checkCircularReference(folderId, parentFolderId)) return "Cannot move folder into itself or its descendants";
+  return null;
+}
 
-  // Analyze a single product
-  const analyzeProduct = (product: any) => {
-    return {
-      productName: product.ProductName || "",
-      hasProductName: !!product.ProductName && product.ProductName.length > 0,
-      hasHeadlines: Array.isArray(product.Headlines) && product.Headlines.length > 0,
-      hasAdvertisingCopy: !!product.AdvertisingCopy && product.AdvertisingCopy.length > 0,
-      hasKeyFeatureBullets: Array.isArray(product.KeyFeatureBullets) && product.KeyFeatureBullets.length > 0,
-      hasLegalReferences: Array.isArray(product.LegalReferences) && product.LegalReferences.length > 0,
-      headlinesCount: Array.isArray(product.Headlines) ? product.Headlines.length : 0,
-      keyFeatureBulletsCount: Array.isArray(product.KeyFeatureBullets) ? product.KeyFeatureBullets.length : 0,
-      legalReferencesCount: Array.isArray(product.LegalReferences) ? product.LegalReferences.length : 0,
-    };
-  };
+// Default change description for a manual edit, naming the first few changed fields
+function describeEdit(paths: string[]): string {
+  if (paths.length === 0) return "Manual edit";
+  const shown = paths.slice(0, 3).join(", ");
+  return paths.length > 3 ? `Manual edit of ${shown} and ${paths.length - 3} more` : `Manual edit of ${shown}`;
+}
 
-  // Analyze a copy section (array of products)
-  const analyzeCopySection = (section: any) => {
-    if (!section) return null;
-    
-    // Handle array of products (new format)
-    if (Array.isArray(section)) {
-      return section.map(analyzeProduct);
-    }
-    
-    // Handle legacy single product format
-    return [analyzeProduct(section)];
+// Documents processed before source spans existed get them computed for the response; reads never write
+// (server/migrate-source-spans.ts stores them)
+async function withSourceSpans(document: Document): Promise<Document> {
+  if (document.sourceSpans || !document.structuredData) return document;
+  const { definition } = await extractionSchemaForDocument(document);
+  return {
+    ...document,
+    sourceSpans: computeSourceSpans(document.extractedText, document.structuredData, definition, document.pageRanges),
   };
+}
 
-  const productCopyAnalysis = analyzeCopySection(structuredData.ProductCopy);
-  const businessCopyAnalysis = analyzeCopySection(structuredData.BusinessCopy);
-  const upgraderCopyAnalysis = analyzeCopySection(structuredData.UpgraderCopy);
+// Helper function to analyze document structure against its extraction schema
+function analyzeDocumentStructure(structuredData: any, definition: ExtractionSchemaDefinition) {
+  // Analyze a single entry: which fields are filled in, and how many items list fields have
+  const analyzeProduct = (product: any, index: number) => ({
+    productName: entryName(definition, product, index),
+    fields: definition.fields.map((field) => {
+      const value = product[field.name];
+      const count = Array.isArray(value) ? value.length : typeof value === "string" && value.length > 0 ? 1 : 0;
+      return { name: field.name, label: field.label, type: field.type, role: field.role ?? null, present: count > 0, count };
+    }),
+  });
 
   return {
-    hasProductCopy: !!structuredData.ProductCopy && (!Array.isArray(structuredData.ProductCopy) || structuredData.ProductCopy.length > 0),
-    hasBusinessCopy: !!structuredData.BusinessCopy && (!Array.isArray(structuredData.BusinessCopy) || structuredData.BusinessCopy.length > 0),
-    hasUpgraderCopy: !!structuredData.UpgraderCopy && (!Array.isArray(structuredData.UpgraderCopy) || structuredData.UpgraderCopy.length > 0),
-    productCopyCompleteness: productCopyAnalysis,
-    businessCopyCompleteness: businessCopyAnalysis,
-    upgraderCopyCompleteness: upgraderCopyAnalysis,
-    productNames: {
-      ProductCopy: productCopyAnalysis ? productCopyAnalysis.map(p => p.productName) : [],
-      BusinessCopy: businessCopyAnalysis ? businessCopyAnalysis.map(p => p.productName) : [],
-      UpgraderCopy: upgraderCopyAnalysis ? upgraderCopyAnalysis.map(p => p.productName) : [],
-    },
+    sections: definition.sections.map((section) => {
+      const products = sectionEntries(structuredData, section.name).map(analyzeProduct);
+      return { name: section.name, label: section.label, present: products.length > 0, products };
+    }),
   };
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and /api/auth/*; everything registered after this needs a signed-in user
+  setupAuth(app);
+  app.use("/api", requireAuth);
+
   // Analytics
   app.get("/api/analytics", async (req, res) => {
     try {
       const allDocuments = await storage.getAllDocuments();
       const processedDocuments = allDocuments.filter(doc => doc.isProcessed);
       
-      let productCopyCount = 0;
-      let businessCopyCount = 0;
-      let upgraderCopyCount = 0;
+      const sectionCoverage = new Map<string, { name: string; label: string; count: number }>();
       let totalProductsExtracted = 0;
       
-      let emptyKeyFeatureBulletsCount = 0;
+      let emptyListFieldsCount = 0;
       let documentsWithMissingFields = 0;
+
+      // Documents mostly share a handful of schema versions
+      const schemas = new Map<string, Promise<ExtractionSchema>>();
+      const schemaFor = (doc: Document) => {
+        const key = doc.extractionSchemaId || "";
+        if (!schemas.has(key)) schemas.set(key, extractionSchemaForDocument(doc));
+        return schemas.get(key)!;
+      };
       
-      const documentAnalysis = processedDocuments.map(doc => {
-        const analysis = analyzeDocumentStructure(doc.structuredData);
-        
-        if (analysis.hasProductCopy) productCopyCount++;
-        if (analysis.hasBusinessCopy) businessCopyCount++;
-        if (analysis.hasUpgraderCopy) upgraderCopyCount++;
+      const documentAnalysis = [];
+      for (const doc of processedDocuments) {
+        const schema = await schemaFor(doc);
+        const analysis = analyzeDocumentStructure(doc.structuredData, schema.definition);
+        const products = analysis.sections.flatMap((section) => section.products);
+
+        for (const section of analysis.sections) {
+          const coverage = sectionCoverage.get(section.name) ?? { name: section.name, label: section.label, count: 0 };
+          if (section.present) coverage.count++;
+          sectionCoverage.set(section.name, coverage);
+        }
         
         // Count total products across all sections
-        totalProductsExtracted += analysis.productNames.ProductCopy.length;
-        totalProductsExtracted += analysis.productNames.BusinessCopy.length;
-        totalProductsExtracted += analysis.productNames.UpgraderCopy.length;
-        
-        // Check for empty KeyFeatureBullets in any product across all sections
-        const checkEmptyBullets = (products: any[] | null) => {
-          if (!products || !Array.isArray(products)) return false;
-          return products.some(p => !p.hasKeyFeatureBullets);
-        };
+        totalProductsExtracted += products.length;
         
-        const hasEmptyBullets = 
-          checkEmptyBullets(analysis.productCopyCompleteness) ||
-          checkEmptyBullets(analysis.businessCopyCompleteness) ||
-          checkEmptyBullets(analysis.upgraderCopyCompleteness);
-        
-        if (hasEmptyBullets) emptyKeyFeatureBulletsCount++;
-        
-        // Check if any product has missing required fields
-        const checkCompleteness = (products: any[] | null) => {
-          if (!products || !Array.isArray(products)) return false;
-          return products.some(p => 
-            !p.hasProductName || !p.hasHeadlines || 
-            !p.hasAdvertisingCopy || !p.hasLegalReferences
-          );
-        };
+        // Check for empty list fields (bullets, headlines...) in any product across all sections
+        if (products.some(p => p.fields.some(f => f.type === "string[]" && f.role !== "legal" && !f.present))) {
+          emptyListFieldsCount++;
+        }
         
-        if (checkCompleteness(analysis.productCopyCompleteness) ||
-            checkCompleteness(analysis.businessCopyCompleteness) ||
-            checkCompleteness(analysis.upgraderCopyCompleteness)) {
+        // Check if any product has missing fields
+        if (products.some(p => p.fields.some(f => !f.present))) {
           documentsWithMissingFields++;
         }
         
-        return {
+        documentAnalysis.push({
           id: doc.id,
           name: doc.name,
+          extractionSchema: { key: schema.key, version: schema.version, name: schema.name },
           ...analysis,
-        };
-      });
+        });
+      }
       
       res.json({
         totalDocuments: allDocuments.length,
         processedDocuments: processedDocuments.length,
         unprocessedDocuments: allDocuments.length - processedDocuments.length,
         totalProductsExtracted,
-        sectionCoverage: {
-          productCopy: productCopyCount,
-          businessCopy: businessCopyCount,
-          upgraderCopy: upgraderCopyCount,
-        },
+        sectionCoverage: Array.from(sectionCoverage.values()),
         qualityMetrics: {
-          documentsWithEmptyKeyFeatureBullets: emptyKeyFeatureBulletsCount,
+          documentsWithEmptyListFields: emptyListFieldsCount,
           documentsWithMissingFields: documentsWithMissingFields,
         },
         documentAnalysis,
+        llmCache: await getLlmCacheSummary(),
       });
     } catch (error: any) {
       console.error("Error generating analytics:", error);
@@ -465,6 +216,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Drops cached LLM responses (?task=extraction for one task), so the next calls go to the provider
+  app.delete("/api/llm-cache", requireRole("admin"), async (req, res) => {
+    try {
+      const task = req.query.task;
+      if (task !== undefined && !LLM_TASKS.some((known) => known === task)) {
+        return res.status(400).json({ error: `Unknown task; expected one of ${LLM_TASKS.join(", ")}` });
+      }
+      const deleted = await invalidateLlmCache(task as LLMTask | undefined);
+      res.json({ deleted });
+    } catch (error) {
+      console.error("Error clearing LLM cache:", error);
+      res.status(500).json({ error: "Failed to clear LLM cache" });
+    }
+  });
+
   // Folders
   app.get("/api/folders", async (req, res) => {
     try {
@@ -476,53 +242,126 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/folders", async (req, res) => {
+  app.post("/api/folders", requireRole("editor"), async (req, res) => {
     try {
       const validatedData = insertFolderSchema.parse(req.body);
-      const folder = await storage.createFolder(validatedData);
+      if (req.body.extractionSchemaKey) {
+        await getLatestExtractionSchemaOrThrow(req.body.extractionSchemaKey);
+      }
+      const folder = await storage.createFolder(validatedData, actorId(req));
       res.json(folder);
     } catch (error) {
       console.error("Error creating folder:", error);
+      if (error instanceof ExtractionSchemaNotFoundError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(400).json({ error: "Failed to create folder" });
     }
   });
 
-  app.patch("/api/folders/:id", async (req, res) => {
+  app.patch("/api/folders/:id", requireRole("editor"), async (req, res) => {
     try {
       const { id } = req.params;
-      const folder = await storage.updateFolder(id, req.body);
+      const parsed = updateFolderRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      if (!(await getActiveFolder(id))) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      if (parsed.data.extractionSchemaKey) {
+        await getLatestExtractionSchemaOrThrow(parsed.data.extractionSchemaKey);
+      }
+      if (parsed.data.parentFolderId !== undefined) {
+        const parentError = await folderParentError(id, parsed.data.parentFolderId);
+        if (parentError) {
+          return res.status(400).json({ error: parentError });
+        }
+      }
+      const folder = await storage.updateFolder(id, parsed.data);
       if (!folder) {
         return res.status(404).json({ error: "Folder not found" });
       }
       res.json(folder);
     } catch (error) {
       console.error("Error updating folder:", error);
+      if (error instanceof ExtractionSchemaNotFoundError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(400).json({ error: "Failed to update folder" });
     }
   });
 
-  app.delete("/api/folders/:id", async (req, res) => {
+  // Extraction Schemas (every version; the client picks the latest per key)
+  app.get("/api/extraction-schemas", async (req, res) => {
+    try {
+      await ensureDefaultExtractionSchema();
+      const schemas = await storage.getAllExtractionSchemas();
+      res.json(schemas);
+    } catch (error) {
+      console.error("Error fetching extraction schemas:", error);
+      res.status(500).json({ error: "Failed to fetch extraction schemas" });
+    }
+  });
+
+  app.get("/api/extraction-schemas/:id", async (req, res) => {
+    try {
+      const schema = await storage.getExtractionSchema(req.params.id);
+      if (!schema) {
+        return res.status(404).json({ error: "Extraction schema not found" });
+      }
+      res.json(schema);
+    } catch (error) {
+      console.error("Error fetching extraction schema:", error);
+      res.status(500).json({ error: "Failed to fetch extraction schema" });
+    }
+  });
+
+  // Creates version 1 of a new key, or the next version of an existing one
+  app.post("/api/extraction-schemas", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = createExtractionSchemaRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const schema = await createExtractionSchemaVersion(parsed.data);
+      res.status(201).json(schema);
+    } catch (error) {
+      console.error("Error creating extraction schema:", error);
+      res.status(500).json({ error: "Failed to create extraction schema" });
+    }
+  });
+
+  // Moves the folder, its subfolders and their documents to the trash
+  app.delete("/api/folders/:id", requireRole("editor"), async (req, res) => {
     try {
       const { id } = req.params;
-      await storage.deleteFolder(id);
-      res.json({ success: true });
+      const trashed = await storage.trashFolder(id);
+      if (trashed.folders.length === 0) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      res.json({ success: true, folders: trashed.folders.length, documents: trashed.documents.length });
     } catch (error) {
       console.error("Error deleting folder:", error);
       res.status(400).json({ error: "Failed to delete folder" });
     }
   });
 
-  app.post("/api/folders/:id/move", async (req, res) => {
+  app.post("/api/folders/:id/move", requireRole("editor"), async (req, res) => {
     try {
       const { id } = req.params;
-      const { parentFolderId } = req.body;
-      
-      // Check for circular reference
-      if (parentFolderId) {
-        const wouldCreateCircle = await checkCircularReference(id, parentFolderId);
-        if (wouldCreateCircle) {
-          return res.status(400).json({ error: "Cannot move folder into itself or its descendants" });
-        }
+      const parsed = moveFolderRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const { parentFolderId } = parsed.data;
+      if (!(await getActiveFolder(id))) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+
+      const parentError = await folderParentError(id, parentFolderId);
+      if (parentError) {
+        return res.status(400).json({ error: parentError });
       }
       
       const folder = await storage.updateFolder(id, { parentFolderId });
@@ -536,12 +375,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/documents/:id/move", async (req, res) => {
+  // Compare every language variant in the folder to its original
+  app.post("/api/folders/:id/consistency", requireRole("editor"), async (req, res) => {
     try {
       const { id } = req.params;
-      const { folderId } = req.body;
+      if (!(await getActiveFolder(id))) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      const report = await checkFolderConsistency(id);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof FolderHasNoOriginalError) {
+        return res.status(400).json({ error: "Mark one processed document in this folder as the original first" });
+      }
+      console.error("Error checking folder consistency:", error);
+      res.status(500).json({ error: "Failed to check folder consistency" });
+    }
+  });
+
+  app.get("/api/folders/:id/consistency", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const folder = await getActiveFolder(id);
+      if (!folder) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      const report = await currentConsistencyReport(folder);
+      if (!report) {
+        return res.status(404).json({ error: "Folder has not been checked for consistency" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching folder consistency:", error);
+      res.status(500).json({ error: "Failed to fetch folder consistency report" });
+    }
+  });
+
+  app.post("/api/documents/:id/move", requireRole("editor"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsed = moveDocumentRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const folderId = parsed.data.folderId || null;
+      if (!(await getActiveDocument(id))) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (folderId && !(await getActiveFolder(folderId))) {
+        return res.status(400).json({ error: "Target folder not found" });
+      }
       
-      const document = await storage.updateDocument(id, { folderId: folderId || null });
+      const document = await storage.updateDocument(id, { folderId, updatedBy: actorId(req) });
       if (!document) {
         return res.status(404).json({ error: "Document not found" });
       }
@@ -589,11 +474,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Product not found" });
       }
       
-      const variants = await storage.getProductVariants(id);
+      const [variants, aliases] = await Promise.all([
+        storage.getProductVariants(id),
+        storage.getProductAliases(id),
+      ]);
       
       res.json({
         ...product,
         variants,
+        aliases,
       });
     } catch (error) {
       console.error("Error fetching product:", error);
@@ -612,7 +501,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/products/:id", async (req, res) => {
+  app.patch("/api/products/:id", requireRole("editor"), async (req, res) => {
     try {
       const { id } = req.params;
       const product = await storage.updateProduct(id, req.body);
@@ -628,7 +517,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/products/:id", async (req, res) => {
+  // Merge other products into this one: their variants and localized names move here
+  app.post("/api/products/:id/merge", requireRole("editor"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsed = mergeProductsRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      if (!(await storage.getProduct(id))) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      const product = await storage.mergeProducts(id, parsed.data.productIds);
+      res.json(product);
+    } catch (error) {
+      console.error("Error merging products:", error);
+      res.status(500).json({ error: "Failed to merge products" });
+    }
+  });
+
+  // Move some variants of this product into a new product
+  app.post("/api/products/:id/split", requireRole("editor"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsed = splitProductRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      if (!(await storage.getProduct(id))) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      const product = await storage.splitProduct(id, parsed.data.variantIds, parsed.data.name);
+      if (!product) {
+        return res.status(400).json({ error: "None of the variants belong to this product" });
+      }
+      res.status(201).json(product);
+    } catch (error) {
+      console.error("Error splitting product:", error);
+      res.status(500).json({ error: "Failed to split product" });
+    }
+  });
+
+  app.delete("/api/products/:id", requireRole("editor"), async (req, res) => {
     try {
       const { id } = req.params;
       await storage.deleteProduct(id);
@@ -643,9 +573,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/documents", async (req, res) => {
     try {
       const { folderId } = req.query;
-      const documents = folderId
+      const stored = folderId
         ? await storage.getDocumentsByFolder(folderId as string)
         : await storage.getAllDocuments();
+      const documents = await Promise.all(stored.map(withSourceSpans));
       // Remove filePath from all documents for security
       const safeDocuments = documents.map(({ filePath: _, ...doc }) => doc);
       res.json(safeDocuments);
@@ -658,10 +589,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/documents/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const document = await storage.getDocument(id);
-      if (!document) {
+      const found = await getActiveDocument(id);
+      if (!found) {
         return res.status(404).json({ error: "Document not found" });
       }
+      const document = await withSourceSpans(found);
       // Remove filePath from response for security
       const { filePath: _, ...safeDocument } = document;
       res.json(safeDocument);
@@ -702,6 +634,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Product variants projected from a document, to find the product behind an entry
+  app.get("/api/documents/:id/product-variants", async (req, res) => {
+    try {
+      const variants = await storage.getProductVariantsByDocument(req.params.id);
+      res.json(variants);
+    } catch (error) {
+      console.error("Error fetching document product variants:", error);
+      res.status(500).json({ error: "Failed to fetch product variants" });
+    }
+  });
+
   // Get document preview (HTML for DOCX, page info for PDF)
   app.get("/api/documents/:id/preview", async (req, res) => {
     try {
@@ -716,12 +659,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Document file path not found" });
       }
 
-      // Try to download from object storage
-      const documentStorage = new DocumentStorageService();
+      // Read the same way extraction does, from whichever storage driver holds the file
       let fileBuffer: Buffer;
       
       try {
-        fileBuffer = await documentStorage.downloadDocument(document.filePath);
+        fileBuffer = await readFileSource(storedFile(document.filePath));
       } catch (error) {
         if (error instanceof DocumentNotFoundError) {
           return res.status(404).json({ error: "Document file not found in storage" });
@@ -773,6 +715,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const mimeTypes: Record<string, string> = {
         pdf: "application/pdf",
         docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        pages: "application/vnd.apple.pages",
       };
 
       const mimeType = mimeTypes[document.fileType] || "application/octet-stream";
@@ -798,107 +741,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/documents/upload", upload.single("file"), async (req, res) => {
+  // Store uploaded temp files in object storage and describe them for the job queue
+  async function storeUploadedFiles(
+    files: Express.Multer.File[],
+    originalIndex: number | null,
+    duplicateAction: DuplicateAction
+  ): Promise<InsertProcessingJobFile[]> {
+    const documentStorage = new DocumentStorageService();
+    const jobFiles: InsertProcessingJobFile[] = [];
+
     try {
-      if (!req.file) {
-        return res.status(400).json({ error: "No file uploaded" });
+      for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        const fileType = file.originalname.split(".").pop()?.toLowerCase() || "";
+        const buffer = fs.readFileSync(file.path);
+        const storagePath = await documentStorage.uploadDocument(
+          buffer,
+          file.originalname,
+          DOCUMENT_MIME_TYPES[fileType] || "application/octet-stream"
+        );
+        jobFiles.push({
+          position: i,
+          name: file.originalname,
+          fileType,
+          storagePath,
+          size: `${(file.size / 1024).toFixed(2)} KB`,
+          isOriginal: i === originalIndex,
+          fileHash: hashFile(buffer),
+          duplicateAction,
+        });
       }
+    } finally {
+      // Clean up temp files
+      for (const file of files) {
+        try {
+          fs.unlinkSync(file.path);
+        } catch (cleanupError) {
+          console.error("Failed to clean up temp file:", cleanupError);
+        }
+      }
+    }
 
-      const { folderId } = req.body;
-      const file = req.file;
-      const fileType = file.originalname.split(".").pop()?.toLowerCase() || "";
-
-      // Automatically set month and year based on current date (auditing data)
-      const now = new Date();
-      const months = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
-      const currentMonth = months[now.getMonth()];
-      const currentYear = now.getFullYear().toString();
-
-      // Extract text from the uploaded file (before we upload to object storage)
-      const extractedText = await extractTextFromFile(file.path, fileType);
-
-      // Upload file to persistent object storage
-      const documentStorage = new DocumentStorageService();
-      const fileBuffer = fs.readFileSync(file.path);
-      const mimeTypes: Record<string, string> = {
-        pdf: "application/pdf",
-        docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-      };
-      const storagePath = await documentStorage.uploadDocument(
-        fileBuffer,
-        file.originalname,
-        mimeTypes[fileType] || "application/octet-stream"
-      );
+    return jobFiles;
+  }
 
-      // Clean up temp file
-      try {
-        fs.unlinkSync(file.path);
-      } catch (cleanupError) {
-        console.error("Failed to clean up temp file:", cleanupError);
+  // Identical files are caught before anything is stored; near-identical ones once their text is extracted
+  async function identicalUploads(files: Express.Multer.File[]): Promise<DuplicateMatch[]> {
+    const matches: DuplicateMatch[] = [];
+    for (const file of files) {
+      const duplicate = await findDuplicateDocument(hashFile(fs.readFileSync(file.path)));
+      if (duplicate) {
+        const { id, name, folderId, createdAt } = duplicate.document;
+        matches.push({ fileName: file.originalname, match: duplicate.match, document: { id, name, folderId, createdAt } });
       }
+    }
+    return matches;
+  }
 
-      // Detect language and process with GPT-4o in parallel
-      const [language, structuredData] = await Promise.all([
-        detectLanguage(extractedText),
-        processWithGPT5(extractedText)
-      ]);
+  function unsupportedFiles(files: Express.Multer.File[]): string[] {
+    return files
+      .filter((file) => !DOCUMENT_MIME_TYPES[file.originalname.split(".").pop()?.toLowerCase() || ""])
+      .map((file) => file.originalname);
+  }
 
-      // Save document to database with object storage path
-      let document = await storage.createDocument({
-        name: file.originalname,
-        fileType,
-        filePath: storagePath,
-        size: `${(file.size / 1024).toFixed(2)} KB`,
-        folderId: folderId || null,
-        language,
-        month: currentMonth,
-        year: currentYear,
-        isProcessed: true,
-        extractedText,
-        structuredData,
-      });
+  app.post("/api/documents/upload", requireRole("editor"), upload.single("file"), recordAuditActor, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
 
-      // Automatically validate the extraction
-      try {
-        const quickCheck = quickValidationChecks(structuredData);
-        const validationResult = await validateExtraction(extractedText, structuredData);
-        const allIssues = [...quickCheck.issues, ...validationResult.issues];
-        const needsReview = !validationResult.passedValidation || !quickCheck.passed;
-
-        // Update document with validation results
-        document = await storage.updateDocument(document.id, {
-          validationConfidence: validationResult.confidence,
-          validationIssues: allIssues,
-          needsReview,
-        }) || document;
-      } catch (validationError) {
-        console.error("Validation error during upload:", validationError);
-        // Continue with upload even if validation fails
+      const unsupported = unsupportedFiles([req.file]);
+      if (unsupported.length > 0) {
+        fs.unlink(req.file.path, () => {});
+        return res.status(400).json({ error: `Unsupported file type: ${unsupported.join(", ")}` });
       }
 
-      // Extract products from document structuredData
-      try {
-        // For initial upload, this is version 0 (no version history yet)
-        await storage.projectProductsFromDocument(document.id, 0);
-      } catch (projectionError) {
-        console.error("Product projection error during upload:", projectionError);
-        // Continue with upload even if projection fails
+      const onDuplicate = uploadDuplicateAction.safeParse(req.body.onDuplicate);
+      if (!onDuplicate.success) {
+        fs.unlink(req.file.path, () => {});
+        return res.status(400).json({ error: fromZodError(onDuplicate.error).message });
+      }
+      if (onDuplicate.data === "ask") {
+        const duplicates = await identicalUploads([req.file]);
+        if (duplicates.length > 0) {
+          fs.unlink(req.file.path, () => {});
+          return res.status(409).json({ error: "This file has already been uploaded", duplicates });
+        }
       }
 
-      // Remove filePath from response for security
-      const { filePath: _, ...safeDocument } = document;
-      res.json(safeDocument);
+      const { folderId } = req.body;
+
+      // Processing runs in the background; the client follows progress via /api/jobs/:id
+      const jobFiles = await storeUploadedFiles([req.file], null, onDuplicate.data);
+      const job = await enqueueProcessingJob("single", folderId || null, jobFiles, actorId(req));
+
+      res.status(202).json(await getJobProgress(job.id));
     } catch (error) {
       console.error("Upload error:", error);
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to upload document" });
     }
   });
 
-  app.post("/api/documents/upload-set", upload.array("files", 10), async (req, res) => {
+  app.post("/api/documents/upload-set", requireRole("editor"), upload.array("files", 10), recordAuditActor, async (req, res) => {
     try {
       if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
         return res.status(400).json({ error: "No files uploaded" });
       }
+      const files = req.files;
+      const discardFiles = () => files.forEach((file) => fs.unlink(file.path, () => {}));
 
       const { folderName, folderDescription, originalIndex: originalIndexStr, folderId } = req.body;
       
@@ -906,18 +856,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Validate that originalIndex is a valid integer
       if (!Number.isInteger(originalIndex)) {
+        discardFiles();
         return res.status(400).json({ error: "Original file index must be a valid integer" });
       }
       
-      if (originalIndex < 0 || originalIndex >= req.files.length) {
+      if (originalIndex < 0 || originalIndex >= files.length) {
+        discardFiles();
         return res.status(400).json({ error: "Invalid original file index: out of range" });
       }
 
-      // Automatically set month and year based on current date (auditing data)
-      const now = new Date();
-      const months = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
-      const currentMonth = months[now.getMonth()];
-      const currentYear = now.getFullYear().toString();
+      const unsupported = unsupportedFiles(files);
+      if (unsupported.length > 0) {
+        discardFiles();
+        return res.status(400).json({ error: `Unsupported file type: ${unsupported.join(", ")}` });
+      }
+
+      const onDuplicate = uploadDuplicateAction.safeParse(req.body.onDuplicate);
+      if (!onDuplicate.success) {
+        discardFiles();
+        return res.status(400).json({ error: fromZodError(onDuplicate.error).message });
+      }
+      if (onDuplicate.data === "ask") {
+        const duplicates = await identicalUploads(files);
+        if (duplicates.length > 0) {
+          discardFiles();
+          return res.status(409).json({
+            error: `${duplicates.length} of these files ${duplicates.length === 1 ? "has" : "have"} already been uploaded`,
+            duplicates,
+          });
+        }
+      }
 
       // Create folder if folderName provided and no folderId, otherwise use existing folder
       let targetFolderId = folderId || null;
@@ -928,130 +896,162 @@ export async function registerRoutes(app: Express): Promise<Server> {
         createdFolder = await storage.createFolder({
           name: folderName,
           description: folderDescription || null,
-        });
+        }, actorId(req));
         targetFolderId = createdFolder.id;
       }
 
-      const uploadedDocuments = [];
+      // Processing runs in the background; the client follows progress via /api/jobs/:id
+      const jobFiles = await storeUploadedFiles(files, originalIndex, onDuplicate.data);
+      const job = await enqueueProcessingJob("set", targetFolderId, jobFiles, actorId(req));
 
-      const documentStorage = new DocumentStorageService();
-      const mimeTypes: Record<string, string> = {
-        pdf: "application/pdf",
-        docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-      };
+      res.status(202).json({
+        folder: createdFolder,
+        job: await getJobProgress(job.id),
+      });
+    } catch (error) {
+      console.error("Document set upload error:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to upload document set" });
+    }
+  });
 
-      // Process all files
-      for (let i = 0; i < req.files.length; i++) {
-        const file = req.files[i];
-        const fileType = file.originalname.split(".").pop()?.toLowerCase() || "";
-        const isOriginal = i === originalIndex;
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const job = await getJobProgress(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ error: "Failed to fetch job" });
+    }
+  });
 
-        try {
-          // Extract text from the uploaded file (before uploading to object storage)
-          const extractedText = await extractTextFromFile(file.path, fileType);
-
-          // Upload file to persistent object storage
-          const fileBuffer = fs.readFileSync(file.path);
-          const storagePath = await documentStorage.uploadDocument(
-            fileBuffer,
-            file.originalname,
-            mimeTypes[fileType] || "application/octet-stream"
-          );
-
-          // Clean up temp file
-          try {
-            fs.unlinkSync(file.path);
-          } catch (cleanupError) {
-            console.error("Failed to clean up temp file:", cleanupError);
-          }
+  // A file that stopped as a near-identical duplicate: link it, add it as a version, or process it anyway
+  app.post("/api/jobs/:id/files/:fileId/duplicate", requireRole("editor"), async (req, res) => {
+    try {
+      const parsed = resolveDuplicateRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const file = (await storage.getProcessingJobFiles(req.params.id)).find((candidate) => candidate.id === req.params.fileId);
+      if (!file) {
+        return res.status(404).json({ error: "Job file not found" });
+      }
+      await resolveDuplicateJobFile(file, parsed.data.action);
+      res.json(await getJobProgress(req.params.id));
+    } catch (error) {
+      if (error instanceof JobFileNotDuplicateError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error resolving duplicate upload:", error);
+      res.status(500).json({ error: "Failed to resolve duplicate upload" });
+    }
+  });
 
-          // Detect language and process with GPT-4o in parallel
-          const [language, structuredData] = await Promise.all([
-            detectLanguage(extractedText),
-            processWithGPT5(extractedText)
-          ]);
-
-          // Save document to database with object storage path
-          let document = await storage.createDocument({
-            name: file.originalname,
-            fileType,
-            filePath: storagePath,
-            size: `${(file.size / 1024).toFixed(2)} KB`,
-            folderId: targetFolderId,
-            isOriginal,
-            language,
-            month: currentMonth,
-            year: currentYear,
-            isProcessed: true,
-            extractedText,
-            structuredData,
-          });
+  // Server-sent events: pushes the job whenever a file changes stage, then closes when it finishes
+  app.get("/api/jobs/:id/events", async (req, res) => {
+    try {
+      const initial = await getJobProgress(req.params.id);
+      if (!initial) {
+        return res.status(404).json({ error: "Job not found" });
+      }
 
-          // Automatically validate the extraction
-          try {
-            const quickCheck = quickValidationChecks(structuredData);
-            const validationResult = await validateExtraction(extractedText, structuredData);
-            const allIssues = [...quickCheck.issues, ...validationResult.issues];
-            const needsReview = !validationResult.passedValidation || !quickCheck.passed;
-
-            // Update document with validation results
-            document = await storage.updateDocument(document.id, {
-              validationConfidence: validationResult.confidence,
-              validationIssues: allIssues,
-              needsReview,
-            }) || document;
-          } catch (validationError) {
-            console.error("Validation error during upload:", validationError);
-            // Continue with upload even if validation fails
-          }
+      res.set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.flushHeaders();
+
+      let lastSent = "";
+      let closed = false;
+      const send = (job: ProcessingJobProgress) => {
+        const payload = JSON.stringify(job);
+        if (payload === lastSent) return;
+        lastSent = payload;
+        res.write(`data: ${payload}\n\n`);
+      };
 
-          // Extract products from document structuredData
-          try {
-            // For initial upload, this is version 0 (no version history yet)
-            await storage.projectProductsFromDocument(document.id, 0);
-          } catch (projectionError) {
-            console.error("Product projection error during upload:", projectionError);
-            // Continue with upload even if projection fails
+      const timer = setInterval(async () => {
+        try {
+          const job = await getJobProgress(req.params.id);
+          if (closed) return;
+          if (!job) {
+            res.end();
+            return;
+          }
+          send(job);
+          if (isJobFinished(job)) {
+            clearInterval(timer);
+            res.end();
           }
-
-          // Remove filePath from response for security
-          const { filePath: _, ...safeDocument } = document;
-          uploadedDocuments.push(safeDocument);
         } catch (error) {
-          console.error(`Error processing file ${file.originalname}:`, error);
-          // Continue with other files even if one fails
-          uploadedDocuments.push({
-            name: file.originalname,
-            error: error instanceof Error ? error.message : "Failed to process file",
-          });
+          console.error("Error polling job progress:", error);
         }
-      }
+      }, JOB_EVENTS_INTERVAL_MS);
 
-      res.json({
-        folder: createdFolder,
-        documents: uploadedDocuments,
+      req.on("close", () => {
+        closed = true;
+        clearInterval(timer);
       });
+
+      send(initial);
+      if (isJobFinished(initial)) {
+        clearInterval(timer);
+        res.end();
+      }
     } catch (error) {
-      console.error("Document set upload error:", error);
-      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to upload document set" });
+      console.error("Error streaming job progress:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to stream job progress" });
+      }
     }
   });
 
-  app.patch("/api/documents/:id", async (req, res) => {
+  app.patch("/api/documents/:id", requireRole("editor"), async (req, res) => {
     try {
       const { id } = req.params;
-      
-      // If marking a document as original, unmark all other documents in the same folder
-      if (req.body.isOriginal === true) {
-        // Fetch current document to get its folderId if not provided in payload
-        const currentDoc = await storage.getDocument(id);
-        if (!currentDoc) {
-          return res.status(404).json({ error: "Document not found" });
+      const parsed = updateDocumentRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const { changeDescription, structuredData, ...updates } = parsed.data;
+      const documentUpdates: Partial<InsertDocument> = { ...updates, updatedBy: actorId(req) };
+
+      const currentDoc = await getActiveDocument(id);
+      if (!currentDoc) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (updates.folderId && !(await getActiveFolder(updates.folderId))) {
+        return res.status(400).json({ error: "Target folder not found" });
+      }
+
+      // Edited data must fit the schema it was extracted with; edited values move, so re-align them with the source text
+      let editedPaths: string[] | null = null;
+      if (structuredData !== undefined) {
+        assertEditable(currentDoc);
+        const { definition } = await extractionSchemaForDocument(currentDoc);
+        const validated = validateStructuredData(definition, structuredData);
+        if (!validated.success) {
+          return res.status(400).json({ error: "Structured data does not match the extraction schema", issues: validated.issues });
         }
-        
-        // Use folderId from payload or current document
-        const targetFolderId = req.body.folderId !== undefined ? req.body.folderId : currentDoc.folderId;
-        
+        editedPaths = changedStructuredDataPaths(definition, currentDoc.structuredData, validated.data);
+        // Unchanged data is not written, so it leaves no version behind
+        if (editedPaths.length > 0) {
+          documentUpdates.structuredData = validated.data as InsertDocument["structuredData"];
+          documentUpdates.sourceSpans = computeSourceSpans(currentDoc.extractedText, validated.data, definition, currentDoc.pageRanges);
+        }
+      }
+
+      // Binding a schema only applies from the next reprocess
+      if (updates.extractionSchemaKey) {
+        await getLatestExtractionSchemaOrThrow(updates.extractionSchemaKey);
+      }
+
+      // If marking a document as original, unmark all other documents in the same folder
+      if (updates.isOriginal === true) {
+        const targetFolderId = updates.folderId !== undefined ? updates.folderId : currentDoc.folderId;
         if (targetFolderId) {
           const documentsInFolder = await storage.getDocumentsByFolder(targetFolderId);
           for (const doc of documentsInFolder) {
@@ -1061,86 +1061,136 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
       }
-      
-      const document = await storage.updateDocument(id, req.body);
+
+      const document = await storage.updateDocument(id, documentUpdates);
       if (!document) {
         return res.status(404).json({ error: "Document not found" });
       }
+
+      // Every manual edit of the data becomes a version, like a reprocess
+      if (editedPaths && editedPaths.length > 0) {
+        await storage.createDocumentVersion({
+          documentId: id,
+          versionNumber: (await storage.getLatestVersionNumber(id)) + 1,
+          extractedText: document.extractedText,
+          structuredData: documentUpdates.structuredData,
+          extractionSchemaId: document.extractionSchemaId,
+          validationConfidence: document.validationConfidence,
+          validationIssues: document.validationIssues,
+          changeDescription: changeDescription || describeEdit(editedPaths),
+          createdBy: actorId(req),
+        });
+      }
+
       // Remove filePath from response for security
       const { filePath: _, ...safeDocument } = document;
       res.json(safeDocument);
     } catch (error) {
       console.error("Error updating document:", error);
+      if (error instanceof ExtractionSchemaNotFoundError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof DocumentPublishedError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(400).json({ error: "Failed to update document" });
     }
   });
 
-  app.post("/api/documents/:id/reprocess", async (req, res) => {
+  app.post("/api/documents/:id/reprocess", requireRole("editor"), async (req, res) => {
     try {
       const { id } = req.params;
-      const document = await storage.getDocument(id);
+      const document = await getActiveDocument(id);
       
       if (!document) {
         return res.status(404).json({ error: "Document not found" });
       }
+      assertEditable(document);
 
-      // Calculate the new version number
-      const latestVersion = await storage.getLatestVersionNumber(id);
-      const newVersionNumber = latestVersion + 1;
+      // Manual edits are merged with the new output; conflicts park it as pendingReprocess
+      const updatedDocument = await reprocessDocument(document, actorId(req));
+      if (!updatedDocument) {
+        return res.status(404).json({ error: "Document not found" });
+      }
 
-      // Re-extract text from the file
-      const extractedText = await extractTextFromFile(document.filePath, document.fileType);
+      // Remove filePath from response for security
+      const { filePath: _, ...safeDocument } = updatedDocument;
+      res.json(safeDocument);
+    } catch (error) {
+      console.error("Reprocess error:", error);
+      if (error instanceof DocumentNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof EmptyExtractionError) {
+        return res.status(422).json({ error: error.message });
+      }
+      if (error instanceof DocumentPublishedError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to reprocess document" });
+    }
+  });
 
-      // Re-detect language and reprocess with GPT-4o in parallel
-      const [language, structuredData] = await Promise.all([
-        detectLanguage(extractedText),
-        processWithGPT5(extractedText)
-      ]);
+  app.post("/api/documents/:id/reprocess/resolve", requireRole("editor"), async (req, res) => {
+    try {
+      const parsed = resolveReprocessRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
 
-      // Update the document with new structured data
-      const updatedDocument = await storage.updateDocument(id, {
-        extractedText,
-        language,
-        structuredData,
-        isProcessed: true,
-      });
+      const document = await getActiveDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      assertEditable(document);
 
+      const updatedDocument = await resolvePendingReprocess(document, parsed.data.resolutions, actorId(req));
       if (!updatedDocument) {
         return res.status(404).json({ error: "Document not found" });
       }
 
-      // Save the NEW reprocessed state as a version
-      await storage.createDocumentVersion({
-        documentId: id,
-        versionNumber: newVersionNumber,
-        extractedText: updatedDocument.extractedText,
-        structuredData: updatedDocument.structuredData,
-        validationConfidence: updatedDocument.validationConfidence,
-        validationIssues: updatedDocument.validationIssues,
-        changeDescription: "Reprocessed with updated AI extraction"
-      });
+      const { filePath: _, ...safeDocument } = updatedDocument;
+      res.json(safeDocument);
+    } catch (error) {
+      console.error("Error resolving reprocess conflicts:", error);
+      if (error instanceof UnknownConflictError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof ReprocessNotPendingError || error instanceof StaleReprocessError || error instanceof DocumentPublishedError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to resolve reprocess conflicts" });
+    }
+  });
 
-      // Extract products from reprocessed document with the new version number
-      try {
-        await storage.projectProductsFromDocument(id, newVersionNumber);
-      } catch (projectionError) {
-        console.error("Product projection error during reprocess:", projectionError);
-        // Continue with reprocess even if projection fails
+  // Drops a parked reprocess (and any replacement file it carried); the document keeps its current data
+  app.delete("/api/documents/:id/reprocess", requireRole("editor"), async (req, res) => {
+    try {
+      const document = await getActiveDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (!document.pendingReprocess) {
+        return res.status(409).json({ error: new ReprocessNotPendingError().message });
+      }
+
+      const updatedDocument = await discardPendingReprocess(document);
+      if (!updatedDocument) {
+        return res.status(404).json({ error: "Document not found" });
       }
 
-      // Remove filePath from response for security
       const { filePath: _, ...safeDocument } = updatedDocument;
       res.json(safeDocument);
     } catch (error) {
-      console.error("Reprocess error:", error);
-      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to reprocess document" });
+      console.error("Error discarding reprocess:", error);
+      res.status(500).json({ error: "Failed to discard reprocess" });
     }
   });
 
-  app.post("/api/documents/:id/translate", async (req, res) => {
+  app.post("/api/documents/:id/translate", requireRole("editor"), async (req, res) => {
     try {
       const { id } = req.params;
-      const document = await storage.getDocument(id);
+      const document = await getActiveDocument(id);
       
       if (!document) {
         return res.status(404).json({ error: "Document not found" });
@@ -1150,13 +1200,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Document has no extracted text to translate" });
       }
 
-      // Translate the extracted text to English using OpenAI
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      // Translate the extracted text to English
+      const translatedText = await completeTaskCached("translation", TRANSLATION_PROMPT_VERSION, {
         messages: [
           {
             role: "system",
-            content: "You are a professional translator. Translate the provided text to English. Maintain all formatting, structure, and superscript markers (like ¹, ², ³, etc.). Only translate the content, not the structure.",
+            content: "You are a professional translator. Translate the provided text to English. Maintain all formatting, structure, and superscript markers (like {{sup:1}} tokens and ¹, ², ³, etc.). Only translate the content, not the structure.",
           },
           {
             role: "user",
@@ -1164,13 +1213,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           },
         ],
         temperature: 0.3,
-      });
-
-      const translatedText = response.choices[0].message.content || "";
+      }, (response) => response);
 
       // Update the document with the translated text
       const updatedDocument = await storage.updateDocument(id, {
         translatedText,
+        updatedBy: actorId(req),
       });
 
       if (!updatedDocument) {
@@ -1186,10 +1234,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/documents/:id/validate", async (req, res) => {
+  app.post("/api/documents/:id/validate", requireRole("editor"), async (req, res) => {
     try {
       const { id } = req.params;
-      const document = await storage.getDocument(id);
+      const document = await getActiveDocument(id);
       
       if (!document) {
         return res.status(404).json({ error: "Document not found" });
@@ -1199,24 +1247,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Document must be processed before validation" });
       }
 
+      const { definition } = await extractionSchemaForDocument(document);
+
       // Run quick validation checks first
-      const quickCheck = quickValidationChecks(document.structuredData);
+      const quickCheck = quickValidationChecks(document.structuredData, definition);
       
       // Run full AI validation
       const validationResult = await validateExtraction(
         document.extractedText,
-        document.structuredData
+        document.structuredData,
+        definition
       );
 
       // Combine quick check issues with AI validation issues
       const allIssues = [...quickCheck.issues, ...validationResult.issues];
-      const needsReview = !validationResult.passedValidation || !quickCheck.passed;
+      // Differences from the folder original keep a variant flagged until the next consistency check
+      const needsReview =
+        !validationResult.passedValidation || !quickCheck.passed || (document.consistencyIssues?.length ?? 0) > 0;
 
       // Update document with validation results
       const updatedDocument = await storage.updateDocument(id, {
         validationConfidence: validationResult.confidence,
         validationIssues: allIssues,
         needsReview,
+        updatedBy: actorId(req),
       });
 
       if (!updatedDocument) {
@@ -1235,6 +1289,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           scores: validationResult.scores,
           reasoning: validationResult.reasoning,
           passedValidation: validationResult.passedValidation && quickCheck.passed,
+          footnoteIssues: quickCheck.footnoteIssues,
           needsReview,
         }
       });
@@ -1256,8 +1311,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Structural diff of two versions; "current" stands for the document as it is now
+  app.get("/api/documents/:id/versions/diff", async (req, res) => {
+    try {
+      const parsed = versionDiffQuery.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      res.json(await diffDocumentVersions(document, parsed.data.from, parsed.data.to));
+    } catch (error) {
+      if (error instanceof VersionNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error comparing versions:", error);
+      res.status(500).json({ error: "Failed to compare versions" });
+    }
+  });
+
   // Restore a specific version
-  app.post("/api/documents/:id/restore-version", async (req, res) => {
+  app.post("/api/documents/:id/restore-version", requireRole("editor"), async (req, res) => {
     try {
       const { id } = req.params;
       const { versionId } = req.body;
@@ -1275,10 +1351,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get current document state to save it as a new version
-      const currentDocument = await storage.getDocument(id);
+      const currentDocument = await getActiveDocument(id);
       if (!currentDocument) {
         return res.status(404).json({ error: "Document not found" });
       }
+      assertEditable(currentDocument);
 
       // Save current state as a new version before restoring
       if (currentDocument.structuredData) {
@@ -1288,46 +1365,228 @@ export async function registerRoutes(app: Express): Promise<Server> {
           versionNumber: latestVersion + 1,
           extractedText: currentDocument.extractedText,
           structuredData: currentDocument.structuredData,
+          extractionSchemaId: currentDocument.extractionSchemaId,
           validationConfidence: currentDocument.validationConfidence,
           validationIssues: currentDocument.validationIssues,
-          changeDescription: `Before restoring to version ${versionToRestore.versionNumber}`
+          changeDescription: `Before restoring to version ${versionToRestore.versionNumber}`,
+          createdBy: actorId(req),
         });
       }
 
-      // Restore the selected version
+      // Restore the selected version; page ranges only still apply if the text is unchanged
+      const pageRanges = versionToRestore.extractedText === currentDocument.extractedText ? currentDocument.pageRanges : [];
+      const restoredSchema = await extractionSchemaForDocument(versionToRestore);
       const updatedDocument = await storage.updateDocument(id, {
         extractedText: versionToRestore.extractedText,
         structuredData: versionToRestore.structuredData,
+        extractionSchemaId: versionToRestore.extractionSchemaId,
+        pageRanges,
+        sourceSpans: computeSourceSpans(versionToRestore.extractedText, versionToRestore.structuredData, restoredSchema.definition, pageRanges),
         validationConfidence: versionToRestore.validationConfidence,
         validationIssues: versionToRestore.validationIssues,
+        updatedBy: actorId(req),
       });
 
       if (!updatedDocument) {
         return res.status(404).json({ error: "Document not found" });
       }
 
+      try {
+        await reanchorCommentThreads(updatedDocument, restoredSchema.definition);
+      } catch (anchorError) {
+        console.error("Comment re-anchoring error during restore:", anchorError);
+      }
+
       // Remove filePath from response for security
       const { filePath: _, ...safeDocument } = updatedDocument;
       res.json(safeDocument);
     } catch (error) {
       console.error("Error restoring version:", error);
+      if (error instanceof DocumentPublishedError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to restore version" });
     }
   });
 
-  app.delete("/api/documents/:id", async (req, res) => {
+  // Review workflow
+  app.get("/api/review-queue", async (req, res) => {
+    try {
+      // ?status=in_review,changes_requested; unknown statuses are ignored
+      const statuses = typeof req.query.status === "string"
+        ? req.query.status.split(",").filter((status): status is ReviewStatus => (REVIEW_STATUSES as readonly string[]).includes(status))
+        : undefined;
+      const queue = await storage.getReviewQueue(statuses);
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching review queue:", error);
+      res.status(500).json({ error: "Failed to fetch review queue" });
+    }
+  });
+
+  app.patch("/api/documents/:id/review", requireRole("reviewer"), async (req, res) => {
+    try {
+      const parsed = reviewAssignmentRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      if (!(await getActiveDocument(req.params.id))) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      const document = await storage.updateDocument(req.params.id, { ...parsed.data, updatedBy: actorId(req) });
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      const { filePath: _, ...safeDocument } = document;
+      res.json(safeDocument);
+    } catch (error) {
+      console.error("Error updating review assignment:", error);
+      res.status(500).json({ error: "Failed to update review assignment" });
+    }
+  });
+
+  app.get("/api/documents/:id/review/transitions", async (req, res) => {
+    try {
+      const transitions = await storage.getReviewTransitions(req.params.id);
+      res.json(transitions);
+    } catch (error) {
+      console.error("Error fetching review history:", error);
+      res.status(500).json({ error: "Failed to fetch review history" });
+    }
+  });
+
+  app.post("/api/documents/:id/review/transitions", requireRole("editor"), async (req, res) => {
+    try {
+      const parsed = reviewTransitionRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const document = await getActiveDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      // Editors may submit for review; every other move, including reopening a published document, is a reviewer's decision
+      const reviewerOnly = parsed.data.status !== "in_review" || document.reviewStatus === "published";
+      if (reviewerOnly && !hasRole(req.user!.role, "reviewer")) {
+        return res.status(403).json({ error: "Requires the Reviewer role" });
+      }
+      const updated = await transitionReview(document, parsed.data.status, parsed.data.note, actorId(req));
+      if (!updated) {
+        return res.status(409).json({ error: "Document review status changed; reload and try again" });
+      }
+      const { filePath: _, ...safeDocument } = updated;
+      res.status(201).json(safeDocument);
+    } catch (error) {
+      if (error instanceof InvalidReviewTransitionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error changing review status:", error);
+      res.status(500).json({ error: "Failed to change review status" });
+    }
+  });
+
+  // Comment threads
+  app.get("/api/documents/:id/comments", async (req, res) => {
+    try {
+      const threads = await storage.getCommentThreads(req.params.id);
+      res.json(threads);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      res.status(500).json({ error: "Failed to fetch comments" });
+    }
+  });
+
+  app.post("/api/documents/:id/comments", requireRole("editor"), async (req, res) => {
+    try {
+      const parsed = createCommentThreadRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const document = await getActiveDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const { path, body, spanStart, spanEnd } = parsed.data;
+      const { definition } = await extractionSchemaForDocument(document);
+      const anchor = anchorForPath(document.structuredData, path, definition);
+      if (!anchor) {
+        return res.status(400).json({ error: `${path} does not exist in this document` });
+      }
+      const extractedText = document.extractedText || "";
+      if (spanEnd !== undefined && spanEnd > extractedText.length) {
+        return res.status(400).json({ error: "Text span is outside the extracted text" });
+      }
+
+      const thread = await storage.createCommentThread(
+        {
+          documentId: document.id,
+          path,
+          ...anchor,
+          spanStart: spanStart ?? null,
+          spanEnd: spanEnd ?? null,
+          quotedText: spanStart !== undefined ? extractedText.slice(spanStart, spanEnd) : null,
+        },
+        { body, createdBy: actorId(req) }
+      );
+      res.status(201).json(thread);
+    } catch (error) {
+      console.error("Error creating comment thread:", error);
+      res.status(500).json({ error: "Failed to create comment thread" });
+    }
+  });
+
+  app.post("/api/comment-threads/:id/comments", requireRole("editor"), async (req, res) => {
+    try {
+      const parsed = createCommentRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const thread = await storage.getCommentThread(req.params.id);
+      if (!thread || !(await getActiveDocument(thread.documentId))) {
+        return res.status(404).json({ error: "Comment thread not found" });
+      }
+      const comment = await storage.addComment({ threadId: thread.id, body: parsed.data.body, createdBy: actorId(req) });
+      res.status(201).json(comment);
+    } catch (error) {
+      console.error("Error adding comment:", error);
+      res.status(500).json({ error: "Failed to add comment" });
+    }
+  });
+
+  app.patch("/api/comment-threads/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const parsed = updateCommentThreadRequest.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const { resolved } = parsed.data;
+      const existing = await storage.getCommentThread(req.params.id);
+      if (!existing || !(await getActiveDocument(existing.documentId))) {
+        return res.status(404).json({ error: "Comment thread not found" });
+      }
+      const thread = await storage.updateCommentThread(req.params.id, {
+        resolved,
+        resolvedAt: resolved ? new Date() : null,
+      });
+      if (!thread) {
+        return res.status(404).json({ error: "Comment thread not found" });
+      }
+      res.json(thread);
+    } catch (error) {
+      console.error("Error updating comment thread:", error);
+      res.status(500).json({ error: "Failed to update comment thread" });
+    }
+  });
+
+  // Moves the document to the trash; its file stays in object storage until the purge
+  app.delete("/api/documents/:id", requireRole("editor"), async (req, res) => {
     try {
       const { id } = req.params;
-      const document = await storage.getDocument(id);
-      if (document) {
-        // Clean up the file
-        try {
-          fs.unlinkSync(document.filePath);
-        } catch (err) {
-          console.error("Error deleting file:", err);
-        }
+      const document = await storage.trashDocument(id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
       }
-      await storage.deleteDocument(id);
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting document:", error);
@@ -1335,6 +1594,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Trash
+  app.get("/api/trash", async (req, res) => {
+    try {
+      res.json(await getTrashContents());
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ error: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/documents/:id/restore", requireRole("editor"), async (req, res) => {
+    try {
+      const document = await storage.restoreDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found in the trash" });
+      }
+      const { filePath: _, ...safeDocument } = document;
+      res.json(safeDocument);
+    } catch (error) {
+      console.error("Error restoring document:", error);
+      res.status(500).json({ error: "Failed to restore document" });
+    }
+  });
+
+  app.post("/api/trash/folders/:id/restore", requireRole("editor"), async (req, res) => {
+    try {
+      const restored = await storage.restoreFolder(req.params.id);
+      if (restored.folders.length === 0) {
+        return res.status(404).json({ error: "Folder not found in the trash" });
+      }
+      res.json({ success: true, folders: restored.folders.length, documents: restored.documents.length });
+    } catch (error) {
+      console.error("Error restoring folder:", error);
+      res.status(500).json({ error: "Failed to restore folder" });
+    }
+  });
+
+  // Permanent deletes skip the retention period
+  app.delete("/api/trash/documents/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document?.deletedAt) {
+        return res.status(404).json({ error: "Document not found in the trash" });
+      }
+      await purgeDocument(document);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error purging document:", error);
+      res.status(500).json({ error: "Failed to delete document permanently" });
+    }
+  });
+
+  app.delete("/api/trash/folders/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const folder = await storage.getFolder(req.params.id);
+      if (!folder?.deletedAt) {
+        return res.status(404).json({ error: "Folder not found in the trash" });
+      }
+      await purgeFolder(folder);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error purging folder:", error);
+      res.status(500).json({ error: "Failed to delete folder permanently" });
+    }
+  });
+
+  // Audit log, newest first
+  app.get("/api/audit-log", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = auditLogQuery.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const entries = await storage.getAuditLog(parsed.data);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
+  // Uploads are processed by the in-process job worker
+  startJobWorker();
+  startTrashPurge();
+
+  // Seed the built-in extraction schema so folders can be pointed at it
+  ensureDefaultExtractionSchema().catch((error) => {
+    console.error("Error seeding default extraction schema:", error);
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EXTRACTION_SCHEMA_DEFINITION as definition } from "@shared/extractionSchema";
+import { computeSourceSpans } from "./sourceSpans";
+
+// The original text a span covers
+const covered = (text: string, span: { start: number; end: number } | undefined) => span && text.slice(span.start, span.end);
+
+describe("computeSourceSpans", () => {
+  it("aligns values despite whitespace, case, quotes, dashes and legal marks", () => {
+    const text = "Lumen™ Phone\n\nIt’s the   brightest\nphone — ever.";
+    const spans = computeSourceSpans(
+      text,
+      { ProductCopy: [{ ProductName: "Lumen Phone", AdvertisingCopy: "it's the brightest phone - ever." }] },
+      definition
+    );
+
+    expect(covered(text, spans["ProductCopy[0].ProductName"])).toBe("Lumen™ Phone");
+    expect(covered(text, spans["ProductCopy[0].AdvertisingCopy"])).toBe("It’s the   brightest\nphone — ever.");
+    expect(spans["ProductCopy[0].AdvertisingCopy"]).toMatchObject({ exact: true, page: null });
+  });
+
+  it("includes footnote tokens directly around the value", () => {
+    const text = "Battery for days{{sup:1}}\n\n{{sup:1}} Battery life varies by use.";
+    const spans = computeSourceSpans(
+      text,
+      { ProductCopy: [{ AdvertisingCopy: "Battery for days", LegalReferences: ["Battery life varies by use."] }] },
+      definition
+    );
+
+    expect(covered(text, spans["ProductCopy[0].AdvertisingCopy"])).toBe("Battery for days{{sup:1}}");
+    expect(covered(text, spans["ProductCopy[0].LegalReferences[0]"])).toBe("{{sup:1}} Battery life varies by use.");
+  });
+
+  it("resolves a repeated value to the occurrence in its own product", () => {
+    const text = "Lumen Phone\n\nBuilt to last.\n\nLumen Watch\n\nBuilt to last.";
+    const spans = computeSourceSpans(
+      text,
+      {
+        ProductCopy: [
+          { ProductName: "Lumen Phone", Headlines: ["Built to last."] },
+          { ProductName: "Lumen Watch", Headlines: ["Built to last."] },
+        ],
+      },
+      definition
+    );
+
+    expect(spans["ProductCopy[0].Headlines[0]"]?.start).toBe(text.indexOf("Built"));
+    expect(spans["ProductCopy[1].Headlines[0]"]?.start).toBe(text.lastIndexOf("Built"));
+  });
+
+  it("records the page a span starts on", () => {
+    const text = "Lumen Phone\n\nLumen Watch";
+    const spans = computeSourceSpans(
+      text,
+      { ProductCopy: [{ ProductName: "Lumen Watch" }] },
+      definition,
+      [
+        { page: 1, start: 0, end: 13 },
+        { page: 2, start: 13, end: text.length },
+      ]
+    );
+    expect(spans["ProductCopy[0].ProductName"]?.page).toBe(2);
+  });
+
+  it("anchors a long reworded value by its first and last characters", () => {
+    const opening = "The Lumen Phone display is brighter than any we have made before, ";
+    const closing = "so you can read it on the sunniest day at the beach.";
+    const text = `${opening}with a new panel, ${closing}`;
+    const spans = computeSourceSpans(
+      text,
+      { ProductCopy: [{ AdvertisingCopy: `${opening}thanks to its panel, ${closing}` }] },
+      definition
+    );
+
+    expect(spans["ProductCopy[0].AdvertisingCopy"]).toEqual({ start: 0, end: text.length, page: null, exact: false });
+  });
+
+  it("skips short values and values missing from the text", () => {
+    const spans = computeSourceSpans(
+      "Lumen Phone. New.",
+      { ProductCopy: [{ Headlines: ["New", "Not in the document"] }] },
+      definition
+    );
+    expect(spans).toEqual({});
+  });
+
+  it("returns no spans without text or data", () => {
+    expect(computeSourceSpans(null, { ProductCopy: [] }, definition)).toEqual({});
+    expect(computeSourceSpans("Lumen Phone", null, definition)).toEqual({});
+  });
+});
@@ -0,0 +1,175 @@
+import type { PageRange, SourceSpan, SourceSpans } from "@shared/schema";
+import type { ExtractionSchemaDefinition } from "@shared/extractionSchema";
+
+/**
+ * Source-span provenance for extracted fields.
+ *
+ * The model returns field values, not positions, so each value is aligned back
+ * to extractedText after extraction. Matching ignores whitespace, case,
+ * {{sup:N}} tokens, trademark signs and typographic quote/dash variants, so a
+ * value still aligns when the model reflowed or re-quoted it. Values are
+ * aligned in document order: a repeated headline resolves to the next unused
+ * occurrence after the fields before it instead of always the first one.
+ *
+ * Spans are keyed by JSON path, e.g. "ProductCopy[0].Headlines[1]".
+ */
+
+// Values this short match almost anywhere; only the name field is allowed below it
+const MIN_MATCH_CHARS = 4;
+// Long values that do not match verbatim are anchored by their first and last characters
+const FUZZY_ANCHOR_CHARS = 40;
+// ...as long as the anchors are no further apart than this multiple of the value length
+const FUZZY_MAX_STRETCH = 2;
+
+const SUP_TOKEN = /^\{\{sup:[^}]*\}\}/;
+const LEADING_SUP_TOKEN = /\{\{sup:[^}]*\}\}[ \t]*$/;
+const IGNORED_CHARS = /[\s™®℠]/;
+const CHAR_EQUIVALENTS: Record<string, string> = {
+  "‘": "'", "’": "'", "‚": "'", "‛": "'", "′": "'",
+  "“": '"', "”": '"', "„": '"', "″": '"',
+  "‐": "-", "‑": "-", "‒": "-", "–": "-", "—": "-", "−": "-",
+  "…": "...",
+};
+
+interface NormalizedText {
+  text: string;
+  // Offset in the original text of each normalized character
+  origins: number[];
+}
+
+function normalize(source: string): NormalizedText {
+  let text = "";
+  const origins: number[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const token = source[i] === "{" ? SUP_TOKEN.exec(source.slice(i, i + 40)) : null;
+    if (token) {
+      i += token[0].length;
+      continue;
+    }
+    const char = source[i];
+    if (!IGNORED_CHARS.test(char)) {
+      const folded = (CHAR_EQUIVALENTS[char] ?? char).toLowerCase();
+      for (const c of folded) {
+        text += c;
+        origins.push(i);
+      }
+    }
+    i++;
+  }
+  return { text, origins };
+}
+
+class SpanLocator {
+  private readonly haystack: NormalizedText;
+  // Normalized start positions already claimed, per needle
+  private readonly used = new Map<string, Set<number>>();
+
+  constructor(private readonly source: string, private readonly pages: PageRange[]) {
+    this.haystack = normalize(source);
+  }
+
+  /**
+   * Locate a value, preferring the first unused occurrence at or after `from`
+   * (a normalized position). Returns the span and the normalized start.
+   */
+  locate(value: string, from: number, minChars = MIN_MATCH_CHARS): { span: SourceSpan; at: number } | undefined {
+    const needle = normalize(value).text;
+    if (needle.length < minChars) return undefined;
+
+    const exact = this.pick(needle, from);
+    if (exact !== undefined) {
+      return { span: this.toSpan(exact, exact + needle.length, true), at: exact };
+    }
+
+    if (needle.length <= FUZZY_ANCHOR_CHARS * 2) return undefined;
+    const head = needle.slice(0, FUZZY_ANCHOR_CHARS);
+    const tail = needle.slice(-FUZZY_ANCHOR_CHARS);
+    const start = this.pick(head, from);
+    if (start === undefined) return undefined;
+    const end = this.haystack.text.indexOf(tail, start + head.length);
+    if (end === -1 || end + tail.length - start > needle.length * FUZZY_MAX_STRETCH) return undefined;
+    return { span: this.toSpan(start, end + tail.length, false), at: start };
+  }
+
+  private pick(needle: string, from: number): number | undefined {
+    const occurrences: number[] = [];
+    for (let at = this.haystack.text.indexOf(needle); at !== -1; at = this.haystack.text.indexOf(needle, at + 1)) {
+      occurrences.push(at);
+    }
+    if (occurrences.length === 0) return undefined;
+
+    const used = this.used.get(needle) ?? new Set<number>();
+    const choice =
+      occurrences.find((at) => at >= from && !used.has(at)) ??
+      occurrences.find((at) => !used.has(at)) ??
+      occurrences[0];
+    used.add(choice);
+    this.used.set(needle, used);
+    return choice;
+  }
+
+  private toSpan(normalizedStart: number, normalizedEnd: number, exact: boolean): SourceSpan {
+    const { origins } = this.haystack;
+    let start = origins[normalizedStart];
+    let end = origins[normalizedEnd - 1] + 1;
+    // Footnote tokens directly around the value belong to it (markers, legal reference numbers)
+    const leading = LEADING_SUP_TOKEN.exec(this.source.slice(Math.max(0, start - 40), start));
+    if (leading) start -= leading[0].length;
+    const trailing = SUP_TOKEN.exec(this.source.slice(end, end + 40));
+    if (trailing) end += trailing[0].length;
+    return { start, end, page: pageAt(this.pages, start), exact };
+  }
+}
+
+function pageAt(pages: PageRange[], offset: number): number | null {
+  const range = pages.find((page) => offset >= page.start && offset < page.end);
+  return range ? range.page : null;
+}
+
+export function computeSourceSpans(
+  extractedText: string | null | undefined,
+  structuredData: any,
+  definition: ExtractionSchemaDefinition,
+  pageRanges?: PageRange[] | null
+): SourceSpans {
+  const spans: SourceSpans = {};
+  if (!extractedText || !structuredData) return spans;
+
+  const locator = new SpanLocator(extractedText, pageRanges || []);
+  // Products are listed in document order, so each one starts searching where the previous started
+  let productCursor = 0;
+  // The name field anchors each product, so it is located first
+  const fields = [...definition.fields].sort((a, b) => Number(b.role === "name") - Number(a.role === "name"));
+
+  for (const { name: section } of definition.sections) {
+    const products = structuredData[section];
+    if (!Array.isArray(products)) continue;
+
+    products.forEach((product: any, productIndex: number) => {
+      if (!product || typeof product !== "object") return;
+      const prefix = `${section}[${productIndex}]`;
+      let cursor = productCursor;
+
+      for (const field of fields) {
+        const value = product[field.name];
+        const entries: Array<[string, unknown]> = Array.isArray(value)
+          ? value.map((item, i) => [`${prefix}.${field.name}[${i}]`, item])
+          : [[`${prefix}.${field.name}`, value]];
+
+        for (const [key, item] of entries) {
+          if (typeof item !== "string") continue;
+          // Legal text usually sits at the end of the document, away from the copy
+          const from = field.role === "legal" ? productCursor : cursor;
+          const match = locator.locate(item, from, field.role === "name" ? 1 : MIN_MATCH_CHARS);
+          if (!match) continue;
+          spans[key] = match.span;
+          if (field.role === "name") productCursor = match.at;
+          if (field.role !== "legal") cursor = match.at;
+        }
+      }
+    });
+  }
+
+  return spans;
+}
@@ -1,23 +1,36 @@
-import { type Document, type InsertDocument, type Folder, type InsertFolder, type DocumentVersion, type InsertDocumentVersion, type Product, type InsertProduct, type ProductVariant, type InsertProductVariant } from "@shared/schema";
+import { type Document, type InsertDocument, type Folder, type InsertFolder, type DocumentVersion, type InsertDocumentVersion, type Product, type InsertProduct, type ProductVariant, type InsertProductVariant, type ProductAlias, type InsertProductAlias, type ProcessingJob, type InsertProcessingJob, type ProcessingJobFile, type InsertProcessingJobFile, type ExtractionSchema, type InsertExtractionSchema, type FolderConsistencyReport, type ReviewStatus, type ReviewTransition, type ReviewQueueItem, type CommentThread, type CommentThreadWithComments, type InsertCommentThread, type Comment, type InsertComment, type User, type InsertUser, type AuditEntry, type AuditEntityType, type InsertAuditEntry, type AuditLogQuery, type TrashedItems, type LlmCacheEntry, type InsertLlmCacheEntry, type LlmCacheTaskStats } from "@shared/schema";
+import { type ExtractionSchemaDefinition, nameField, sectionEntries } from "@shared/extractionSchema";
 import { db } from "./db";
-import { documents, folders, documentVersions, products, productVariants } from "@shared/schema";
-import { eq, desc } from "drizzle-orm";
+import { documents, folders, documentVersions, products, productVariants, productAliases, processingJobs, processingJobFiles, extractionSchemas, reviewTransitions, commentThreads, comments, users, auditLog, llmCache, llmCacheStats } from "@shared/schema";
+import { eq, desc, asc, and, or, inArray, isNull, isNotNull, lt, lte, gte, count, sql, type SQL } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { auditChanges, currentActorId } from "./auditLog";
 
 export interface IStorage {
   // Documents
   getDocument(id: string): Promise<Document | undefined>;
   getAllDocuments(): Promise<Document[]>;
   getDocumentsByFolder(folderId: string): Promise<Document[]>;
+  findDocumentsByHash(fileHash: string | null, textHash: string | null): Promise<Document[]>; // live documents matching either hash, oldest first
   createDocument(document: InsertDocument): Promise<Document>;
   updateDocument(id: string, updates: Partial<InsertDocument>): Promise<Document | undefined>;
-  deleteDocument(id: string): Promise<void>;
+  deleteDocument(id: string): Promise<void>; // permanent; routes move documents to the trash instead
   
   // Folders
   getFolder(id: string): Promise<Folder | undefined>;
   getAllFolders(): Promise<Folder[]>;
-  createFolder(folder: InsertFolder): Promise<Folder>;
+  createFolder(folder: InsertFolder, createdBy?: string | null): Promise<Folder>;
   updateFolder(id: string, updates: Partial<InsertFolder>): Promise<Folder | undefined>;
-  deleteFolder(id: string): Promise<void>;
+  saveFolderConsistencyReport(id: string, report: FolderConsistencyReport): Promise<Folder | undefined>;
+  deleteFolder(id: string): Promise<void>; // permanent, with its subfolders
+
+  // Trash (soft delete); list methods above leave trashed rows out
+  trashDocument(id: string): Promise<Document | undefined>;
+  trashFolder(id: string): Promise<TrashedItems>;
+  restoreDocument(id: string): Promise<Document | undefined>;
+  restoreFolder(id: string): Promise<TrashedItems>;
+  getTrashedFolders(deletedBefore?: Date): Promise<Folder[]>;
+  getTrashedDocuments(deletedBefore?: Date): Promise<Document[]>;
   
   // Document Versions
   getDocumentVersions(documentId: string): Promise<DocumentVersion[]>;
@@ -37,11 +50,199 @@ export interface IStorage {
   getProductVariantsByDocument(documentId: string): Promise<ProductVariant[]>;
   createProductVariant(variant: InsertProductVariant): Promise<ProductVariant>;
   deleteProductVariant(id: string): Promise<void>;
+
+  // Product Aliases and identity
+  getProductAliases(productId: string): Promise<ProductAlias[]>;
+  findProductByAlias(name: string, locale?: string | null): Promise<Product | undefined>;
+  addProductAlias(alias: InsertProductAlias): Promise<void>;
+  mergeProducts(targetId: string, sourceIds: string[]): Promise<Product | undefined>;
+  splitProduct(productId: string, variantIds: string[], name: string): Promise<Product | undefined>;
   
   // Product Projection (extract products from document structuredData)
-  projectProductsFromDocument(documentId: string, versionNumber: number): Promise<void>;
+  projectProductsFromDocument(documentId: string, versionNumber: number, definition: ExtractionSchemaDefinition): Promise<void>;
+
+  // Review
+  getReviewQueue(statuses?: ReviewStatus[]): Promise<ReviewQueueItem[]>;
+  getReviewTransitions(documentId: string): Promise<ReviewTransition[]>;
+  transitionDocumentReview(
+    id: string,
+    from: ReviewStatus,
+    to: ReviewStatus,
+    note: string | null,
+    actorId: string | null,
+    updates?: Partial<Pick<Document, "needsReview">>
+  ): Promise<Document | undefined>;
+
+  // Comments
+  getCommentThreads(documentId: string): Promise<CommentThreadWithComments[]>;
+  getCommentThread(id: string): Promise<CommentThread | undefined>;
+  createCommentThread(thread: InsertCommentThread, comment: Omit<InsertComment, "threadId">): Promise<CommentThreadWithComments>;
+  updateCommentThread(id: string, updates: Partial<InsertCommentThread>): Promise<CommentThread | undefined>;
+  addComment(comment: InsertComment): Promise<Comment>;
+
+  // Users
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
+  createUser(user: InsertUser): Promise<User>;
+  createFirstUser(user: InsertUser): Promise<User | undefined>; // undefined once any user exists, even under concurrent calls
+  updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined>;
+
+  // Audit log (append-only)
+  appendAuditEntry(entry: InsertAuditEntry): Promise<void>;
+  getAuditLog(query: AuditLogQuery): Promise<AuditEntry[]>;
+
+  // Extraction Schemas
+  getExtractionSchema(id: string): Promise<ExtractionSchema | undefined>;
+  getAllExtractionSchemas(): Promise<ExtractionSchema[]>;
+  getLatestExtractionSchema(key: string): Promise<ExtractionSchema | undefined>;
+  createExtractionSchema(schema: InsertExtractionSchema): Promise<ExtractionSchema>;
+
+  // Processing Jobs
+  createProcessingJob(job: InsertProcessingJob, files: InsertProcessingJobFile[]): Promise<ProcessingJob>;
+  getProcessingJob(id: string): Promise<ProcessingJob | undefined>;
+  getProcessingJobFiles(jobId: string): Promise<ProcessingJobFile[]>;
+  updateProcessingJob(id: string, updates: Partial<InsertProcessingJob>): Promise<ProcessingJob | undefined>;
+  updateProcessingJobFile(id: string, updates: Partial<InsertProcessingJobFile>): Promise<ProcessingJobFile | undefined>;
+  claimNextJobFile(): Promise<ProcessingJobFile | undefined>;
+  requeueStaleJobFiles(lockedBefore: Date): Promise<number>;
+
+  // LLM response cache
+  getLlmCacheEntry(key: string): Promise<LlmCacheEntry | undefined>;
+  saveLlmCacheEntry(entry: InsertLlmCacheEntry): Promise<void>; // replaces an expired entry with the same key
+  recordLlmCacheHit(key: string, task: string): Promise<void>;
+  recordLlmCacheMiss(task: string): Promise<void>;
+  deleteLlmCacheEntries(task?: string): Promise<number>;
+  getLlmCacheStats(): Promise<LlmCacheTaskStats[]>;
+}
+
+// The folder and its descendants among the given folders
+function subtreeIds(rootId: string, candidates: Folder[]): string[] {
+  if (!candidates.some((folder) => folder.id === rootId)) return [];
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    candidates.filter((folder) => folder.parentFolderId === ids[i]).forEach((folder) => ids.push(folder.id));
+  }
+  return ids;
+}
+
+// Lookup counters joined with entry counts; tasks with entries but no lookups yet are listed too
+function mergeLlmCacheStats(
+  stats: Array<{ task: string; hits: number; misses: number }>,
+  entryCounts: Array<{ task: string; entries: number }>
+): LlmCacheTaskStats[] {
+  const entries = new Map(entryCounts.map(({ task, entries }) => [task, entries]));
+  const merged = stats.map(({ task, hits, misses }) => ({ task, hits, misses, entries: entries.get(task) ?? 0 }));
+  entries.forEach((count, task) => {
+    if (!merged.some((row) => row.task === task)) merged.push({ task, hits: 0, misses: 0, entries: count });
+  });
+  return merged;
+}
+
+/**
+ * Product an extracted entry belongs to. Localized names are matched
+ * through aliases first, so manual merges and splits survive re-projection.
+ * Otherwise a document in a folder links to the product at the same
+ * position in the same section of a sibling (the original first), as long
+ * as both sections have the same number of entries. Entries that link
+ * nowhere fall back to a name match in any locale, then a new product.
+ */
+async function resolveProduct(
+  store: IStorage,
+  entryName: string,
+  locale: string | null,
+  copyType: string,
+  position: number,
+  sectionLength: number,
+  document: Document,
+  siblings: Document[]
+): Promise<Product> {
+  const aliased = await store.findProductByAlias(entryName, locale);
+  if (aliased) return aliased;
+
+  for (const sibling of siblings) {
+    if (sectionEntries(sibling.structuredData, copyType).length !== sectionLength) continue;
+    const match = (await store.getProductVariantsByDocument(sibling.id)).find(
+      (variant) => variant.copyType === copyType && variant.position === position
+    );
+    if (!match) continue;
+    const product = await store.getProduct(match.productId);
+    if (!product) continue;
+    // Products are named after the original document's entries
+    if (document.isOriginal && product.name !== entryName) {
+      return (await store.updateProduct(product.id, { name: entryName })) || product;
+    }
+    return product;
+  }
+
+  const named = (await store.findProductByAlias(entryName)) || (await store.getProductByName(entryName));
+  return named || (await store.createProduct({ name: entryName }));
+}
+
+// Product Projection - Extract products from document structuredData; shared by both backends
+async function projectProducts(store: IStorage, documentId: string, versionNumber: number, definition: ExtractionSchemaDefinition): Promise<void> {
+  const document = await store.getDocument(documentId);
+  if (!document || !document.structuredData) {
+    return;
+  }
+
+  // Delete existing variants for this document
+  const existingVariants = await store.getProductVariantsByDocument(documentId);
+  for (const variant of existingVariants) {
+    await store.deleteProductVariant(variant.id);
+  }
+
+  // Entries are indexed as products by their name field; schemas without one have no products
+  const productNameField = nameField(definition);
+  if (!productNameField) return;
+
+  const locale = document.language || null;
+  // Language variants in the same folder, the original first
+  const siblings = document.folderId
+    ? (await store.getDocumentsByFolder(document.folderId))
+        .filter((sibling) => sibling.id !== documentId && sibling.structuredData)
+        .sort((a, b) => Number(b.isOriginal) - Number(a.isOriginal))
+    : [];
+
+  for (const section of definition.sections) {
+    const copyType = section.name;
+    const entries = sectionEntries(document.structuredData, copyType);
+
+    for (const [position, item] of Array.from(entries.entries())) {
+      const productName = typeof item[productNameField.name] === "string" ? item[productNameField.name].trim() : "";
+      if (!productName) continue;
+
+      const product = await resolveProduct(store, productName, locale, copyType, position, entries.length, document, siblings);
+      await store.addProductAlias({ productId: product.id, name: productName, locale });
+
+      // Create product variant with version tracking
+      await store.createProductVariant({
+        productId: product.id,
+        documentId: documentId,
+        versionNumber: versionNumber,
+        locale,
+        copyType: copyType,
+        name: productName,
+        position,
+        // Dedicated columns for the default product copy fields; `fields` holds every schema's fields
+        headlines: item.Headlines || [],
+        advertisingCopy: item.AdvertisingCopy || null,
+        keyFeatureBullets: item.KeyFeatureBullets || [],
+        legalReferences: item.LegalReferences || [],
+        fields: Object.fromEntries(
+          definition.fields
+            .filter((field) => field.role !== "name" && item[field.name] !== undefined)
+            .map((field) => [field.name, item[field.name]])
+        ),
+      });
+    }
+  }
 }
 
+// pg_advisory_xact_lock key serializing first-account setup
+const FIRST_USER_LOCK_KEY = 7_215_001;
+
 export class DbStorage implements IStorage {
   // Documents
   async getDocument(id: string): Promise<Document | undefined> {
@@ -50,11 +251,28 @@ export class DbStorage implements IStorage {
   }
 
   async getAllDocuments(): Promise<Document[]> {
-    return await db.select().from(documents).orderBy(desc(documents.createdAt));
+    return await db.select().from(documents).where(isNull(documents.deletedAt)).orderBy(desc(documents.createdAt));
   }
 
   async getDocumentsByFolder(folderId: string): Promise<Document[]> {
-    return await db.select().from(documents).where(eq(documents.folderId, folderId)).orderBy(desc(documents.createdAt));
+    return await db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.folderId, folderId), isNull(documents.deletedAt)))
+      .orderBy(desc(documents.createdAt));
+  }
+
+  async findDocumentsByHash(fileHash: string | null, textHash: string | null): Promise<Document[]> {
+    const matches = [
+      ...(fileHash ? [eq(documents.fileHash, fileHash)] : []),
+      ...(textHash ? [eq(documents.textHash, textHash)] : []),
+    ];
+    if (matches.length === 0) return [];
+    return await db
+      .select()
+      .from(documents)
+      .where(and(or(...matches), isNull(documents.deletedAt)))
+      .orderBy(asc(documents.createdAt));
   }
 
   async createDocument(document: InsertDocument): Promise<Document> {
@@ -85,11 +303,11 @@ export class DbStorage implements IStorage {
   }
 
   async getAllFolders(): Promise<Folder[]> {
-    return await db.select().from(folders).orderBy(desc(folders.createdAt));
+    return await db.select().from(folders).where(isNull(folders.deletedAt)).orderBy(desc(folders.createdAt));
   }
 
-  async createFolder(folder: InsertFolder): Promise<Folder> {
-    const result = await db.insert(folders).values([folder]).returning();
+  async createFolder(folder: InsertFolder, createdBy: string | null = null): Promise<Folder> {
+    const result = await db.insert(folders).values([{ ...folder, createdBy }]).returning();
     return result[0];
   }
 
@@ -102,10 +320,102 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async saveFolderConsistencyReport(id: string, report: FolderConsistencyReport): Promise<Folder | undefined> {
+    const result = await db
+      .update(folders)
+      .set({ consistencyReport: report })
+      .where(eq(folders.id, id))
+      .returning();
+    return result[0];
+  }
+
   async deleteFolder(id: string): Promise<void> {
     await db.delete(folders).where(eq(folders.id, id));
   }
 
+  // Trash
+  async trashDocument(id: string): Promise<Document | undefined> {
+    const result = await db
+      .update(documents)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(documents.id, id), isNull(documents.deletedAt)))
+      .returning();
+    return result[0];
+  }
+
+  // The folder's live subfolders and documents go with it, stamped with the same time
+  async trashFolder(id: string): Promise<TrashedItems> {
+    const folderIds = subtreeIds(id, await this.getAllFolders());
+    if (folderIds.length === 0) return { folders: [], documents: [] };
+
+    const deletedAt = new Date();
+    const [trashedFolders, trashedDocuments] = await db.batch([
+      db.update(folders).set({ deletedAt }).where(and(inArray(folders.id, folderIds), isNull(folders.deletedAt))).returning(),
+      db.update(documents).set({ deletedAt }).where(and(inArray(documents.folderId, folderIds), isNull(documents.deletedAt))).returning(),
+    ]);
+    return { folders: trashedFolders, documents: trashedDocuments };
+  }
+
+  // Back to its folder, or to the top level if that folder is still in the trash
+  async restoreDocument(id: string): Promise<Document | undefined> {
+    const document = await this.getDocument(id);
+    if (!document?.deletedAt) return undefined;
+
+    const folder = document.folderId ? await this.getFolder(document.folderId) : undefined;
+    const result = await db
+      .update(documents)
+      .set({ deletedAt: null, ...(folder?.deletedAt ? { folderId: null } : {}) })
+      .where(eq(documents.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Brings back what was trashed along with the folder; items deleted separately before stay in the trash
+  async restoreFolder(id: string): Promise<TrashedItems> {
+    const folder = await this.getFolder(id);
+    if (!folder?.deletedAt) return { folders: [], documents: [] };
+
+    const trashed = await this.getTrashedFolders();
+    const folderIds = subtreeIds(id, trashed).filter((folderId) =>
+      trashed.find((candidate) => candidate.id === folderId)?.deletedAt?.getTime() === folder.deletedAt!.getTime()
+    );
+    const parent = folder.parentFolderId ? await this.getFolder(folder.parentFolderId) : undefined;
+
+    const [restoredFolders, restoredDocuments] = await db.batch([
+      db
+        .update(folders)
+        .set({ deletedAt: null })
+        .where(inArray(folders.id, folderIds))
+        .returning(),
+      db
+        .update(documents)
+        .set({ deletedAt: null })
+        .where(and(inArray(documents.folderId, folderIds), eq(documents.deletedAt, folder.deletedAt)))
+        .returning(),
+    ]);
+    if (parent?.deletedAt) {
+      const [detached] = await db.update(folders).set({ parentFolderId: null }).where(eq(folders.id, id)).returning();
+      return { folders: restoredFolders.map((restored) => (restored.id === id ? detached : restored)), documents: restoredDocuments };
+    }
+    return { folders: restoredFolders, documents: restoredDocuments };
+  }
+
+  async getTrashedFolders(deletedBefore?: Date): Promise<Folder[]> {
+    return await db
+      .select()
+      .from(folders)
+      .where(deletedBefore ? lt(folders.deletedAt, deletedBefore) : isNotNull(folders.deletedAt))
+      .orderBy(desc(folders.deletedAt));
+  }
+
+  async getTrashedDocuments(deletedBefore?: Date): Promise<Document[]> {
+    return await db
+      .select()
+      .from(documents)
+      .where(deletedBefore ? lt(documents.deletedAt, deletedBefore) : isNotNull(documents.deletedAt))
+      .orderBy(desc(documents.deletedAt));
+  }
+
   // Document Versions
   async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
     return await db
@@ -169,7 +479,11 @@ export class DbStorage implements IStorage {
     return await db
       .select()
       .from(productVariants)
-      .where(eq(productVariants.productId, productId))
+      .where(and(
+        eq(productVariants.productId, productId),
+        // Variants of trashed documents come back with them
+        inArray(productVariants.documentId, db.select({ id: documents.id }).from(documents).where(isNull(documents.deletedAt)))
+      ))
       .orderBy(desc(productVariants.createdAt));
   }
 
@@ -189,51 +503,1444 @@ export class DbStorage implements IStorage {
     await db.delete(productVariants).where(eq(productVariants.id, id));
   }
 
-  // Product Projection - Extract products from document structuredData
-  async projectProductsFromDocument(documentId: string, versionNumber: number): Promise<void> {
-    const document = await this.getDocument(documentId);
-    if (!document || !document.structuredData) {
-      return;
+  // Product Aliases
+  async getProductAliases(productId: string): Promise<ProductAlias[]> {
+    return await db
+      .select()
+      .from(productAliases)
+      .where(eq(productAliases.productId, productId))
+      .orderBy(asc(productAliases.locale), asc(productAliases.name));
+  }
+
+  // Without a locale, any alias with the name matches
+  async findProductByAlias(name: string, locale?: string | null): Promise<Product | undefined> {
+    const conditions = [eq(productAliases.name, name)];
+    if (locale !== undefined) {
+      conditions.push(locale === null ? isNull(productAliases.locale) : eq(productAliases.locale, locale));
     }
+    const result = await db
+      .select({ product: products })
+      .from(productAliases)
+      .innerJoin(products, eq(productAliases.productId, products.id))
+      .where(and(...conditions))
+      .limit(1);
+    return result[0]?.product;
+  }
 
-    // Delete existing variants for this document
-    const existingVariants = await this.getProductVariantsByDocument(documentId);
-    for (const variant of existingVariants) {
-      await this.deleteProductVariant(variant.id);
-    }
-
-    const structuredData = document.structuredData as any;
-    const copyTypes = ['ProductCopy', 'BusinessCopy', 'UpgraderCopy'];
-
-    for (const copyType of copyTypes) {
-      const copyArray = structuredData[copyType];
-      if (!Array.isArray(copyArray)) continue;
-
-      for (const item of copyArray) {
-        const productName = item.ProductName;
-        if (!productName) continue;
-
-        // Find or create product
-        let product = await this.getProductByName(productName);
-        if (!product) {
-          product = await this.createProduct({ name: productName });
-        }
-
-        // Create product variant with version tracking
-        await this.createProductVariant({
-          productId: product.id,
-          documentId: documentId,
-          versionNumber: versionNumber,
-          locale: document.language || null,
-          copyType: copyType,
-          headlines: item.Headlines || [],
-          advertisingCopy: item.AdvertisingCopy || null,
-          keyFeatureBullets: item.KeyFeatureBullets || [],
-          legalReferences: item.LegalReferences || [],
-        });
-      }
+  // Each localized name belongs to one product; an existing alias keeps its product
+  async addProductAlias(alias: InsertProductAlias): Promise<void> {
+    await db.insert(productAliases).values([alias]).onConflictDoNothing();
+  }
+
+  async mergeProducts(targetId: string, sourceIds: string[]): Promise<Product | undefined> {
+    const ids = sourceIds.filter((id) => id !== targetId);
+    if (ids.length > 0) {
+      const sources = await db.select().from(products).where(inArray(products.id, ids));
+      await db.batch([
+        db.update(productVariants).set({ productId: targetId, updatedAt: new Date() }).where(inArray(productVariants.productId, ids)),
+        db.update(productAliases).set({ productId: targetId }).where(inArray(productAliases.productId, ids)),
+        // Merged product names stay findable as aliases of the target
+        ...sources.map((source) =>
+          db.insert(productAliases).values([{ productId: targetId, name: source.name, locale: null }]).onConflictDoNothing()
+        ),
+        db.delete(products).where(inArray(products.id, ids)),
+      ]);
     }
+    return this.updateProduct(targetId, {});
+  }
+
+  async splitProduct(productId: string, variantIds: string[], name: string): Promise<Product | undefined> {
+    const variants = await this.getProductVariants(productId);
+    const moving = variants.filter((variant) => variantIds.includes(variant.id));
+    if (moving.length === 0) return undefined;
+
+    // Localized names only the moved variants use go with them, so re-projection keeps the split
+    const pairKey = (variant: ProductVariant) => `${variant.locale ?? ""}\u0000${variant.name ?? ""}`;
+    const staying = new Set(variants.filter((variant) => !variantIds.includes(variant.id)).map(pairKey));
+    const movingAliases = (await this.getProductAliases(productId)).filter((alias) => {
+      const key = `${alias.locale ?? ""}\u0000${alias.name}`;
+      return moving.some((variant) => pairKey(variant) === key) && !staying.has(key);
+    });
+
+    const newId = randomUUID();
+    await db.batch([
+      db.insert(products).values([{ id: newId, name }]),
+      db.update(productVariants).set({ productId: newId, updatedAt: new Date() }).where(
+        and(eq(productVariants.productId, productId), inArray(productVariants.id, moving.map((variant) => variant.id)))
+      ),
+      ...(movingAliases.length > 0
+        ? [db.update(productAliases).set({ productId: newId }).where(inArray(productAliases.id, movingAliases.map((alias) => alias.id)))]
+        : []),
+    ]);
+    await this.updateProduct(productId, {});
+    return this.getProduct(newId);
+  }
+
+  async projectProductsFromDocument(documentId: string, versionNumber: number, definition: ExtractionSchemaDefinition): Promise<void> {
+    await projectProducts(this, documentId, versionNumber, definition);
+  }
+
+  // Review
+  async getReviewQueue(statuses?: ReviewStatus[]): Promise<ReviewQueueItem[]> {
+    return await db
+      .select({
+        id: documents.id,
+        name: documents.name,
+        folderId: documents.folderId,
+        language: documents.language,
+        isOriginal: documents.isOriginal,
+        reviewStatus: documents.reviewStatus,
+        reviewStatusChangedAt: documents.reviewStatusChangedAt,
+        assignee: documents.assignee,
+        dueDate: documents.dueDate,
+        validationConfidence: documents.validationConfidence,
+        needsReview: documents.needsReview,
+        createdAt: documents.createdAt,
+      })
+      .from(documents)
+      .where(and(
+        isNull(documents.deletedAt),
+        statuses && statuses.length > 0 ? inArray(documents.reviewStatus, statuses) : undefined
+      ))
+      .orderBy(asc(documents.reviewStatusChangedAt));
+  }
+
+  async getReviewTransitions(documentId: string): Promise<ReviewTransition[]> {
+    return await db
+      .select()
+      .from(reviewTransitions)
+      .where(eq(reviewTransitions.documentId, documentId))
+      .orderBy(desc(reviewTransitions.createdAt));
+  }
+
+  // Only moves a document still in `from`, so concurrent transitions cannot both apply
+  async transitionDocumentReview(
+    id: string,
+    from: ReviewStatus,
+    to: ReviewStatus,
+    note: string | null,
+    actorId: string | null,
+    updates: Partial<Pick<Document, "needsReview">> = {}
+  ): Promise<Document | undefined> {
+    const now = new Date();
+    const result = await db
+      .update(documents)
+      .set({ ...updates, reviewStatus: to, reviewStatusChangedAt: now, updatedBy: actorId, updatedAt: now })
+      .where(and(eq(documents.id, id), eq(documents.reviewStatus, from)))
+      .returning();
+    if (!result[0]) return undefined;
+
+    await db.insert(reviewTransitions).values([{ documentId: id, fromStatus: from, toStatus: to, note, createdBy: actorId }]);
+    return result[0];
+  }
+
+  // Comments
+  async getCommentThreads(documentId: string): Promise<CommentThreadWithComments[]> {
+    const threads = await db
+      .select()
+      .from(commentThreads)
+      .where(eq(commentThreads.documentId, documentId))
+      .orderBy(asc(commentThreads.createdAt));
+    if (threads.length === 0) return [];
+
+    const threadComments = await db
+      .select()
+      .from(comments)
+      .where(inArray(comments.threadId, threads.map((thread) => thread.id)))
+      .orderBy(asc(comments.createdAt));
+    return threads.map((thread) => ({
+      ...thread,
+      comments: threadComments.filter((comment) => comment.threadId === thread.id),
+    }));
+  }
+
+  async getCommentThread(id: string): Promise<CommentThread | undefined> {
+    const result = await db.select().from(commentThreads).where(eq(commentThreads.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createCommentThread(thread: InsertCommentThread, comment: Omit<InsertComment, "threadId">): Promise<CommentThreadWithComments> {
+    const [created] = await db.insert(commentThreads).values([thread]).returning();
+    const first = await this.addComment({ ...comment, threadId: created.id });
+    return { ...created, comments: [first] };
+  }
+
+  async updateCommentThread(id: string, updates: Partial<InsertCommentThread>): Promise<CommentThread | undefined> {
+    const result = await db
+      .update(commentThreads)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(commentThreads.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async addComment(comment: InsertComment): Promise<Comment> {
+    const result = await db.insert(comments).values([comment]).returning();
+    return result[0];
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.username, username)).limit(1);
+    return result[0];
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async countUsers(): Promise<number> {
+    const [row] = await db.select({ count: count() }).from(users);
+    return row.count;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const result = await db.insert(users).values([user]).returning();
+    return result[0];
+  }
+
+  // The advisory lock is held until the batch's transaction commits, so a concurrent setup waits and then sees this user
+  async createFirstUser(user: InsertUser): Promise<User | undefined> {
+    const [, inserted] = await db.batch([
+      db.execute(sql`select pg_advisory_xact_lock(${FIRST_USER_LOCK_KEY})`),
+      db
+        .insert(users)
+        .select(
+          sql`select gen_random_uuid(), ${user.username}, ${user.passwordHash}, ${user.role ?? "viewer"}, now() where not exists (select 1 from ${users})`
+        )
+        .returning(),
+    ]);
+    return inserted[0];
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const result = await db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  // Audit log
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<void> {
+    await db.insert(auditLog).values([entry]);
+  }
+
+  async getAuditLog(query: AuditLogQuery): Promise<AuditEntry[]> {
+    const conditions: SQL[] = [];
+    if (query.entityType) conditions.push(eq(auditLog.entityType, query.entityType));
+    if (query.entityId) conditions.push(eq(auditLog.entityId, query.entityId));
+    if (query.actorId) conditions.push(eq(auditLog.actorId, query.actorId));
+    if (query.from) conditions.push(gte(auditLog.createdAt, query.from));
+    if (query.to) conditions.push(lte(auditLog.createdAt, query.to));
+    return await db
+      .select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt))
+      .limit(query.limit);
+  }
+
+  // Extraction Schemas
+  async getExtractionSchema(id: string): Promise<ExtractionSchema | undefined> {
+    const result = await db.select().from(extractionSchemas).where(eq(extractionSchemas.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getAllExtractionSchemas(): Promise<ExtractionSchema[]> {
+    return await db
+      .select()
+      .from(extractionSchemas)
+      .orderBy(asc(extractionSchemas.key), desc(extractionSchemas.version));
+  }
+
+  async getLatestExtractionSchema(key: string): Promise<ExtractionSchema | undefined> {
+    const result = await db
+      .select()
+      .from(extractionSchemas)
+      .where(eq(extractionSchemas.key, key))
+      .orderBy(desc(extractionSchemas.version))
+      .limit(1);
+    return result[0];
+  }
+
+  async createExtractionSchema(schema: InsertExtractionSchema): Promise<ExtractionSchema> {
+    const result = await db.insert(extractionSchemas).values([schema]).returning();
+    return result[0];
+  }
+
+  // Processing Jobs
+  async createProcessingJob(job: InsertProcessingJob, files: InsertProcessingJobFile[]): Promise<ProcessingJob> {
+    // Job and files are written in one batch so the worker never sees a partial job
+    const jobId = randomUUID();
+    const [jobRows] = await db.batch([
+      db.insert(processingJobs).values([{ ...job, id: jobId }]).returning(),
+      db.insert(processingJobFiles).values(files.map((file) => ({ ...file, jobId }))),
+    ]);
+    return jobRows[0];
+  }
+
+  async getProcessingJob(id: string): Promise<ProcessingJob | undefined> {
+    const result = await db.select().from(processingJobs).where(eq(processingJobs.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getProcessingJobFiles(jobId: string): Promise<ProcessingJobFile[]> {
+    return await db
+      .select()
+      .from(processingJobFiles)
+      .where(eq(processingJobFiles.jobId, jobId))
+      .orderBy(asc(processingJobFiles.position));
+  }
+
+  async updateProcessingJob(id: string, updates: Partial<InsertProcessingJob>): Promise<ProcessingJob | undefined> {
+    const result = await db
+      .update(processingJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(processingJobs.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async updateProcessingJobFile(id: string, updates: Partial<InsertProcessingJobFile>): Promise<ProcessingJobFile | undefined> {
+    const result = await db
+      .update(processingJobFiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(processingJobFiles.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Atomically lock the oldest runnable file; SKIP LOCKED lets several workers poll safely
+  async claimNextJobFile(): Promise<ProcessingJobFile | undefined> {
+    const now = new Date();
+    const next = db
+      .select({ id: processingJobFiles.id })
+      .from(processingJobFiles)
+      .where(
+        and(
+          inArray(processingJobFiles.status, ["queued", "retrying"]),
+          or(isNull(processingJobFiles.nextAttemptAt), lte(processingJobFiles.nextAttemptAt, now))
+        )
+      )
+      .orderBy(asc(processingJobFiles.createdAt), asc(processingJobFiles.position))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const result = await db
+      .update(processingJobFiles)
+      .set({ status: "running", lockedAt: now, updatedAt: now })
+      .where(inArray(processingJobFiles.id, next))
+      .returning();
+    return result[0];
+  }
+
+  // Files left "running" by a crashed or restarted worker are retried
+  async requeueStaleJobFiles(lockedBefore: Date): Promise<number> {
+    const result = await db
+      .update(processingJobFiles)
+      .set({ status: "retrying", lockedAt: null, nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(processingJobFiles.status, "running"), lte(processingJobFiles.lockedAt, lockedBefore)))
+      .returning({ id: processingJobFiles.id });
+    return result.length;
+  }
+
+  // LLM response cache
+  async getLlmCacheEntry(key: string): Promise<LlmCacheEntry | undefined> {
+    const result = await db.select().from(llmCache).where(eq(llmCache.key, key));
+    return result[0];
+  }
+
+  async saveLlmCacheEntry(entry: InsertLlmCacheEntry): Promise<void> {
+    await db
+      .insert(llmCache)
+      .values([entry])
+      .onConflictDoUpdate({ target: llmCache.key, set: { ...entry, hits: 0, createdAt: new Date(), lastHitAt: null } });
+  }
+
+  async recordLlmCacheHit(key: string, task: string): Promise<void> {
+    await db.batch([
+      db.update(llmCache).set({ hits: sql`${llmCache.hits} + 1`, lastHitAt: new Date() }).where(eq(llmCache.key, key)),
+      db
+        .insert(llmCacheStats)
+        .values([{ task, hits: 1 }])
+        .onConflictDoUpdate({ target: llmCacheStats.task, set: { hits: sql`${llmCacheStats.hits} + 1`, updatedAt: new Date() } }),
+    ]);
+  }
+
+  async recordLlmCacheMiss(task: string): Promise<void> {
+    await db
+      .insert(llmCacheStats)
+      .values([{ task, misses: 1 }])
+      .onConflictDoUpdate({ target: llmCacheStats.task, set: { misses: sql`${llmCacheStats.misses} + 1`, updatedAt: new Date() } });
   }
+
+  async deleteLlmCacheEntries(task?: string): Promise<number> {
+    const result = await db
+      .delete(llmCache)
+      .where(task ? eq(llmCache.task, task) : undefined)
+      .returning({ key: llmCache.key });
+    return result.length;
+  }
+
+  async getLlmCacheStats(): Promise<LlmCacheTaskStats[]> {
+    const [stats, entryCounts] = await db.batch([
+      db.select().from(llmCacheStats).orderBy(asc(llmCacheStats.task)),
+      db.select({ task: llmCache.task, entries: count() }).from(llmCache).groupBy(llmCache.task),
+    ]);
+    return mergeLlmCacheStats(stats, entryCounts);
+  }
+}
+
+type SortValue = Date | number | string | null;
+
+// ORDER BY for in-memory rows; nulls sort last ascending and first descending, as in Postgres
+function sortRows<T>(rows: T[], ...keys: Array<[(row: T) => SortValue, "asc" | "desc"]>): T[] {
+  return [...rows].sort((a, b) => {
+    for (const [key, direction] of keys) {
+      const x = key(a);
+      const y = key(b);
+      const order = x === null && y === null ? 0 : x === null ? 1 : y === null ? -1 : x < y ? -1 : x > y ? 1 : 0;
+      if (order !== 0) return direction === "asc" ? order : -order;
+    }
+    return 0;
+  });
+}
+
+// Drizzle skips undefined values in inserts and updates
+function definedValues<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([_, value]) => value !== undefined)) as Partial<T>;
+}
+
+function uniqueViolation(constraint: string): Error {
+  return Object.assign(new Error(`duplicate key value violates unique constraint "${constraint}"`), { code: "23505" });
 }
 
-export const storage = new DbStorage();
+/**
+ * IStorage kept in process memory, for tests and for running the app
+ * without a database (STORAGE_BACKEND=memory). It mirrors DbStorage: the
+ * same column defaults, ordering, cascades and unique constraints, and rows
+ * are copied in and out so callers never share state with the store.
+ */
+export class MemStorage implements IStorage {
+  private documents = new Map<string, Document>();
+  private folders = new Map<string, Folder>();
+  private versions = new Map<string, DocumentVersion>();
+  private products = new Map<string, Product>();
+  private variants = new Map<string, ProductVariant>();
+  private aliases = new Map<string, ProductAlias>();
+  private transitions = new Map<string, ReviewTransition>();
+  private threads = new Map<string, CommentThread>();
+  private comments = new Map<string, Comment>();
+  private users = new Map<string, User>();
+  private auditEntries = new Map<string, AuditEntry>();
+  private schemas = new Map<string, ExtractionSchema>();
+  private jobs = new Map<string, ProcessingJob>();
+  private jobFiles = new Map<string, ProcessingJobFile>();
+  private llmCache = new Map<string, LlmCacheEntry>();
+  private llmCacheStats = new Map<string, typeof llmCacheStats.$inferSelect>();
+
+  private insert<T extends { id: string }>(table: Map<string, T>, row: T): T {
+    table.set(row.id, structuredClone(row));
+    return structuredClone(row);
+  }
+
+  private update<T extends { id: string }>(table: Map<string, T>, id: string, updates: object): T | undefined {
+    const row = table.get(id);
+    if (!row) return undefined;
+    const updated = { ...row, ...structuredClone(definedValues(updates)) };
+    table.set(id, updated);
+    return structuredClone(updated);
+  }
+
+  private rows<T>(table: Map<string, T>, where: (row: T) => boolean = () => true): T[] {
+    return Array.from(table.values()).filter(where).map((row) => structuredClone(row));
+  }
+
+  private deleteWhere<T>(table: Map<string, T>, where: (row: T) => boolean) {
+    for (const [id, row] of Array.from(table)) {
+      if (where(row)) table.delete(id);
+    }
+  }
+
+  // Documents
+  async getDocument(id: string): Promise<Document | undefined> {
+    return this.rows(this.documents, (document) => document.id === id)[0];
+  }
+
+  async getAllDocuments(): Promise<Document[]> {
+    return sortRows(this.rows(this.documents, (document) => !document.deletedAt), [(document) => document.createdAt, "desc"]);
+  }
+
+  async getDocumentsByFolder(folderId: string): Promise<Document[]> {
+    return sortRows(
+      this.rows(this.documents, (document) => document.folderId === folderId && !document.deletedAt),
+      [(document) => document.createdAt, "desc"]
+    );
+  }
+
+  async findDocumentsByHash(fileHash: string | null, textHash: string | null): Promise<Document[]> {
+    return sortRows(
+      this.rows(
+        this.documents,
+        (document) =>
+          !document.deletedAt &&
+          ((!!fileHash && document.fileHash === fileHash) || (!!textHash && document.textHash === textHash))
+      ),
+      [(document) => document.createdAt, "asc"]
+    );
+  }
+
+  async createDocument(document: InsertDocument): Promise<Document> {
+    const now = new Date();
+    const defaults: Omit<Document, "name" | "fileType" | "filePath" | "size"> = {
+      id: randomUUID(),
+      fileHash: null,
+      textHash: null,
+      folderId: null,
+      isOriginal: false,
+      language: null,
+      month: null,
+      year: null,
+      isProcessed: false,
+      extractedText: null,
+      ocrPages: null,
+      pageRanges: null,
+      translatedText: null,
+      structuredData: null,
+      aiStructuredData: null,
+      pendingReprocess: null,
+      extractionSchemaKey: null,
+      extractionSchemaId: null,
+      sourceSpans: null,
+      validationConfidence: null,
+      validationIssues: null,
+      consistencyIssues: null,
+      needsReview: false,
+      reviewStatus: "draft",
+      reviewStatusChangedAt: now,
+      assignee: null,
+      dueDate: null,
+      reviewNotes: null,
+      createdBy: null,
+      updatedBy: null,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+    };
+    return this.insert(this.documents, { ...defaults, ...definedValues(document) } as Document);
+  }
+
+  async updateDocument(id: string, updates: Partial<InsertDocument>): Promise<Document | undefined> {
+    return this.update(this.documents, id, { ...updates, updatedAt: new Date() });
+  }
+
+  // Versions, review history, comments and variants go with the document
+  async deleteDocument(id: string): Promise<void> {
+    const threadIds = this.rows(this.threads, (thread) => thread.documentId === id).map((thread) => thread.id);
+    this.deleteWhere(this.comments, (comment) => threadIds.includes(comment.threadId));
+    this.deleteWhere(this.threads, (thread) => thread.documentId === id);
+    this.deleteWhere(this.versions, (version) => version.documentId === id);
+    this.deleteWhere(this.transitions, (transition) => transition.documentId === id);
+    this.deleteWhere(this.variants, (variant) => variant.documentId === id);
+    for (const file of this.rows(this.jobFiles, (file) => file.documentId === id || file.duplicateOfDocumentId === id)) {
+      this.update(this.jobFiles, file.id, {
+        documentId: file.documentId === id ? null : file.documentId,
+        duplicateOfDocumentId: file.duplicateOfDocumentId === id ? null : file.duplicateOfDocumentId,
+      });
+    }
+    this.documents.delete(id);
+  }
+
+  // Folders
+  async getFolder(id: string): Promise<Folder | undefined> {
+    return this.rows(this.folders, (folder) => folder.id === id)[0];
+  }
+
+  async getAllFolders(): Promise<Folder[]> {
+    return sortRows(this.rows(this.folders, (folder) => !folder.deletedAt), [(folder) => folder.createdAt, "desc"]);
+  }
+
+  async createFolder(folder: InsertFolder, createdBy: string | null = null): Promise<Folder> {
+    const defaults: Omit<Folder, "name"> = {
+      id: randomUUID(),
+      description: null,
+      parentFolderId: null,
+      extractionSchemaKey: null,
+      consistencyReport: null,
+      createdBy,
+      createdAt: new Date(),
+      deletedAt: null,
+    };
+    return this.insert(this.folders, { ...defaults, ...definedValues(folder) } as Folder);
+  }
+
+  async updateFolder(id: string, updates: Partial<InsertFolder>): Promise<Folder | undefined> {
+    return this.update(this.folders, id, updates);
+  }
+
+  async saveFolderConsistencyReport(id: string, report: FolderConsistencyReport): Promise<Folder | undefined> {
+    return this.update(this.folders, id, { consistencyReport: report });
+  }
+
+  async deleteFolder(id: string): Promise<void> {
+    const folderIds = subtreeIds(id, this.rows(this.folders));
+    for (const document of this.rows(this.documents, (document) => folderIds.includes(document.folderId ?? ""))) {
+      this.update(this.documents, document.id, { folderId: null });
+    }
+    for (const job of this.rows(this.jobs, (job) => folderIds.includes(job.folderId ?? ""))) {
+      this.update(this.jobs, job.id, { folderId: null });
+    }
+    this.deleteWhere(this.folders, (folder) => folderIds.includes(folder.id));
+  }
+
+  // Trash
+  async trashDocument(id: string): Promise<Document | undefined> {
+    if (this.documents.get(id)?.deletedAt !== null) return undefined;
+    return this.update(this.documents, id, { deletedAt: new Date() });
+  }
+
+  async trashFolder(id: string): Promise<TrashedItems> {
+    const folderIds = subtreeIds(id, await this.getAllFolders());
+    const deletedAt = new Date();
+    return {
+      folders: folderIds.map((folderId) => this.update(this.folders, folderId, { deletedAt })!),
+      documents: this.rows(this.documents, (document) => folderIds.includes(document.folderId ?? "") && !document.deletedAt).map(
+        (document) => this.update(this.documents, document.id, { deletedAt })!
+      ),
+    };
+  }
+
+  async restoreDocument(id: string): Promise<Document | undefined> {
+    const document = await this.getDocument(id);
+    if (!document?.deletedAt) return undefined;
+
+    const folder = document.folderId ? await this.getFolder(document.folderId) : undefined;
+    return this.update(this.documents, id, { deletedAt: null, ...(folder?.deletedAt ? { folderId: null } : {}) });
+  }
+
+  async restoreFolder(id: string): Promise<TrashedItems> {
+    const folder = await this.getFolder(id);
+    if (!folder?.deletedAt) return { folders: [], documents: [] };
+
+    const deletedAt = folder.deletedAt.getTime();
+    const trashed = await this.getTrashedFolders();
+    const folderIds = subtreeIds(id, trashed).filter((folderId) =>
+      trashed.find((candidate) => candidate.id === folderId)?.deletedAt?.getTime() === deletedAt
+    );
+    const parent = folder.parentFolderId ? await this.getFolder(folder.parentFolderId) : undefined;
+
+    return {
+      folders: folderIds.map((folderId) =>
+        this.update(this.folders, folderId, { deletedAt: null, ...(folderId === id && parent?.deletedAt ? { parentFolderId: null } : {}) })!
+      ),
+      documents: this.rows(
+        this.documents,
+        (document) => folderIds.includes(document.folderId ?? "") && document.deletedAt?.getTime() === deletedAt
+      ).map((document) => this.update(this.documents, document.id, { deletedAt: null })!),
+    };
+  }
+
+  async getTrashedFolders(deletedBefore?: Date): Promise<Folder[]> {
+    return sortRows(
+      this.rows(this.folders, (folder) => !!folder.deletedAt && (!deletedBefore || folder.deletedAt < deletedBefore)),
+      [(folder) => folder.deletedAt, "desc"]
+    );
+  }
+
+  async getTrashedDocuments(deletedBefore?: Date): Promise<Document[]> {
+    return sortRows(
+      this.rows(this.documents, (document) => !!document.deletedAt && (!deletedBefore || document.deletedAt < deletedBefore)),
+      [(document) => document.deletedAt, "desc"]
+    );
+  }
+
+  // Document Versions
+  async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+    return sortRows(this.rows(this.versions, (version) => version.documentId === documentId), [(version) => version.versionNumber, "desc"]);
+  }
+
+  async createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion> {
+    const defaults: Omit<DocumentVersion, "documentId" | "versionNumber"> = {
+      id: randomUUID(),
+      extractedText: null,
+      structuredData: null,
+      extractionSchemaId: null,
+      validationConfidence: null,
+      validationIssues: null,
+      changeDescription: null,
+      createdBy: null,
+      createdAt: new Date(),
+    };
+    return this.insert(this.versions, { ...defaults, ...definedValues(version) } as DocumentVersion);
+  }
+
+  async getLatestVersionNumber(documentId: string): Promise<number> {
+    const [latest] = await this.getDocumentVersions(documentId);
+    return latest ? latest.versionNumber : 0;
+  }
+
+  // Products
+  async getProduct(id: string): Promise<Product | undefined> {
+    return this.rows(this.products, (product) => product.id === id)[0];
+  }
+
+  async getAllProducts(): Promise<Product[]> {
+    return sortRows(this.rows(this.products), [(product) => product.updatedAt, "desc"]);
+  }
+
+  async getProductByName(name: string): Promise<Product | undefined> {
+    return this.rows(this.products, (product) => product.name === name)[0];
+  }
+
+  async createProduct(product: InsertProduct): Promise<Product> {
+    const now = new Date();
+    return this.insert(this.products, { id: randomUUID(), createdAt: now, updatedAt: now, ...definedValues(product) } as Product);
+  }
+
+  async updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product | undefined> {
+    return this.update(this.products, id, { ...updates, updatedAt: new Date() });
+  }
+
+  async deleteProduct(id: string): Promise<void> {
+    this.deleteWhere(this.variants, (variant) => variant.productId === id);
+    this.deleteWhere(this.aliases, (alias) => alias.productId === id);
+    this.products.delete(id);
+  }
+
+  // Product Variants
+  async getProductVariants(productId: string): Promise<ProductVariant[]> {
+    return sortRows(
+      this.rows(this.variants, (variant) => variant.productId === productId && this.documents.get(variant.documentId)?.deletedAt === null),
+      [(variant) => variant.createdAt, "desc"]
+    );
+  }
+
+  async getProductVariantsByDocument(documentId: string): Promise<ProductVariant[]> {
+    return this.rows(this.variants, (variant) => variant.documentId === documentId);
+  }
+
+  async createProductVariant(variant: InsertProductVariant): Promise<ProductVariant> {
+    const now = new Date();
+    const defaults: Omit<ProductVariant, "productId" | "documentId" | "copyType"> = {
+      id: randomUUID(),
+      versionNumber: null,
+      locale: null,
+      name: null,
+      position: null,
+      headlines: null,
+      advertisingCopy: null,
+      keyFeatureBullets: null,
+      legalReferences: null,
+      fields: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    return this.insert(this.variants, { ...defaults, ...definedValues(variant) } as ProductVariant);
+  }
+
+  async deleteProductVariant(id: string): Promise<void> {
+    this.variants.delete(id);
+  }
+
+  // Product Aliases
+  async getProductAliases(productId: string): Promise<ProductAlias[]> {
+    return sortRows(
+      this.rows(this.aliases, (alias) => alias.productId === productId),
+      [(alias) => alias.locale, "asc"],
+      [(alias) => alias.name, "asc"]
+    );
+  }
+
+  async findProductByAlias(name: string, locale?: string | null): Promise<Product | undefined> {
+    const alias = this.rows(this.aliases, (alias) => alias.name === name && (locale === undefined || alias.locale === locale))[0];
+    return alias ? this.getProduct(alias.productId) : undefined;
+  }
+
+  // The unique (name, locale) constraint treats null locales as distinct, like Postgres
+  async addProductAlias(alias: InsertProductAlias): Promise<void> {
+    const locale = alias.locale ?? null;
+    if (locale !== null && this.rows(this.aliases, (existing) => existing.name === alias.name && existing.locale === locale).length > 0) {
+      return;
+    }
+    this.insert(this.aliases, { id: randomUUID(), createdAt: new Date(), ...alias, locale });
+  }
+
+  async mergeProducts(targetId: string, sourceIds: string[]): Promise<Product | undefined> {
+    const ids = sourceIds.filter((id) => id !== targetId);
+    if (ids.length > 0) {
+      const sources = this.rows(this.products, (product) => ids.includes(product.id));
+      for (const variant of this.rows(this.variants, (variant) => ids.includes(variant.productId))) {
+        this.update(this.variants, variant.id, { productId: targetId, updatedAt: new Date() });
+      }
+      for (const alias of this.rows(this.aliases, (alias) => ids.includes(alias.productId))) {
+        this.update(this.aliases, alias.id, { productId: targetId });
+      }
+      for (const source of sources) {
+        await this.addProductAlias({ productId: targetId, name: source.name, locale: null });
+      }
+      this.deleteWhere(this.products, (product) => ids.includes(product.id));
+    }
+    return this.updateProduct(targetId, {});
+  }
+
+  async splitProduct(productId: string, variantIds: string[], name: string): Promise<Product | undefined> {
+    const variants = await this.getProductVariants(productId);
+    const moving = variants.filter((variant) => variantIds.includes(variant.id));
+    if (moving.length === 0) return undefined;
+
+    // Same alias rule as DbStorage.splitProduct
+    const pairKey = (variant: ProductVariant) => `${variant.locale ?? ""}\u0000${variant.name ?? ""}`;
+    const staying = new Set(variants.filter((variant) => !variantIds.includes(variant.id)).map(pairKey));
+    const movingAliases = (await this.getProductAliases(productId)).filter((alias) => {
+      const key = `${alias.locale ?? ""}\u0000${alias.name}`;
+      return moving.some((variant) => pairKey(variant) === key) && !staying.has(key);
+    });
+
+    const created = await this.createProduct({ name });
+    for (const variant of moving) {
+      this.update(this.variants, variant.id, { productId: created.id, updatedAt: new Date() });
+    }
+    for (const alias of movingAliases) {
+      this.update(this.aliases, alias.id, { productId: created.id });
+    }
+    await this.updateProduct(productId, {});
+    return this.getProduct(created.id);
+  }
+
+  async projectProductsFromDocument(documentId: string, versionNumber: number, definition: ExtractionSchemaDefinition): Promise<void> {
+    await projectProducts(this, documentId, versionNumber, definition);
+  }
+
+  // Review
+  async getReviewQueue(statuses?: ReviewStatus[]): Promise<ReviewQueueItem[]> {
+    const queued = this.rows(
+      this.documents,
+      (document) => !document.deletedAt && (!statuses || statuses.length === 0 || statuses.includes(document.reviewStatus as ReviewStatus))
+    );
+    return sortRows(queued, [(document) => document.reviewStatusChangedAt, "asc"]).map((document) => ({
+      id: document.id,
+      name: document.name,
+      folderId: document.folderId,
+      language: document.language,
+      isOriginal: document.isOriginal,
+      reviewStatus: document.reviewStatus,
+      reviewStatusChangedAt: document.reviewStatusChangedAt,
+      assignee: document.assignee,
+      dueDate: document.dueDate,
+      validationConfidence: document.validationConfidence,
+      needsReview: document.needsReview,
+      createdAt: document.createdAt,
+    }));
+  }
+
+  async getReviewTransitions(documentId: string): Promise<ReviewTransition[]> {
+    return sortRows(this.rows(this.transitions, (transition) => transition.documentId === documentId), [(transition) => transition.createdAt, "desc"]);
+  }
+
+  async transitionDocumentReview(
+    id: string,
+    from: ReviewStatus,
+    to: ReviewStatus,
+    note: string | null,
+    actorId: string | null,
+    updates: Partial<Pick<Document, "needsReview">> = {}
+  ): Promise<Document | undefined> {
+    if (this.documents.get(id)?.reviewStatus !== from) return undefined;
+
+    const now = new Date();
+    const updated = this.update(this.documents, id, { ...updates, reviewStatus: to, reviewStatusChangedAt: now, updatedBy: actorId, updatedAt: now });
+    this.insert(this.transitions, { id: randomUUID(), documentId: id, fromStatus: from, toStatus: to, note, createdBy: actorId, createdAt: now });
+    return updated;
+  }
+
+  // Comments
+  async getCommentThreads(documentId: string): Promise<CommentThreadWithComments[]> {
+    const threads = sortRows(this.rows(this.threads, (thread) => thread.documentId === documentId), [(thread) => thread.createdAt, "asc"]);
+    return threads.map((thread) => ({
+      ...thread,
+      comments: sortRows(this.rows(this.comments, (comment) => comment.threadId === thread.id), [(comment) => comment.createdAt, "asc"]),
+    }));
+  }
+
+  async getCommentThread(id: string): Promise<CommentThread | undefined> {
+    return this.rows(this.threads, (thread) => thread.id === id)[0];
+  }
+
+  async createCommentThread(thread: InsertCommentThread, comment: Omit<InsertComment, "threadId">): Promise<CommentThreadWithComments> {
+    const now = new Date();
+    const defaults: Omit<CommentThread, "documentId" | "path"> = {
+      id: randomUUID(),
+      anchorValue: null,
+      entryName: null,
+      spanStart: null,
+      spanEnd: null,
+      quotedText: null,
+      orphaned: false,
+      resolved: false,
+      resolvedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const created = this.insert(this.threads, { ...defaults, ...definedValues(thread) } as CommentThread);
+    const first = await this.addComment({ ...comment, threadId: created.id });
+    return { ...created, comments: [first] };
+  }
+
+  async updateCommentThread(id: string, updates: Partial<InsertCommentThread>): Promise<CommentThread | undefined> {
+    return this.update(this.threads, id, { ...updates, updatedAt: new Date() });
+  }
+
+  async addComment(comment: InsertComment): Promise<Comment> {
+    return this.insert(this.comments, { id: randomUUID(), createdBy: null, createdAt: new Date(), ...definedValues(comment) } as Comment);
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    return this.rows(this.users, (user) => user.id === id)[0];
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.rows(this.users, (user) => user.username === username)[0];
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return sortRows(this.rows(this.users), [(user) => user.username, "asc"]);
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(user.username)) throw uniqueViolation("users_username_unique");
+    return this.insert(this.users, { id: randomUUID(), role: "viewer", createdAt: new Date(), ...definedValues(user) } as User);
+  }
+
+  // Checked and inserted without yielding, so concurrent calls cannot both see an empty table
+  async createFirstUser(user: InsertUser): Promise<User | undefined> {
+    if (this.users.size > 0) return undefined;
+    return this.insert(this.users, { id: randomUUID(), role: "viewer", createdAt: new Date(), ...definedValues(user) } as User);
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const existing = updates.username !== undefined ? await this.getUserByUsername(updates.username) : undefined;
+    if (existing && existing.id !== id) throw uniqueViolation("users_username_unique");
+    return this.update(this.users, id, updates);
+  }
+
+  // Audit log
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<void> {
+    this.insert(this.auditEntries, { id: randomUUID(), actorId: null, entityName: null, createdAt: new Date(), ...definedValues(entry) } as AuditEntry);
+  }
+
+  async getAuditLog(query: AuditLogQuery): Promise<AuditEntry[]> {
+    const entries = this.rows(
+      this.auditEntries,
+      (entry) =>
+        (!query.entityType || entry.entityType === query.entityType) &&
+        (!query.entityId || entry.entityId === query.entityId) &&
+        (!query.actorId || entry.actorId === query.actorId) &&
+        (!query.from || entry.createdAt >= query.from) &&
+        (!query.to || entry.createdAt <= query.to)
+    );
+    return sortRows(entries, [(entry) => entry.createdAt, "desc"]).slice(0, query.limit);
+  }
+
+  // Extraction Schemas
+  async getExtractionSchema(id: string): Promise<ExtractionSchema | undefined> {
+    return this.rows(this.schemas, (schema) => schema.id === id)[0];
+  }
+
+  async getAllExtractionSchemas(): Promise<ExtractionSchema[]> {
+    return sortRows(this.rows(this.schemas), [(schema) => schema.key, "asc"], [(schema) => schema.version, "desc"]);
+  }
+
+  async getLatestExtractionSchema(key: string): Promise<ExtractionSchema | undefined> {
+    return sortRows(this.rows(this.schemas, (schema) => schema.key === key), [(schema) => schema.version, "desc"])[0];
+  }
+
+  async createExtractionSchema(schema: InsertExtractionSchema): Promise<ExtractionSchema> {
+    if (this.rows(this.schemas, (existing) => existing.key === schema.key && existing.version === schema.version).length > 0) {
+      throw uniqueViolation("extraction_schemas_key_version");
+    }
+    const defaults = { id: randomUUID(), description: null, promptGuidance: null, createdAt: new Date() };
+    return this.insert(this.schemas, { ...defaults, ...definedValues(schema) } as ExtractionSchema);
+  }
+
+  // Processing Jobs
+  async createProcessingJob(job: InsertProcessingJob, files: InsertProcessingJobFile[]): Promise<ProcessingJob> {
+    const now = new Date();
+    const created = this.insert(this.jobs, {
+      id: randomUUID(),
+      status: "queued",
+      folderId: null,
+      createdBy: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+      ...definedValues(job),
+    } as ProcessingJob);
+    for (const file of files) {
+      const defaults: Omit<ProcessingJobFile, "position" | "name" | "fileType" | "storagePath" | "size"> = {
+        id: randomUUID(),
+        jobId: created.id,
+        isOriginal: false,
+        status: "queued",
+        stage: "extracting",
+        attempts: 0,
+        error: null,
+        extractedText: null,
+        ocrPages: null,
+        pageRanges: null,
+        documentId: null,
+        fileHash: null,
+        duplicateAction: "ask",
+        duplicateOfDocumentId: null,
+        nextAttemptAt: null,
+        lockedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.insert(this.jobFiles, { ...defaults, ...definedValues(file) } as ProcessingJobFile);
+    }
+    return created;
+  }
+
+  async getProcessingJob(id: string): Promise<ProcessingJob | undefined> {
+    return this.rows(this.jobs, (job) => job.id === id)[0];
+  }
+
+  async getProcessingJobFiles(jobId: string): Promise<ProcessingJobFile[]> {
+    return sortRows(this.rows(this.jobFiles, (file) => file.jobId === jobId), [(file) => file.position, "asc"]);
+  }
+
+  async updateProcessingJob(id: string, updates: Partial<InsertProcessingJob>): Promise<ProcessingJob | undefined> {
+    return this.update(this.jobs, id, { ...updates, updatedAt: new Date() });
+  }
+
+  async updateProcessingJobFile(id: string, updates: Partial<InsertProcessingJobFile>): Promise<ProcessingJobFile | undefined> {
+    return this.update(this.jobFiles, id, { ...updates, updatedAt: new Date() });
+  }
+
+  // Nothing runs between the lookup and the update, so the claim is atomic
+  async claimNextJobFile(): Promise<ProcessingJobFile | undefined> {
+    const now = new Date();
+    const [next] = sortRows(
+      this.rows(
+        this.jobFiles,
+        (file) => ["queued", "retrying"].includes(file.status) && (!file.nextAttemptAt || file.nextAttemptAt <= now)
+      ),
+      [(file) => file.createdAt, "asc"],
+      [(file) => file.position, "asc"]
+    );
+    return next ? this.update(this.jobFiles, next.id, { status: "running", lockedAt: now, updatedAt: now }) : undefined;
+  }
+
+  async requeueStaleJobFiles(lockedBefore: Date): Promise<number> {
+    const stale = this.rows(this.jobFiles, (file) => file.status === "running" && !!file.lockedAt && file.lockedAt <= lockedBefore);
+    for (const file of stale) {
+      this.update(this.jobFiles, file.id, { status: "retrying", lockedAt: null, nextAttemptAt: new Date(), updatedAt: new Date() });
+    }
+    return stale.length;
+  }
+
+  // LLM response cache
+  async getLlmCacheEntry(key: string): Promise<LlmCacheEntry | undefined> {
+    const entry = this.llmCache.get(key);
+    return entry && structuredClone(entry);
+  }
+
+  async saveLlmCacheEntry(entry: InsertLlmCacheEntry): Promise<void> {
+    this.llmCache.set(entry.key, structuredClone({ ...entry, hits: 0, createdAt: new Date(), lastHitAt: null }));
+  }
+
+  async recordLlmCacheHit(key: string, task: string): Promise<void> {
+    const entry = this.llmCache.get(key);
+    if (entry) this.llmCache.set(key, { ...entry, hits: entry.hits + 1, lastHitAt: new Date() });
+    this.countLlmCacheLookup(task, "hits");
+  }
+
+  async recordLlmCacheMiss(task: string): Promise<void> {
+    this.countLlmCacheLookup(task, "misses");
+  }
+
+  private countLlmCacheLookup(task: string, outcome: "hits" | "misses") {
+    const stats = this.llmCacheStats.get(task) ?? { task, hits: 0, misses: 0, updatedAt: new Date() };
+    this.llmCacheStats.set(task, { ...stats, [outcome]: stats[outcome] + 1, updatedAt: new Date() });
+  }
+
+  async deleteLlmCacheEntries(task?: string): Promise<number> {
+    const keys = Array.from(this.llmCache.values())
+      .filter((entry) => !task || entry.task === task)
+      .map((entry) => entry.key);
+    keys.forEach((key) => this.llmCache.delete(key));
+    return keys.length;
+  }
+
+  async getLlmCacheStats(): Promise<LlmCacheTaskStats[]> {
+    const entryCounts = new Map<string, number>();
+    this.llmCache.forEach((entry) => entryCounts.set(entry.task, (entryCounts.get(entry.task) ?? 0) + 1));
+    return mergeLlmCacheStats(
+      sortRows(Array.from(this.llmCacheStats.values()), [(stats) => stats.task, "asc"]),
+      Array.from(entryCounts, ([task, entries]) => ({ task, entries }))
+    );
+  }
+}
+
+/**
+ * Appends an audit entry for every mutation that changes what users see,
+ * with the acting user from the request context (see server/auditLog.ts).
+ * Version, review and comment changes are logged against their document so
+ * a document's history reads in one place. Product variants and aliases are
+ * rebuilt by projection and job rows are bookkeeping, so those are not logged.
+ */
+export class AuditedStorage implements IStorage {
+  constructor(private readonly inner: IStorage) {}
+
+  private async audit(
+    action: string,
+    entityType: AuditEntityType,
+    entityId: string,
+    entityName: string | null | undefined,
+    before: object | null | undefined,
+    after: object | null | undefined
+  ) {
+    const changes = auditChanges(before, after);
+    if (action.endsWith(".update") && Object.keys(changes).length === 0) return;
+    try {
+      await this.inner.appendAuditEntry({
+        actorId: currentActorId(),
+        action,
+        entityType,
+        entityId,
+        entityName: entityName ?? null,
+        changes,
+      });
+    } catch (error) {
+      // The change itself already happened; a lost entry should not fail the request
+      console.error(`Failed to write audit entry for ${action} ${entityId}:`, error);
+    }
+  }
+
+  private async documentName(documentId: string): Promise<string | null> {
+    return (await this.inner.getDocument(documentId))?.name ?? null;
+  }
+
+  // Documents
+  getDocument(id: string) { return this.inner.getDocument(id); }
+  getAllDocuments() { return this.inner.getAllDocuments(); }
+  getDocumentsByFolder(folderId: string) { return this.inner.getDocumentsByFolder(folderId); }
+  findDocumentsByHash(fileHash: string | null, textHash: string | null) { return this.inner.findDocumentsByHash(fileHash, textHash); }
+
+  async createDocument(document: InsertDocument): Promise<Document> {
+    const created = await this.inner.createDocument(document);
+    await this.audit("document.create", "document", created.id, created.name, null, created);
+    return created;
+  }
+
+  async updateDocument(id: string, updates: Partial<InsertDocument>): Promise<Document | undefined> {
+    const before = await this.inner.getDocument(id);
+    const updated = await this.inner.updateDocument(id, updates);
+    if (updated) await this.audit("document.update", "document", id, updated.name, before, updated);
+    return updated;
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    const before = await this.inner.getDocument(id);
+    await this.inner.deleteDocument(id);
+    if (before) await this.audit("document.delete", "document", id, before.name, before, null);
+  }
+
+  // Folders
+  getFolder(id: string) { return this.inner.getFolder(id); }
+  getAllFolders() { return this.inner.getAllFolders(); }
+
+  async createFolder(folder: InsertFolder, createdBy?: string | null): Promise<Folder> {
+    const created = await this.inner.createFolder(folder, createdBy);
+    await this.audit("folder.create", "folder", created.id, created.name, null, created);
+    return created;
+  }
+
+  async updateFolder(id: string, updates: Partial<InsertFolder>): Promise<Folder | undefined> {
+    const before = await this.inner.getFolder(id);
+    const updated = await this.inner.updateFolder(id, updates);
+    if (updated) await this.audit("folder.update", "folder", id, updated.name, before, updated);
+    return updated;
+  }
+
+  async saveFolderConsistencyReport(id: string, report: FolderConsistencyReport): Promise<Folder | undefined> {
+    const before = await this.inner.getFolder(id);
+    const updated = await this.inner.saveFolderConsistencyReport(id, report);
+    if (updated) await this.audit("folder.update", "folder", id, updated.name, before, updated);
+    return updated;
+  }
+
+  // Subfolders go with it (cascade), so each one gets its own entry
+  async deleteFolder(id: string): Promise<void> {
+    const allFolders = (await this.inner.getAllFolders()).concat(await this.inner.getTrashedFolders());
+    const deletedIds = subtreeIds(id, allFolders);
+
+    await this.inner.deleteFolder(id);
+    for (const folder of allFolders.filter((candidate) => deletedIds.includes(candidate.id))) {
+      await this.audit("folder.delete", "folder", folder.id, folder.name, folder, null);
+    }
+  }
+
+  // Trash
+  getTrashedFolders(deletedBefore?: Date) { return this.inner.getTrashedFolders(deletedBefore); }
+  getTrashedDocuments(deletedBefore?: Date) { return this.inner.getTrashedDocuments(deletedBefore); }
+
+  async trashDocument(id: string): Promise<Document | undefined> {
+    const before = await this.inner.getDocument(id);
+    const trashed = await this.inner.trashDocument(id);
+    if (trashed) await this.audit("document.trash", "document", id, trashed.name, before, trashed);
+    return trashed;
+  }
+
+  async restoreDocument(id: string): Promise<Document | undefined> {
+    const before = await this.inner.getDocument(id);
+    const restored = await this.inner.restoreDocument(id);
+    if (restored) await this.audit("document.restore", "document", id, restored.name, before, restored);
+    return restored;
+  }
+
+  async trashFolder(id: string): Promise<TrashedItems> {
+    const trashed = await this.inner.trashFolder(id);
+    await this.auditTrashedItems("trash", trashed, (item) => ({ ...item, deletedAt: null }));
+    return trashed;
+  }
+
+  async restoreFolder(id: string): Promise<TrashedItems> {
+    const before = await this.inner.getFolder(id);
+    const restored = await this.inner.restoreFolder(id);
+    await this.auditTrashedItems("restore", restored, (item) => ({
+      ...item,
+      deletedAt: before?.deletedAt ?? null,
+      ...(item.id === id ? { parentFolderId: before?.parentFolderId ?? null } : {}),
+    }));
+    return restored;
+  }
+
+  // One entry per folder and document moved together; before is rebuilt from the returned rows
+  private async auditTrashedItems(
+    verb: "trash" | "restore",
+    items: TrashedItems,
+    previous: (item: Folder | Document) => object
+  ) {
+    for (const folder of items.folders) {
+      await this.audit(`folder.${verb}`, "folder", folder.id, folder.name, previous(folder), folder);
+    }
+    for (const document of items.documents) {
+      await this.audit(`document.${verb}`, "document", document.id, document.name, previous(document), document);
+    }
+  }
+
+  // Document Versions
+  getDocumentVersions(documentId: string) { return this.inner.getDocumentVersions(documentId); }
+  getLatestVersionNumber(documentId: string) { return this.inner.getLatestVersionNumber(documentId); }
+
+  async createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion> {
+    const created = await this.inner.createDocumentVersion(version);
+    await this.audit(
+      "version.create",
+      "document",
+      created.documentId,
+      await this.documentName(created.documentId),
+      null,
+      { versionNumber: created.versionNumber, changeDescription: created.changeDescription }
+    );
+    return created;
+  }
+
+  // Products
+  getProduct(id: string) { return this.inner.getProduct(id); }
+  getAllProducts() { return this.inner.getAllProducts(); }
+  getProductByName(name: string) { return this.inner.getProductByName(name); }
+
+  async createProduct(product: InsertProduct): Promise<Product> {
+    const created = await this.inner.createProduct(product);
+    await this.audit("product.create", "product", created.id, created.name, null, created);
+    return created;
+  }
+
+  async updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product | undefined> {
+    const before = await this.inner.getProduct(id);
+    const updated = await this.inner.updateProduct(id, updates);
+    if (updated) await this.audit("product.update", "product", id, updated.name, before, updated);
+    return updated;
+  }
+
+  async deleteProduct(id: string): Promise<void> {
+    const before = await this.inner.getProduct(id);
+    await this.inner.deleteProduct(id);
+    if (before) await this.audit("product.delete", "product", id, before.name, before, null);
+  }
+
+  // Product Variants and Aliases (derived by projection)
+  getProductVariants(productId: string) { return this.inner.getProductVariants(productId); }
+  getProductVariantsByDocument(documentId: string) { return this.inner.getProductVariantsByDocument(documentId); }
+  createProductVariant(variant: InsertProductVariant) { return this.inner.createProductVariant(variant); }
+  deleteProductVariant(id: string) { return this.inner.deleteProductVariant(id); }
+  getProductAliases(productId: string) { return this.inner.getProductAliases(productId); }
+  findProductByAlias(name: string, locale?: string | null) { return this.inner.findProductByAlias(name, locale); }
+  addProductAlias(alias: InsertProductAlias) { return this.inner.addProductAlias(alias); }
+
+  async mergeProducts(targetId: string, sourceIds: string[]): Promise<Product | undefined> {
+    const sources = (await this.inner.getAllProducts()).filter((product) => sourceIds.includes(product.id) && product.id !== targetId);
+    const merged = await this.inner.mergeProducts(targetId, sourceIds);
+    if (merged) {
+      await this.audit("product.merge", "product", targetId, merged.name, { mergedProducts: null }, {
+        mergedProducts: sources.map((source) => source.name),
+      });
+      for (const source of sources) {
+        await this.audit("product.delete", "product", source.id, source.name, source, null);
+      }
+    }
+    return merged;
+  }
+
+  async splitProduct(productId: string, variantIds: string[], name: string): Promise<Product | undefined> {
+    const source = await this.inner.getProduct(productId);
+    const created = await this.inner.splitProduct(productId, variantIds, name);
+    if (created) {
+      await this.audit("product.split", "product", productId, source?.name, { splitVariants: null }, {
+        splitVariants: variantIds,
+        newProduct: created.name,
+      });
+      await this.audit("product.create", "product", created.id, created.name, null, { ...created, splitFrom: source?.name });
+    }
+    return created;
+  }
+
+  // Runs against this store, so products created or renamed by projection are logged
+  projectProductsFromDocument(documentId: string, versionNumber: number, definition: ExtractionSchemaDefinition) {
+    return projectProducts(this, documentId, versionNumber, definition);
+  }
+
+  // Review
+  getReviewQueue(statuses?: ReviewStatus[]) { return this.inner.getReviewQueue(statuses); }
+  getReviewTransitions(documentId: string) { return this.inner.getReviewTransitions(documentId); }
+
+  async transitionDocumentReview(
+    id: string,
+    from: ReviewStatus,
+    to: ReviewStatus,
+    note: string | null,
+    actorId: string | null,
+    updates?: Partial<Pick<Document, "needsReview">>
+  ): Promise<Document | undefined> {
+    const updated = await this.inner.transitionDocumentReview(id, from, to, note, actorId, updates);
+    if (updated) {
+      await this.audit("review.transition", "document", id, updated.name, { reviewStatus: from, note: null }, { reviewStatus: to, note });
+    }
+    return updated;
+  }
+
+  // Comments
+  getCommentThreads(documentId: string) { return this.inner.getCommentThreads(documentId); }
+  getCommentThread(id: string) { return this.inner.getCommentThread(id); }
+
+  async createCommentThread(thread: InsertCommentThread, comment: Omit<InsertComment, "threadId">): Promise<CommentThreadWithComments> {
+    const created = await this.inner.createCommentThread(thread, comment);
+    await this.audit("comment_thread.create", "document", created.documentId, await this.documentName(created.documentId), null, {
+      threadId: created.id,
+      path: created.path,
+      body: comment.body,
+    });
+    return created;
+  }
+
+  async updateCommentThread(id: string, updates: Partial<InsertCommentThread>): Promise<CommentThread | undefined> {
+    const before = await this.inner.getCommentThread(id);
+    const updated = await this.inner.updateCommentThread(id, updates);
+    if (updated) {
+      await this.audit(
+        "comment_thread.update",
+        "document",
+        updated.documentId,
+        await this.documentName(updated.documentId),
+        before,
+        updated
+      );
+    }
+    return updated;
+  }
+
+  async addComment(comment: InsertComment): Promise<Comment> {
+    const created = await this.inner.addComment(comment);
+    const thread = await this.inner.getCommentThread(created.threadId);
+    if (thread) {
+      await this.audit("comment.create", "document", thread.documentId, await this.documentName(thread.documentId), null, {
+        threadId: thread.id,
+        path: thread.path,
+        body: created.body,
+      });
+    }
+    return created;
+  }
+
+  // Users
+  getUser(id: string) { return this.inner.getUser(id); }
+  getUserByUsername(username: string) { return this.inner.getUserByUsername(username); }
+  getAllUsers() { return this.inner.getAllUsers(); }
+  countUsers() { return this.inner.countUsers(); }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const created = await this.inner.createUser(user);
+    await this.audit("user.create", "user", created.id, created.username, null, created);
+    return created;
+  }
+
+  async createFirstUser(user: InsertUser): Promise<User | undefined> {
+    const created = await this.inner.createFirstUser(user);
+    if (created) await this.audit("user.create", "user", created.id, created.username, null, created);
+    return created;
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const before = await this.inner.getUser(id);
+    const updated = await this.inner.updateUser(id, updates);
+    if (updated) await this.audit("user.update", "user", id, updated.username, before, updated);
+    return updated;
+  }
+
+  // Audit log
+  appendAuditEntry(entry: InsertAuditEntry) { return this.inner.appendAuditEntry(entry); }
+  getAuditLog(query: AuditLogQuery) { return this.inner.getAuditLog(query); }
+
+  // Extraction Schemas
+  getExtractionSchema(id: string) { return this.inner.getExtractionSchema(id); }
+  getAllExtractionSchemas() { return this.inner.getAllExtractionSchemas(); }
+  getLatestExtractionSchema(key: string) { return this.inner.getLatestExtractionSchema(key); }
+
+  async createExtractionSchema(schema: InsertExtractionSchema): Promise<ExtractionSchema> {
+    const created = await this.inner.createExtractionSchema(schema);
+    await this.audit("extraction_schema.create", "extraction_schema", created.id, `${created.key} v${created.version}`, null, created);
+    return created;
+  }
+
+  // Processing Jobs
+  createProcessingJob(job: InsertProcessingJob, files: InsertProcessingJobFile[]) { return this.inner.createProcessingJob(job, files); }
+  getProcessingJob(id: string) { return this.inner.getProcessingJob(id); }
+  getProcessingJobFiles(jobId: string) { return this.inner.getProcessingJobFiles(jobId); }
+  updateProcessingJob(id: string, updates: Partial<InsertProcessingJob>) { return this.inner.updateProcessingJob(id, updates); }
+  updateProcessingJobFile(id: string, updates: Partial<InsertProcessingJobFile>) { return this.inner.updateProcessingJobFile(id, updates); }
+  claimNextJobFile() { return this.inner.claimNextJobFile(); }
+  requeueStaleJobFiles(lockedBefore: Date) { return this.inner.requeueStaleJobFiles(lockedBefore); }
+
+  // LLM response cache
+  getLlmCacheEntry(key: string) { return this.inner.getLlmCacheEntry(key); }
+  saveLlmCacheEntry(entry: InsertLlmCacheEntry) { return this.inner.saveLlmCacheEntry(entry); }
+  recordLlmCacheHit(key: string, task: string) { return this.inner.recordLlmCacheHit(key, task); }
+  recordLlmCacheMiss(task: string) { return this.inner.recordLlmCacheMiss(task); }
+  deleteLlmCacheEntries(task?: string) { return this.inner.deleteLlmCacheEntries(task); }
+  getLlmCacheStats() { return this.inner.getLlmCacheStats(); }
+}
+
+// STORAGE_BACKEND=memory keeps everything in process memory (used by the test suite); the default is Postgres
+export const storageBackend = process.env.STORAGE_BACKEND === "memory" ? "memory" : "postgres";
+
+export const storage = new AuditedStorage(storageBackend === "memory" ? new MemStorage() : new DbStorage());
@@ -0,0 +1,146 @@
+import JSZip from "jszip";
+
+/**
+ * Documents built in memory for the tests, so no binary fixtures are checked in.
+ */
+
+export interface PdfTextLine {
+  text: string;
+  // Baseline origin in points from the bottom left of a US Letter page
+  x: number;
+  y: number;
+  size?: number;
+  // Set right after the text, smaller and raised, like a footnote marker
+  superscript?: string;
+}
+
+const pdfString = (text: string) => `(${text.replace(/[()\\]/g, "\\$&")})`;
+
+// A one-page PDF whose text layer holds the given line, or lines placed on the page
+export function makePdf(content: string | PdfTextLine[]): Buffer {
+  const lines = typeof content === "string" ? [{ text: content, x: 72, y: 720 }] : content;
+  const stream = lines
+    .map(({ text, x, y, size = 12, superscript }) => {
+      const raised = superscript ? ` /F1 ${Math.round(size * 0.6)} Tf ${size * 0.35} Ts ${pdfString(superscript)} Tj 0 Ts` : "";
+      return `BT /F1 ${size} Tf ${x} ${y} Td ${pdfString(text)} Tj${raised} ET`;
+    })
+    .join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value > 0x7f) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+// Protobuf fields: numbers as varints, anything else length-delimited
+function protoMessage(fields: Array<[number, number | string | Uint8Array]>): Uint8Array {
+  const bytes: number[] = [];
+  for (const [field, value] of fields) {
+    if (typeof value === "number") {
+      bytes.push(...varint(field * 8), ...varint(value));
+    } else {
+      const payload = typeof value === "string" ? Buffer.from(value, "utf8") : value;
+      bytes.push(...varint(field * 8 + 2), ...varint(payload.length), ...Array.from(payload));
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+export interface PagesTextStorage {
+  // TSWP.StorageArchive.KindType; left out to test the proto default
+  kind?: number;
+  text: string;
+  // Character ranges set in a superscript character style
+  superscripts?: Array<{ start: number; end: number }>;
+  // Paragraph style names, by the index of the paragraph's first character
+  paragraphStyles?: Array<{ start: number; name: string }>;
+}
+
+// TSWP.ObjectAttributeTable entries; a null object ends the previous run
+function attributeTable(entries: Array<{ index: number; objectId: number | null }>): Uint8Array {
+  return protoMessage(
+    entries.map(({ index, objectId }) => [
+      1,
+      protoMessage([[1, index], ...(objectId !== null ? [[2, protoMessage([[1, objectId]])] as [number, Uint8Array]] : [])]),
+    ])
+  );
+}
+
+/**
+ * A minimal .pages bundle: one Index/Document.iwa holding a TSWP.StorageArchive
+ * per text storage and the character and paragraph styles they reference (as
+ * one uncompressed Snappy literal), plus an optional QuickLook preview PDF.
+ */
+export async function makePages({ storages = [], previewPdf }: { storages?: PagesTextStorage[]; previewPdf?: Buffer }): Promise<Buffer> {
+  const zip = new JSZip();
+
+  if (storages.length > 0) {
+    const objects: Array<{ id: number; type: number; payload: Uint8Array }> = [];
+    const superscriptStyleId = 1000;
+    objects.push({ id: superscriptStyleId, type: 2021, payload: protoMessage([[11, protoMessage([[11, 1]])]]) });
+    const paragraphStyleIds = new Map<string, number>();
+    const paragraphStyleId = (name: string) => {
+      if (!paragraphStyleIds.has(name)) {
+        const id = 2000 + paragraphStyleIds.size;
+        paragraphStyleIds.set(name, id);
+        objects.push({ id, type: 2022, payload: protoMessage([[1, protoMessage([[1, name]])]]) });
+      }
+      return paragraphStyleIds.get(name)!;
+    };
+
+    storages.forEach((storage, index) => {
+      const fields: Array<[number, number | string | Uint8Array]> = [];
+      if (storage.kind !== undefined) fields.push([1, storage.kind]);
+      fields.push([3, storage.text]);
+      if (storage.paragraphStyles) {
+        fields.push([5, attributeTable(storage.paragraphStyles.map(({ start, name }) => ({ index: start, objectId: paragraphStyleId(name) })))]);
+      }
+      if (storage.superscripts) {
+        const runs = storage.superscripts.flatMap(({ start, end }) => [
+          { index: start, objectId: superscriptStyleId },
+          { index: end, objectId: null },
+        ]);
+        fields.push([8, attributeTable(runs)]);
+      }
+      objects.push({ id: index + 1, type: 2001, payload: protoMessage(fields) });
+    });
+
+    const archives: number[] = [];
+    for (const { id, type, payload } of objects) {
+      const info = protoMessage([
+        [1, id],
+        [2, protoMessage([[1, type], [3, payload.length]])],
+      ]);
+      archives.push(...varint(info.length), ...Array.from(info), ...Array.from(payload));
+    }
+    const snappy = [...varint(archives.length), 61 << 2, (archives.length - 1) & 0xff, (archives.length - 1) >> 8, ...archives];
+    const iwa = [0, snappy.length & 0xff, (snappy.length >> 8) & 0xff, snappy.length >> 16, ...snappy];
+    zip.file("Index/Document.iwa", Uint8Array.from(iwa));
+  }
+  if (previewPdf) zip.file("QuickLook/Preview.pdf", previewPdf);
+
+  return zip.generateAsync({ type: "nodebuffer" });
+}
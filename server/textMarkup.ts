@@ -0,0 +1,105 @@
+/**
+ * Shared markup conventions for extracted document text.
+ *
+ * Every extractor emits the same plain-text dialect so the extraction prompt can
+ * rely on it regardless of the source format:
+ * - footnote markers become {{sup:N}} tokens
+ * - unit exponents (cm², m³) become literal Unicode superscripts
+ * - paragraphs are separated by a blank line
+ */
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+  "0": "⁰", "1": "¹", "2": "²", "3": "³", "4": "⁴",
+  "5": "⁵", "6": "⁶", "7": "⁷", "8": "⁸", "9": "⁹",
+};
+
+const UNICODE_FOOTNOTE_DIGITS: Record<string, string> = Object.fromEntries(
+  Object.entries(SUPERSCRIPT_DIGITS).map(([digit, sup]) => [sup, digit])
+);
+
+// Units whose exponents are content, not footnote references
+const UNIT_PATTERN = /(?:^|[^A-Za-z])(mm|cm|km|m|in|ft|yd|mi|µm|nm)$/;
+
+// Footnote runs look like "1", "12", "1,2" or "1-3"
+const FOOTNOTE_RUN_PATTERN = /^\d{1,3}(?:\s*[,–-]\s*\d{1,3})*$/;
+
+export function supToken(marker: string | number): string {
+  return `{{sup:${marker}}}`;
+}
+
+/**
+ * Convert a run of superscript text into the extraction markup, using the text
+ * immediately before the run to tell unit exponents from footnote markers.
+ */
+export function formatSuperscriptRun(run: string, precedingText: string): string {
+  const trimmed = run.trim();
+  if (!trimmed) return run;
+
+  if (/^\d$/.test(trimmed) && UNIT_PATTERN.test(precedingText)) {
+    return SUPERSCRIPT_DIGITS[trimmed];
+  }
+
+  if (FOOTNOTE_RUN_PATTERN.test(trimmed)) {
+    const markers: string[] = [];
+    for (const part of trimmed.split(/\s*,\s*/)) {
+      const range = part.split(/\s*[–-]\s*/).map(Number);
+      if (range.length === 2 && range[1] >= range[0] && range[1] - range[0] < 20) {
+        for (let n = range[0]; n <= range[1]; n++) markers.push(supToken(n));
+      } else {
+        markers.push(...range.map((n) => supToken(n)));
+      }
+    }
+    return markers.join("");
+  }
+
+  // Legal marks and anything else are left for the model to handle
+  return trimmed;
+}
+
+/**
+ * Replace raw Unicode footnote digits (¹²³) that are not unit exponents with
+ * {{sup:N}} tokens. Used for formats where superscripts arrive as characters.
+ */
+export function tokenizeUnicodeSuperscripts(text: string): string {
+  return text.replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]+/g, (match, offset: number) => {
+    const digits = Array.from(match).map((c) => UNICODE_FOOTNOTE_DIGITS[c]).join("");
+    const preceding = text.slice(Math.max(0, offset - 4), offset);
+    if (digits.length === 1 && UNIT_PATTERN.test(preceding)) {
+      return match;
+    }
+    return supToken(digits);
+  });
+}
+
+export function headingLine(level: number, text: string): string {
+  const clamped = Math.min(Math.max(level, 1), 6);
+  return `${"#".repeat(clamped)} ${text.trim()}`;
+}
+
+/**
+ * Map a paragraph style name ("Title", "Heading", "Heading 2") to a heading level.
+ */
+export function headingLevelForStyle(styleName: string | null | undefined): number | null {
+  if (!styleName) return null;
+  if (/^title$/i.test(styleName)) return 1;
+  const match = styleName.match(/^heading\s*(\d)?$/i);
+  if (!match) return null;
+  return match[1] ? Number(match[1]) : 1;
+}
+
+export function listItemLine(depth: number, text: string, ordinal?: number): string {
+  const indent = "  ".repeat(Math.max(depth, 0));
+  const bullet = ordinal !== undefined ? `${ordinal}.` : "-";
+  return `${indent}${bullet} ${text.trim()}`;
+}
+
+/**
+ * Collapse paragraph lists into the final text: trims trailing whitespace,
+ * drops empty paragraphs and separates paragraphs with a blank line.
+ */
+export function joinParagraphs(paragraphs: string[]): string {
+  return paragraphs
+    .map((p) => p.replace(/[ \t]+$/gm, ""))
+    .filter((p) => p.trim().length > 0)
+    .join("\n\n");
+}
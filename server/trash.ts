@@ -0,0 +1,107 @@
+import { storage } from "./storage";
+import { DocumentStorageService } from "./documentStorage";
+import type { Document, Folder, TrashContents } from "@shared/schema";
+
+/**
+ * Deleting a document or folder moves it to the trash (deletedAt is set) and
+ * list endpoints stop returning it. It can be restored until it is older than
+ * TRASH_RETENTION_DAYS; then the purge job removes the rows and the uploaded
+ * files in object storage. Admins can also purge an item from the trash early.
+ */
+
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS || 30);
+const TRASH_PURGE_INTERVAL_MS = Number(process.env.TRASH_PURGE_INTERVAL_MS || 60 * 60 * 1000);
+
+let purgeStarted = false;
+
+// The outermost trashed folder an item was deleted along with, if any
+function trashedWith(folderId: string | null, deletedAt: Date | null, byId: Map<string, Folder>): Folder | undefined {
+  let root: Folder | undefined;
+  let folder = folderId ? byId.get(folderId) : undefined;
+  const visited = new Set<string>();
+  while (folder && folder.deletedAt?.getTime() === deletedAt?.getTime() && !visited.has(folder.id)) {
+    visited.add(folder.id);
+    root = folder;
+    folder = folder.parentFolderId ? byId.get(folder.parentFolderId) : undefined;
+  }
+  return root;
+}
+
+function isInside(folderId: string | null, ancestorId: string, byId: Map<string, Folder>): boolean {
+  const visited = new Set<string>();
+  while (folderId && !visited.has(folderId)) {
+    if (folderId === ancestorId) return true;
+    visited.add(folderId);
+    folderId = byId.get(folderId)?.parentFolderId ?? null;
+  }
+  return false;
+}
+
+// Items deleted with a folder are listed under it rather than on their own
+export async function getTrashContents(): Promise<TrashContents> {
+  const [folders, documents] = await Promise.all([storage.getTrashedFolders(), storage.getTrashedDocuments()]);
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+
+  return {
+    folders: folders
+      .filter((folder) => !trashedWith(folder.parentFolderId, folder.deletedAt, byId))
+      .map((folder) => ({
+        ...folder,
+        documentCount: documents.filter((document) => trashedWith(document.folderId, document.deletedAt, byId)?.id === folder.id).length,
+      })),
+    documents: documents
+      .filter((document) => !trashedWith(document.folderId, document.deletedAt, byId))
+      .map(({ filePath: _, ...document }) => document),
+    retentionDays: TRASH_RETENTION_DAYS,
+  };
+}
+
+// The uploaded file first, so a failure leaves the row in the trash to retry
+export async function purgeDocument(document: Document) {
+  await new DocumentStorageService().deleteDocument(document.filePath);
+  await storage.deleteDocument(document.id);
+}
+
+// Subfolders go with the folder; trashed documents anywhere inside it are purged too
+export async function purgeFolder(folder: Folder) {
+  const [folders, documents] = await Promise.all([storage.getTrashedFolders(), storage.getTrashedDocuments()]);
+  const byId = new Map(folders.map((candidate) => [candidate.id, candidate]));
+  for (const document of documents.filter((candidate) => isInside(candidate.folderId, folder.id, byId))) {
+    await purgeDocument(document);
+  }
+  await storage.deleteFolder(folder.id);
+}
+
+export async function purgeExpiredTrash(): Promise<{ documents: number; folders: number }> {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const purged = { documents: 0, folders: 0 };
+
+  for (const document of await storage.getTrashedDocuments(cutoff)) {
+    try {
+      await purgeDocument(document);
+      purged.documents++;
+    } catch (error) {
+      console.error(`Failed to purge document ${document.id}:`, error);
+    }
+  }
+  // Documents are gone by now, so this only removes the folder rows
+  for (const folder of await storage.getTrashedFolders(cutoff)) {
+    try {
+      await storage.deleteFolder(folder.id);
+      purged.folders++;
+    } catch (error) {
+      console.error(`Failed to purge folder ${folder.id}:`, error);
+    }
+  }
+  return purged;
+}
+
+export function startTrashPurge() {
+  if (purgeStarted) return;
+  purgeStarted = true;
+
+  const purge = () =>
+    purgeExpiredTrash().catch((error) => console.error("Failed to purge the trash:", error));
+  void purge();
+  setInterval(purge, TRASH_PURGE_INTERVAL_MS).unref();
+}
@@ -1,18 +1,10 @@
-import OpenAI from "openai";
-import { GoogleGenAI } from "@google/genai";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-// Using Replit's AI Integrations service for Gemini access
-const gemini = new GoogleGenAI({
-  apiKey: process.env.AI_INTEGRATIONS_GEMINI_API_KEY || "",
-  httpOptions: {
-    apiVersion: "",
-    baseUrl: process.env.AI_INTEGRATIONS_GEMINI_BASE_URL,
-  },
-});
+import { documentOutline } from "./chunking";
+import { describeTask, type LLMTask } from "./llmProvider";
+import { completeTaskCached } from "./llmCache";
+import { legalField, type ExtractionSchemaDefinition } from "@shared/extractionSchema";
+import { lintFootnotes, formatFootnoteIssue, type FootnoteLintIssue } from "./footnoteLinter";
+
+type JudgeTask = Extract<LLMTask, "judgePrimary" | "judgeSecondary">;
 
 export interface ValidationCriteria {
   field_names_english: boolean;
@@ -35,20 +27,23 @@ export interface ValidationResult {
   scores: ValidationCriteria;
   reasoning: string;
   passedValidation: boolean;
-  gpt4oJudge?: JudgeResult;
-  geminiJudge?: JudgeResult;
+  primaryJudge?: JudgeResult;
+  secondaryJudge?: JudgeResult;
 }
 
-const VALIDATION_PROMPT = `You are a meticulous quality assurance judge evaluating document extraction accuracy.
+function validationPrompt(definition: ExtractionSchemaDefinition): string {
+  const fieldNames = [...definition.sections, ...definition.fields].map((item) => item.name);
+  const legal = legalField(definition);
+  return `You are a meticulous quality assurance judge evaluating document extraction accuracy.
 
 Your task is to compare the ORIGINAL TEXT with the EXTRACTED JSON and validate that the extraction follows these strict rules:
 
 EXTRACTION RULES:
-1. JSON field names (ProductCopy, BusinessCopy, UpgraderCopy, ProductName, Headlines, AdvertisingCopy, KeyFeatureBullets, LegalReferences) MUST be in English
-2. Content values (product names, headlines, copy, features) MUST remain in the source document's original language (no translation)
-3. Superscripts (¹, ², ³, etc.) MUST be converted to {{sup:N}} tokens in content
+1. JSON field names (${fieldNames.join(", ")}) MUST be in English
+2. Content values MUST remain in the source document's original language (no translation)
+3. Superscripts (¹, ², ³, etc.) MUST be converted to {{sup:N}} tokens in content. The ORIGINAL TEXT already marks superscripts detected in the source formatting as {{sup:N}}; every such token must survive into the JSON unchanged
 4. ALL products mentioned in the document MUST be extracted (check completeness)
-5. Legal references MUST be prefixed with matching {{sup:N}} tokens to link them to content
+5. ${legal ? `Entries in ${legal.name}` : "Legal references"} MUST be prefixed with matching {{sup:N}} tokens to link them to content
 
 THINK STEP-BY-STEP:
 1. First, identify what language the source document is in
@@ -57,79 +52,32 @@ THINK STEP-BY-STEP:
 4. Calculate overall confidence (0-1 scale)
 
 Respond with valid JSON only (no markdown).`;
+}
 
-// Helper to call GPT-4o judge
-async function callGPT4oJudge(originalText: string, extractedData: any): Promise<JudgeResult> {
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    temperature: 0.1, // Low for deterministic results
-    messages: [
-      {
-        role: "system",
-        content: VALIDATION_PROMPT
-      },
-      {
-        role: "user",
-        content: `ORIGINAL TEXT:
-${originalText.substring(0, 8000)} ${originalText.length > 8000 ? '...[truncated]' : ''}
-
-EXTRACTED JSON:
-${JSON.stringify(extractedData, null, 2)}
+// Judges see the source text up to this size, plus an outline beyond it
+const JUDGE_TEXT_CHARS = 60000;
 
-EVALUATION CRITERIA:
-1. Are ALL field names (ProductCopy, Headlines, etc.) in English? (yes/no)
-2. Is content in the source document's original language? (yes/no)
-3. Are superscripts correctly converted to {{sup:N}} tokens? (yes/no)
-4. Are all products mentioned in the document extracted? (yes/no)
-5. Do legal references match their {{sup:N}} markers? (yes/no)
-
-Provide your evaluation as JSON:
-{
-  "reasoning": "step-by-step analysis",
-  "criteria_scores": {
-    "field_names_english": true/false,
-    "content_language_preserved": true/false,
-    "superscripts_correct": true/false,
-    "completeness": true/false,
-    "legal_refs_match": true/false
-  },
-  "overall_confidence": 0.0-1.0,
-  "issues_found": ["list of specific issues"]
-}`
-      }
-    ],
-    response_format: { type: "json_object" }
-  });
-
-  const content = response.choices[0].message.content;
-  if (!content) {
-    throw new Error("No response from GPT-4o validation");
+// Long documents: show the start of the text plus every heading, so the
+// completeness check knows about products past the cut
+function formatOriginalForJudge(originalText: string, definition: ExtractionSchemaDefinition): string {
+  if (originalText.length <= JUDGE_TEXT_CHARS) {
+    return originalText;
   }
+  return `${originalText.substring(0, JUDGE_TEXT_CHARS)} ...[truncated, ${originalText.length - JUDGE_TEXT_CHARS} more characters]
 
-  const validation = JSON.parse(content);
-  
-  return {
-    confidence: validation.overall_confidence,
-    scores: validation.criteria_scores,
-    reasoning: validation.reasoning,
-    issues: validation.issues_found || []
-  };
+DOCUMENT OUTLINE (every heading in the full document, including the truncated part):
+${documentOutline(originalText, definition) || "(no headings detected)"}`;
 }
 
-// Helper to call Gemini judge
-async function callGeminiJudge(originalText: string, extractedData: any): Promise<JudgeResult> {
-  const response = await gemini.models.generateContent({
-    model: "gemini-2.5-pro",
-    contents: `${VALIDATION_PROMPT}
-
-ORIGINAL TEXT:
-${originalText.substring(0, 8000)} ${originalText.length > 8000 ? '...[truncated]' : ''}
+function buildJudgePrompt(originalText: string, extractedData: any, definition: ExtractionSchemaDefinition): string {
+  return `ORIGINAL TEXT:
+${formatOriginalForJudge(originalText, definition)}
 
 EXTRACTED JSON:
 ${JSON.stringify(extractedData, null, 2)}
 
 EVALUATION CRITERIA:
-1. Are ALL field names (ProductCopy, Headlines, etc.) in English? (yes/no)
+1. Are ALL field names (${definition.sections[0].name}, ${definition.fields[0].name}, etc.) in English? (yes/no)
 2. Is content in the source document's original language? (yes/no)
 3. Are superscripts correctly converted to {{sup:N}} tokens? (yes/no)
 4. Are all products mentioned in the document extracted? (yes/no)
@@ -147,48 +95,71 @@ Provide your evaluation as JSON:
   },
   "overall_confidence": 0.0-1.0,
   "issues_found": ["list of specific issues"]
-}`,
-    config: {
-      responseMimeType: "application/json",
-      temperature: 0.1
-    }
-  });
+}`;
+}
 
-  const text = response.text;
-  if (!text) {
-    throw new Error("No response from Gemini validation");
-  }
+// Cache key version for judge calls; bump to stop replaying verdicts read under older rules
+const JUDGE_PROMPT_VERSION = "1";
 
-  const validation = JSON.parse(text);
-  
-  return {
-    confidence: validation.overall_confidence,
-    scores: validation.criteria_scores,
-    reasoning: validation.reasoning,
-    issues: validation.issues_found || []
-  };
+// Helper to call one judge on its configured provider
+async function callJudge(
+  task: JudgeTask,
+  originalText: string,
+  extractedData: any,
+  definition: ExtractionSchemaDefinition
+): Promise<JudgeResult> {
+  return completeTaskCached(task, JUDGE_PROMPT_VERSION, {
+    messages: [
+      {
+        role: "system",
+        content: validationPrompt(definition)
+      },
+      {
+        role: "user",
+        content: buildJudgePrompt(originalText, extractedData, definition)
+      }
+    ],
+    json: true,
+    temperature: 0.1 // Low for deterministic results
+  }, (content) => {
+    if (!content) {
+      throw new Error(`No response from ${describeTask(task)} validation`);
+    }
+
+    const validation = JSON.parse(content);
+    
+    return {
+      confidence: validation.overall_confidence,
+      scores: validation.criteria_scores,
+      reasoning: validation.reasoning,
+      issues: validation.issues_found || []
+    };
+  });
 }
 
-// Dual-judge validation using both GPT-4o and Gemini
+// Dual-judge validation using the primary and secondary judge models
 export async function validateExtraction(
   originalText: string,
-  extractedData: any
+  extractedData: any,
+  definition: ExtractionSchemaDefinition
 ): Promise<ValidationResult> {
   try {
     // Run both judges in parallel
-    const [gpt4oResult, geminiResult] = await Promise.all([
-      callGPT4oJudge(originalText, extractedData).catch(error => {
-        console.error("GPT-4o judge error:", error);
+    const [primaryResult, secondaryResult] = await Promise.all([
+      callJudge("judgePrimary", originalText, extractedData, definition).catch(error => {
+        console.error("Primary judge error:", error);
         return null;
       }),
-      callGeminiJudge(originalText, extractedData).catch(error => {
-        console.error("Gemini judge error:", error);
+      callJudge("judgeSecondary", originalText, extractedData, definition).catch(error => {
+        console.error("Secondary judge error:", error);
         return null;
       })
     ]);
+    const primaryLabel = describeTask("judgePrimary");
+    const secondaryLabel = describeTask("judgeSecondary");
 
     // If both judges failed, return error result with all criteria marked as failed
-    if (!gpt4oResult && !geminiResult) {
+    if (!primaryResult && !secondaryResult) {
       return {
         confidence: 0,
         issues: ["Both validation judges failed - manual review required"],
@@ -205,47 +176,47 @@ export async function validateExtraction(
     }
 
     // Use single judge result if one failed
-    if (!gpt4oResult) {
-      const allCriteriaPassed = Object.values(geminiResult!.scores).every((v) => v === true);
-      const passedValidation = allCriteriaPassed && geminiResult!.confidence >= 0.7;
+    if (!primaryResult) {
+      const allCriteriaPassed = Object.values(secondaryResult!.scores).every((v) => v === true);
+      const passedValidation = allCriteriaPassed && secondaryResult!.confidence >= 0.7;
       return {
-        confidence: geminiResult!.confidence,
-        issues: geminiResult!.issues,
-        scores: geminiResult!.scores,
-        reasoning: `Gemini Judge: ${geminiResult!.reasoning}`,
+        confidence: secondaryResult!.confidence,
+        issues: secondaryResult!.issues,
+        scores: secondaryResult!.scores,
+        reasoning: `${secondaryLabel} Judge: ${secondaryResult!.reasoning}`,
         passedValidation,
-        geminiJudge: geminiResult!
+        secondaryJudge: secondaryResult!
       };
     }
 
-    if (!geminiResult) {
-      const allCriteriaPassed = Object.values(gpt4oResult!.scores).every((v) => v === true);
-      const passedValidation = allCriteriaPassed && gpt4oResult!.confidence >= 0.7;
+    if (!secondaryResult) {
+      const allCriteriaPassed = Object.values(primaryResult!.scores).every((v) => v === true);
+      const passedValidation = allCriteriaPassed && primaryResult!.confidence >= 0.7;
       return {
-        confidence: gpt4oResult!.confidence,
-        issues: gpt4oResult!.issues,
-        scores: gpt4oResult!.scores,
-        reasoning: `GPT-4o Judge: ${gpt4oResult!.reasoning}`,
+        confidence: primaryResult!.confidence,
+        issues: primaryResult!.issues,
+        scores: primaryResult!.scores,
+        reasoning: `${primaryLabel} Judge: ${primaryResult!.reasoning}`,
         passedValidation,
-        gpt4oJudge: gpt4oResult!
+        primaryJudge: primaryResult!
       };
     }
 
     // Both judges succeeded - combine their results
-    // Weighted average: GPT-4o 50%, Gemini 50%
-    const combinedConfidence = (gpt4oResult.confidence * 0.5) + (geminiResult.confidence * 0.5);
+    // Weighted average: primary 50%, secondary 50%
+    const combinedConfidence = (primaryResult.confidence * 0.5) + (secondaryResult.confidence * 0.5);
     
     // Combine scores - both must agree for true
     const combinedScores: ValidationCriteria = {
-      field_names_english: gpt4oResult.scores.field_names_english && geminiResult.scores.field_names_english,
-      content_language_preserved: gpt4oResult.scores.content_language_preserved && geminiResult.scores.content_language_preserved,
-      superscripts_correct: gpt4oResult.scores.superscripts_correct && geminiResult.scores.superscripts_correct,
-      completeness: gpt4oResult.scores.completeness && geminiResult.scores.completeness,
-      legal_refs_match: gpt4oResult.scores.legal_refs_match && geminiResult.scores.legal_refs_match
+      field_names_english: primaryResult.scores.field_names_english && secondaryResult.scores.field_names_english,
+      content_language_preserved: primaryResult.scores.content_language_preserved && secondaryResult.scores.content_language_preserved,
+      superscripts_correct: primaryResult.scores.superscripts_correct && secondaryResult.scores.superscripts_correct,
+      completeness: primaryResult.scores.completeness && secondaryResult.scores.completeness,
+      legal_refs_match: primaryResult.scores.legal_refs_match && secondaryResult.scores.legal_refs_match
     };
 
     // Combine issues from both judges (deduplicate)
-    const allIssues = [...gpt4oResult.issues, ...geminiResult.issues];
+    const allIssues = [...primaryResult.issues, ...secondaryResult.issues];
     const combinedIssues = Array.from(new Set(allIssues));
     
     const allCriteriaPassed = Object.values(combinedScores).every((v) => v === true);
@@ -255,10 +226,10 @@ export async function validateExtraction(
       confidence: combinedConfidence,
       issues: combinedIssues,
       scores: combinedScores,
-      reasoning: `Dual-Judge Analysis (GPT-4o: ${Math.round(gpt4oResult.confidence * 100)}%, Gemini: ${Math.round(geminiResult.confidence * 100)}%)`,
+      reasoning: `Dual-Judge Analysis (${primaryLabel}: ${Math.round(primaryResult.confidence * 100)}%, ${secondaryLabel}: ${Math.round(secondaryResult.confidence * 100)}%)`,
       passedValidation,
-      gpt4oJudge: gpt4oResult,
-      geminiJudge: geminiResult
+      primaryJudge: primaryResult,
+      secondaryJudge: secondaryResult
     };
   } catch (error) {
     console.error("Validation error:", error);
@@ -280,24 +251,25 @@ export async function validateExtraction(
 }
 
 // Quick validation checks (cheaper than full AI validation)
-export function quickValidationChecks(extractedData: any): {
+export function quickValidationChecks(extractedData: any, definition: ExtractionSchemaDefinition): {
   passed: boolean;
   issues: string[];
+  footnoteIssues: FootnoteLintIssue[];
 } {
   const issues: string[] = [];
 
   // Check if main structure exists
   if (!extractedData || typeof extractedData !== 'object') {
     issues.push("Invalid JSON structure");
-    return { passed: false, issues };
+    return { passed: false, issues, footnoteIssues: [] };
   }
 
-  // Check for expected English field names
-  const expectedFields = ['ProductCopy', 'BusinessCopy', 'UpgraderCopy'];
+  // Check for the schema's section names
+  const expectedFields = definition.sections.map(section => section.name);
   const hasAnyExpectedField = expectedFields.some(field => field in extractedData);
   
   if (!hasAnyExpectedField) {
-    issues.push("Missing expected field names (ProductCopy, BusinessCopy, or UpgraderCopy)");
+    issues.push(`Missing expected field names (${expectedFields.join(", ")})`);
   }
 
   // Check for non-English field names (basic heuristic)
@@ -309,8 +281,13 @@ export function quickValidationChecks(extractedData: any): {
     issues.push(`Found non-English field names: ${nonEnglishFields.join(', ')}`);
   }
 
+  // Footnote markers, legal references and leftover marks
+  const footnoteIssues = lintFootnotes(extractedData, definition);
+  issues.push(...footnoteIssues.map(formatFootnoteIssue));
+
   return {
     passed: issues.length === 0,
-    issues
+    issues,
+    footnoteIssues
   };
 }
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EXTRACTION_SCHEMA_DEFINITION as definition } from "@shared/extractionSchema";
+import { diffStructuredData, diffWords } from "./versionDiff";
+
+const phone = (overrides: Record<string, unknown> = {}) => ({
+  ProductName: "Lumen Phone",
+  Headlines: ["Meet Lumen"],
+  AdvertisingCopy: "Battery for days.",
+  KeyFeatureBullets: ["Fast charging", "All-day battery"],
+  LegalReferences: [],
+  ...overrides,
+});
+
+describe("diffWords", () => {
+  it("marks the words that changed and merges runs of the same kind", () => {
+    expect(diffWords("Battery for two days.", "Battery for three days, or more.")).toEqual([
+      { op: "equal", text: "Battery for " },
+      { op: "delete", text: "two" },
+      { op: "insert", text: "three" },
+      { op: "equal", text: " " },
+      { op: "delete", text: "days." },
+      { op: "insert", text: "days, or more." },
+    ]);
+  });
+
+  it("treats empty text as all inserted or all deleted", () => {
+    expect(diffWords("", "New copy")).toEqual([{ op: "insert", text: "New copy" }]);
+    expect(diffWords("Old copy", "")).toEqual([{ op: "delete", text: "Old copy" }]);
+  });
+});
+
+describe("diffStructuredData", () => {
+  it("pairs products by name, so reordering them is not a change", () => {
+    const watch = { ProductName: "Lumen Watch", Headlines: [] };
+    expect(diffStructuredData(definition, { ProductCopy: [phone(), watch] }, { ProductCopy: [watch, phone()] })).toEqual([]);
+  });
+
+  it("reports added and removed list items but not reordering", () => {
+    const [section] = diffStructuredData(
+      definition,
+      { ProductCopy: [phone()] },
+      { ProductCopy: [phone({ Headlines: ["Meet Lumen", "Brighter"], KeyFeatureBullets: ["All-day battery", "Fast charging"] })] }
+    );
+    expect(section).toEqual({
+      name: "ProductCopy",
+      label: "Product copy",
+      products: [
+        {
+          name: "Lumen Phone",
+          status: "changed",
+          fields: [{ name: "Headlines", label: "Headlines", type: "list", added: ["Brighter"], removed: [] }],
+        },
+      ],
+    });
+  });
+
+  it("gives changed text fields a word diff", () => {
+    const [section] = diffStructuredData(
+      definition,
+      { ProductCopy: [phone()] },
+      { ProductCopy: [phone({ AdvertisingCopy: "Battery for weeks." })] }
+    );
+    expect(section.products[0].fields).toEqual([
+      {
+        name: "AdvertisingCopy",
+        label: "Advertising Copy",
+        type: "text",
+        before: "Battery for days.",
+        after: "Battery for weeks.",
+        words: [
+          { op: "equal", text: "Battery for " },
+          { op: "delete", text: "days." },
+          { op: "insert", text: "weeks." },
+        ],
+      },
+    ]);
+  });
+
+  it("lists added and removed products per section", () => {
+    const sections = diffStructuredData(
+      definition,
+      { ProductCopy: [phone()], BusinessCopy: [] },
+      { ProductCopy: [], BusinessCopy: [{ ProductName: "Lumen Fleet", Headlines: ["For teams"] }] }
+    );
+    expect(sections.map((section) => [section.name, section.products.map(({ name, status }) => [name, status])])).toEqual([
+      ["ProductCopy", [["Lumen Phone", "removed"]]],
+      ["BusinessCopy", [["Lumen Fleet", "added"]]],
+    ]);
+    expect(sections[1].products[0].fields).toEqual([
+      { name: "ProductName", label: "Product Name", type: "text", before: "", after: "Lumen Fleet", words: [{ op: "insert", text: "Lumen Fleet" }] },
+      { name: "Headlines", label: "Headlines", type: "list", added: ["For teams"], removed: [] },
+    ]);
+  });
+
+  it("pairs repeated names in order", () => {
+    const sections = diffStructuredData(
+      definition,
+      { ProductCopy: [phone(), phone({ AdvertisingCopy: "Second." })] },
+      { ProductCopy: [phone(), phone({ AdvertisingCopy: "Second, edited." })] }
+    );
+    expect(sections[0].products).toHaveLength(1);
+    expect(sections[0].products[0].fields[0]).toMatchObject({ name: "AdvertisingCopy", before: "Second.", after: "Second, edited." });
+  });
+});
@@ -0,0 +1,186 @@
+import { storage } from "./storage";
+import { extractionSchemaForDocument } from "./extractionSchemas";
+import { entryName, sectionEntries, type ExtractionSchemaDefinition } from "@shared/extractionSchema";
+import type { Document, DocumentVersion, FieldDiff, ProductDiff, VersionDiff, VersionDiffSide, WordChange } from "@shared/schema";
+
+/**
+ * Structural diff between two states of a document's structured data: a
+ * stored version, or the document as it is now. Entries are paired by name
+ * within each section, so reordering products is not a change. List fields
+ * (headlines, bullets) report added and removed items; text fields get a
+ * word-level diff.
+ */
+
+export class VersionNotFoundError extends Error {
+  constructor(versionId: string) {
+    super(`Version ${versionId} not found for this document`);
+    this.name = "VersionNotFoundError";
+    Object.setPrototypeOf(this, VersionNotFoundError.prototype);
+  }
+}
+
+// Beyond this many word pairs the LCS table gets too large; the text is shown as replaced
+const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+type DiffState = VersionDiffSide & { structuredData: unknown; extractionSchemaId: string | null };
+
+function fromVersion(version: DocumentVersion): DiffState {
+  return {
+    versionId: version.id,
+    versionNumber: version.versionNumber,
+    validationConfidence: version.validationConfidence,
+    changeDescription: version.changeDescription,
+    createdAt: version.createdAt.toISOString(),
+    structuredData: version.structuredData,
+    extractionSchemaId: version.extractionSchemaId,
+  };
+}
+
+function fromDocument(document: Document): DiffState {
+  return {
+    versionId: null,
+    versionNumber: null,
+    validationConfidence: document.validationConfidence,
+    changeDescription: null,
+    createdAt: document.updatedAt.toISOString(),
+    structuredData: document.structuredData,
+    extractionSchemaId: document.extractionSchemaId,
+  };
+}
+
+// Sections and fields of both schemas, so nothing is hidden when a reprocess changed the schema
+function combineDefinitions(to: ExtractionSchemaDefinition, from: ExtractionSchemaDefinition): ExtractionSchemaDefinition {
+  return {
+    sections: to.sections.concat(from.sections.filter((section) => !to.sections.some((s) => s.name === section.name))),
+    fields: to.fields.concat(from.fields.filter((field) => !to.fields.some((f) => f.name === field.name))),
+  };
+}
+
+export function diffWords(before: string, after: string): WordChange[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+    return [
+      ...(before ? [{ op: "delete" as const, text: before }] : []),
+      ...(after ? [{ op: "insert" as const, text: after }] : []),
+    ];
+  }
+
+  // lcs[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: WordChange[] = [];
+  const push = (op: WordChange["op"], text: string) => {
+    const last = changes[changes.length - 1];
+    if (last?.op === op) last.text += text;
+    else changes.push({ op, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push("delete", a[i++]);
+    } else {
+      push("insert", b[j++]);
+    }
+  }
+  return changes;
+}
+
+function asList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function asText(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function diffEntry(definition: ExtractionSchemaDefinition, before: any, after: any): FieldDiff[] {
+  const fields: FieldDiff[] = [];
+  for (const field of definition.fields) {
+    if (JSON.stringify(before?.[field.name] ?? null) === JSON.stringify(after?.[field.name] ?? null)) continue;
+    if (field.type === "string[]") {
+      const oldItems = asList(before?.[field.name]);
+      const newItems = asList(after?.[field.name]);
+      const added = newItems.filter((item) => !oldItems.includes(item));
+      const removed = oldItems.filter((item) => !newItems.includes(item));
+      // Reordering alone is not worth listing
+      if (added.length > 0 || removed.length > 0) {
+        fields.push({ name: field.name, label: field.label, type: "list", added, removed });
+      }
+    } else {
+      const oldText = asText(before?.[field.name]);
+      const newText = asText(after?.[field.name]);
+      fields.push({ name: field.name, label: field.label, type: "text", before: oldText, after: newText, words: diffWords(oldText, newText) });
+    }
+  }
+  return fields;
+}
+
+export function diffStructuredData(definition: ExtractionSchemaDefinition, before: unknown, after: unknown): VersionDiff["sections"] {
+  const sections: VersionDiff["sections"] = [];
+  for (const section of definition.sections) {
+    const oldEntries = sectionEntries(before, section.name).map((entry, index) => ({ entry, name: entryName(definition, entry, index) }));
+    const newEntries = sectionEntries(after, section.name).map((entry, index) => ({ entry, name: entryName(definition, entry, index) }));
+    const products: ProductDiff[] = [];
+
+    // Pair by name; repeated names pair up in order
+    const unmatched = [...oldEntries];
+    for (const { entry, name } of newEntries) {
+      const index = unmatched.findIndex((candidate) => candidate.name === name);
+      if (index === -1) {
+        products.push({ name, status: "added", fields: diffEntry(definition, null, entry) });
+        continue;
+      }
+      const [previous] = unmatched.splice(index, 1);
+      const fields = diffEntry(definition, previous.entry, entry);
+      if (fields.length > 0) products.push({ name, status: "changed", fields });
+    }
+    for (const { entry, name } of unmatched) {
+      products.push({ name, status: "removed", fields: diffEntry(definition, entry, null) });
+    }
+
+    if (products.length > 0) sections.push({ name: section.name, label: section.label, products });
+  }
+  return sections;
+}
+
+// versionId "current" stands for the document's present state
+function loadState(document: Document, versions: DocumentVersion[], versionId: string): DiffState {
+  if (versionId === "current") return fromDocument(document);
+  const version = versions.find((candidate) => candidate.id === versionId);
+  if (!version) throw new VersionNotFoundError(versionId);
+  return fromVersion(version);
+}
+
+export async function diffDocumentVersions(document: Document, fromId: string, toId: string): Promise<VersionDiff> {
+  const versions = await storage.getDocumentVersions(document.id);
+  const from = loadState(document, versions, fromId);
+  const to = loadState(document, versions, toId);
+
+  const [fromSchema, toSchema] = await Promise.all([
+    extractionSchemaForDocument({ extractionSchemaId: from.extractionSchemaId }),
+    extractionSchemaForDocument({ extractionSchemaId: to.extractionSchemaId }),
+  ]);
+  const definition = combineDefinitions(toSchema.definition, fromSchema.definition);
+
+  const side = ({ structuredData: _data, extractionSchemaId: _schema, ...rest }: DiffState): VersionDiffSide => rest;
+  return {
+    from: side(from),
+    to: side(to),
+    confidenceDelta:
+      from.validationConfidence !== null && to.validationConfidence !== null
+        ? to.validationConfidence - from.validationConfidence
+        : null,
+    sections: diffStructuredData(definition, from.structuredData, to.structuredData),
+  };
+}
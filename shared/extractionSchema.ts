@@ -0,0 +1,192 @@
+import { z } from "zod";
+
+/**
+ * Extraction schema definitions: the copy sections a document is split into
+ * and the fields every entry in a section has. Extraction, chunk merging,
+ * source spans, product projection, validation, analytics and export all
+ * read their section and field lists from here.
+ */
+
+// Field and section names become JSON keys, so they must be English identifiers
+const identifier = z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, "Must be an English identifier like ProductName");
+
+export const extractionFieldSchema = z.object({
+  name: identifier,
+  type: z.enum(["string", "string[]"]),
+  label: z.string().min(1),
+  description: z.string().default(""),
+  // name: identifies the entry (products are merged and indexed by it)
+  // legal: footnote definitions that {{sup:N}} tokens in other fields point to
+  role: z.enum(["name", "legal"]).optional(),
+});
+
+export const extractionSectionSchema = z.object({
+  name: identifier,
+  // How the section is labelled in source documents, e.g. "Business copy"
+  label: z.string().min(1),
+  description: z.string().default(""),
+});
+
+export const extractionSchemaDefinitionSchema = z
+  .object({
+    sections: z.array(extractionSectionSchema).min(1),
+    fields: z.array(extractionFieldSchema).min(1),
+  })
+  .superRefine((definition, ctx) => {
+    const duplicate = (names: string[]) => names.find((name, i) => names.indexOf(name) !== i);
+    const duplicateSection = duplicate(definition.sections.map((s) => s.name));
+    if (duplicateSection) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate section "${duplicateSection}"` });
+    }
+    const duplicateField = duplicate(definition.fields.map((f) => f.name));
+    if (duplicateField) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate field "${duplicateField}"` });
+    }
+    for (const role of ["name", "legal"] as const) {
+      const fields = definition.fields.filter((f) => f.role === role);
+      if (fields.length > 1) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Only one field can have the ${role} role` });
+      }
+      if (fields[0] && fields[0].type !== (role === "name" ? "string" : "string[]")) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `The ${role} field must be of type ${role === "name" ? "string" : "string[]"}`,
+        });
+      }
+    }
+  });
+
+export const createExtractionSchemaRequest = z.object({
+  key: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Key must be lowercase letters, digits and dashes"),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  definition: extractionSchemaDefinitionSchema,
+  promptGuidance: z.string().optional(),
+});
+
+export type ExtractionFieldDefinition = z.infer<typeof extractionFieldSchema>;
+export type ExtractionSectionDefinition = z.infer<typeof extractionSectionSchema>;
+export type ExtractionSchemaDefinition = z.infer<typeof extractionSchemaDefinitionSchema>;
+export type CreateExtractionSchemaRequest = z.infer<typeof createExtractionSchemaRequest>;
+
+export const DEFAULT_EXTRACTION_SCHEMA_KEY = "product-copy";
+
+// The product marketing copy layout the tool was built for
+export const DEFAULT_EXTRACTION_SCHEMA_DEFINITION: ExtractionSchemaDefinition = {
+  sections: [
+    { name: "ProductCopy", label: "Product copy", description: "General product marketing copy" },
+    { name: "BusinessCopy", label: "Business copy", description: "Copy targeted at business customers" },
+    { name: "UpgraderCopy", label: "Upgrader copy", description: "Copy for customers upgrading from previous versions" },
+  ],
+  fields: [
+    { name: "ProductName", type: "string", label: "Product Name", description: "Name of the product this copy is for", role: "name" },
+    { name: "Headlines", type: "string[]", label: "Headlines", description: "Array of headline strings" },
+    {
+      name: "AdvertisingCopy",
+      type: "string",
+      label: "Advertising Copy",
+      description: "Main advertising copy/description with {{sup:N}} tokens for footnotes",
+    },
+    {
+      name: "KeyFeatureBullets",
+      type: "string[]",
+      label: "Key Feature Bullets",
+      description: "Array of feature bullets with {{sup:N}} tokens for footnotes",
+    },
+    {
+      name: "LegalReferences",
+      type: "string[]",
+      label: "Legal References",
+      description: "Legal disclaimers/footnotes, each prefixed with {{sup:N}} token or standalone legal text",
+      role: "legal",
+    },
+  ],
+};
+
+export function nameField(definition: ExtractionSchemaDefinition): ExtractionFieldDefinition | undefined {
+  return definition.fields.find((field) => field.role === "name");
+}
+
+export function legalField(definition: ExtractionSchemaDefinition): ExtractionFieldDefinition | undefined {
+  return definition.fields.find((field) => field.role === "legal");
+}
+
+// Entries of a section in structured data; legacy documents stored a single object
+export function sectionEntries(structuredData: any, section: string): any[] {
+  const value = structuredData?.[section];
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).filter((entry) => entry && typeof entry === "object");
+}
+
+// Display name of an entry: its name field, or a numbered fallback
+export function entryName(definition: ExtractionSchemaDefinition, entry: any, index: number): string {
+  const field = nameField(definition);
+  const value = field ? entry?.[field.name] : undefined;
+  return typeof value === "string" && value ? value : `Entry ${index + 1}`;
+}
+
+// One problem in edited structured data, at a path like ProductCopy[0].Headlines[1]
+export interface StructuredDataIssue {
+  path: string;
+  message: string;
+}
+
+// Structured data following a definition: only its sections, each an array of entries
+// with only its fields. A legacy single entry object is wrapped in an array.
+export function structuredDataSchema(definition: ExtractionSchemaDefinition) {
+  const entry = z
+    .object(
+      Object.fromEntries(
+        definition.fields.map((field) => [
+          field.name,
+          (field.type === "string[]" ? z.array(z.string()) : z.string()).nullable().optional(),
+        ])
+      )
+    )
+    .strict();
+  const section = z.preprocess(
+    (value) => (value && typeof value === "object" && !Array.isArray(value) ? [value] : value),
+    z.array(entry).nullable().optional()
+  );
+  return z.object(Object.fromEntries(definition.sections.map((s) => [s.name, section]))).strict();
+}
+
+function formatIssuePath(path: Array<string | number>): string {
+  return path.reduce<string>(
+    (text, part) => (typeof part === "number" ? `${text}[${part}]` : text ? `${text}.${part}` : part),
+    ""
+  );
+}
+
+export function validateStructuredData(
+  definition: ExtractionSchemaDefinition,
+  data: unknown
+): { success: true; data: Record<string, unknown> } | { success: false; issues: StructuredDataIssue[] } {
+  const result = structuredDataSchema(definition).safeParse(data);
+  if (result.success) return { success: true, data: result.data };
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({ path: formatIssuePath(issue.path), message: issue.message })),
+  };
+}
+
+// Paths of the entries and fields that differ, e.g. ["ProductCopy[0].Headlines", "BusinessCopy[2]"]
+export function changedStructuredDataPaths(definition: ExtractionSchemaDefinition, before: any, after: any): string[] {
+  const paths: string[] = [];
+  for (const section of definition.sections) {
+    const oldEntries = sectionEntries(before, section.name);
+    const newEntries = sectionEntries(after, section.name);
+    for (let i = 0; i < Math.max(oldEntries.length, newEntries.length); i++) {
+      if (!oldEntries[i] || !newEntries[i]) {
+        paths.push(`${section.name}[${i}]`);
+        continue;
+      }
+      for (const field of definition.fields) {
+        if (JSON.stringify(oldEntries[i][field.name] ?? null) !== JSON.stringify(newEntries[i][field.name] ?? null)) {
+          paths.push(`${section.name}[${i}].${field.name}`);
+        }
+      }
+    }
+  }
+  return paths;
+}
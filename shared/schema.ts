@@ -1,14 +1,224 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, json, real, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, json, real, integer, unique, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { ExtractionSchemaDefinition } from "./extractionSchema";
+
+// Character range of one PDF page within extractedText (1-based page number)
+export interface PageRange {
+  page: number;
+  start: number;
+  end: number;
+}
+
+// Where an extracted field's value sits in extractedText; exact is false when
+// only the start and end of a long value could be matched
+export interface SourceSpan {
+  start: number;
+  end: number;
+  page: number | null;
+  exact: boolean;
+}
+
+// Keyed by JSON path into structuredData, e.g. "ProductCopy[0].Headlines[1]"
+export type SourceSpans = Record<string, SourceSpan>;
+
+// One difference between a language variant and its folder's original
+export interface ConsistencyIssue {
+  // JSON path in the variant, e.g. "ProductCopy[1].KeyFeatureBullets"
+  path: string;
+  check: "product-count" | "item-count" | "footnotes" | "legal-count" | "numbers";
+  message: string;
+}
+
+export interface VariantConsistency {
+  documentId: string;
+  documentName: string;
+  language: string | null;
+  issues: ConsistencyIssue[];
+}
+
+// Result of comparing every variant in a folder to the original
+export interface FolderConsistencyReport {
+  folderId: string;
+  originalDocumentId: string;
+  checkedAt: string;
+  issueCount: number;
+  variants: VariantConsistency[];
+}
+
+// One side of a version comparison; versionId and versionNumber are null for the current state
+export interface VersionDiffSide {
+  versionId: string | null;
+  versionNumber: number | null;
+  validationConfidence: number | null;
+  changeDescription: string | null;
+  createdAt: string;
+}
+
+// Word-level edit of a text field, in order; joining every non-delete part gives the new text
+export interface WordChange {
+  op: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export type FieldDiff =
+  | { name: string; label: string; type: "list"; added: string[]; removed: string[] }
+  | { name: string; label: string; type: "text"; before: string; after: string; words: WordChange[] };
+
+// Entries are matched by name within a section; unnamed ones by position
+export interface ProductDiff {
+  name: string;
+  status: "added" | "removed" | "changed";
+  fields: FieldDiff[];
+}
+
+// Structural comparison of two versions; only sections and products with changes are listed
+export interface VersionDiff {
+  from: VersionDiffSide;
+  to: VersionDiffSide;
+  confidenceDelta: number | null;
+  sections: Array<{ name: string; label: string; products: ProductDiff[] }>;
+}
+
+// A field (or a whole entry when field is null) that both a reviewer and a new extraction changed.
+// id names it in resolutions, e.g. ProductCopy["iPhone 15"].Headlines
+export interface MergeConflict {
+  id: string;
+  section: string;
+  entryName: string;
+  field: string | null;
+  base: unknown;
+  current: unknown;
+  incoming: unknown;
+}
+
+// A newer upload of a document's file, swapped in when the reprocess it triggered is applied
+export interface ReplacementFile {
+  storagePath: string;
+  fileType: string;
+  size: string;
+  fileHash: string | null;
+}
+
+// A reprocess waiting for its merge conflicts to be resolved; nothing is applied until then
+export interface PendingReprocess {
+  // Set when the reprocess came from a replacement upload
+  file?: ReplacementFile | null;
+  extractedText: string;
+  ocrPages: number[];
+  pageRanges: PageRange[];
+  language: string;
+  extractionSchemaId: string;
+  // The three sides of the merge: last model output, the document when reprocessed, new model output
+  base: unknown;
+  current: unknown;
+  incoming: unknown;
+  conflicts: MergeConflict[];
+  createdBy: string | null;
+  createdAt: string;
+}
+
+// Review lifecycle of a document; published documents are read-only until reopened
+export const REVIEW_STATUSES = ["draft", "in_review", "changes_requested", "approved", "published"] as const;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  changes_requested: "Changes Requested",
+  approved: "Approved",
+  published: "Published",
+};
+
+// Allowed next statuses; published -> in_review reopens a document for editing
+export const REVIEW_TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  draft: ["in_review"],
+  in_review: ["changes_requested", "approved"],
+  changes_requested: ["in_review"],
+  approved: ["published", "changes_requested"],
+  published: ["in_review"],
+};
+
+// Roles in increasing order of access; each role can do everything the ones before it can
+export const USER_ROLES = ["viewer", "editor", "reviewer", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  viewer: "Viewer",
+  editor: "Editor",
+  reviewer: "Reviewer",
+  admin: "Admin",
+};
+
+export function hasRole(role: string, minimum: UserRole): boolean {
+  return USER_ROLES.indexOf(role as UserRole) >= USER_ROLES.indexOf(minimum);
+}
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: varchar("username", { length: 100 }).notNull().unique(),
+  passwordHash: text("password_hash").notNull(), // scrypt, "hash.salt" in hex
+  role: varchar("role", { length: 20 }).notNull().default("viewer"), // see USER_ROLES
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Login sessions, written by connect-pg-simple; declared here so db:push keeps the table
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => ({
+  expireIdx: index("sessions_expire_idx").on(table.expire),
+}));
+
+// Append-only record of every change made through storage (see AuditedStorage)
+export const AUDIT_ENTITY_TYPES = ["document", "folder", "product", "extraction_schema", "user"] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+// Changed fields with their old and new values; bulky fields are logged as a size
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }), // null for system changes
+  action: varchar("action", { length: 50 }).notNull(), // e.g. "document.update", "version.create"
+  entityType: varchar("entity_type", { length: 30 }).notNull(), // see AUDIT_ENTITY_TYPES
+  entityId: varchar("entity_id").notNull(),
+  entityName: text("entity_name"), // kept so deleted entities stay recognizable
+  changes: json("changes").$type<AuditChanges>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  entityIdx: index("audit_log_entity_idx").on(table.entityType, table.entityId),
+  createdAtIdx: index("audit_log_created_at_idx").on(table.createdAt),
+}));
+
+// Versioned extraction layouts; folders and documents bind to a key and use its latest version
+export const extractionSchemas = pgTable("extraction_schemas", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: varchar("key", { length: 100 }).notNull(),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  definition: json("definition").$type<ExtractionSchemaDefinition>().notNull(),
+  // Response schema sent to the extraction model, generated from the definition
+  jsonSchema: json("json_schema").$type<Record<string, unknown>>().notNull(),
+  promptGuidance: text("prompt_guidance"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  keyVersion: unique("extraction_schemas_key_version").on(table.key, table.version),
+}));
 
 export const folders = pgTable("folders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   description: text("description"),
-  parentFolderId: varchar("parent_folder_id").references(() => folders.id, { onDelete: "cascade" }),
+  parentFolderId: varchar("parent_folder_id").references((): AnyPgColumn => folders.id, { onDelete: "cascade" }),
+  extractionSchemaKey: varchar("extraction_schema_key", { length: 100 }), // inherited by subfolders
+  consistencyReport: json("consistency_report").$type<FolderConsistencyReport>(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  deletedAt: timestamp("deleted_at"), // in the trash since; purged after TRASH_RETENTION_DAYS
 });
 
 export const documents = pgTable("documents", {
@@ -17,6 +227,8 @@ export const documents = pgTable("documents", {
   fileType: varchar("file_type", { length: 10 }).notNull(),
   filePath: text("file_path").notNull(),
   size: text("size").notNull(),
+  fileHash: varchar("file_hash", { length: 64 }), // SHA-256 of the stored file
+  textHash: varchar("text_hash", { length: 64 }), // SHA-256 of its normalized extracted text, to spot near-identical files
   folderId: varchar("folder_id").references(() => folders.id, { onDelete: "set null" }),
   isOriginal: boolean("is_original").notNull().default(false),
   language: varchar("language", { length: 50 }),
@@ -24,13 +236,68 @@ export const documents = pgTable("documents", {
   year: varchar("year", { length: 4 }),
   isProcessed: boolean("is_processed").notNull().default(false),
   extractedText: text("extracted_text"),
+  ocrPages: json("ocr_pages").$type<number[]>(),
+  pageRanges: json("page_ranges").$type<PageRange[]>(),
   translatedText: text("translated_text"),
   structuredData: json("structured_data"),
+  aiStructuredData: json("ai_structured_data"), // last model output, the base for merging manual edits on reprocess
+  pendingReprocess: json("pending_reprocess").$type<PendingReprocess>(),
+  extractionSchemaKey: varchar("extraction_schema_key", { length: 100 }), // overrides the folder's schema
+  extractionSchemaId: varchar("extraction_schema_id").references(() => extractionSchemas.id, { onDelete: "set null" }), // version structuredData was extracted with
+  sourceSpans: json("source_spans").$type<SourceSpans>(),
   validationConfidence: real("validation_confidence"),
   validationIssues: json("validation_issues").$type<string[]>(),
+  consistencyIssues: json("consistency_issues").$type<string[]>(), // differences from the folder's original
   needsReview: boolean("needs_review").notNull().default(false),
+  reviewStatus: varchar("review_status", { length: 20 }).notNull().default("draft"), // see REVIEW_STATUSES
+  reviewStatusChangedAt: timestamp("review_status_changed_at").notNull().defaultNow(),
+  assignee: text("assignee"),
+  dueDate: timestamp("due_date"),
+  reviewNotes: text("review_notes"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  deletedAt: timestamp("deleted_at"), // in the trash since; purged after TRASH_RETENTION_DAYS
+}, (table) => ({
+  fileHashIdx: index("documents_file_hash_idx").on(table.fileHash),
+  textHashIdx: index("documents_text_hash_idx").on(table.textHash),
+}));
+
+export const reviewTransitions = pgTable("review_transitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  fromStatus: varchar("from_status", { length: 20 }).notNull(),
+  toStatus: varchar("to_status", { length: 20 }).notNull(),
+  note: text("note"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Discussion threads anchored to a JSON path (and optionally a span of extractedText)
+export const commentThreads = pgTable("comment_threads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  path: text("path").notNull(), // e.g. "ProductCopy[2].KeyFeatureBullets[1]"
+  // What the path pointed at when the thread was anchored, used to find it again after reprocessing
+  anchorValue: text("anchor_value"),
+  entryName: text("entry_name"),
+  spanStart: integer("span_start"),
+  spanEnd: integer("span_end"),
+  quotedText: text("quoted_text"),
+  orphaned: boolean("orphaned").notNull().default(false), // no matching field after reprocessing
+  resolved: boolean("resolved").notNull().default(false),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const comments = pgTable("comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  threadId: varchar("thread_id").notNull().references(() => commentThreads.id, { onDelete: "cascade" }),
+  body: text("body").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const documentVersions = pgTable("document_versions", {
@@ -39,9 +306,11 @@ export const documentVersions = pgTable("document_versions", {
   versionNumber: integer("version_number").notNull(),
   extractedText: text("extracted_text"),
   structuredData: json("structured_data"),
+  extractionSchemaId: varchar("extraction_schema_id").references(() => extractionSchemas.id, { onDelete: "set null" }),
   validationConfidence: real("validation_confidence"),
   validationIssues: json("validation_issues").$type<string[]>(),
   changeDescription: text("change_description"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -59,23 +328,110 @@ export const productVariants = pgTable("product_variants", {
   versionNumber: integer("version_number"),
   locale: varchar("locale", { length: 50 }),
   copyType: varchar("copy_type", { length: 50 }).notNull(),
+  name: text("name"), // entry name as written in this document's language
+  position: integer("position"), // index of the entry within its copy section
   headlines: json("headlines").$type<string[]>(),
   advertisingCopy: text("advertising_copy"),
   keyFeatureBullets: json("key_feature_bullets").$type<string[]>(),
   legalReferences: json("legal_references").$type<string[]>(),
+  // Every field of the entry, keyed by the extraction schema's field names
+  fields: json("fields").$type<Record<string, string | string[]>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Localized names a product is known by; projection links entries to products through them
+export const productAliases = pgTable("product_aliases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  locale: varchar("locale", { length: 50 }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  nameLocale: unique("product_aliases_name_locale").on(table.name, table.locale),
+}));
+
+// Background processing: one job per upload request, one row per uploaded file
+export const processingJobs = pgTable("processing_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  kind: varchar("kind", { length: 20 }).notNull(), // single | set
+  status: varchar("status", { length: 20 }).notNull().default("queued"), // queued | running | completed | failed
+  folderId: varchar("folder_id").references(() => folders.id, { onDelete: "set null" }),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }), // recorded on the documents it creates
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const processingJobFiles = pgTable("processing_job_files", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => processingJobs.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  name: text("name").notNull(),
+  fileType: varchar("file_type", { length: 10 }).notNull(),
+  storagePath: text("storage_path").notNull(),
+  size: text("size").notNull(),
+  isOriginal: boolean("is_original").notNull().default(false),
+  status: varchar("status", { length: 20 }).notNull().default("queued"), // queued | running | retrying | duplicate | completed | failed
+  stage: varchar("stage", { length: 20 }).notNull().default("extracting"), // extracting | structuring | validating | projecting | done
+  attempts: integer("attempts").notNull().default(0), // attempts at the current stage
+  error: text("error"),
+  // Stage output kept between attempts so a retry resumes where it failed
+  extractedText: text("extracted_text"),
+  ocrPages: json("ocr_pages").$type<number[]>(),
+  pageRanges: json("page_ranges").$type<PageRange[]>(),
+  documentId: varchar("document_id").references(() => documents.id, { onDelete: "set null" }),
+  fileHash: varchar("file_hash", { length: 64 }),
+  duplicateAction: varchar("duplicate_action", { length: 20 }).notNull().default("ask"), // see DUPLICATE_ACTIONS
+  duplicateOfDocumentId: varchar("duplicate_of_document_id").references(() => documents.id, { onDelete: "set null" }),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lockedAt: timestamp("locked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Cached LLM responses, keyed by a hash of provider, model, prompt version and input (see server/llmCache.ts)
+export const llmCache = pgTable("llm_cache", {
+  key: varchar("key", { length: 64 }).primaryKey(),
+  task: varchar("task", { length: 30 }).notNull(),
+  provider: varchar("provider", { length: 30 }).notNull(),
+  model: text("model").notNull(),
+  promptVersion: varchar("prompt_version", { length: 20 }).notNull(),
+  inputHash: varchar("input_hash", { length: 64 }).notNull(),
+  response: text("response").notNull(),
+  hits: integer("hits").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastHitAt: timestamp("last_hit_at"),
+}, (table) => ({
+  taskIdx: index("llm_cache_task_idx").on(table.task),
+}));
+
+// Lookup counters per task; kept apart from the entries so invalidating the cache keeps the history
+export const llmCacheStats = pgTable("llm_cache_stats", {
+  task: varchar("task", { length: 30 }).primaryKey(),
+  hits: integer("hits").notNull().default(0),
+  misses: integer("misses").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const insertFolderSchema = createInsertSchema(folders).omit({
   id: true,
   createdAt: true,
+  consistencyReport: true,
+  createdBy: true,
+  deletedAt: true,
 });
 
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  // Only changed through review transitions
+  reviewStatus: true,
+  reviewStatusChangedAt: true,
+  // Only changed through the trash
+  deletedAt: true,
 });
 
 export const insertDocumentVersionSchema = createInsertSchema(documentVersions).omit({
@@ -105,3 +461,204 @@ export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
 export type ProductVariant = typeof productVariants.$inferSelect;
+export type InsertProductAlias = Omit<typeof productAliases.$inferInsert, "id" | "createdAt">;
+export type ProductAlias = typeof productAliases.$inferSelect;
+
+export const mergeProductsRequest = z.object({
+  productIds: z.array(z.string()).min(1),
+});
+
+export const splitProductRequest = z.object({
+  variantIds: z.array(z.string()).min(1),
+  name: z.string().trim().min(1),
+});
+
+// Fields PATCH /api/documents/:id may change; everything else is set by processing or review
+export const updateDocumentRequest = z
+  .object({
+    name: z.string().trim().min(1).max(500),
+    folderId: z.string().nullable(),
+    isOriginal: z.boolean(),
+    language: z.string().max(50).nullable(),
+    month: z.string().max(20).nullable(),
+    year: z.string().max(4).nullable(),
+    extractionSchemaKey: z.string().max(100).nullable(),
+    // Checked against the document's extraction schema by the route
+    structuredData: z.unknown(),
+    // Recorded on the version a structuredData edit creates
+    changeDescription: z.string().trim().max(500),
+  })
+  .partial()
+  .strict();
+
+// Fields PATCH /api/folders/:id may change; the report, owner and trash state are set by the server
+export const updateFolderRequest = z
+  .object({
+    name: z.string().trim().min(1).max(500),
+    description: z.string().max(2000).nullable(),
+    // Checked like a move: the parent must exist and not be inside the folder
+    parentFolderId: z.string().nullable(),
+    extractionSchemaKey: z.string().max(100).nullable(),
+  })
+  .partial()
+  .strict();
+
+export const moveFolderRequest = z.object({ parentFolderId: z.string().nullable().default(null) }).strict();
+
+export const moveDocumentRequest = z.object({ folderId: z.string().nullable().default(null) }).strict();
+
+// "current" compares against the document as it is now
+export const versionDiffQuery = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1).default("current"),
+});
+
+/**
+ * What an upload does when the file matches an existing document, either
+ * byte for byte or by its normalized text: ask (stop and let the user pick
+ * one of the others), link to the existing document instead of creating
+ * one, add the file to it as a new version, or proceed with a new document.
+ */
+export const DUPLICATE_ACTIONS = ["ask", "link", "version", "proceed"] as const;
+export type DuplicateAction = (typeof DUPLICATE_ACTIONS)[number];
+
+export const uploadDuplicateAction = z.enum(DUPLICATE_ACTIONS).default("ask");
+
+export const resolveDuplicateRequest = z.object({
+  action: z.enum(["link", "version", "proceed"]),
+});
+
+// An uploaded file that matches a live document; "file" is an identical file, "text" the same normalized text
+export interface DuplicateMatch {
+  fileName: string;
+  match: "file" | "text";
+  document: Pick<Document, "id" | "name" | "folderId" | "createdAt">;
+}
+
+// Per conflict id; conflicts left out keep the current (manually edited) value
+export const resolveReprocessRequest = z.object({
+  resolutions: z.record(z.string(), z.enum(["current", "incoming"])).default({}),
+});
+
+export const reviewTransitionRequest = z.object({
+  status: z.enum(REVIEW_STATUSES),
+  note: z.string().trim().max(2000).optional(),
+});
+
+export const reviewAssignmentRequest = z.object({
+  assignee: z.string().trim().max(200).nullable().optional(),
+  dueDate: z.coerce.date().nullable().optional(),
+  reviewNotes: z.string().max(5000).nullable().optional(),
+});
+
+// Paths into structured data: Section[i], Section[i].Field or Section[i].Field[j]
+export const COMMENT_PATH_PATTERN = /^[A-Za-z][A-Za-z0-9_]*\[\d+\](?:\.[A-Za-z][A-Za-z0-9_]*(?:\[\d+\])?)?$/;
+
+export const createCommentThreadRequest = z
+  .object({
+    path: z.string().regex(COMMENT_PATH_PATTERN, "Must be a path like ProductCopy[0].Headlines[1]"),
+    body: z.string().trim().min(1).max(5000),
+    spanStart: z.number().int().min(0).optional(),
+    spanEnd: z.number().int().min(0).optional(),
+  })
+  .refine((req) => (req.spanStart === undefined) === (req.spanEnd === undefined), "spanStart and spanEnd go together")
+  .refine((req) => req.spanStart === undefined || req.spanEnd! > req.spanStart, "spanEnd must be after spanStart");
+
+export const createCommentRequest = z.object({
+  body: z.string().trim().min(1).max(5000),
+});
+
+export const updateCommentThreadRequest = z.object({
+  resolved: z.boolean(),
+});
+
+export const loginRequest = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export const createUserRequest = z.object({
+  username: z.string().trim().min(3).max(100),
+  password: z.string().min(8).max(200),
+  role: z.enum(USER_ROLES).default("viewer"),
+});
+
+export const updateUserRequest = z.object({
+  role: z.enum(USER_ROLES).optional(),
+  password: z.string().min(8).max(200).optional(),
+});
+
+export const auditLogQuery = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().optional(),
+  actorId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Extraction schema, review transition, comment, job, LLM cache, user and audit rows are only written by the server, so they use drizzle's insert types directly
+export type InsertExtractionSchema = Omit<typeof extractionSchemas.$inferInsert, "id" | "createdAt">;
+export type ExtractionSchema = typeof extractionSchemas.$inferSelect;
+export type InsertCommentThread = Omit<typeof commentThreads.$inferInsert, "id" | "createdAt" | "updatedAt">;
+export type CommentThread = typeof commentThreads.$inferSelect;
+export type InsertComment = Omit<typeof comments.$inferInsert, "id" | "createdAt">;
+export type Comment = typeof comments.$inferSelect;
+export type CommentThreadWithComments = CommentThread & { comments: Comment[] };
+export type InsertReviewTransition = Omit<typeof reviewTransitions.$inferInsert, "id" | "createdAt">;
+export type ReviewTransition = typeof reviewTransitions.$inferSelect;
+export type InsertProcessingJob = Omit<typeof processingJobs.$inferInsert, "id" | "createdAt" | "updatedAt">;
+export type ProcessingJob = typeof processingJobs.$inferSelect;
+export type InsertProcessingJobFile = Omit<typeof processingJobFiles.$inferInsert, "id" | "jobId" | "createdAt" | "updatedAt">;
+export type ProcessingJobFile = typeof processingJobFiles.$inferSelect;
+export type InsertLlmCacheEntry = Omit<typeof llmCache.$inferInsert, "hits" | "createdAt" | "lastHitAt">;
+export type LlmCacheEntry = typeof llmCache.$inferSelect;
+// Hit and miss counts for one task, with the number of entries currently cached
+export type LlmCacheTaskStats = { task: string; hits: number; misses: number; entries: number };
+// Cache effectiveness as shown in analytics; hit rates are null until the first lookup
+export interface LlmCacheSummary {
+  enabled: boolean;
+  ttlHours: number;
+  hits: number;
+  misses: number;
+  hitRate: number | null;
+  tasks: Array<LlmCacheTaskStats & { hitRate: number | null }>;
+}
+export type InsertUser = Omit<typeof users.$inferInsert, "id" | "createdAt">;
+export type User = typeof users.$inferSelect;
+// What the API returns for a user
+export type SafeUser = Omit<User, "passwordHash">;
+export type InsertAuditEntry = Omit<typeof auditLog.$inferInsert, "id" | "createdAt">;
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type AuditLogQuery = z.infer<typeof auditLogQuery>;
+
+// Review queue rows: review fields without the document's text and data
+export type ReviewQueueItem = Pick<
+  Document,
+  | "id"
+  | "name"
+  | "folderId"
+  | "language"
+  | "isOriginal"
+  | "reviewStatus"
+  | "reviewStatusChangedAt"
+  | "assignee"
+  | "dueDate"
+  | "validationConfidence"
+  | "needsReview"
+  | "createdAt"
+>;
+
+// Rows changed together by moving a folder to or from the trash
+export type TrashedItems = { folders: Folder[]; documents: Document[] };
+
+// What the trash view lists: items deleted on their own, not along with a trashed folder
+export type TrashContents = {
+  folders: Array<Folder & { documentCount: number }>;
+  documents: Array<Omit<Document, "filePath">>;
+  retentionDays: number;
+};
+
+// Progress view of a job returned by the API (stage output and storage paths omitted)
+export type ProcessingJobFileProgress = Omit<ProcessingJobFile, "storagePath" | "extractedText" | "ocrPages" | "pageRanges">;
+export type ProcessingJobProgress = ProcessingJob & { files: ProcessingJobFileProgress[] };
@@ -0,0 +1,28 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// API tests run the real routes against the in-memory storage, blob store and stub LLM
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    testTimeout: 20000,
+    hookTimeout: 20000,
+    env: {
+      NODE_ENV: "test",
+      STORAGE_BACKEND: "memory",
+      STORAGE_DRIVER: "memory",
+      LLM_PROVIDER: "stub",
+      SESSION_SECRET: "test-session-secret",
+      JOB_CONCURRENCY: "1",
+      JOB_POLL_INTERVAL_MS: "20",
+      // Tests rewrite the stub's responses between identical requests; the cache's own tests switch it on
+      LLM_CACHE: "off",
+    },
+  },
+});